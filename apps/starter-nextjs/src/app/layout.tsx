@@ -1,7 +1,8 @@
 import type { Metadata } from "next";
 
 import { Geist, Geist_Mono } from "next/font/google";
-import { IgniterProvider } from '@igniter-js/core/client'
+import { IgniterProvider, dehydrate } from '@igniter-js/core/client'
+import { api } from "@/igniter.client"
 
 import "./globals.css"
 
@@ -20,17 +21,22 @@ export const metadata: Metadata = {
   description: "A customizable boilerplate for Igniter.js applications",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // Queries prefetched on the server, rendered by the client components without fetching them again
+  const dehydratedState = await dehydrate([
+    api.example.hello.prefetch(),
+  ])
+
   return (
     <html lang="en" suppressHydrationWarning>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased dark`}
       >
-        <IgniterProvider>
+        <IgniterProvider dehydratedState={dehydratedState}>
           {children}
         </IgniterProvider>
       </body>
@@ -2,7 +2,7 @@
 /// <reference types="vite/client" />
 // other imports...
 
-import { IgniterProvider } from '@igniter-js/core/client'
+import { IgniterProvider, dehydrate } from '@igniter-js/core/client'
 import {
   createRootRoute,
   HeadContent,
@@ -11,6 +11,7 @@ import {
 } from '@tanstack/react-router'
 
 import appCss from '../styles/app.css?url'
+import { api } from '../igniter.client'
 
 export const Route = createRootRoute({
   head: () => ({
@@ -21,10 +22,16 @@ export const Route = createRootRoute({
       { name: 'description', content: 'Igniter.js + TanStack Start' },
     ],
   }),
+  // Queries prefetched on the server, rendered by the components without fetching them again
+  loader: () => dehydrate([
+    api.example.hello.prefetch(),
+  ]),
   component: RootComponent,
 })
 
 function RootComponent() {
+  const dehydratedState = Route.useLoaderData()
+
   return (
     <html lang="en">
       <head>
@@ -40,7 +47,7 @@ function RootComponent() {
       </head>
       <body className='dark'>
         {/* The IgniterProvider wraps the entire application */}
-        <IgniterProvider>
+        <IgniterProvider dehydratedState={dehydratedState}>
           <Outlet />
         </IgniterProvider>
         <Scripts />
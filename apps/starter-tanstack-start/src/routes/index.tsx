@@ -2,12 +2,15 @@ import { createFileRoute } from '@tanstack/react-router'
 import { ArrowRight, Code2, FileText, ArrowUpRight } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
+import { api } from "@/igniter.client"
 
 export const Route = createFileRoute('/')({
   component: HomeComponent,
 })
 
 function HomeComponent() {
+  const hello = api.example.hello.useQuery()
+
   return (
     <div className="h-screen grid grid-rows-[auto_1fr_auto] gap-4">
       <header className="border-b bg-black/5 w-full border-x px-3 flex items-center justify-between space-x-4">
@@ -53,6 +56,10 @@ function HomeComponent() {
             <p className="text-sm text-muted-foreground leading-relaxed">
               3. Open the browser and navigate to `http://localhost:3000/api/v1/docs`.
             </p>
+
+            <p className="text-sm text-muted-foreground leading-relaxed">
+              4. Prefetched on the server: {hello.data?.message}
+            </p>
           </div>
 
           <section className="grid gap-4 sm:grid-cols-2" aria-label="Resources">
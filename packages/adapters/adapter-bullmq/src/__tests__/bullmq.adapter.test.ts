@@ -1,6 +1,7 @@
 import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
 import { createBullMQAdapter } from '../bullmq.adapter'
 import type { BullMQAdapterOptions } from '../types'
+import type { Processor, Queue } from 'bullmq'
 import { z } from 'zod'
 
 // Mock isServer to be true by default for most tests
@@ -9,6 +10,7 @@ vi.mock('@igniter-js/core', async (importOriginal) => {
   return {
     ...actual,
     isServer: true, // Default to server-side
+    publishJobState: vi.fn(),
   }
 })
 
@@ -496,6 +498,75 @@ describe('BullMQ Adapter', () => {
       expect(typeof jobId).toBe('string')
     })
 
+    test('should return job handles awaiting the queue events', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+      const sendJob = adapter.register({
+        name: 'Send',
+        input: z.object({ message: z.string() }),
+        handler: async () => ({ sent: true })
+      })
+      await adapter.bulkRegister({ 'mail.send': sendJob })
+
+      const proxy = adapter.merge({ mail: adapter.router({ namespace: 'mail', jobs: { send: sendJob } }) }).createProxy()
+      const job = await proxy.mail.enqueue({ task: 'send', input: { message: 'hi' } })
+
+      expect(job.id).toBe('test-job-id')
+      expect(String(job)).toBe('test-job-id')
+      await expect(job.status()).resolves.toBe('failed')
+      await expect(job.waitUntilFinished(5000)).resolves.toEqual({ sent: true })
+
+      const { QueueEvents, Job } = await import('bullmq')
+      const queueEvents = (QueueEvents as any).mock.results.at(-1).value
+      expect(queueEvents.waitUntilReady).toHaveBeenCalled()
+      expect(new (Job as any)().waitUntilFinished).toHaveBeenCalledWith(queueEvents, 5000)
+
+      await expect(adapter.waitUntilFinished({ id: 'missing' })).rejects.toThrow('not found')
+    })
+
+    test('should look up the job handles in the queue the jobs were added to', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+      const sendJob = adapter.register({
+        name: 'Send',
+        input: z.object({ message: z.string() }),
+        handler: async () => ({ sent: true }),
+        queue: { name: 'mail' }
+      })
+      await adapter.bulkRegister({ 'mail.send': sendJob })
+
+      const proxy = adapter.merge({ mail: adapter.router({ namespace: 'mail', jobs: { send: sendJob } }) }).createProxy()
+      const job = await proxy.mail.enqueue({ task: 'send', input: { message: 'hi' }, queue: { prefix: 'tenant-1' } })
+      await job.status()
+
+      const { Queue } = await import('bullmq')
+      const queueIndex = vi.mocked(Queue).mock.calls.findIndex(([name]) => name === 'tenant-1__mail')
+      const queue = vi.mocked(Queue).mock.results[queueIndex].value
+      expect(queue.add).toHaveBeenCalled()
+      expect(queue.getJob).toHaveBeenCalledWith('test-job-id')
+    })
+
+    test('should return job handles from the executor of the merged routers', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+      const sendJob = adapter.register({
+        name: 'Send',
+        input: z.object({ message: z.string() }),
+        handler: async () => ({ sent: true }),
+        queue: { name: 'mail' }
+      })
+      await adapter.bulkRegister({ 'mail.send': sendJob })
+
+      const executor = adapter.merge({ mail: adapter.router({ namespace: 'mail', jobs: { send: sendJob } }) })
+      const job = await executor.mail.schedule({ task: 'send', input: { message: 'hi' }, delay: 1000 })
+      const [bulkJob] = await executor.mail.bulk([{ jobId: 'send', input: { message: 'hey' } }])
+
+      expect(job.id).toBe('test-job-id')
+      expect(String(bulkJob)).toBe('test-job-id')
+      await job.status()
+
+      const { Queue } = await import('bullmq')
+      const queueIndex = vi.mocked(Queue).mock.calls.findIndex(([name]) => name === 'mail')
+      expect(vi.mocked(Queue).mock.results[queueIndex].value.getJob).toHaveBeenCalledWith('test-job-id')
+    })
+
     test('should validate job exists before invocation', async () => {
       const adapter = createBullMQAdapter<TestContext>(options)
       
@@ -506,6 +577,74 @@ describe('BullMQ Adapter', () => {
     })
   })
 
+  describe('Job Flows', () => {
+    test('should add the first stage as children of a continuation job', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+
+      adapter.bulkRegister({
+        'user.create': {
+          name: 'Create User',
+          input: z.object({ email: z.string() }),
+          handler: async () => ({ id: 'u1' })
+        },
+        'user.welcome': {
+          name: 'Welcome User',
+          input: z.object({ id: z.string() }),
+          handler: async () => 'sent'
+        }
+      })
+
+      const flowId = await adapter.flow!({
+        name: 'onboarding',
+        input: { email: 'user@example.com' },
+        stages: [[{ job: 'user.create' }], [{ job: 'user.welcome' }]]
+      })
+
+      const flowProducer = (adapter.client as any).instances.flowProducer
+      expect(flowProducer.add).toHaveBeenCalledWith(expect.objectContaining({
+        name: '__igniter.flow',
+        queueName: 'default',
+        data: expect.objectContaining({ id: flowId, name: 'onboarding', stage: 0, stages: 2 }),
+        children: [
+          expect.objectContaining({
+            name: 'user.create',
+            queueName: 'default',
+            data: { email: 'user@example.com' },
+            opts: expect.objectContaining({
+              jobId: `${flowId}__0__0`,
+              failParentOnFailure: true,
+              metadata: { flow: { id: flowId, name: 'onboarding', stage: 0, index: 0, stages: 2 } }
+            })
+          })
+        ]
+      }))
+    })
+
+    test('should validate flow jobs and input', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+
+      adapter.bulkRegister({
+        'user.create': {
+          name: 'Create User',
+          input: z.object({ email: z.string() }),
+          handler: async () => ({ id: 'u1' })
+        }
+      })
+
+      await expect(adapter.flow!({
+        name: 'onboarding',
+        input: {},
+        stages: [[{ job: 'user.missing' }]]
+      })).rejects.toThrow('Job "user.missing" is not registered')
+
+      await expect(adapter.flow!({
+        name: 'onboarding',
+        input: { email: 42 },
+        stages: [[{ job: 'user.create' }]]
+      })).rejects.toThrow('Invalid payload for job "user.create"')
+    })
+  })
+
   describe('Advanced Scheduling', () => {
     test('should process advanced schedule options', async () => {
       const adapter = createBullMQAdapter<TestContext>(options)
@@ -661,6 +800,325 @@ describe('BullMQ Adapter', () => {
     })
   })
 
+  describe('Job Management', () => {
+    test('should get a job with its state and logs', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+
+      const job = await adapter.getJob({ id: 'test-job-id' })
+
+      expect(job).toMatchObject({
+        id: 'test-job-id',
+        status: 'failed',
+        queueName: 'default',
+        logs: ['started'],
+        maxAttempts: 1
+      })
+    })
+
+    test('should return null for unknown jobs', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+
+      await expect(adapter.getJob({ id: 'unknown' })).resolves.toBeNull()
+    })
+
+    test('should retry failed jobs and reject other actions', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+
+      await expect(adapter.retry({ id: 'test-job-id' })).resolves.toBeUndefined()
+      await expect(adapter.cancel({ id: 'test-job-id' })).rejects.toThrow('Only waiting or delayed jobs can be cancelled')
+      await expect(adapter.promote({ id: 'test-job-id' })).rejects.toThrow('Only delayed jobs can be promoted')
+      await expect(adapter.promote({ id: 'test-job-id' })).rejects.toMatchObject({ code: 'JOB_STATE_CONFLICT' })
+      await expect(adapter.retry({ id: 'unknown' })).rejects.toThrow('not found')
+    })
+
+    test('should pause, resume and drain queues', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+
+      await expect(adapter.pauseQueue({ name: 'emails' })).resolves.toBeUndefined()
+      await expect(adapter.resumeQueue({ name: 'emails' })).resolves.toBeUndefined()
+      await expect(adapter.drain({ name: 'emails' }, { delayed: true })).resolves.toBeUndefined()
+    })
+
+    test('should count prioritized jobs as waiting', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+
+      const counts = await adapter.getQueueCounts()
+
+      expect(counts).toEqual({ waiting: 3, active: 0, completed: 3, failed: 1, delayed: 0, paused: 0 })
+    })
+  })
+
+  describe('Dead-Letter Queues', () => {
+    test('should list and purge the dead-letter entries of a queue', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+
+      const entries = await adapter.listDeadLetters({ queue: { name: 'emails' }, limit: 10 })
+
+      expect(entries).toHaveLength(1)
+      expect(entries[0]).toMatchObject({ id: 'test-job-id', name: 'test-job' })
+      await expect(adapter.purgeDeadLetters({ queue: { name: 'emails' } })).resolves.toBe(2)
+      await expect(adapter.purgeDeadLetters({ ids: ['test-job-id', 'unknown'] })).resolves.toBe(1)
+    })
+
+    test('should reject replaying unknown entries', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+
+      await expect(adapter.getDeadLetter({ id: 'unknown' })).resolves.toBeNull()
+      await expect(adapter.replayDeadLetter({ id: 'unknown' })).rejects.toThrow('Dead-letter entry "unknown" not found')
+    })
+
+    test('should replay entries as new jobs', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+      const { Queue } = await import('bullmq')
+
+      await adapter.replayDeadLetter({ id: 'test-job-id' })
+
+      const queue = vi.mocked(Queue).mock.results.map((result) => result.value).find((queue) => queue.add.mock.calls.length)
+      expect(queue.add).toHaveBeenCalledWith('test-job', undefined, expect.not.objectContaining({ jobId: expect.anything() }))
+    })
+  })
+
+  describe('Declarative Schedules', () => {
+    test('should list the declarative schedules with their input', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+
+      const schedules = await adapter.listSchedules()
+
+      expect(schedules).toEqual([
+        expect.objectContaining({ job: 'reports.daily', cron: '0 9 * * *', input: { team: 'ops' }, queueName: 'default' })
+      ])
+    })
+
+    test('should replace the schedule of a job', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+      await adapter.bulkRegister({
+        'reports.daily': {
+          name: 'Daily Report',
+          input: z.object({ team: z.string() }),
+          handler: async () => ({ sent: true })
+        }
+      })
+
+      await adapter.upsertSchedule({
+        job: 'reports.daily',
+        schedule: { cron: '0 10 * * *', tz: 'Europe/Lisbon', input: { team: 'sales' } }
+      })
+
+      const { Queue } = await import('bullmq')
+      const queue = (Queue as any).mock.results.at(-1).value
+      expect(queue.removeRepeatableByKey).toHaveBeenCalledWith('reports.daily::::0 9 * * *')
+      expect(queue.add).toHaveBeenCalledWith('reports.daily', { team: 'sales' }, expect.objectContaining({
+        repeat: { pattern: '0 10 * * *', tz: 'Europe/Lisbon' }
+      }))
+    })
+  })
+
+  describe('Rate Limits, Concurrency Groups and Debouncing', () => {
+    const startWorker = async (definition: Record<string, any>) => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+      const handler = vi.fn().mockResolvedValue({ done: true })
+      await adapter.bulkRegister({
+        'test-job': { name: 'Test Job', input: z.object({}), handler, ...definition }
+      })
+      await adapter.worker({ queues: ['default'] })
+
+      const { Worker } = await import('bullmq')
+      const processor = vi.mocked(Worker).mock.calls.at(-1)![1] as Processor
+      const redis = vi.mocked(await vi.mocked(Worker).mock.results.at(-1)!.value.client)
+      return { adapter, handler, processor, redis }
+    }
+
+    // The mocked Job ignores its arguments and returns the shared test job
+    const createJob = async () => {
+      const { Job } = await import('bullmq')
+      return new Job({} as Queue, 'test-job', {})
+    }
+
+    const getQueue = async () => {
+      const { Queue } = await import('bullmq')
+      return vi.mocked(Queue).mock.results.at(-1)!.value
+    }
+
+    test('should delay jobs over their rate limit to the next window', async () => {
+      const { handler, processor, redis } = await startWorker({ rateLimit: { max: 2, duration: 60_000 } })
+      const job = await createJob()
+      redis.incr.mockResolvedValueOnce(3)
+
+      await expect(processor(job, 'token')).rejects.toThrow()
+
+      expect(job.moveToDelayed).toHaveBeenCalledWith(expect.any(Number), 'token')
+      expect(vi.mocked(job.moveToDelayed).mock.calls.at(-1)![0] % 60_000).toBe(0)
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    test('should release the concurrency group once the job finished', async () => {
+      const { handler, processor, redis } = await startWorker({
+        concurrencyGroup: { key: () => 'acme', limit: 2 }
+      })
+      redis.incr.mockResolvedValueOnce(2)
+      redis.decr.mockClear()
+
+      await expect(processor(await createJob(), 'token')).resolves.toEqual({ done: true })
+
+      expect(handler).toHaveBeenCalled()
+      expect(redis.decr).toHaveBeenCalledWith(expect.stringContaining(':test-job:acme'))
+    })
+
+    test('should hold jobs back while their concurrency group is full', async () => {
+      const onComplete = vi.fn()
+      const { handler, processor, redis } = await startWorker({
+        concurrencyGroup: { key: () => 'acme' },
+        onComplete
+      })
+      redis.incr.mockResolvedValueOnce(2)
+
+      await expect(processor(await createJob(), 'token')).rejects.toThrow()
+
+      expect(redis.decr).toHaveBeenCalledWith(expect.stringContaining(':test-job:acme'))
+      expect(handler).not.toHaveBeenCalled()
+      expect(onComplete).not.toHaveBeenCalled()
+    })
+
+    test('should only stream the active state of jobs passing their limits', async () => {
+      const { processor, redis } = await startWorker({
+        concurrencyGroup: { key: () => 'acme' },
+        realtime: true
+      })
+      const { publishJobState } = await import('@igniter-js/core')
+      redis.incr.mockResolvedValueOnce(2)
+
+      await expect(processor(await createJob(), 'token')).rejects.toThrow()
+      expect(publishJobState).not.toHaveBeenCalled()
+
+      await expect(processor(await createJob(), 'token')).resolves.toEqual({ done: true })
+      expect(publishJobState).toHaveBeenCalledWith(expect.objectContaining({ status: 'active' }), options.store)
+    })
+
+    test('should release the concurrency group when holding the job back fails', async () => {
+      const { processor, redis } = await startWorker({
+        concurrencyGroup: { key: () => 'acme' }
+      })
+      redis.incr.mockResolvedValueOnce(1)
+      redis.pexpire.mockRejectedValueOnce(new Error('Connection lost'))
+      redis.decr.mockClear()
+
+      await expect(processor(await createJob(), 'token')).rejects.toThrow('Connection lost')
+
+      expect(redis.decr).toHaveBeenCalledWith(expect.stringContaining(':test-job:acme'))
+    })
+
+    test('should collapse debounced enqueues into the pending job', async () => {
+      const { adapter, redis } = await startWorker({ debounce: { delay: 5000, key: () => 'posts' } })
+      redis.set.mockResolvedValueOnce(null)
+      redis.get.mockResolvedValueOnce('test-job-id')
+
+      const jobId = await adapter.invoke({ id: 'test-job', input: {} })
+
+      const queue = await getQueue()
+      const pending = await queue.getJob('test-job-id')
+      expect(jobId).toBe('test-job-id')
+      expect(pending!.changeDelay).toHaveBeenCalledWith(5000)
+      expect(queue.add).not.toHaveBeenCalled()
+    })
+
+    test('should reserve the ID of the first debounced enqueue before adding it', async () => {
+      const { adapter, redis } = await startWorker({ debounce: { delay: 5000 } })
+
+      await adapter.invoke({ id: 'test-job', input: {} })
+
+      const queue = await getQueue()
+      expect(redis.set).toHaveBeenCalledWith(expect.stringContaining(':debounce:'), expect.any(String), 'PX', 5000, 'NX')
+      const reservedId = redis.set.mock.calls.at(-1)![1]
+      expect(queue.add).toHaveBeenCalledWith('test-job', {}, expect.objectContaining({ delay: 5000, jobId: reservedId }))
+    })
+
+    test('should key debounced enqueues by a hash of their input', async () => {
+      const { adapter, redis } = await startWorker({ debounce: { delay: 5000 } })
+
+      await adapter.invoke({ id: 'test-job', input: { email: 'ana@example.com' } })
+
+      const key = redis.set.mock.calls.at(-1)![0] as string
+      expect(key).toMatch(/:debounce:.+:test-job:[0-9a-f]{64}$/)
+      expect(key).not.toContain('ana@example.com')
+    })
+
+    test('should release the reserved ID when adding the debounced job fails', async () => {
+      const { adapter, redis } = await startWorker({ debounce: { delay: 5000 } })
+      const queue = await getQueue()
+      vi.mocked(queue.add).mockRejectedValueOnce(new Error('Connection lost'))
+
+      await expect(adapter.invoke({ id: 'test-job', input: {} })).rejects.toThrow('Connection lost')
+
+      const [key, reservedId] = redis.set.mock.calls.at(-1)!
+      expect(redis.eval).toHaveBeenCalledWith(expect.any(String), 1, key, reservedId)
+    })
+
+    test('should replace debounced jobs that already started', async () => {
+      const { adapter, redis } = await startWorker({ debounce: { delay: 5000 } })
+      redis.set.mockResolvedValueOnce(null)
+      redis.get.mockResolvedValueOnce('test-job-id')
+      vi.mocked((await createJob()).isDelayed).mockResolvedValueOnce(false)
+
+      await adapter.invoke({ id: 'test-job', input: {} })
+
+      expect(redis.eval).toHaveBeenCalledWith(expect.any(String), 1, expect.stringContaining(':debounce:'), 'test-job-id', expect.any(String), 5000)
+      expect((await getQueue()).add).toHaveBeenCalled()
+    })
+
+    test('should return the throttled job within the interval', async () => {
+      const { adapter, redis } = await startWorker({ debounce: { mode: 'throttle', delay: 5000 } })
+      redis.set.mockResolvedValueOnce(null)
+      redis.get.mockResolvedValueOnce('earlier-job')
+
+      await expect(adapter.invoke({ id: 'test-job', input: {} })).resolves.toBe('earlier-job')
+
+      expect((await getQueue()).add).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Realtime Job State', () => {
+    test('should stream the worker events of realtime jobs', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+      await adapter.bulkRegister({
+        'test-job': { name: 'Test Job', input: z.object({}), realtime: true, handler: vi.fn() }
+      })
+      await adapter.worker({ queues: ['default'] })
+
+      const { Worker, Job } = await import('bullmq')
+      const { publishJobState } = await import('@igniter-js/core')
+      const worker = vi.mocked(Worker).mock.results.at(-1)!.value
+      const listener = (event: string) => vi.mocked(worker.on).mock.calls.filter(([name]) => name === event).at(-1)![1]
+      const job = new Job({} as Queue, 'test-job', {})
+
+      listener('progress')(job, 40)
+      listener('completed')(job, { done: true })
+
+      expect(publishJobState).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'test-job-id', status: 'active', progress: 40 }),
+        options.store
+      )
+      expect(publishJobState).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'completed', result: { done: true } }),
+        options.store
+      )
+    })
+
+    test('should give realtime jobs random IDs', async () => {
+      const adapter = createBullMQAdapter<TestContext>(options)
+      await adapter.bulkRegister({
+        'test-job': { name: 'Test Job', input: z.object({}), realtime: true, handler: vi.fn() }
+      })
+
+      await adapter.invoke({ id: 'test-job', input: {} })
+
+      const { Queue } = await import('bullmq')
+      const queue = vi.mocked(Queue).mock.results.at(-1)!.value
+      expect(queue.add).toHaveBeenCalledWith('test-job', {}, expect.objectContaining({
+        jobId: expect.stringMatching(/^[0-9a-f-]{36}$/)
+      }))
+    })
+  })
+
   describe('Worker Management', () => {
     test('should start worker with configuration', async () => {
       const adapter = createBullMQAdapter<TestContext>(options)
@@ -1,6 +1,14 @@
 import type { 
   IgniterJobQueueAdapter,
   JobSearchResult,
+  JobDeadLetterEntry,
+  JobDeadLetterPolicy,
+  JobDetails,
+  JobQueueCounts,
+  JobRealtimeState,
+  JobScheduleInfo,
+  JobTargetParams,
+  JobInvokeParams,
   JobQueueConfig,
   JobStatus,
   JobsRouter,
@@ -19,15 +27,81 @@ import type {
   JobStartHookContext,
   JobSuccessHookContext,
   JobFailureHookContext,
-  JobCompleteHookContext
+  JobCompleteHookContext,
+  JobFlowDefinition,
+  JobFlowInfo,
+  JobFlowStep
 } from "@igniter-js/core";
 import { isServer, SchedulePatterns } from "@igniter-js/core";
-import type { BullMQAdapterOptions, BullMQInstances, BullMQQueue, BullMQJob } from "./types";
-import { createJobsRouter, createJobsRegistry, createJobsProxy } from "@igniter-js/core";
+import type { BullMQAdapterOptions, BullMQInstances, BullMQQueue, BullMQQueueEvents, BullMQJob, BullMQJobMetadata, BullMQJobOptions, BullMQFlowJob } from "./types";
+import { createJobsRouter, createJobsRegistry, createJobsProxy, createJobHandle, publishJobState, reconcileJobSchedules } from "@igniter-js/core";
 import type { StandardSchemaV1 } from "@igniter-js/core";
 import type { JobExecutionContext } from "@igniter-js/core";
 import { IgniterError } from "@igniter-js/core";
 
+/**
+ * Name of the internal jobs continuing flows once all the jobs of a stage completed.
+ */
+const FLOW_JOB_NAME = '__igniter.flow';
+
+/**
+ * Prefix of the repeat job ID of declarative schedules, followed by their encoded input.
+ */
+const SCHEDULE_ID_PREFIX = '__schedule__';
+
+/**
+ * Suffix of the queues keeping the jobs that failed their final attempt.
+ */
+const DEAD_LETTER_SUFFIX = '__dead-letter';
+
+/**
+ * Prefix of the Redis keys counting rate limits, concurrency groups and collapsed enqueues.
+ */
+const LIMITS_KEY_PREFIX = 'igniter:jobs';
+
+/**
+ * Replaces the job ID kept by the Redis key of a debounced enqueue, only when it still holds the expected ID.
+ */
+const REPLACE_DEBOUNCED_JOB_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('set', KEYS[1], ARGV[2], 'PX', ARGV[3])
+end
+return false
+`;
+
+/**
+ * Deletes the Redis key of a debounced enqueue, only when it still holds the expected job ID.
+ */
+const RELEASE_DEBOUNCED_JOB_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Hashes the input of a debounced enqueue with SHA-256, so the Redis key of the enqueue
+ * has a bounded length and never holds the input.
+ *
+ * @param input - Input of the enqueue
+ * @returns The hex digest of the serialized input
+ */
+async function hashDebounceInput(input: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(input) ?? ""));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Delay before a job held back by its concurrency group tries to start again, in milliseconds.
+ */
+const CONCURRENCY_GROUP_RETRY_DELAY = 1000;
+
+/**
+ * Expiration of the concurrency group counters, so workers stopped in the middle of a job
+ * do not hold their group forever, in milliseconds.
+ */
+const CONCURRENCY_GROUP_TTL = 60 * 60 * 1000;
+
 /**
  * Creates a Job Queue Adapter for BullMQ.
  * 
@@ -59,7 +133,7 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
     return {} as IgniterJobQueueAdapter<TContext>;
   }  
 
-  const { Queue, Worker, Job } = require('bullmq');
+  const { Queue, QueueEvents, Worker, Job, FlowProducer, DelayedError } = require('bullmq');
   
   // Store context factory for job execution
   const contextFactory = options.contextFactory;
@@ -68,10 +142,14 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
   // Internal state management
   const instances: BullMQInstances = {
     queues: new Map(),
+    queueEvents: new Map(),
     workers: new Map(),
     registeredJobs: new Map(),
   };
 
+  // Jobs moved to a dead-letter queue, removed from the failed jobs once BullMQ marks them as failed
+  const deadLetteredJobs = new Set<string>();
+
   // Extract Redis connection from store adapter if provided
   const redisConnection = options.store?.client ? 
     // If store has a Redis client, use it directly
@@ -109,6 +187,22 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
     return parts.join('__'); // Using double underscore as separator instead of colon
   }
 
+  /**
+   * Resolves the queue of a job: the queue of its definition, overridden by the queue of the call.
+   * 
+   * @param jobId - Registered job ID
+   * @param queueConfig - Queue configuration of the call
+   * @returns Queue configuration of the job
+   * 
+   * @internal
+   */
+  function resolveJobQueue(jobId: string, queueConfig?: JobQueueConfig): JobQueueConfig {
+    return {
+      ...instances.registeredJobs.get(jobId)?.options?.queue,
+      ...queueConfig
+    };
+  }
+
   /**
    * Gets or creates a BullMQ Queue instance for the specified configuration.
    * 
@@ -135,6 +229,57 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
     return instances.queues.get(queueName)!;
   }
 
+  /**
+   * Gets or creates the BullMQ QueueEvents instance used to wait for the jobs of a queue.
+   * 
+   * @param queueConfig - Queue configuration
+   * @returns BullMQ QueueEvents instance
+   * 
+   * @internal
+   */
+  function getOrCreateQueueEvents(queueConfig?: JobQueueConfig): BullMQQueueEvents {
+    const queueName = buildQueueName(queueConfig);
+
+    if (!instances.queueEvents.has(queueName)) {
+      instances.queueEvents.set(queueName, new QueueEvents(queueName, {
+        connection: redisConnection,
+        prefix: 'bull',
+      }));
+    }
+
+    return instances.queueEvents.get(queueName)!;
+  }
+
+  /**
+   * Gets or creates the BullMQ FlowProducer used to add job flows.
+   * 
+   * @returns BullMQ FlowProducer instance
+   * 
+   * @internal
+   */
+  function getOrCreateFlowProducer() {
+    if (!instances.flowProducer) {
+      instances.flowProducer = new FlowProducer({
+        connection: redisConnection,
+        prefix: 'bull',
+      });
+    }
+
+    return instances.flowProducer!;
+  }
+
+  /**
+   * Gets the metadata stored with the options of a job.
+   * 
+   * @param job - BullMQ job instance
+   * @returns The metadata of the job, if any
+   * 
+   * @internal
+   */
+  function getJobMetadata(job: BullMQJob): BullMQJobMetadata | undefined {
+    return (job.opts as BullMQJobOptions).metadata;
+  }
+
   /**
    * Converts a BullMQ Job to our standardized JobSearchResult format.
    * 
@@ -163,9 +308,274 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
       attemptsMade: job.attemptsMade,
       priority: job.opts.priority || 0,
       metadata: job.opts.jobId ? { jobId: job.opts.jobId } : undefined,
+      flow: getJobMetadata(job)?.flow,
     };
   }
 
+  /**
+   * Gets or creates the dead-letter queue of a queue.
+   * Dead-letter queues have no worker, their entries stay waiting until replayed or purged.
+   * 
+   * @param queueName - Full name of the queue the jobs failed in
+   * @returns BullMQ Queue instance
+   * 
+   * @internal
+   */
+  function getDeadLetterQueue(queueName: string): BullMQQueue {
+    const deadLetterQueueName = `${queueName}${DEAD_LETTER_SUFFIX}`;
+
+    if (!instances.queues.has(deadLetterQueueName)) {
+      instances.queues.set(deadLetterQueueName, new Queue(deadLetterQueueName, {
+        connection: redisConnection,
+        prefix: 'bull',
+        ...options.queueOptions,
+      }));
+    }
+
+    return instances.queues.get(deadLetterQueueName)!;
+  }
+
+  /**
+   * Converts a dead-letter queue job to our standardized JobDeadLetterEntry format.
+   * 
+   * @param job - BullMQ job of a dead-letter queue
+   * @returns Standardized dead-letter entry
+   * 
+   * @internal
+   */
+  function mapBullMQJobToDeadLetter(job: BullMQJob): JobDeadLetterEntry {
+    return {
+      id: job.id!,
+      name: job.name,
+      queueName: job.data.queueName,
+      payload: job.data.payload,
+      error: job.data.error,
+      errors: job.data.errors,
+      attemptsMade: job.data.attemptsMade,
+      createdAt: new Date(job.data.createdAt),
+      failedAt: new Date(job.timestamp),
+      priority: job.data.priority,
+      metadata: job.data.metadata,
+    };
+  }
+
+  /**
+   * Resolves the dead-letter policy of a job definition, falling back to the policy of its queue.
+   * 
+   * @internal
+   */
+  function getDeadLetterPolicy(jobDefinition: JobDefinition<TContext, any, any>): JobDeadLetterPolicy | null {
+    const policy = jobDefinition.deadLetter ?? jobDefinition.queue?.deadLetter;
+    if (!policy) return null;
+    return policy === true ? {} : policy;
+  }
+
+  /**
+   * Adds a job that failed its final attempt to the dead-letter queue of its queue,
+   * then trims the dead-letter queue to `maxEntries`.
+   * 
+   * @param job - The failed BullMQ job
+   * @param error - The error of the final attempt
+   * @param policy - The dead-letter policy of the job
+   * 
+   * @internal
+   */
+  async function moveToDeadLetter(job: BullMQJob, error: Error, policy: JobDeadLetterPolicy): Promise<void> {
+    const deadLetterQueue = getDeadLetterQueue(job.queueName);
+
+    await deadLetterQueue.add(job.name, {
+      queueName: job.queueName,
+      payload: job.data,
+      error: error.message,
+      // BullMQ keeps the stack trace of each failed attempt
+      errors: [...(job.stacktrace || []), error.stack || error.message],
+      attemptsMade: job.attemptsMade + 1,
+      maxAttempts: job.opts.attempts,
+      createdAt: job.timestamp,
+      priority: job.opts.priority || 0,
+      metadata: getJobMetadata(job),
+    }, { jobId: job.id });
+    logger?.warn(`Job "${job.name}" (ID: ${job.id}) moved to the dead-letter queue`);
+
+    if (policy.maxEntries !== undefined) {
+      // Entries are listed most recent first
+      const expired = await deadLetterQueue.getJobs(['waiting'], policy.maxEntries, -1);
+      await Promise.all(expired.map((entry) => entry.remove()));
+    }
+  }
+
+  /**
+   * Holds a job back until its concurrency group and rate limit let it start.
+   * Both are counted in Redis, so they apply to all the workers of the queue.
+   * 
+   * @param job - The BullMQ job about to run
+   * @param token - Lock token of the job
+   * @param jobDefinition - Definition of the job
+   * @param redis - Redis client of the worker
+   * @returns Function releasing the concurrency group of the job once it finished
+   * @throws DelayedError when the job was moved back to the delayed jobs, after releasing its concurrency group
+   * 
+   * @internal
+   */
+  async function acquireJobLimits(
+    job: BullMQJob,
+    token: string | undefined,
+    jobDefinition: JobDefinition<TContext, any, any>,
+    redis: any,
+  ): Promise<() => Promise<void>> {
+    let release = async () => {};
+
+    try {
+      if (jobDefinition.concurrencyGroup) {
+        const groupKey = `${LIMITS_KEY_PREFIX}:group:${job.queueName}:${job.name}:${jobDefinition.concurrencyGroup.key(job.data)}`;
+        const active = await redis.incr(groupKey);
+        release = async () => {
+          await redis.decr(groupKey);
+        };
+        await redis.pexpire(groupKey, CONCURRENCY_GROUP_TTL);
+
+        if (active > (jobDefinition.concurrencyGroup.limit ?? 1)) {
+          logger?.debug(`Job "${job.name}" (ID: ${job.id}) held back by its concurrency group`);
+          await job.moveToDelayed(Date.now() + CONCURRENCY_GROUP_RETRY_DELAY, token);
+          throw new DelayedError();
+        }
+      }
+
+      if (jobDefinition.rateLimit) {
+        const { max, duration } = jobDefinition.rateLimit;
+        const windowStart = Math.floor(Date.now() / duration) * duration;
+        const rateKey = `${LIMITS_KEY_PREFIX}:rate:${job.queueName}:${job.name}:${windowStart}`;
+        const started = await redis.incr(rateKey);
+        if (started === 1) await redis.pexpire(rateKey, duration);
+
+        if (started > max) {
+          logger?.debug(`Job "${job.name}" (ID: ${job.id}) held back by its rate limit`);
+          await job.moveToDelayed(windowStart + duration, token);
+          throw new DelayedError();
+        }
+      }
+    } catch (error) {
+      await release();
+      throw error;
+    }
+
+    return release;
+  }
+
+  /**
+   * Collapses an enqueue into an identical pending job, following the debounce options of its definition.
+   * The Redis key of the enqueue keeps the ID of the job it collapses into, and is only set when empty
+   * or still holding the ID read, so concurrent enqueues collapse into the same job.
+   * 
+   * @param queue - BullMQ Queue instance
+   * @param debounce - Debounce options of the job definition
+   * @param debounceKey - Redis key of the enqueue
+   * @param input - Input of the enqueue
+   * @param jobId - ID of the job added when the enqueue does not collapse
+   * @returns ID of the job the enqueue collapsed into, or `null` when the job must be added with `jobId`
+   * 
+   * @internal
+   */
+  async function collapseDebouncedJob(
+    queue: BullMQQueue,
+    debounce: NonNullable<JobDefinition<TContext, any, any>['debounce']>,
+    debounceKey: string,
+    input: any,
+    jobId: string,
+  ): Promise<string | null> {
+    const redis = await queue.client;
+
+    while (true) {
+      if (await redis.set(debounceKey, jobId, 'PX', debounce.delay, 'NX')) return null;
+
+      // The key expired since it was set, the next attempt takes it
+      const pendingId = await redis.get(debounceKey);
+      if (!pendingId) continue;
+
+      if (debounce.mode === 'throttle') return pendingId;
+
+      // A job missing from the queue is still being added by a concurrent enqueue
+      const pending = await queue.getJob(pendingId);
+      if (!pending) return pendingId;
+
+      if (await pending.isDelayed()) {
+        await pending.updateData(input);
+        await pending.changeDelay(debounce.delay);
+        await redis.pexpire(debounceKey, debounce.delay);
+        logger?.debug(`Job "${pending.name}" (ID: ${pending.id}) debounced`);
+        return pendingId;
+      }
+
+      // The pending job already started, the enqueue replaces it unless another enqueue did first
+      if (await redis.eval(REPLACE_DEBOUNCED_JOB_SCRIPT, 1, debounceKey, pendingId, jobId, debounce.delay)) return null;
+    }
+  }
+
+  /**
+   * Streams the state of a job to its realtime channel, when its definition enables it.
+   * Events are distributed to the other instances through the store adapter.
+   * 
+   * @param job - The BullMQ job
+   * @param status - The current status of the job
+   * @param state - The changed fields of the state
+   * 
+   * @internal
+   */
+  async function streamJobState(job: BullMQJob, status: JobStatus, state: Partial<JobRealtimeState> = {}): Promise<void> {
+    if (!instances.registeredJobs.get(job.name)?.realtime) return;
+
+    await publishJobState({
+      id: job.id!,
+      name: job.name,
+      status,
+      progress: typeof job.progress === 'number' ? job.progress : 0,
+      attemptsMade: job.attemptsMade,
+      updatedAt: Date.now(),
+      ...state,
+    }, options.store);
+  }
+
+  /**
+   * Lists the repeatable jobs of the declarative schedules of a queue.
+   * Their repeat job ID holds their input, as BullMQ does not keep the data of repeatable jobs.
+   * 
+   * @param queue - BullMQ Queue instance
+   * @param jobName - Only list the schedules of this job
+   * 
+   * @internal
+   */
+  async function getScheduledRepeatables(queue: BullMQQueue, jobName?: string) {
+    const repeatables = await queue.getRepeatableJobs();
+    return repeatables.filter((repeatable) =>
+      repeatable.id?.startsWith(SCHEDULE_ID_PREFIX) && (!jobName || repeatable.name === jobName)
+    );
+  }
+
+  /**
+   * Gets a BullMQ job of a queue, failing when it does not exist.
+   * 
+   * @param params - Job ID and queue
+   * @returns BullMQ job instance
+   * @throws IgniterError if the job does not exist
+   * 
+   * @internal
+   */
+  async function getBullMQJob(params: JobTargetParams): Promise<BullMQJob> {
+    const job = await getOrCreateQueue(params.queue).getJob(params.id);
+
+    if (!job) {
+      throw new IgniterError(
+        {
+          code: 'BULLMQ_ADAPTER_ERROR',
+          message: `Job "${params.id}" not found in queue "${buildQueueName(params.queue)}"`,
+          log: true,
+        }
+      );
+    }
+
+    return job;
+  }
+
   /**
    * Validates that a job is registered before allowing operations on it.
    * 
@@ -186,6 +596,118 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
     }
   }
 
+  /**
+   * Validates the input of a job against its schema, if any.
+   * 
+   * @param jobId - The job ID
+   * @param input - The job input
+   * @throws IgniterError if the input is invalid
+   * 
+   * @internal
+   */
+  function validateJobInput(jobId: string, input: unknown): void {
+    const jobDefinition = instances.registeredJobs.get(jobId);
+
+    if (jobDefinition?.input && typeof jobDefinition.input.parse === 'function') {
+      try {
+        jobDefinition.input.parse(input);
+      } catch (error) {
+        throw new IgniterError(
+          {
+            code: 'BULLMQ_ADAPTER_ERROR',
+            message: `Invalid payload for job "${jobId}": ${error}`,
+            log: true,
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * Adds a flow stage with the FlowProducer: the jobs of the stage are the children of a
+   * continuation job, which BullMQ runs once all of them completed. The continuation job
+   * collects their results and adds the next stage.
+   * 
+   * @param flow - The flow, with the stages used to add the next one
+   * @param stage - Index of the stage to add
+   * @param input - Input of the jobs of the stage
+   * 
+   * @internal
+   */
+  async function addFlowStage(
+    flow: Omit<JobFlowInfo, 'stage' | 'index'> & { steps: JobFlowStep[][] },
+    stage: number,
+    input: unknown
+  ): Promise<void> {
+    const steps = flow.steps[stage];
+    const flowInfo = (index: number): JobFlowInfo => ({
+      id: flow.id,
+      name: flow.name,
+      stage,
+      index,
+      stages: flow.stages,
+    });
+
+    const children: BullMQFlowJob[] = steps.map((step, index) => {
+      validateJobInput(step.job, input);
+      const jobDefinition = instances.registeredJobs.get(step.job);
+      const { queue: queueConfig, metadata, ...stepOptions } = step.options || {};
+      const opts: BullMQJobOptions = {
+        attempts: 3,
+        removeOnComplete: 10,
+        removeOnFail: 50,
+        ...stepOptions,
+        jobId: `${flow.id}__${stage}__${index}`,
+        failParentOnFailure: true,
+        metadata: { ...metadata, flow: flowInfo(index) },
+      };
+
+      return {
+        name: step.job,
+        queueName: buildQueueName({ ...jobDefinition?.queue, ...queueConfig }),
+        data: input,
+        opts,
+      };
+    });
+
+    await getOrCreateFlowProducer().add({
+      name: FLOW_JOB_NAME,
+      queueName: children[0].queueName,
+      data: { ...flow, stage },
+      opts: { jobId: `${flow.id}__${stage}` },
+      children,
+    });
+  }
+
+  /**
+   * Processes the continuation job of a flow stage, adding the next stage with the results
+   * of the jobs of the stage: the result of its single job, or the tuple of their results.
+   * 
+   * @param job - The continuation job
+   * @returns The result of the stage
+   * 
+   * @internal
+   */
+  async function processFlowJob(job: BullMQJob): Promise<unknown> {
+    const { stage, ...flow } = job.data;
+    const childrenValues: Record<string, unknown> = await job.getChildrenValues();
+
+    // Children keys end with the `{flowId}__{stage}__{index}` job ID
+    const results = Object.entries(childrenValues)
+      .map(([key, value]) => ({ index: Number(key.split('__').pop()), value }))
+      .sort((a, b) => a.index - b.index)
+      .map(({ value }) => value);
+    const stageResult = results.length === 1 ? results[0] : results;
+
+    if (stage + 1 < flow.stages) {
+      await addFlowStage(flow, stage + 1, stageResult);
+    } else {
+      logger?.info(`Flow "${flow.name}" completed (ID: ${flow.id})`);
+    }
+
+    return stageResult;
+  }
+
   /**
    * Validates a cron expression for basic syntax correctness.
    * 
@@ -799,6 +1321,9 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
         
         const queuesToProcess = options.autoStartWorker.queues || Array.from(discoveredQueues);
         
+        const schedules = await reconcileJobSchedules(this, flattenedJobs, queuesToProcess);
+        logger?.info(`Job schedules reconciled: ${schedules.added.length} added, ${schedules.updated.length} updated, ${schedules.removed.length} removed`);
+
         logger?.info(`Auto-starting workers for queues: ${queuesToProcess.join(', ')}`);
         
         await this.worker({
@@ -829,6 +1354,12 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
       // Create reference to the adapter for use in closures
       const adapter = this;
 
+      // Enqueues a job and returns its handle, on the same queue as `invoke` so the handle finds the job
+      const invokeJob = async (params: JobInvokeParams) => {
+        const id = await adapter.invoke(params);
+        return createJobHandle(adapter, { id, queue: resolveJobQueue(params.id, params.queue) });
+      };
+
       // Create the merged executor with namespace-based access
       const mergedExecutor = {} as MergedJobsExecutor<MergedJobsRouter<TMergedJobs>>;
       
@@ -853,7 +1384,7 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
               );
             }
             
-            return await adapter.invoke({
+            return await invokeJob({
               id: jobResult.namespacedJobId,
               input,
               ...options
@@ -880,7 +1411,7 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
             // Process advanced scheduling options
             const processedOptions = processAdvancedScheduleOptions(scheduleOptions);
             
-            return await adapter.invoke({
+            return await invokeJob({
               id: jobResult.namespacedJobId,
               input,
               ...processedOptions
@@ -904,7 +1435,7 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
                   );
                 }
                 
-                return adapter.invoke({
+                return invokeJob({
                   id: jobResult.namespacedJobId,
                   input,
                   ...options
@@ -920,13 +1451,11 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
       }
       
       // Add createProxy method to enable namespace access
-      const proxy = createJobsProxy(mergedJobsByNamespace, registry, ({ namespacedJobId, input, options }) => {
-        return adapter.invoke({
-          id: namespacedJobId,
-          input,
-          ...options
-        });
-      });
+      const proxy = createJobsProxy(mergedJobsByNamespace, registry, ({ namespacedJobId, input, options }) => invokeJob({
+        id: namespacedJobId,
+        input,
+        ...options
+      }), (definition) => adapter.flow!(definition));
 
       // Explicitly define createProxy instead of dynamic assignment
       const finalExecutor = {
@@ -946,27 +1475,12 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
       const jobDefinition = instances.registeredJobs.get(params.id);
       
       // Merge queue config from job definition with provided config
-      const finalQueueConfig = {
-        ...jobDefinition?.options?.queue,
-        ...params.queue
-      };
+      const finalQueueConfig = resolveJobQueue(params.id, params.queue);
       
       const queue = getOrCreateQueue(finalQueueConfig);
       
       // Validate payload against schema if provided
-      if (jobDefinition?.input && typeof jobDefinition.input.parse === 'function') {
-        try {
-          jobDefinition.input.parse(params.input);
-        } catch (error) {
-          throw new IgniterError(
-            {
-              code: 'BULLMQ_ADAPTER_ERROR',
-              message: `Invalid payload for job "${params.id}": ${error}`,
-              log: true,
-            }
-          );
-        }
-      }
+      validateJobInput(params.id, params.input);
 
       // Process advanced scheduling options if they exist
       let processedOptions: any = {};
@@ -995,10 +1509,65 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
         };
       }
 
+      // Realtime jobs stream on the channel of their ID, so they get random IDs instead of sequential ones
+      if (jobDefinition?.realtime) {
+        processedOptions.jobId = processedOptions.jobId ?? crypto.randomUUID();
+      }
+
+      // Identical enqueues of debounced jobs collapse into one job
+      const debounce = jobDefinition?.debounce as JobDefinition<TContext, any, any>['debounce'];
+      const debounceKey = debounce
+        ? `${LIMITS_KEY_PREFIX}:debounce:${queue.name}:${params.id}:${debounce.key ? debounce.key(params.input) : await hashDebounceInput(params.input)}`
+        : undefined;
+
+      if (debounce && debounceKey) {
+        // The ID is reserved for the key before the job is added, so identical enqueues collapse into it
+        processedOptions.jobId = processedOptions.jobId ?? crypto.randomUUID();
+        const collapsedId = await collapseDebouncedJob(queue, debounce, debounceKey, params.input, processedOptions.jobId);
+        if (collapsedId) return collapsedId;
+        if (debounce.mode !== 'throttle') {
+          processedOptions.delay = Math.max(processedOptions.delay || 0, debounce.delay);
+        }
+      }
+
       // Add job to queue with processed options
-      const job = await queue.add(params.id, params.input, processedOptions);
+      try {
+        const job = await queue.add(params.id, params.input, processedOptions);
+        return job.id as string;
+      } catch (error) {
+        // The key reserved for the job is released, so the next identical enqueue does not collapse into a missing job
+        if (debounceKey) {
+          const redis = await queue.client;
+          await redis.eval(RELEASE_DEBOUNCED_JOB_SCRIPT, 1, debounceKey, processedOptions.jobId as string);
+        }
+        throw error;
+      }
+    },
 
-      return job.id as string;
+    async flow(definition: JobFlowDefinition) {
+      if (definition.stages.length === 0 || definition.stages.some((stage) => stage.length === 0)) {
+        throw new IgniterError(
+          {
+            code: 'BULLMQ_ADAPTER_ERROR',
+            message: `Flow "${definition.name}" must have at least one job per stage`,
+            log: true,
+          }
+        );
+      }
+
+      for (const step of definition.stages.flat()) {
+        validateJobExists(step.job);
+      }
+
+      const flowId = crypto.randomUUID();
+      await addFlowStage(
+        { id: flowId, name: definition.name, stages: definition.stages.length, steps: definition.stages },
+        0,
+        definition.input
+      );
+
+      logger?.info(`Flow "${definition.name}" started (ID: ${flowId})`);
+      return flowId;
     },
 
     async search(params) {
@@ -1030,10 +1599,14 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
         );
         
         for (const job of jobs) {
+          // Flow continuation jobs are internal
+          if (job.name === FLOW_JOB_NAME) continue;
+
           const result = mapBullMQJobToResult(job);
           
           // Apply additional filters
           if (filter.jobId && !job.id!.includes(filter.jobId)) continue;
+          if (filter.flowId && result.flow?.id !== filter.flowId) continue;
           if (filter.dateRange?.from && result.createdAt < filter.dateRange.from) continue;
           if (filter.dateRange?.to && result.createdAt > filter.dateRange.to) continue;
           
@@ -1067,6 +1640,249 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
       return results.slice(0, filter.limit || 100);
     },
 
+    async getJob(params) {
+      const queue = getOrCreateQueue(params.queue);
+      const job = await queue.getJob(params.id);
+      if (!job) return null;
+
+      const state = await job.getState();
+      const { logs } = await queue.getJobLogs(params.id);
+      const runAt = job.timestamp + (job.opts.delay || 0);
+
+      const details: JobDetails = {
+        ...mapBullMQJobToResult(job),
+        id: job.id!,
+        status: (state === 'waiting-children' || state === 'prioritized' ? 'waiting' : state) as JobStatus,
+        queueName: queue.name,
+        progress: typeof job.progress === 'number' ? job.progress : undefined,
+        logs,
+        maxAttempts: job.opts.attempts || 1,
+        runAt: state === 'delayed' ? new Date(runAt) : undefined,
+        stacktrace: job.stacktrace || [],
+      };
+      return details;
+    },
+
+    async waitUntilFinished(params) {
+      const queueEvents = getOrCreateQueueEvents(params.queue);
+
+      // Listens to the queue events before reading the job, so its completion is not missed
+      await queueEvents.waitUntilReady();
+      const job = await getBullMQJob(params);
+
+      try {
+        return await job.waitUntilFinished(queueEvents, params.timeout);
+      } catch (error) {
+        throw new IgniterError(
+          {
+            code: 'BULLMQ_ADAPTER_ERROR',
+            message: `Job "${params.id}" did not complete: ${error instanceof Error ? error.message : String(error)}`,
+            details: { jobId: params.id },
+            log: true,
+          }
+        );
+      }
+    },
+
+    async retry(params) {
+      const job = await getBullMQJob(params);
+      const state = await job.getState();
+
+      if (state !== 'failed') {
+        throw new IgniterError(
+          {
+            code: 'JOB_STATE_CONFLICT',
+            message: `Only failed jobs can be retried, job "${params.id}" is ${state}`,
+            log: true,
+          }
+        );
+      }
+
+      await job.retry('failed', { resetAttemptsMade: true });
+      logger?.info(`Job "${job.name}" (ID: ${job.id}) retried`);
+    },
+
+    async cancel(params) {
+      const job = await getBullMQJob(params);
+      const state = await job.getState();
+
+      if (!['waiting', 'delayed', 'prioritized', 'paused'].includes(state)) {
+        throw new IgniterError(
+          {
+            code: 'JOB_STATE_CONFLICT',
+            message: `Only waiting or delayed jobs can be cancelled, job "${params.id}" is ${state}`,
+            log: true,
+          }
+        );
+      }
+
+      await job.remove();
+      logger?.info(`Job "${job.name}" (ID: ${job.id}) cancelled`);
+    },
+
+    async promote(params) {
+      const job = await getBullMQJob(params);
+      const state = await job.getState();
+
+      if (state !== 'delayed') {
+        throw new IgniterError(
+          {
+            code: 'JOB_STATE_CONFLICT',
+            message: `Only delayed jobs can be promoted, job "${params.id}" is ${state}`,
+            log: true,
+          }
+        );
+      }
+
+      await job.promote();
+    },
+
+    async pauseQueue(queueConfig) {
+      await getOrCreateQueue(queueConfig).pause();
+      logger?.info(`Queue "${buildQueueName(queueConfig)}" paused`);
+    },
+
+    async resumeQueue(queueConfig) {
+      await getOrCreateQueue(queueConfig).resume();
+      logger?.info(`Queue "${buildQueueName(queueConfig)}" resumed`);
+    },
+
+    async drain(queueConfig, drainOptions) {
+      await getOrCreateQueue(queueConfig).drain(drainOptions?.delayed);
+    },
+
+    async getQueueCounts(queueConfig) {
+      const counts = await getOrCreateQueue(queueConfig).getJobCounts(
+        'waiting', 'prioritized', 'active', 'completed', 'failed', 'delayed', 'paused'
+      );
+
+      // Prioritized jobs are waiting jobs kept in a separate set by BullMQ
+      const result: JobQueueCounts = {
+        waiting: (counts.waiting || 0) + (counts.prioritized || 0),
+        active: counts.active || 0,
+        completed: counts.completed || 0,
+        failed: counts.failed || 0,
+        delayed: counts.delayed || 0,
+        paused: counts.paused || 0,
+      };
+      return result;
+    },
+
+    async listDeadLetters(params) {
+      const offset = params?.offset || 0;
+      const end = params?.limit === undefined ? -1 : offset + params.limit - 1;
+      const entries = await getDeadLetterQueue(buildQueueName(params?.queue)).getJobs(['waiting'], offset, end);
+
+      return entries
+        .map(mapBullMQJobToDeadLetter)
+        .sort((a, b) => b.failedAt.getTime() - a.failedAt.getTime());
+    },
+
+    async getDeadLetter(params) {
+      const entry = await getDeadLetterQueue(buildQueueName(params.queue)).getJob(params.id);
+      return entry ? mapBullMQJobToDeadLetter(entry) : null;
+    },
+
+    async replayDeadLetter(params) {
+      const entry = await getDeadLetterQueue(buildQueueName(params.queue)).getJob(params.id);
+
+      if (!entry) {
+        throw new IgniterError(
+          {
+            code: 'BULLMQ_ADAPTER_ERROR',
+            message: `Dead-letter entry "${params.id}" not found`,
+            log: true,
+          }
+        );
+      }
+
+      // The failed job keeps its ID in the queue, so the replayed job gets a new one
+      const jobOptions: BullMQJobOptions = {
+        attempts: entry.data.maxAttempts,
+        priority: entry.data.priority || undefined,
+        metadata: entry.data.metadata,
+      };
+      const job = await getOrCreateQueue(params.queue).add(entry.name, entry.data.payload, jobOptions);
+      await entry.remove();
+
+      logger?.info(`Job "${entry.name}" (ID: ${entry.id}) replayed from the dead-letter queue as job ${job.id}`);
+      return job.id as string;
+    },
+
+    async purgeDeadLetters(params) {
+      const deadLetterQueue = getDeadLetterQueue(buildQueueName(params?.queue));
+
+      if (!params?.ids) {
+        const count = await deadLetterQueue.getWaitingCount();
+        await deadLetterQueue.drain();
+        return count;
+      }
+
+      let purged = 0;
+      for (const id of params.ids) {
+        const entry = await deadLetterQueue.getJob(id);
+        if (!entry) continue;
+
+        await entry.remove();
+        purged++;
+      }
+      return purged;
+    },
+
+    async listSchedules(queueConfig) {
+      const queue = getOrCreateQueue(queueConfig);
+
+      return (await getScheduledRepeatables(queue)).map((repeatable): JobScheduleInfo => {
+        const encodedInput = repeatable.id!.slice(SCHEDULE_ID_PREFIX.length);
+
+        return {
+          job: repeatable.name,
+          cron: repeatable.pattern,
+          tz: repeatable.tz || undefined,
+          input: encodedInput ? JSON.parse(Buffer.from(encodedInput, 'base64url').toString()) : undefined,
+          queueName: queue.name,
+          nextRunAt: repeatable.next ? new Date(repeatable.next) : undefined,
+        };
+      });
+    },
+
+    async upsertSchedule(params) {
+      validateJobExists(params.job);
+      validateJobInput(params.job, params.schedule.input ?? {});
+
+      const jobDefinition = instances.registeredJobs.get(params.job);
+      const queueConfig = { ...jobDefinition?.queue, ...params.queue };
+      const queue = getOrCreateQueue(queueConfig);
+      const { cron, tz, input } = params.schedule;
+
+      for (const repeatable of await getScheduledRepeatables(queue, params.job)) {
+        await queue.removeRepeatableByKey(repeatable.key);
+      }
+
+      const encodedInput = input === undefined ? '' : Buffer.from(JSON.stringify(input)).toString('base64url');
+      await queue.add(params.job, input ?? {}, {
+        jobId: `${SCHEDULE_ID_PREFIX}${encodedInput}`,
+        repeat: { pattern: cron, tz },
+        attempts: jobDefinition?.attempts || 3,
+        priority: jobDefinition?.priority,
+        removeOnComplete: jobDefinition?.removeOnComplete ?? 10,
+        removeOnFail: jobDefinition?.removeOnFail ?? 50,
+      });
+
+      logger?.info(`Scheduled job "${params.job}" with pattern: ${cron}${tz ? ` (${tz})` : ''}`);
+    },
+
+    async removeSchedule(params) {
+      const jobDefinition = instances.registeredJobs.get(params.job);
+      const queue = getOrCreateQueue({ ...jobDefinition?.queue, ...params.queue });
+
+      for (const repeatable of await getScheduledRepeatables(queue, params.job)) {
+        await queue.removeRepeatableByKey(repeatable.key);
+      }
+
+      logger?.info(`Removed the schedule of job "${params.job}"`);
+    },
+
     async worker(config) {
       for (const queueName of config.queues) {
         // Support wildcard queue names for multi-tenant scenarios
@@ -1087,7 +1903,11 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
 
         logger?.info(`Starting worker for queue: ${queueName}`);
         
-        const worker = new Worker(queueName, async (job: BullMQJob) => {
+        const worker = new Worker(queueName, async (job: BullMQJob, token?: string) => {
+          if (job.name === FLOW_JOB_NAME) {
+            return processFlowJob(job);
+          }
+
           logger?.info(`Processing job: ${job.name} (ID: ${job.id}) in queue: ${queueName}`);
           const jobDefinition = instances.registeredJobs.get(job.name);
           
@@ -1101,6 +1921,9 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
             return; // Skip this job
           }
 
+          // Set once the job passed its concurrency group and rate limit
+          let releaseLimits: (() => Promise<void>) | undefined;
+
           // Extract namespace from job name if it's namespaced
           const namespaceParts = job.name.split('.');
           const namespace = namespaceParts.length > 1 ? namespaceParts[0] : undefined;
@@ -1121,6 +1944,13 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
               createdAt: new Date(job.timestamp),
               // @ts-expect-error - Metadata typing is complex, keeping as-is for now
               metadata: job.opts.metadata,
+              updateProgress: async (progress: number, message?: string) => {
+                await job.updateProgress(progress);
+                if (message) await job.log(message);
+              },
+              log: async (message: string) => {
+                await job.log(message);
+              },
             },
           };
 
@@ -1129,6 +1959,10 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
           let success = false;
 
           try {
+            // Jobs held back by their concurrency group or rate limit are delayed before any hook runs
+            releaseLimits = await acquireJobLimits(job, token, jobDefinition, await worker.client);
+            void streamJobState(job, 'active');
+
             // ==========================================
             // ADVANCED SCHEDULING CHECKS
             // ==========================================
@@ -1233,6 +2067,9 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
             }
 
           } catch (jobError) {
+            // Jobs that did not pass their limits are delayed or failed without running the hooks
+            if (!releaseLimits) throw jobError;
+
             error = jobError instanceof Error ? jobError : new Error(String(jobError));
             success = false;
 
@@ -1253,25 +2090,39 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
 
             await safelyExecuteHook('onFailure', jobDefinition.onFailure, failureContext);
 
+            // Final failures with a dead-letter policy are moved to the dead-letter queue
+            const deadLetterPolicy = isFinalAttempt ? getDeadLetterPolicy(jobDefinition) : null;
+            if (deadLetterPolicy) {
+              try {
+                await moveToDeadLetter(job, error, deadLetterPolicy);
+                deadLetteredJobs.add(job.id!);
+              } catch (deadLetterError) {
+                logger?.error(`Job "${job.name}" could not be moved to the dead-letter queue:`, deadLetterError);
+              }
+            }
+
             // Re-throw to maintain BullMQ error handling
             throw error;
           } finally {
-            // 🚀 EXECUTE ONCOMPLETE HOOKS (always runs)
-            const endTime = Date.now();
-            const executionTime = endTime - startTime;
-
-            const completeContext: JobCompleteHookContext<TContext, any, any> = {
-              input: job.data,
-              context: executionContext.context as TContext,
-              job: { ...jobHookInfo, executionTime },
-              success,
-              result: success ? result : undefined,
-              error: !success ? error : undefined,
-              completedAt: new Date(),
-              executionTime,
-            };
+            // 🚀 EXECUTE ONCOMPLETE HOOKS (always runs once the job started)
+            if (releaseLimits) {
+              const endTime = Date.now();
+              const executionTime = endTime - startTime;
+
+              const completeContext: JobCompleteHookContext<TContext, any, any> = {
+                input: job.data,
+                context: executionContext.context as TContext,
+                job: { ...jobHookInfo, executionTime },
+                success,
+                result: success ? result : undefined,
+                error: !success ? error : undefined,
+                completedAt: new Date(),
+                executionTime,
+              };
 
-            await safelyExecuteHook('onComplete', jobDefinition.onComplete, completeContext);
+              await safelyExecuteHook('onComplete', jobDefinition.onComplete, completeContext);
+              await releaseLimits();
+            }
           }
 
           return result;
@@ -1304,6 +2155,33 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
           });
         }
 
+        // Dead-lettered jobs only live in the dead-letter queue
+        worker.on('failed', async (job: BullMQJob | undefined) => {
+          if (!job?.id || !deadLetteredJobs.delete(job.id)) return;
+
+          try {
+            await job.remove();
+          } catch (removeError) {
+            logger?.warn(`Dead-lettered job "${job.name}" (ID: ${job.id}) could not be removed from failed jobs`);
+          }
+        });
+
+        // Jobs of definitions with `realtime` stream their state to their realtime channel,
+        // the `active` state is streamed by the processor once the job passed its limits
+        worker.on('progress', (job: BullMQJob, progress: number | object) => {
+          void streamJobState(job, 'active', { progress: typeof progress === 'number' ? progress : 0 });
+        });
+        worker.on('completed', (job: BullMQJob, result: any) => {
+          void streamJobState(job, 'completed', { result });
+        });
+        worker.on('failed', (job: BullMQJob | undefined, error: Error) => {
+          if (!job) return;
+          // BullMQ counts the failed attempt before emitting the event
+          const isFinalAttempt = job.attemptsMade >= (job.opts.attempts || 3);
+          const retryStatus: JobStatus = job.opts.backoff ? 'delayed' : 'waiting';
+          void streamJobState(job, isFinalAttempt ? 'failed' : retryStatus, { error: error.message });
+        });
+
         if (config.onIdle) {
           worker.on('drained', () => {
             config.onIdle?.();
@@ -1327,6 +2205,18 @@ export function createBullMQAdapter<TContext extends object>(options: BullMQAdap
         instances.queues.delete(key);
       }
 
+      // Close all queue events
+      for (const [key, queueEvents] of instances.queueEvents) {
+        await queueEvents.close();
+        instances.queueEvents.delete(key);
+      }
+
+      // Close the flow producer
+      if (instances.flowProducer) {
+        await instances.flowProducer.close();
+        instances.flowProducer = undefined;
+      }
+
       // Clear registered jobs
       instances.registeredJobs.clear();
     },
@@ -33,7 +33,28 @@ vi.mock('bullmq', () => {
     finishedOn: null,
     failedReason: null,
     returnvalue: null,
-    opts: { metadata: {} }
+    progress: 0,
+    opts: { metadata: {} },
+    getState: vi.fn().mockResolvedValue('failed'),
+    retry: vi.fn().mockResolvedValue(undefined),
+    remove: vi.fn().mockResolvedValue(undefined),
+    promote: vi.fn().mockResolvedValue(undefined),
+    updateProgress: vi.fn().mockResolvedValue(undefined),
+    log: vi.fn().mockResolvedValue(1),
+    isDelayed: vi.fn().mockResolvedValue(true),
+    updateData: vi.fn().mockResolvedValue(undefined),
+    changeDelay: vi.fn().mockResolvedValue(undefined),
+    moveToDelayed: vi.fn().mockResolvedValue(undefined),
+    waitUntilFinished: vi.fn().mockResolvedValue({ sent: true })
+  }
+
+  const mockRedis = {
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue('OK'),
+    eval: vi.fn().mockResolvedValue('OK'),
+    incr: vi.fn().mockResolvedValue(1),
+    decr: vi.fn().mockResolvedValue(0),
+    pexpire: vi.fn().mockResolvedValue(1)
   }
 
   return {
@@ -42,6 +63,19 @@ vi.mock('bullmq', () => {
       options,
       add: vi.fn().mockResolvedValue(mockJob),
       getJobs: vi.fn().mockResolvedValue([mockJob]),
+      getJob: vi.fn().mockImplementation(async (id) => id === mockJob.id ? mockJob : undefined),
+      getJobLogs: vi.fn().mockResolvedValue({ logs: ['started'], count: 1 }),
+      getJobCounts: vi.fn().mockResolvedValue({ waiting: 1, prioritized: 2, active: 0, completed: 3, failed: 1, delayed: 0, paused: 0 }),
+      pause: vi.fn().mockResolvedValue(undefined),
+      resume: vi.fn().mockResolvedValue(undefined),
+      drain: vi.fn().mockResolvedValue(undefined),
+      getWaitingCount: vi.fn().mockResolvedValue(2),
+      getRepeatableJobs: vi.fn().mockResolvedValue([
+        { key: 'reports.daily::::0 9 * * *', name: 'reports.daily', id: '__schedule__eyJ0ZWFtIjoib3BzIn0', pattern: '0 9 * * *', tz: null, next: 1700000000000 },
+        { key: 'legacy::::* * * * *', name: 'legacy', id: null, pattern: '* * * * *', tz: null, next: 1700000000000 }
+      ]),
+      removeRepeatableByKey: vi.fn().mockResolvedValue(true),
+      client: Promise.resolve(mockRedis),
       close: vi.fn().mockResolvedValue(undefined)
     })),
     Worker: vi.fn().mockImplementation((name, processor, options) => ({
@@ -49,8 +83,21 @@ vi.mock('bullmq', () => {
       processor,
       options,
       on: vi.fn(),
+      client: Promise.resolve(mockRedis),
+      close: vi.fn().mockResolvedValue(undefined)
+    })),
+    QueueEvents: vi.fn().mockImplementation((name, options) => ({
+      name,
+      options,
+      waitUntilReady: vi.fn().mockResolvedValue(undefined),
       close: vi.fn().mockResolvedValue(undefined)
     })),
-    Job: vi.fn().mockImplementation(() => mockJob)
+    Job: vi.fn().mockImplementation(() => mockJob),
+    DelayedError: class DelayedError extends Error {},
+    FlowProducer: vi.fn().mockImplementation((options) => ({
+      options,
+      add: vi.fn().mockResolvedValue({ job: mockJob, children: [] }),
+      close: vi.fn().mockResolvedValue(undefined)
+    }))
   }
 }) 
\ No newline at end of file
@@ -1,5 +1,5 @@
-import type { Queue, Worker, Job, QueueOptions, WorkerOptions } from "bullmq";
-import type { IgniterLogger, IgniterStoreAdapter } from "@igniter-js/core";
+import type { Queue, QueueEvents, Worker, Job, JobsOptions, FlowJob, FlowProducer, QueueOptions, WorkerOptions } from "bullmq";
+import type { IgniterLogger, IgniterStoreAdapter, JobFlowInfo } from "@igniter-js/core";
 
 /**
  * Options for configuring the BullMQ Adapter.
@@ -8,6 +8,8 @@ export interface BullMQAdapterOptions {
   /**
    * Store adapter (Redis) to use with BullMQ.
    * If not provided, a separate Redis connection configuration will be required.
+   * It also distributes the states of the jobs of definitions with `realtime` to the other processes:
+   * without it, only the clients connected to the process running the worker receive them.
    */
   store?: IgniterStoreAdapter;
 
@@ -63,6 +65,10 @@ export interface BullMQInstances {
    * Map of active queues.
    */
   queues: Map<string, Queue>;
+  /**
+   * Map of queue events, created when waiting for the jobs of a queue.
+   */
+  queueEvents: Map<string, QueueEvents>;
   /**
    * Map of active workers.
    */
@@ -71,11 +77,35 @@ export interface BullMQInstances {
    * Registered jobs in the system.
    */
   registeredJobs: Map<string, any>;
+  /**
+   * Flow producer, created when the first flow is started.
+   */
+  flowProducer?: FlowProducer;
 }
 
+/**
+ * Metadata stored with the options of the jobs added by the adapter.
+ */
+export interface BullMQJobMetadata {
+  /**
+   * Stage of the flow the job belongs to.
+   */
+  flow?: JobFlowInfo;
+  [key: string]: any;
+}
+
+/**
+ * Options of the jobs added by the adapter, with their metadata.
+ */
+export type BullMQJobOptions = JobsOptions & {
+  metadata?: BullMQJobMetadata;
+};
+
 /**
  * BullMQ-specific types for better integration.
  */
 export type BullMQJob = Job;
 export type BullMQQueue = Queue;
-export type BullMQWorker = Worker;
\ No newline at end of file
+export type BullMQQueueEvents = QueueEvents;
+export type BullMQWorker = Worker;
+export type BullMQFlowJob = FlowJob;
\ No newline at end of file
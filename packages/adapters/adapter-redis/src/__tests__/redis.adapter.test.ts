@@ -45,7 +45,9 @@ describe('Redis Store Adapter', () => {
     test('should have all required store methods', () => {
       const expectedMethods = [
         'get', 'set', 'delete', 'has', 
-        'increment', 'expire', 
+        'increment', 'expire', 'setIfAbsent',
+        'pushToList', 'getList',
+        'addToSet', 'removeFromSet', 'getSetMembers',
         'publish', 'subscribe', 'unsubscribe'
       ]
       
@@ -1,5 +1,22 @@
 import type { Redis } from "ioredis";
-import { type EventCallback, type KeyValueOptions, type IgniterStoreAdapter, isServer } from "@igniter-js/core";
+import {
+  type EventCallback,
+  type KeyValueOptions,
+  type ListPushOptions,
+  type IgniterStoreAdapter,
+  isServer,
+} from "@igniter-js/core";
+
+/**
+ * Parses a stored value, returning the raw value when it is not JSON.
+ */
+function deserialize<T>(value: string): T {
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return value as unknown as T;
+  }
+}
 
 /**
  * Creates a Store Adapter for Redis.
@@ -41,12 +58,7 @@ export function createRedisStoreAdapter(redisClient: Redis): IgniterStoreAdapter
       if (value === null) {
         return null;
       }
-      try {
-        return JSON.parse(value) as T;
-      } catch {
-        // If parsing fails, return the raw value.
-        return value as unknown as T;
-      }
+      return deserialize<T>(value);
     },
 
     async set(key: string, value: any, options?: KeyValueOptions): Promise<void> {
@@ -75,6 +87,42 @@ export function createRedisStoreAdapter(redisClient: Redis): IgniterStoreAdapter
       await redisClient.expire(key, ttl);
     },
 
+    async setIfAbsent(key: string, value: any, options?: KeyValueOptions): Promise<boolean> {
+      const serializedValue = JSON.stringify(value);
+      const result = options?.ttl
+        ? await redisClient.set(key, serializedValue, 'EX', options.ttl, 'NX')
+        : await redisClient.set(key, serializedValue, 'NX');
+      return result === 'OK';
+    },
+
+    async pushToList(key: string, value: any, options?: ListPushOptions): Promise<void> {
+      const transaction = redisClient.multi().rpush(key, JSON.stringify(value));
+      if (options?.maxLength) {
+        transaction.ltrim(key, -options.maxLength, -1);
+      }
+      if (options?.ttl) {
+        transaction.expire(key, options.ttl);
+      }
+      await transaction.exec();
+    },
+
+    async getList<T>(key: string): Promise<T[]> {
+      const values = await redisClient.lrange(key, 0, -1);
+      return values.map((value) => deserialize<T>(value));
+    },
+
+    async addToSet(key: string, member: string): Promise<void> {
+      await redisClient.sadd(key, member);
+    },
+
+    async removeFromSet(key: string, member: string): Promise<boolean> {
+      return (await redisClient.srem(key, member)) === 1;
+    },
+
+    async getSetMembers(key: string): Promise<string[]> {
+      return redisClient.smembers(key);
+    },
+
     async publish(channel: string, message: any): Promise<void> {
       await redisClient.publish(channel, JSON.stringify(message));
     },
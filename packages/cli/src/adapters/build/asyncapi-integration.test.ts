@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { introspectRouter } from './introspector';
+import { AsyncAPIGenerator } from '../docs/asyncapi-generator';
+import type { IgniterRouter } from '@igniter-js/core';
+import { z } from 'zod';
+
+describe('AsyncAPI Generator Integration - realtime channels', () => {
+  const mockRouter = {
+    controllers: {},
+    channels: {
+      chatRoom: {
+        name: 'chat:room:{roomId}',
+        description: 'Messages of a chat room',
+        params: ['roomId'],
+        schema: z.object({ text: z.string(), author: z.string() }),
+        clientPublish: true,
+      },
+      announcements: {
+        name: 'announcements',
+        params: [],
+        schema: z.object({ title: z.string() }),
+      },
+    },
+    config: {
+      docs: {
+        info: { title: 'Chat API', version: '2.0.0' },
+        servers: [{ url: 'https://chat.example.com/api/v1' }],
+      },
+    },
+  } as unknown as IgniterRouter<any, any, any, any, any>;
+
+  it('should introspect the channels with their JSON schema', () => {
+    const { schema } = introspectRouter(mockRouter);
+
+    expect(schema.channels?.chatRoom).toEqual({
+      name: 'chat:room:{roomId}',
+      description: 'Messages of a chat room',
+      params: ['roomId'],
+      schema: expect.objectContaining({ type: 'object', required: ['text', 'author'] }),
+      clientPublish: true,
+    });
+    expect(schema.channels?.announcements.clientPublish).toBe(false);
+  });
+
+  it('should not add channels to routers without them', () => {
+    const { schema } = introspectRouter({ controllers: {} } as unknown as IgniterRouter<any, any, any, any, any>);
+
+    expect(schema.channels).toBeUndefined();
+  });
+
+  it('should generate an AsyncAPI document for the channels', () => {
+    const { schema } = introspectRouter(mockRouter);
+    const spec = new AsyncAPIGenerator(schema.docs).generate(schema);
+
+    expect(spec.asyncapi).toBe('3.0.0');
+    expect(spec.info).toEqual({ title: 'Chat API', version: '2.0.0' });
+    expect(spec.servers.sse).toEqual(expect.objectContaining({
+      host: 'chat.example.com',
+      pathname: '/api/v1/sse/events',
+      protocol: 'https',
+    }));
+    expect(spec.servers.websocket.protocol).toBe('wss');
+
+    expect(spec.channels.chatRoom).toEqual(expect.objectContaining({
+      address: 'chat:room:{roomId}',
+      parameters: { roomId: {} },
+      messages: { ChatRoomMessage: { $ref: '#/components/messages/ChatRoomMessage' } },
+    }));
+    expect(spec.channels.announcements.parameters).toBeUndefined();
+    expect(spec.components.schemas.ChatRoomMessage.properties).toHaveProperty('text');
+
+    expect(spec.operations.receiveChatRoom).toEqual(expect.objectContaining({ action: 'receive' }));
+    expect(spec.operations.sendChatRoom).toEqual(expect.objectContaining({ action: 'send' }));
+    expect(spec.operations.sendAnnouncements).toBeUndefined();
+  });
+});
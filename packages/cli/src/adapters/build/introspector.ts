@@ -9,9 +9,18 @@ import zodToJsonSchema from 'zod-to-json-schema';
 
 export interface IntrospectedRouter {
   controllers: Record<string, IntrospectedController>;
+  channels?: Record<string, IntrospectedChannel>;
   docs?: any;
 }
 
+export interface IntrospectedChannel {
+  name: string;
+  description?: string;
+  params: string[];
+  schema?: any;
+  clientPublish: boolean;
+}
+
 interface IntrospectedController {
   name: string;
   description?: string;
@@ -29,6 +38,7 @@ interface IntrospectedAction {
   querySchema?: any;
   paramSchemas?: Record<string, any>;
   responseSchema?: any;
+  errorSchemas?: Record<string, any>;
   isStream: boolean;
   security?: any;
 }
@@ -46,6 +56,43 @@ export class RouterLoadError extends Error {
   }
 }
 
+/**
+ * Converts the params schema of an action into one JSON schema per path parameter.
+ */
+function introspectParamSchemas(params: any): Record<string, any> {
+  const paramsJsonSchema = zodToJsonSchema(params, { target: 'openApi3' }) as Record<string, any>;
+  return { ...(paramsJsonSchema.properties || {}) };
+}
+
+/**
+ * Converts the per-status error schemas of an action into JSON schemas keyed by status code.
+ */
+function introspectErrorSchemas(errors: Record<number, any>): Record<string, any> {
+  const errorSchemas: Record<string, any> = {};
+  for (const [status, schema] of Object.entries(errors)) {
+    if (!schema) continue;
+    errorSchemas[status] = zodToJsonSchema(schema, { target: 'openApi3' });
+  }
+  return errorSchemas;
+}
+
+/**
+ * Converts the typed realtime channels of a router into serializable channel descriptions.
+ */
+function introspectChannels(channels: Record<string, any>): Record<string, IntrospectedChannel> {
+  const introspectedChannels: Record<string, IntrospectedChannel> = {};
+  for (const [channelKey, channel] of Object.entries(channels)) {
+    introspectedChannels[channelKey] = {
+      name: channel.name,
+      description: channel.description,
+      params: channel.params || [],
+      schema: channel.schema ? zodToJsonSchema(channel.schema, { target: 'openApi3' }) : undefined,
+      clientPublish: channel.clientPublish ?? false,
+    };
+  }
+  return introspectedChannels;
+}
+
 /**
  * Traverses a loaded router object and converts it into a serializable schema.
  * Also converts Zod schemas to JSON schemas.
@@ -70,9 +117,15 @@ export function introspectRouter(router: IgniterRouter<any, any, any, any, any>)
           ...typedAction,
           body: undefined, // Remove original Zod schema
           query: undefined,
+          params: undefined,
+          output: undefined,
+          errors: undefined,
           // Convert Zod schemas to JSON Schemas for the client
           bodySchema: typedAction.body ? zodToJsonSchema(typedAction.body, { target: 'openApi3' }) : undefined,
           querySchema: typedAction.query ? zodToJsonSchema(typedAction.query, { target: 'openApi3' }) : undefined,
+          paramSchemas: typedAction.params ? introspectParamSchemas(typedAction.params) : undefined,
+          responseSchema: typedAction.output ? zodToJsonSchema(typedAction.output as any, { target: 'openApi3' }) : undefined,
+          errorSchemas: typedAction.errors ? introspectErrorSchemas(typedAction.errors) : undefined,
         };
         totalActions++;
       }
@@ -86,6 +139,7 @@ export function introspectRouter(router: IgniterRouter<any, any, any, any, any>)
 
   const schemaResult = {
     controllers: introspectedControllers,
+    channels: router.channels ? introspectChannels(router.channels) : undefined,
     docs: (router as any)?.config?.docs,
   } as IntrospectedRouter;
 
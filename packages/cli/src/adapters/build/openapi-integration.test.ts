@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { introspectRouter } from './introspector';
 import { OpenAPIGenerator } from '../docs/openapi-generator';
 import type { IgniterRouter } from '@igniter-js/core';
+import { z } from 'zod';
 
 describe('OpenAPI Generator Integration - docs configuration', () => {
   it('should generate OpenAPI spec with docs configuration from router', () => {
@@ -198,4 +199,73 @@ describe('OpenAPI Generator Integration - docs configuration', () => {
     expect(spec.info.description).toBe('API for managing blog posts');
     expect(spec.servers[0].url).toBe('https://blog.example.com/api');
   });
-});
\ No newline at end of file
+});
+describe('OpenAPI Generator Integration - response schemas', () => {
+  it('should emit output and per-status error schemas as response components', () => {
+    const mockRouter = {
+      controllers: {
+        users: {
+          name: 'users',
+          path: '/users',
+          actions: {
+            getById: {
+              name: 'getById',
+              path: '/:id',
+              method: 'GET',
+              handler: () => {},
+              output: z.object({ id: z.string(), name: z.string() }),
+              errors: {
+                404: z.object({ code: z.literal('ERR_NOT_FOUND'), message: z.string() }),
+              },
+            },
+          },
+        },
+      },
+    } as unknown as IgniterRouter<any, any, any, any, any>;
+
+    const introspected = introspectRouter(mockRouter);
+    const action = introspected.schema.controllers.users.actions.getById;
+
+    expect(action.responseSchema).toMatchObject({ type: 'object', required: ['id', 'name'] });
+    expect(action.errorSchemas?.['404']).toMatchObject({ type: 'object' });
+
+    const spec = new OpenAPIGenerator({}).generate(introspected.schema);
+    const operation = spec.paths['/users/:id'].get;
+
+    expect(spec.components.schemas.UsersGetByIdResponse).toEqual(action.responseSchema);
+    expect(spec.components.schemas.UsersGetByIdError404).toEqual(action.errorSchemas?.['404']);
+    expect(operation.responses['200'].content['application/json'].schema.properties.data).toEqual({
+      $ref: '#/components/schemas/UsersGetByIdResponse',
+    });
+    expect(operation.responses['404'].content['application/json'].schema.properties.error).toEqual({
+      $ref: '#/components/schemas/UsersGetByIdError404',
+    });
+  });
+
+  it('should use the params schema for path parameters', () => {
+    const mockRouter = {
+      controllers: {
+        users: {
+          name: 'users',
+          path: '/users',
+          actions: {
+            getById: {
+              name: 'getById',
+              path: '/:id',
+              method: 'GET',
+              handler: () => {},
+              params: z.object({ id: z.coerce.number().int() }),
+            },
+          },
+        },
+      },
+    } as unknown as IgniterRouter<any, any, any, any, any>;
+
+    const introspected = introspectRouter(mockRouter);
+    const spec = new OpenAPIGenerator({}).generate(introspected.schema);
+    const [idParam] = spec.paths['/users/:id'].get.parameters;
+
+    expect(idParam).toMatchObject({ name: 'id', in: 'path', required: true });
+    expect(idParam.schema).toMatchObject({ type: 'integer' });
+  });
+});
@@ -7,6 +7,7 @@ import { createTimelineManager } from '@/lib/timeline-manager'
 import { createDetachedSpinner } from '@/lib/spinner'
 import chokidar from 'chokidar';
 import { OpenAPIGenerator } from '../docs/openapi-generator';
+import { AsyncAPIGenerator } from '../docs/asyncapi-generator';
 import chalk from 'chalk';
 
 export type IgniterBuildConfig = {
@@ -286,6 +287,13 @@ export class IgniterWatcher {
       fs.writeFileSync(outputPath, JSON.stringify(openApiSpec, null, 2), 'utf8')
 
       this.logger.success(`OpenAPI specification updated at ${outputPath}`)
+
+      if (Object.keys(introspectedSchema.channels || {}).length > 0) {
+        const asyncApiSpec = new AsyncAPIGenerator(introspectedSchema.docs || {}).generate(introspectedSchema)
+        const asyncApiPath = path.join(outputDir, 'asyncapi.json')
+        fs.writeFileSync(asyncApiPath, JSON.stringify(asyncApiSpec, null, 2), 'utf8')
+        this.logger.success(`AsyncAPI specification updated at ${asyncApiPath}`)
+      }
     } catch (error) {
       this.logger.error('Error generating OpenAPI specification:', { error: formatError(error) })
     }
@@ -0,0 +1,97 @@
+import { IntrospectedRouter } from '../build/introspector'
+import type { DocsConfig } from './openapi-generator'
+
+type AsyncApiV3Document = Record<string, any>;
+
+function toPascalCase(str: string): string {
+  if (!str) return '';
+  return str
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Generates an AsyncAPI 3.0 document describing the typed realtime channels of a router.
+ * Clients receive channel events over SSE (`/sse/events`) or WebSocket (`/ws/events`).
+ */
+export class AsyncAPIGenerator {
+  private docsConfig: DocsConfig;
+  private schemas: Record<string, any> = {};
+  private messages: Record<string, any> = {};
+
+  constructor(config: DocsConfig) {
+    this.docsConfig = config || {};
+  }
+
+  public generate(router: IntrospectedRouter): AsyncApiV3Document {
+    const [server] = this.docsConfig.servers || [];
+    const url = new URL(server?.url || 'http://localhost:3000/api/v1');
+
+    const spec: AsyncApiV3Document = {
+      asyncapi: '3.0.0',
+      info: this.docsConfig.info || { title: 'Igniter API', version: '1.0.0' },
+      servers: {
+        sse: {
+          host: url.host,
+          pathname: `${url.pathname.replace(/\/$/, '')}/sse/events`,
+          protocol: url.protocol.replace(':', ''),
+          description: server?.description || 'Server-Sent Events endpoint',
+        },
+        websocket: {
+          host: url.host,
+          pathname: `${url.pathname.replace(/\/$/, '')}/ws/events`,
+          protocol: url.protocol === 'https:' ? 'wss' : 'ws',
+          description: 'WebSocket endpoint',
+        },
+      },
+      channels: {},
+      operations: {},
+      components: {
+        messages: this.messages,
+        schemas: this.schemas,
+      },
+    };
+
+    for (const [channelKey, channel] of Object.entries(router.channels || {})) {
+      const messageName = `${toPascalCase(channelKey)}Message`;
+
+      if (channel.schema) {
+        this.schemas[messageName] = channel.schema; // already JSON Schema
+      }
+      this.messages[messageName] = {
+        name: messageName,
+        contentType: 'application/json',
+        payload: channel.schema ? { $ref: `#/components/schemas/${messageName}` } : {},
+      };
+
+      spec.channels[channelKey] = {
+        address: channel.name,
+        description: channel.description,
+        parameters: channel.params.length > 0
+          ? Object.fromEntries(channel.params.map((param) => [param, {}]))
+          : undefined,
+        messages: {
+          [messageName]: { $ref: `#/components/messages/${messageName}` },
+        },
+      };
+
+      spec.operations[`receive${toPascalCase(channelKey)}`] = {
+        action: 'receive',
+        channel: { $ref: `#/channels/${channelKey}` },
+        summary: channel.description,
+      };
+
+      if (channel.clientPublish) {
+        spec.operations[`send${toPascalCase(channelKey)}`] = {
+          action: 'send',
+          channel: { $ref: `#/channels/${channelKey}` },
+          summary: 'Published by WebSocket clients',
+        };
+      }
+    }
+
+    return spec;
+  }
+}
@@ -95,7 +95,7 @@ export class OpenAPIGenerator {
               name: paramName,
               in: 'path',
               required: true,
-              schema: { type: 'string' },
+              schema: action.paramSchemas?.[paramName] || { type: 'string' },
             });
           }
         }
@@ -130,6 +130,30 @@ export class OpenAPIGenerator {
           };
         }
 
+        if (action.responseSchema) {
+          const responseSchemaName = `${toPascalCase(controller.name || controllerKey)}${toPascalCase(actionName)}Response`;
+          this.schemas[responseSchemaName] = action.responseSchema; // already JSON Schema
+          operation.responses['200'].content['application/json'].schema = this.buildEnvelope(
+            { $ref: `#/components/schemas/${responseSchemaName}` },
+            'data',
+          );
+        }
+
+        if (action.errorSchemas) {
+          for (const [status, errorJsonSchema] of Object.entries(action.errorSchemas)) {
+            const errorSchemaName = `${toPascalCase(controller.name || controllerKey)}${toPascalCase(actionName)}Error${status}`;
+            this.schemas[errorSchemaName] = errorJsonSchema; // already JSON Schema
+            operation.responses[status] = {
+              description: 'Error',
+              content: {
+                'application/json': {
+                  schema: this.buildEnvelope({ $ref: `#/components/schemas/${errorSchemaName}` }, 'error'),
+                },
+              },
+            };
+          }
+        }
+
         if ((action as any).isStream) {
           operation.description = (operation.description ? operation.description + '\n\n' : '') +
             'This endpoint supports Server-Sent Events (SSE) for real-time updates. ' +
@@ -141,4 +165,19 @@ export class OpenAPIGenerator {
     }
     return paths;
   }
+
+  /**
+   * Wraps a payload schema in the `{ data, error }` envelope sent by Igniter responses.
+   */
+  private buildEnvelope(schema: Record<string, any>, field: 'data' | 'error'): Record<string, any> {
+    const other = field === 'data' ? 'error' : 'data';
+    return {
+      type: 'object',
+      properties: {
+        [field]: schema,
+        [other]: { nullable: true },
+      },
+      required: [field],
+    };
+  }
 }
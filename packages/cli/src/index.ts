@@ -231,6 +231,7 @@ generate
       timeline.step('Loading dependencies and locating router');
       const { loadRouter, introspectRouter } = await import("./adapters/build/introspector");
       const { OpenAPIGenerator } = await import("./adapters/docs/openapi-generator");
+      const { AsyncAPIGenerator } = await import("./adapters/docs/asyncapi-generator");
 
       const possibleRouterPaths = [
         'src/igniter.router.ts',
@@ -289,6 +290,15 @@ generate
       
       const specSize = (fs.statSync(outputPath).size / 1024).toFixed(1);
       timeline.substep(`OpenAPI spec: ${outputPath} (${specSize} KB)`);
+
+      // Realtime channels are described in a separate AsyncAPI document
+      const channelsCount = Object.keys(introspected.schema.channels || {}).length;
+      if (channelsCount > 0) {
+        const asyncApiSpec = new AsyncAPIGenerator(introspected.schema.docs || {}).generate(introspected.schema);
+        const asyncApiPath = path.join(outputDir, 'asyncapi.json');
+        fs.writeFileSync(asyncApiPath, JSON.stringify(asyncApiSpec, null, 2), 'utf8');
+        timeline.substep(`AsyncAPI spec: ${asyncApiPath} (${channelsCount} channels)`);
+      }
       timeline.stepSuccess('OpenAPI specification generated');
 
       // Step 4: Generate Scalar UI (if requested)
@@ -315,7 +325,7 @@ generate
       }
 
       const duration = ((performance.now() - startTime) / 1000).toFixed(2);
-      const totalFiles = options.ui ? 2 : 1;
+      const totalFiles = 1 + (options.ui ? 1 : 0) + (channelsCount > 0 ? 1 : 0);
       timeline.complete(`Documentation generated successfully! ${totalFiles} files created in ${duration}s`);
       
       // Force exit to prevent hanging processes (esbuild cleanup)
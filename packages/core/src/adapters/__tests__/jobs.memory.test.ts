@@ -0,0 +1,801 @@
+import { describe, test, expect, vi, afterEach } from 'vitest'
+import { z } from 'zod'
+import { createMemoryJobsAdapter, MemoryJobsStorage } from '../jobs.memory'
+import type { IgniterJobQueueAdapter } from '../../types/jobs.interface'
+import type { IgniterLogger } from '../../types/logger.interface'
+import type { IgniterStoreAdapter } from '../../types/store.interface'
+import { SSEProcessor } from '../../processors/sse.processor'
+import { getJobChannel, JOB_CHANNEL_PATTERN } from '../../utils/channel'
+
+const silentLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as IgniterLogger
+
+describe('Memory Jobs Adapter', () => {
+  let adapter: IgniterJobQueueAdapter<{ tenant: string }>
+
+  const createAdapter = (options: Parameters<typeof createMemoryJobsAdapter>[0] = {}) => {
+    adapter = createMemoryJobsAdapter<{ tenant: string }>({
+      logger: silentLogger,
+      pollInterval: 20,
+      contextFactory: () => ({ tenant: 'acme' }),
+      ...options,
+    })
+    return adapter
+  }
+
+  afterEach(async () => {
+    await adapter?.shutdown()
+  })
+
+  test('should run invoked jobs with the validated input and context', async () => {
+    const handler = vi.fn(async ({ input, context }) => `${context.tenant}:${input.to}`)
+    const onSuccess = vi.fn()
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'email.send': adapter.register({
+        name: 'send',
+        input: z.object({ to: z.string().email() }),
+        handler,
+        onSuccess,
+      }),
+    })
+    await adapter.worker({ queues: ['default'] })
+
+    await expect(adapter.invoke({ id: 'email.send', input: { to: 'nope' } }))
+      .rejects.toMatchObject({ code: 'MEMORY_JOBS_ADAPTER_ERROR' })
+
+    const jobId = await adapter.invoke({ id: 'email.send', input: { to: 'ana@acme.com' } })
+
+    await vi.waitFor(() => expect(onSuccess).toHaveBeenCalled())
+    expect(onSuccess).toHaveBeenCalledWith(expect.objectContaining({ result: 'acme:ana@acme.com' }))
+    const [job] = await adapter.search({ filter: { jobId } })
+    expect(job).toMatchObject({ id: jobId, status: 'completed', result: 'acme:ana@acme.com' })
+  })
+
+  test('should run jobs with a higher priority first', async () => {
+    const order: string[] = []
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.run': adapter.register({
+        name: 'run',
+        input: z.object({ label: z.string() }),
+        handler: ({ input }) => { order.push(input.label) },
+      }),
+    })
+
+    await adapter.invoke({ id: 'task.run', input: { label: 'low' }, priority: 1 })
+    await adapter.invoke({ id: 'task.run', input: { label: 'high' }, priority: 10 })
+    await adapter.invoke({ id: 'task.run', input: { label: 'normal' }, priority: 5 })
+    await adapter.worker({ queues: ['default'] })
+
+    await vi.waitFor(() => expect(order).toHaveLength(3))
+    expect(order).toEqual(['high', 'normal', 'low'])
+  })
+
+  test('should run delayed jobs once their delay has passed', async () => {
+    const handler = vi.fn()
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.later': adapter.register({ name: 'later', input: z.object({}), handler }),
+    })
+    await adapter.worker({ queues: ['default'] })
+
+    const jobId = await adapter.invoke({ id: 'task.later', input: {}, delay: 80 })
+    const [delayed] = await adapter.search({ filter: { jobId } })
+    expect(delayed.status).toBe('delayed')
+    expect(handler).not.toHaveBeenCalled()
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledOnce())
+  })
+
+  test('should retry failing jobs and run the hooks of every attempt', async () => {
+    const hooks: string[] = []
+    let calls = 0
+    createAdapter({ backoff: { type: 'fixed', delay: 10 } })
+
+    await adapter.bulkRegister({
+      'task.flaky': adapter.register({
+        name: 'flaky',
+        input: z.object({}),
+        handler: () => {
+          calls++
+          if (calls < 3) throw new Error(`attempt ${calls} failed`)
+          return 'done'
+        },
+        onStart: () => { hooks.push('start') },
+        onFailure: ({ isFinalAttempt }) => { hooks.push(`failure:${isFinalAttempt}`) },
+        onRetry: ({ retryAttempt, retryDelay }) => { hooks.push(`retry:${retryAttempt}:${retryDelay}`) },
+        onSuccess: () => { hooks.push('success') },
+        onComplete: ({ success }) => { hooks.push(`complete:${success}`) },
+      }),
+    })
+    await adapter.worker({ queues: ['default'] })
+    await adapter.invoke({ id: 'task.flaky', input: {} })
+
+    await vi.waitFor(() => expect(hooks).toContain('complete:true'))
+    expect(hooks).toEqual([
+      'start', 'failure:false', 'retry:1:10',
+      'start', 'failure:false', 'retry:2:10',
+      'start', 'success', 'complete:true',
+    ])
+  })
+
+  test('should fail jobs after their last attempt', async () => {
+    const onComplete = vi.fn()
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.broken': adapter.register({
+        name: 'broken',
+        input: z.object({}),
+        attempts: 2,
+        handler: () => { throw new Error('boom') },
+        onComplete,
+      }),
+    })
+    await adapter.worker({ queues: ['default'] })
+    const jobId = await adapter.invoke({ id: 'task.broken', input: {} })
+
+    await vi.waitFor(() => expect(onComplete).toHaveBeenCalled())
+    expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ success: false }))
+    const [job] = await adapter.search({ filter: { jobId } })
+    expect(job).toMatchObject({ status: 'failed', error: 'boom', attemptsMade: 2 })
+  })
+
+  test('should report job progress', async () => {
+    const onProgress = vi.fn()
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.import': adapter.register({
+        name: 'import',
+        input: z.object({}),
+        handler: async ({ job }) => {
+          await job.updateProgress?.(50, 'Halfway')
+          await job.updateProgress?.(100)
+        },
+        onProgress,
+      }),
+    })
+    await adapter.worker({ queues: ['default'] })
+    await adapter.invoke({ id: 'task.import', input: {} })
+
+    await vi.waitFor(() => expect(onProgress).toHaveBeenCalledTimes(2))
+    expect(onProgress).toHaveBeenNthCalledWith(1, expect.objectContaining({ progress: 50, message: 'Halfway' }))
+  })
+
+  test('should keep a single job per jobId', async () => {
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.once': adapter.register({ name: 'once', input: z.object({}), handler: vi.fn() }),
+    })
+
+    expect(await adapter.invoke({ id: 'task.once', input: {}, jobId: 'unique' })).toBe('unique')
+    expect(await adapter.invoke({ id: 'task.once', input: {}, jobId: 'unique' })).toBe('unique')
+    expect(await adapter.search()).toHaveLength(1)
+  })
+
+  test('should enqueue jobs of merged routers through the proxy', async () => {
+    const handler = vi.fn()
+    createAdapter({ autoStartWorker: { concurrency: 2 } })
+
+    const emails = adapter.router({
+      namespace: 'emails',
+      jobs: {
+        welcome: adapter.register({ name: 'welcome', input: z.object({ userId: z.string() }), handler }),
+      },
+    })
+    const executor = adapter.merge({ emails })
+
+    await executor.createProxy().emails.welcome.enqueue({ input: { userId: 'u1' } })
+    await executor.emails.schedule({ task: 'welcome', input: { userId: 'u2' }, delay: 10 })
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2))
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ input: { userId: 'u1' } }))
+  })
+
+  test('should return awaitable handles of the jobs enqueued through the proxy', async () => {
+    createAdapter()
+
+    const reports = adapter.router({
+      namespace: 'reports',
+      jobs: {
+        generate: adapter.register({
+          name: 'generate',
+          input: z.object({ month: z.string() }),
+          handler: async ({ input }) => ({ month: input.month, total: 42 }),
+        }),
+        broken: adapter.register({
+          name: 'broken',
+          input: z.object({}),
+          attempts: 1,
+          handler: () => { throw new Error('boom') },
+        }),
+      },
+    })
+    const proxy = adapter.merge({ reports }).createProxy()
+
+    const job = await proxy.reports.generate.enqueue({ input: { month: '2024-01' } })
+    expect(await job.status()).toBe('waiting')
+    expect(await job.result()).toBeNull()
+    expect(JSON.stringify({ job })).toBe(JSON.stringify({ job: job.id }))
+
+    await expect(job.waitUntilFinished(10)).rejects.toThrow('did not finish within 10ms')
+
+    await adapter.worker({ queues: ['default'] })
+    await expect(job.waitUntilFinished(1000)).resolves.toEqual({ month: '2024-01', total: 42 })
+    expect(await job.status()).toBe('completed')
+    expect(await job.result()).toEqual({ month: '2024-01', total: 42 })
+
+    const broken = await proxy.reports.enqueue({ task: 'broken', input: {} })
+    await expect(broken.waitUntilFinished(1000)).rejects.toThrow('failed: boom')
+  })
+
+  test('should return handles of the jobs enqueued through the executor', async () => {
+    createAdapter()
+
+    const reports = adapter.router({
+      namespace: 'reports',
+      jobs: {
+        generate: adapter.register({
+          name: 'generate',
+          input: z.object({ month: z.string() }),
+          handler: async ({ input }) => input.month,
+        }),
+      },
+    })
+    const executor = adapter.merge({ reports })
+
+    const job = await executor.reports.enqueue({ task: 'generate', input: { month: '2024-01' } })
+    const scheduled = await executor.reports.schedule({ task: 'generate', input: { month: '2024-02' }, delay: 10 })
+    const [bulkJob] = await executor.reports.bulk([{ jobId: 'generate', input: { month: '2024-03' } }])
+
+    expect(String(job)).toBe(job.id)
+    await adapter.worker({ queues: ['default'] })
+    await expect(job.waitUntilFinished(1000)).resolves.toBe('2024-01')
+    await expect(scheduled.waitUntilFinished(1000)).resolves.toBe('2024-02')
+    await expect(bulkJob.waitUntilFinished(1000)).resolves.toBe('2024-03')
+    expect(await scheduled.result()).toBe('2024-02')
+  })
+
+  test('should run flows stage by stage with the results of the previous stage', async () => {
+    const calls: Array<[string, unknown]> = []
+    createAdapter({ autoStartWorker: { concurrency: 2 } })
+
+    const users = adapter.router({
+      namespace: 'users',
+      jobs: {
+        create: adapter.register({
+          name: 'create',
+          input: z.object({ email: z.string() }),
+          handler: ({ input }) => {
+            calls.push(['create', input])
+            return { id: 'u1' }
+          },
+        }),
+        welcome: adapter.register({
+          name: 'welcome',
+          input: z.object({ id: z.string() }),
+          handler: ({ input }) => {
+            calls.push(['welcome', input])
+            return 'sent'
+          },
+        }),
+        track: adapter.register({
+          name: 'track',
+          input: z.object({ id: z.string() }),
+          handler: ({ input }) => {
+            calls.push(['track', input])
+            return 2
+          },
+        }),
+        summarize: adapter.register({
+          name: 'summarize',
+          input: z.tuple([z.string(), z.number()]),
+          handler: ({ input }) => {
+            calls.push(['summarize', input])
+            return input.join(':')
+          },
+        }),
+      },
+    })
+
+    const flowId = await adapter.merge({ users }).createProxy()
+      .flow('onboarding')
+      .start('users.create', { email: 'ana@acme.com' })
+      .parallel(['users.welcome', 'users.track'])
+      .next('users.summarize')
+      .run()
+
+    await vi.waitFor(() => expect(calls).toHaveLength(4))
+    expect(calls[0]).toEqual(['create', { email: 'ana@acme.com' }])
+    expect(calls.slice(1, 3)).toEqual(expect.arrayContaining([['welcome', { id: 'u1' }], ['track', { id: 'u1' }]]))
+    expect(calls[3]).toEqual(['summarize', ['sent', 2]])
+
+    await vi.waitFor(async () => {
+      const jobs = await adapter.search({ filter: { flowId } })
+      expect(jobs.map((job) => job.status)).toEqual(['completed', 'completed', 'completed', 'completed'])
+    })
+    // Stages can start within the same millisecond, so the last one is found by name
+    const jobs = await adapter.search({ filter: { flowId } })
+    expect(jobs.find((job) => job.name === 'users.summarize')).toMatchObject({
+      name: 'users.summarize',
+      result: 'sent:2',
+      flow: { id: flowId, name: 'onboarding', stage: 2, index: 0, stages: 3 },
+    })
+  })
+
+  test('should stop flows when a job fails', async () => {
+    const next = vi.fn()
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.broken': adapter.register({
+        name: 'broken',
+        input: z.object({}),
+        attempts: 1,
+        handler: () => { throw new Error('boom') },
+      }),
+      'task.next': adapter.register({ name: 'next', input: z.any(), handler: next }),
+    })
+    await adapter.worker({ queues: ['default'] })
+
+    const flowId = await adapter.flow!({
+      name: 'broken-flow',
+      input: {},
+      stages: [[{ job: 'task.broken' }], [{ job: 'task.next' }]],
+    })
+
+    await vi.waitFor(async () => {
+      const [job] = await adapter.search({ filter: { flowId } })
+      expect(job.status).toBe('failed')
+    })
+    expect(next).not.toHaveBeenCalled()
+    await expect(adapter.flow!({ name: 'unknown', input: {}, stages: [[{ job: 'task.missing' }]] }))
+      .rejects.toThrow('is not registered')
+  })
+
+  test('should schedule the next occurrence of repeatable jobs', async () => {
+    const handler = vi.fn()
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.tick': adapter.register({ name: 'tick', input: z.object({}), handler }),
+    })
+    await adapter.worker({ queues: ['default'] })
+    await adapter.invoke({ id: 'task.tick', input: {}, repeat: { every: 10, limit: 3 } } as any)
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(3))
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(handler).toHaveBeenCalledTimes(3)
+    expect(handler.mock.calls.map(([{ job }]) => job.metadata.executionCount)).toEqual([1, 2, 3])
+  })
+
+  test('should schedule cron jobs when they are registered', async () => {
+    const storage = new MemoryJobsStorage()
+    createAdapter({ storage })
+
+    const report = adapter.cron('0 9 * * 1-5', vi.fn(), { jobName: 'daily-report' })
+    await adapter.bulkRegister({ 'reports.daily': report })
+    await adapter.bulkRegister({ 'reports.daily': report })
+
+    const jobs = await storage.list()
+    expect(jobs).toHaveLength(1)
+    expect(jobs[0]).toMatchObject({ name: 'reports.daily', status: 'delayed', repeat: { cron: '0 9 * * 1-5' } })
+    expect(new Date(jobs[0].runAt).getHours()).toBe(9)
+    expect(() => adapter.cron('61 * * * *', vi.fn())).toThrow('Invalid cron expression')
+  })
+
+  test('should retry jobs left active by a worker whose lease expired', async () => {
+    const storage = new MemoryJobsStorage()
+    const handler = vi.fn()
+    createAdapter({ storage })
+
+    await adapter.bulkRegister({
+      'task.resume': adapter.register({ name: 'resume', input: z.object({}), handler }),
+    })
+    await adapter.invoke({ id: 'task.resume', input: {} })
+    await storage.claim('default', Date.now(), { workerId: 'stopped-worker', expiresAt: Date.now() - 1 })
+
+    await adapter.worker({ queues: ['default'] })
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledOnce())
+  })
+
+  test('should not retry the jobs another worker is running', async () => {
+    const storage = new MemoryJobsStorage()
+    const handler = vi.fn()
+    createAdapter({ storage })
+
+    await adapter.bulkRegister({
+      'task.busy': adapter.register({ name: 'busy', input: z.object({}), handler }),
+    })
+    await adapter.invoke({ id: 'task.busy', input: {} })
+    await storage.claim('default', Date.now(), { workerId: 'other-worker', expiresAt: Date.now() + 60_000 })
+
+    await adapter.worker({ queues: ['default'] })
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    expect(handler).not.toHaveBeenCalled()
+    expect((await storage.list())[0].status).toBe('active')
+  })
+
+  test('should keep polling when the storage fails', async () => {
+    const storage = new MemoryJobsStorage()
+    const handler = vi.fn()
+    createAdapter({ storage })
+    vi.spyOn(storage, 'claim').mockRejectedValueOnce(new Error('database is locked'))
+
+    await adapter.bulkRegister({
+      'task.poll': adapter.register({ name: 'poll', input: z.object({}), handler }),
+    })
+    await adapter.worker({ queues: ['default'] })
+    await adapter.invoke({ id: 'task.poll', input: {} })
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledOnce())
+    expect(silentLogger.error).toHaveBeenCalledWith('Job polling failed', expect.objectContaining({ queue: 'default' }))
+  })
+
+  test('should wait for active jobs on shutdown', async () => {
+    let finished = false
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.slow': adapter.register({
+        name: 'slow',
+        input: z.object({}),
+        handler: async () => {
+          await new Promise((resolve) => setTimeout(resolve, 30))
+          finished = true
+        },
+      }),
+    })
+    const onActive = vi.fn()
+    await adapter.worker({ queues: ['default'], onActive })
+    await adapter.invoke({ id: 'task.slow', input: {} })
+    await vi.waitFor(() => expect(onActive).toHaveBeenCalled())
+
+    await adapter.shutdown()
+
+    expect(finished).toBe(true)
+    await expect(adapter.invoke({ id: 'task.slow', input: {} })).rejects.toThrow('is not registered')
+  })
+
+  test('should retry failed jobs and keep their logs', async () => {
+    let attempt = 0
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.flaky': adapter.register({
+        name: 'flaky',
+        input: z.object({}),
+        attempts: 1,
+        handler: async ({ job }) => {
+          await job.log?.(`Attempt ${++attempt}`)
+          if (attempt === 1) throw new Error('boom')
+        },
+      }),
+    })
+    await adapter.worker({ queues: ['default'] })
+    const jobId = await adapter.invoke({ id: 'task.flaky', input: {} })
+
+    await vi.waitFor(async () => expect(await adapter.getJob({ id: jobId })).toMatchObject({ status: 'failed' }))
+    await expect(adapter.cancel({ id: jobId })).rejects.toThrow('Only waiting or delayed jobs can be cancelled')
+    await expect(adapter.cancel({ id: jobId })).rejects.toMatchObject({ code: 'JOB_STATE_CONFLICT' })
+    await adapter.retry({ id: jobId })
+
+    await vi.waitFor(async () => expect(await adapter.getJob({ id: jobId })).toMatchObject({ status: 'completed' }))
+    expect((await adapter.getJob({ id: jobId }))?.logs).toEqual(['Attempt 1', 'Attempt 2'])
+    await expect(adapter.getJob({ id: 'unknown' })).resolves.toBeNull()
+  })
+
+  test('should cancel and promote delayed jobs', async () => {
+    const handler = vi.fn()
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.later': adapter.register({ name: 'later', input: z.object({}), handler }),
+    })
+    const cancelled = await adapter.invoke({ id: 'task.later', input: {}, delay: 60_000 })
+    const promoted = await adapter.invoke({ id: 'task.later', input: {}, delay: 60_000 })
+    expect(await adapter.getQueueCounts()).toMatchObject({ delayed: 2 })
+
+    await adapter.cancel({ id: cancelled })
+    await adapter.promote({ id: promoted })
+    await adapter.worker({ queues: ['default'] })
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledOnce())
+    expect(await adapter.getJob({ id: cancelled })).toBeNull()
+    await expect(adapter.promote({ id: promoted })).rejects.toThrow('Only delayed jobs can be promoted')
+  })
+
+  test('should pause, resume and drain queues', async () => {
+    const handler = vi.fn()
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.paused': adapter.register({ name: 'paused', input: z.object({}), handler }),
+    })
+    await adapter.pauseQueue()
+    await adapter.worker({ queues: ['default'] })
+    await adapter.invoke({ id: 'task.paused', input: {} })
+
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(handler).not.toHaveBeenCalled()
+    expect(await adapter.getQueueCounts()).toMatchObject({ waiting: 0, paused: 1 })
+
+    await adapter.resumeQueue()
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledOnce())
+
+    await adapter.pauseQueue()
+    await adapter.invoke({ id: 'task.paused', input: {} })
+    await adapter.invoke({ id: 'task.paused', input: {}, delay: 60_000 })
+    await adapter.drain()
+    expect(await adapter.getQueueCounts()).toMatchObject({ paused: 0, delayed: 1, completed: 1 })
+    await adapter.drain(undefined, { delayed: true })
+    expect(await adapter.getQueueCounts()).toMatchObject({ delayed: 0 })
+  })
+
+  test('should move final failures to the dead-letter queue and replay them', async () => {
+    let calls = 0
+    const handler = vi.fn(async () => {
+      if (++calls <= 2) throw new Error(`attempt ${calls} failed`)
+      return 'done'
+    })
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.poison': adapter.register({
+        name: 'poison',
+        input: z.object({}),
+        attempts: 2,
+        deadLetter: true,
+        handler,
+      }),
+    })
+    await adapter.worker({ queues: ['default'] })
+    const jobId = await adapter.invoke({ id: 'task.poison', input: {} })
+
+    await vi.waitFor(async () => expect(await adapter.listDeadLetters()).toHaveLength(1))
+    expect(await adapter.getDeadLetter({ id: jobId })).toMatchObject({
+      id: jobId,
+      queueName: 'default',
+      error: 'attempt 2 failed',
+      errors: ['attempt 1 failed', 'attempt 2 failed'],
+      attemptsMade: 2,
+    })
+    expect(await adapter.search({ queue: { name: 'default' }, filter: { status: ['failed'] } })).toHaveLength(0)
+
+    await expect(adapter.replayDeadLetter({ id: jobId })).resolves.toBe(jobId)
+    await vi.waitFor(async () => expect(await adapter.getJob({ id: jobId })).toMatchObject({ status: 'completed' }))
+    expect(await adapter.listDeadLetters()).toHaveLength(0)
+  })
+
+  test('should apply the dead-letter policy of the queue and purge entries', async () => {
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'task.broken': adapter.register({
+        name: 'broken',
+        input: z.object({}),
+        attempts: 1,
+        queue: { name: 'default', deadLetter: { maxEntries: 2 } },
+        handler: () => { throw new Error('boom') },
+      }),
+    })
+    await adapter.worker({ queues: ['default'] })
+    for (let i = 0; i < 3; i++) {
+      await adapter.invoke({ id: 'task.broken', input: {} })
+    }
+
+    await vi.waitFor(async () => expect(await adapter.getQueueCounts()).toMatchObject({ waiting: 0, active: 0 }))
+    expect(await adapter.listDeadLetters()).toHaveLength(2)
+
+    const [entry] = await adapter.listDeadLetters({ limit: 1 })
+    expect(await adapter.purgeDeadLetters({ ids: [entry.id] })).toBe(1)
+    expect(await adapter.purgeDeadLetters()).toBe(1)
+    await expect(adapter.replayDeadLetter({ id: entry.id })).rejects.toThrow('not found')
+  })
+
+  test('should reconcile declarative schedules when the worker starts', async () => {
+    const storage = new MemoryJobsStorage()
+    const handler = vi.fn()
+    const routerWith = (jobs: Record<string, any>) => adapter.merge({ reports: adapter.router({ namespace: 'reports', jobs }) })
+    createAdapter({ storage, autoStartWorker: {} })
+
+    routerWith({
+      daily: adapter.register({ name: 'daily', input: z.object({ team: z.string() }), handler, schedule: { cron: '0 9 * * *', input: { team: 'ops' } } }),
+      weekly: adapter.register({ name: 'weekly', input: z.object({}), handler, schedule: { cron: '0 9 * * 1' } }),
+    })
+    await vi.waitFor(async () => expect(await adapter.listSchedules()).toHaveLength(2))
+    await adapter.shutdown()
+
+    // Next deploy: the daily schedule changed and the weekly job was removed
+    createAdapter({ storage, autoStartWorker: {} })
+    routerWith({
+      daily: adapter.register({ name: 'daily', input: z.object({ team: z.string() }), handler, schedule: { cron: '0 8 * * *', input: { team: 'ops' } } }),
+    })
+
+    await vi.waitFor(async () => expect(await adapter.listSchedules()).toEqual([
+      expect.objectContaining({ job: 'reports.daily', cron: '0 8 * * *', input: { team: 'ops' }, queueName: 'default' }),
+    ]))
+    expect(await adapter.search({ queue: { name: 'default' } })).toHaveLength(1)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  test('should start at most the rate limit of jobs per interval', async () => {
+    const starts: number[] = []
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'api.sync': adapter.register({
+        name: 'sync',
+        input: z.object({}),
+        rateLimit: { max: 2, duration: 200 },
+        handler: () => { starts.push(Date.now()) },
+      }),
+    })
+    await adapter.worker({ queues: ['default'], concurrency: 5 })
+    for (let i = 0; i < 3; i++) {
+      await adapter.invoke({ id: 'api.sync', input: {} })
+    }
+
+    await vi.waitFor(() => expect(starts).toHaveLength(3))
+    expect(starts[2] - starts[0]).toBeGreaterThanOrEqual(190)
+  })
+
+  test('should limit the active jobs of a concurrency group', async () => {
+    const active = new Map<string, number>()
+    let maxTenantActive = 0
+    const release: Array<() => void> = []
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'tenant.import': adapter.register({
+        name: 'import',
+        input: z.object({ tenant: z.string() }),
+        concurrencyGroup: { key: (input) => input.tenant },
+        handler: async ({ input }) => {
+          active.set(input.tenant, (active.get(input.tenant) || 0) + 1)
+          maxTenantActive = Math.max(maxTenantActive, active.get(input.tenant)!)
+          await new Promise<void>((resolve) => release.push(resolve))
+          active.set(input.tenant, active.get(input.tenant)! - 1)
+        },
+      }),
+    })
+    await adapter.worker({ queues: ['default'], concurrency: 5 })
+    await adapter.invoke({ id: 'tenant.import', input: { tenant: 'acme' } })
+    await adapter.invoke({ id: 'tenant.import', input: { tenant: 'acme' } })
+    await adapter.invoke({ id: 'tenant.import', input: { tenant: 'globex' } })
+
+    await vi.waitFor(() => expect(release).toHaveLength(2))
+    expect(await adapter.getQueueCounts()).toMatchObject({ active: 2, waiting: 1 })
+
+    release.shift()!()
+    await vi.waitFor(() => expect(release).toHaveLength(2))
+    release.splice(0).forEach((resolve) => resolve())
+    await vi.waitFor(async () => expect(await adapter.getQueueCounts()).toMatchObject({ completed: 3 }))
+    expect(maxTenantActive).toBe(1)
+  })
+
+  test('should debounce identical enqueues into the last one', async () => {
+    const handler = vi.fn()
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'search.reindex': adapter.register({
+        name: 'reindex',
+        input: z.object({ index: z.string(), version: z.number() }),
+        debounce: { delay: 100, key: (input) => input.index },
+        handler,
+      }),
+    })
+    await adapter.worker({ queues: ['default'] })
+
+    const first = await adapter.invoke({ id: 'search.reindex', input: { index: 'posts', version: 1 } })
+    const second = await adapter.invoke({ id: 'search.reindex', input: { index: 'posts', version: 2 } })
+    await adapter.invoke({ id: 'search.reindex', input: { index: 'users', version: 1 } })
+
+    expect(second).toBe(first)
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2))
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ input: { index: 'posts', version: 2 } }))
+  })
+
+  test('should collapse concurrent identical enqueues into one job', async () => {
+    const storage = new MemoryJobsStorage()
+    createAdapter({ storage })
+
+    await adapter.bulkRegister({
+      'search.reindex': adapter.register({
+        name: 'reindex',
+        input: z.object({ index: z.string(), version: z.number() }),
+        debounce: { delay: 60_000, key: (input) => input.index },
+        handler: vi.fn(),
+      }),
+    })
+
+    const ids = await Promise.all([1, 2, 3].map((version) =>
+      adapter.invoke({ id: 'search.reindex', input: { index: 'posts', version } })
+    ))
+
+    expect(new Set(ids).size).toBe(1)
+    const jobs = await storage.list('default')
+    expect(jobs).toHaveLength(1)
+    expect(jobs[0]).toMatchObject({ id: ids[0], payload: { index: 'posts', version: 3 } })
+  })
+
+  test('should throttle identical enqueues within the interval', async () => {
+    const handler = vi.fn()
+    createAdapter()
+
+    await adapter.bulkRegister({
+      'user.notify': adapter.register({
+        name: 'notify',
+        input: z.object({ userId: z.string() }),
+        debounce: { mode: 'throttle', delay: 60_000 },
+        handler,
+      }),
+    })
+    await adapter.worker({ queues: ['default'] })
+
+    const first = await adapter.invoke({ id: 'user.notify', input: { userId: 'u1' } })
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1))
+
+    expect(await adapter.invoke({ id: 'user.notify', input: { userId: 'u1' } })).toBe(first)
+    expect(await adapter.invoke({ id: 'user.notify', input: { userId: 'u2' } })).not.toBe(first)
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2))
+  })
+
+  test('should stream the state of realtime jobs to their channel', async () => {
+    const states: any[] = []
+    createAdapter()
+    SSEProcessor.registerChannel({ id: JOB_CHANNEL_PATTERN, description: 'Job states' })
+    const unsubscribe = SSEProcessor.subscribe([getJobChannel('report-1')], (event) => states.push(event.data))
+
+    await adapter.bulkRegister({
+      'reports.build': adapter.register({
+        name: 'build',
+        input: z.object({}),
+        realtime: true,
+        handler: async ({ job }) => {
+          await job.updateProgress?.(50, 'Halfway')
+          return { url: '/reports/1.pdf' }
+        },
+      }),
+    })
+    await adapter.worker({ queues: ['default'] })
+    await adapter.invoke({ id: 'reports.build', input: {}, jobId: 'report-1' })
+
+    await vi.waitFor(() => expect(states.at(-1)).toMatchObject({ status: 'completed' }))
+    unsubscribe()
+
+    expect(states).toEqual([
+      expect.objectContaining({ id: 'report-1', status: 'active', progress: 0 }),
+      expect.objectContaining({ status: 'active', progress: 50, message: 'Halfway' }),
+      expect.objectContaining({ status: 'completed', progress: 50, result: { url: '/reports/1.pdf' } }),
+    ])
+  })
+
+  test('should distribute the state of realtime jobs through the store', async () => {
+    const store = { publish: vi.fn(), subscribe: vi.fn() } as unknown as IgniterStoreAdapter
+    createAdapter({ store })
+
+    await adapter.bulkRegister({
+      'reports.build': adapter.register({ name: 'build', input: z.object({}), realtime: true, handler: async () => 'done' }),
+    })
+    await adapter.worker({ queues: ['default'] })
+    const jobId = String(await adapter.invoke({ id: 'reports.build', input: {} }))
+
+    await vi.waitFor(() => expect(store.publish).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+      event: expect.objectContaining({ channel: getJobChannel(jobId), data: expect.objectContaining({ status: 'completed' }) }),
+    })))
+  })
+})
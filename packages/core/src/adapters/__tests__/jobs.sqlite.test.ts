@@ -0,0 +1,183 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
+import Database from 'better-sqlite3'
+import { z } from 'zod'
+import { createSQLiteJobsAdapter, SQLiteJobsStorage } from '../jobs.sqlite'
+import type { StoredJob } from '../jobs.local'
+import type { IgniterJobQueueAdapter } from '../../types/jobs.interface'
+import type { IgniterLogger } from '../../types/logger.interface'
+
+const silentLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as IgniterLogger
+
+const lease = { workerId: 'worker-1', expiresAt: Date.now() + 60_000 }
+
+function createJob(job: Partial<StoredJob> & { id: string }): StoredJob {
+  return {
+    name: 'send',
+    queue: 'default',
+    payload: {},
+    status: 'waiting',
+    priority: 0,
+    attempts: 3,
+    attemptsMade: 0,
+    createdAt: 1,
+    runAt: 1,
+    ...job,
+  }
+}
+
+describe('SQLite Jobs Storage', () => {
+  let database: Database.Database
+  let storage: SQLiteJobsStorage
+
+  beforeEach(() => {
+    database = new Database(':memory:')
+    storage = new SQLiteJobsStorage(database)
+  })
+
+  afterEach(() => {
+    database.close()
+  })
+
+  test('should reject table names that are not identifiers', () => {
+    expect(() => new SQLiteJobsStorage(database, 'jobs; DROP TABLE users')).toThrow('Invalid table name')
+    expect(() => new SQLiteJobsStorage(database, '1jobs')).toThrow('Invalid table name')
+    expect(() => new SQLiteJobsStorage(database, 'app_jobs')).not.toThrow()
+  })
+
+  test('should save, update and delete jobs', async () => {
+    await storage.save(createJob({ id: 'job-1' }))
+    await storage.save(createJob({ id: 'job-1', progress: 50 }))
+    await storage.save(createJob({ id: 'job-2', queue: 'emails', createdAt: 2 }))
+
+    expect(await storage.get('job-1')).toMatchObject({ id: 'job-1', progress: 50 })
+    expect((await storage.list()).map((job) => job.id)).toEqual(['job-1', 'job-2'])
+    expect((await storage.list('emails')).map((job) => job.id)).toEqual(['job-2'])
+
+    await storage.delete('job-1')
+    expect(await storage.get('job-1')).toBeNull()
+  })
+
+  test('should claim the runnable job with the highest priority first', async () => {
+    await storage.save(createJob({ id: 'low', priority: 1, runAt: 1 }))
+    await storage.save(createJob({ id: 'high', priority: 5, runAt: 2 }))
+    await storage.save(createJob({ id: 'later', priority: 10, status: 'delayed', runAt: 1_000 }))
+
+    expect(await storage.claim('default', 100, lease)).toMatchObject({ id: 'high', status: 'active', processedAt: 100 })
+    expect(await storage.claim('default', 100, lease)).toMatchObject({ id: 'low' })
+    expect(await storage.claim('default', 100, lease)).toBeNull()
+    expect(await storage.nextRunAt('default')).toBe(1_000)
+  })
+
+  test('should only claim jobs with the given names', async () => {
+    await storage.save(createJob({ id: 'job-1', name: 'send', priority: 5 }))
+    await storage.save(createJob({ id: 'job-2', name: 'report' }))
+
+    expect(await storage.claim('default', 100, lease, ['report'])).toMatchObject({ id: 'job-2' })
+    expect(await storage.claim('default', 100, lease, [])).toBeNull()
+  })
+
+  test('should not claim jobs of the excluded concurrency groups', async () => {
+    await storage.save(createJob({ id: 'job-1', group: 'sync:acme', priority: 5 }))
+    await storage.save(createJob({ id: 'job-2', group: 'sync:globex', priority: 1 }))
+    await storage.save(createJob({ id: 'job-3' }))
+
+    expect(await storage.claim('default', 100, lease, undefined, ['sync:acme'])).toMatchObject({ id: 'job-2' })
+    expect(await storage.claim('default', 100, lease, undefined, ['sync:acme'])).toMatchObject({ id: 'job-3' })
+    expect(await storage.claim('default', 100, lease, undefined, ['sync:acme'])).toBeNull()
+  })
+
+  test('should claim the next job when another process claims the selected one first', async () => {
+    await storage.save(createJob({ id: 'job-1', priority: 5 }))
+    await storage.save(createJob({ id: 'job-2' }))
+
+    const prepare = database.prepare.bind(database)
+    vi.spyOn(database, 'prepare').mockImplementation(((sql: string) => {
+      const statement = prepare(sql)
+      if (!sql.trimStart().startsWith('UPDATE')) return statement
+
+      // Another process claims job-1 between the select and the first update
+      const run = statement.run.bind(statement)
+      let raced = false
+      return Object.assign(statement, {
+        run: (...params: unknown[]) => {
+          if (!raced) {
+            raced = true
+            prepare(`UPDATE igniter_jobs SET status = 'active' WHERE id = 'job-1'`).run()
+          }
+          return run(...params)
+        },
+      })
+    }) as typeof database.prepare)
+
+    expect(await storage.claim('default', 100, lease)).toMatchObject({ id: 'job-2' })
+  })
+
+  test('should only recover the active jobs whose lease expired', async () => {
+    await storage.save(createJob({ id: 'stopped' }))
+    await storage.save(createJob({ id: 'running' }))
+    await storage.claim('default', 100, { workerId: 'stopped-worker', expiresAt: 1_000 })
+    await storage.claim('default', 100, { workerId: 'running-worker', expiresAt: 1_000 })
+    await storage.renew({ workerId: 'running-worker', expiresAt: 5_000 })
+
+    expect(await storage.recover('default', 2_000)).toBe(1)
+    expect(await storage.recover('default', 2_000)).toBe(0)
+
+    const jobs = await storage.list()
+    expect(jobs.map((job) => [job.id, job.status])).toEqual([
+      ['stopped', 'waiting'],
+      ['running', 'active'],
+    ])
+  })
+
+  test('should keep the lease when an active job is saved', async () => {
+    await storage.save(createJob({ id: 'job-1' }))
+    const job = await storage.claim('default', 100, { workerId: 'worker-1', expiresAt: 5_000 })
+
+    await storage.save({ ...job!, progress: 50 })
+
+    expect(await storage.recover('default', 2_000)).toBe(0)
+  })
+})
+
+describe('SQLite Jobs Adapter', () => {
+  let database: Database.Database
+  let adapter: IgniterJobQueueAdapter<{ tenant: string }>
+
+  beforeEach(() => {
+    database = new Database(':memory:')
+    adapter = createSQLiteJobsAdapter<{ tenant: string }>({
+      database,
+      logger: silentLogger,
+      pollInterval: 20,
+      contextFactory: () => ({ tenant: 'acme' }),
+    })
+  })
+
+  afterEach(async () => {
+    await adapter.shutdown()
+    database.close()
+  })
+
+  test('should run invoked jobs and keep them in the database', async () => {
+    const handler = vi.fn(async ({ input, context }) => `${context.tenant}:${input.to}`)
+
+    await adapter.bulkRegister({
+      'email.send': adapter.register({ name: 'send', input: z.object({ to: z.string() }), handler }),
+    })
+    await adapter.worker({ queues: ['default'] })
+    const jobId = await adapter.invoke({ id: 'email.send', input: { to: 'ada@example.com' } })
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledOnce())
+    await vi.waitFor(async () => {
+      expect(await new SQLiteJobsStorage(database).get(String(jobId))).toMatchObject({
+        status: 'completed',
+        result: 'acme:ada@example.com',
+      })
+    })
+  })
+})
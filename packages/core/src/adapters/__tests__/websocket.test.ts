@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { attachNodeWebSocketServer } from '../websocket';
+import { WebSocketProcessor } from '../../processors/websocket.processor';
+import { SSEProcessor } from '../../processors/sse.processor';
+
+function createServer() {
+  let onConnection: ((socket: any, request: any) => void) | undefined;
+  const server = {
+    on: vi.fn((_event: 'connection', listener: (socket: any, request: any) => void) => {
+      onConnection = listener;
+    }),
+  };
+
+  const connect = () => {
+    const listeners: Record<string, (...args: any[]) => void> = {};
+    const socket = {
+      readyState: 1,
+      send: vi.fn(),
+      close: vi.fn(),
+      on: vi.fn((event: string, listener: (...args: any[]) => void) => {
+        listeners[event] = listener;
+      }),
+      emit: (event: string, ...args: any[]) => listeners[event]?.(...args),
+    };
+    onConnection!(socket, { url: '/api/v1/ws/events?channels=notifications', headers: { host: 'localhost' } });
+    return socket;
+  };
+
+  return { server, connect };
+}
+
+describe('attachNodeWebSocketServer', () => {
+  beforeEach(() => {
+    SSEProcessor.registerChannel({ id: 'notifications' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    WebSocketProcessor.closeAllConnections();
+    SSEProcessor.unregisterChannel('notifications');
+  });
+
+  it('should open the connections accepted by the authorizer', async () => {
+    const { server, connect } = createServer();
+    attachNodeWebSocketServer(server, { authorize: async () => ({ scopes: ['user:1'] }) });
+
+    const socket = connect();
+
+    await vi.waitFor(() => expect(WebSocketProcessor.getConnectionCount()).toBe(1));
+    socket.emit('close');
+    await vi.waitFor(() => expect(WebSocketProcessor.getConnectionCount()).toBe(0));
+  });
+
+  it('should not open a connection whose socket closed during its authorization', async () => {
+    let authorize!: (value: boolean) => void;
+    const { server, connect } = createServer();
+    attachNodeWebSocketServer(server, { authorize: () => new Promise<boolean>((resolve) => { authorize = resolve; }) });
+    const handleOpen = vi.spyOn(WebSocketProcessor, 'handleOpen');
+
+    const socket = connect();
+    socket.emit('close');
+    authorize(true);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(handleOpen).not.toHaveBeenCalled();
+    expect(WebSocketProcessor.getConnectionCount()).toBe(0);
+  });
+
+  it('should remove a connection whose socket closed while it was opened', async () => {
+    let opened!: () => void;
+    const { server, connect } = createServer();
+    attachNodeWebSocketServer(server);
+    const handleOpen = WebSocketProcessor.handleOpen.bind(WebSocketProcessor);
+    vi.spyOn(WebSocketProcessor, 'handleOpen').mockImplementation(async (socket, params) => {
+      await new Promise<void>((resolve) => { opened = resolve; });
+      await handleOpen(socket, params);
+    });
+
+    const socket = connect();
+    await vi.waitFor(() => expect(opened).toBeDefined());
+    socket.emit('close');
+    opened();
+
+    await vi.waitFor(() => expect(WebSocketProcessor.handleOpen).toHaveBeenCalled());
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(WebSocketProcessor.getConnectionCount()).toBe(0);
+  });
+
+  it('should close the socket when its connection fails to open', async () => {
+    const { server, connect } = createServer();
+    attachNodeWebSocketServer(server);
+    vi.spyOn(WebSocketProcessor, 'handleOpen').mockRejectedValue(new Error('Store unavailable'));
+    const handleMessage = vi.spyOn(WebSocketProcessor, 'handleMessage');
+
+    const socket = connect();
+    socket.emit('message', JSON.stringify({ type: 'ping' }));
+
+    await vi.waitFor(() => expect(socket.close).toHaveBeenCalledWith(1011, 'Internal error'));
+    expect(handleMessage).not.toHaveBeenCalled();
+  });
+});
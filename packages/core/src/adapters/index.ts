@@ -1,4 +1,8 @@
 export * from './nextjs';
 export * from './telemetry.console';
 export * from './expressjs';
+export * from './websocket';
+export * from './jobs.memory';
+export * from './jobs.sqlite';
+export type { JobsStorage, StoredJob, LocalJobsBackoff, LocalJobsAdapterOptions } from './jobs.local';
 export type { ConsoleTelemetryOptions } from './telemetry.console';
@@ -0,0 +1,1879 @@
+/**
+ * Local Job Queue Adapter engine.
+ * Runs jobs in the current process on top of a pluggable storage, used by the
+ * memory and SQLite job queue adapters.
+ *
+ * @since 0.3.0
+ */
+
+import type {
+  AdvancedScheduleOptions,
+  CronJobExecutionContext,
+  CronJobHandler,
+  CronJobOptions,
+  CronSchedule,
+  IgniterJobQueueAdapter,
+  JobDeadLetterEntry,
+  JobDeadLetterPolicy,
+  JobDefinition,
+  JobDetails,
+  JobExecutionContext,
+  JobFlowDefinition,
+  JobFlowInfo,
+  JobFlowStep,
+  JobHookInfo,
+  JobInvokeParams,
+  JobQueueConfig,
+  JobQueueCounts,
+  JobSchedule,
+  JobScheduleInfo,
+  JobSearchResult,
+  JobStatus,
+  JobWorkerConfig,
+  JobsNamespaceExecutor,
+  JobsRouter,
+  JobsRouterConfig,
+  MergedJobsExecutor,
+  MergedJobsRouter,
+  SchedulePattern,
+} from "../types/jobs.interface";
+import { SchedulePatterns } from "../types/jobs.interface";
+import type { IgniterLogger } from "../types/logger.interface";
+import type { IgniterStoreAdapter } from "../types/store.interface";
+import type { StandardSchemaV1 } from "../types/schema.interface";
+import { IgniterError } from "../error";
+import { IgniterConsoleLogger } from "../services/logger.service";
+import { createJobHandle, createJobsProxy, createJobsRegistry, createJobsRouter, publishJobState, reconcileJobSchedules } from "../services/jobs.service";
+import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+import { validateStandardSchema } from "../utils/schema";
+import { getNextCronDate, parseCronExpression } from "../utils/cron";
+
+/**
+ * Job as kept by a jobs storage.
+ */
+export interface StoredJob {
+  /** Unique job ID */
+  id: string;
+  /** Registered job name (e.g. `user.send-email`) */
+  name: string;
+  /** Full queue name, prefixes included */
+  queue: string;
+  /** Job payload */
+  payload: any;
+  /** Current status. Waiting and delayed jobs run once `runAt` is reached. */
+  status: Extract<JobStatus, "waiting" | "delayed" | "active" | "completed" | "failed">;
+  /** Job priority (higher value = higher priority) */
+  priority: number;
+  /** Maximum number of attempts */
+  attempts: number;
+  /** Number of failed attempts so far */
+  attemptsMade: number;
+  /** Creation timestamp, in milliseconds */
+  createdAt: number;
+  /** Timestamp from which the job can run, in milliseconds */
+  runAt: number;
+  /** Timestamp of the last execution start */
+  processedAt?: number;
+  /** Timestamp of the completion or final failure */
+  completedAt?: number;
+  /** Progress reported by the handler (0-100) */
+  progress?: number;
+  /** Lines logged by the handler */
+  logs?: string[];
+  /** Execution result (if successful) */
+  result?: any;
+  /** Execution error (if failed) */
+  error?: string;
+  /** Errors of the failed attempts, oldest first */
+  errors?: string[];
+  /** Stack traces of the failed attempts, oldest first */
+  stacktrace?: string[];
+  /** Retry delays strategy */
+  backoff?: LocalJobsBackoff;
+  /** Remove the job after completion (`true`) or keep only the latest N completed jobs */
+  removeOnComplete?: boolean | number;
+  /** Remove the job after its final failure (`true`) or keep only the latest N failed jobs */
+  removeOnFail?: boolean | number;
+  /** Repetition of the job, scheduling the next occurrence once it finishes */
+  repeat?: {
+    cron?: string;
+    every?: number;
+    limit?: number;
+    endDate?: number;
+    /** Number of executions so far */
+    count: number;
+  };
+  /** Additional metadata */
+  metadata?: Record<string, any>;
+  /** Declarative schedule the job runs on, from its definition */
+  schedule?: JobSchedule;
+  /** Concurrency group of the job (`{name}:{key}`), limiting the active jobs sharing it */
+  group?: string;
+  /** Key of the job (`{name}:{key}`) collapsing identical enqueues */
+  debounceKey?: string;
+  /** Flow the job belongs to, with the stages used to start the next one */
+  flow?: JobFlowInfo & { steps: JobFlowStep[][] };
+}
+
+/**
+ * Lease of a worker on the jobs it runs. The worker renews it while the jobs run,
+ * so the active jobs whose lease expired are the jobs of a stopped worker.
+ */
+export interface JobLease {
+  /** ID of the worker running the jobs */
+  workerId: string;
+  /** Timestamp at which the lease expires unless renewed, in milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Storage of the jobs of a local job queue adapter.
+ * Implementations must make `claim` atomic, so a job is never run twice.
+ */
+export interface JobsStorage {
+  /** Inserts or updates a job. */
+  save(job: StoredJob): Promise<void>;
+  /** Gets a job by ID. */
+  get(id: string): Promise<StoredJob | null>;
+  /** Deletes a job. */
+  delete(id: string): Promise<void>;
+  /** Lists the jobs of a queue, or of every queue, oldest first. */
+  list(queue?: string): Promise<StoredJob[]>;
+  /**
+   * Marks the next runnable job of a queue as active under the lease of the worker and returns it.
+   * Jobs with the highest priority run first, then the jobs that became runnable first.
+   * @param lease - Lease of the claiming worker
+   * @param names - Only claim jobs with these names
+   * @param excludeGroups - Do not claim jobs of these concurrency groups
+   */
+  claim(queue: string, now: number, lease: JobLease, names?: string[], excludeGroups?: string[]): Promise<StoredJob | null>;
+  /** Returns the earliest `runAt` of the waiting and delayed jobs of a queue. */
+  nextRunAt(queue: string): Promise<number | null>;
+  /** Extends the lease of a worker on the jobs it runs. */
+  renew(lease: JobLease): Promise<void>;
+  /**
+   * Moves the active jobs whose lease expired, left by a stopped worker, back to waiting.
+   * @returns The number of recovered jobs
+   */
+  recover(queue: string, now: number): Promise<number>;
+}
+
+/**
+ * Delay between the attempts of a failing job.
+ */
+export interface LocalJobsBackoff {
+  /** `fixed` waits `delay` ms between attempts, `exponential` doubles it after each attempt */
+  type: "fixed" | "exponential";
+  /** Base delay, in milliseconds */
+  delay: number;
+  /** Maximum delay, in milliseconds */
+  max?: number;
+  /** Explicit delay of each retry, overriding `type` */
+  delays?: number[];
+}
+
+/**
+ * Options shared by the local job queue adapters.
+ */
+export interface LocalJobsAdapterOptions {
+  /**
+   * Logger used by the adapter.
+   * Defaults to the Igniter console logger.
+   */
+  logger?: IgniterLogger;
+
+  /**
+   * Global prefix for all queues.
+   * Useful for separating environments (e.g., dev, staging, prod).
+   */
+  globalPrefix?: string;
+
+  /**
+   * Factory function to create application context for job execution.
+   * This function will be called for each job to provide the runtime context.
+   */
+  contextFactory?: () => any | Promise<any>;
+
+  /**
+   * Delay between retries of failing jobs.
+   * Jobs are retried immediately when omitted.
+   */
+  backoff?: LocalJobsBackoff;
+
+  /**
+   * Interval, in milliseconds, at which idle workers look for new jobs,
+   * e.g. jobs added by another process sharing the storage.
+   * @default 1000
+   */
+  pollInterval?: number;
+
+  /**
+   * Duration, in milliseconds, of the lease of the workers on the jobs they run.
+   * Workers renew it while they run, and the jobs of a stopped worker are retried once it expires.
+   * @default 30000
+   */
+  leaseDuration?: number;
+
+  /**
+   * Store distributing the states of the jobs of definitions with `realtime` to the other processes.
+   * Without it, only the clients connected to the process running the job receive them.
+   */
+  store?: IgniterStoreAdapter;
+
+  /**
+   * Auto-start worker configuration.
+   * If provided, workers will be automatically started when routers are merged.
+   */
+  autoStartWorker?: {
+    /** Queues to process (defaults to all discovered queues) */
+    queues?: string[];
+    /** Worker concurrency (defaults to 1) */
+    concurrency?: number;
+  };
+}
+
+/**
+ * State of the worker processing a queue.
+ *
+ * @internal
+ */
+interface LocalQueueWorker {
+  queue: string;
+  config: JobWorkerConfig;
+  concurrency: number;
+  active: Set<Promise<void>>;
+  running: boolean;
+  pumping: boolean;
+  pumpAgain: boolean;
+  idle: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+  /** Timestamp of the last recovery of the jobs of stopped workers */
+  recoveredAt: number;
+}
+
+/**
+ * Limits applied when claiming the next job of a queue.
+ *
+ * @internal
+ */
+interface LocalClaimLimits {
+  /** Job names that can be claimed, when some are rate limited */
+  names?: string[];
+  /** Concurrency groups at their limit */
+  excludeGroups: string[];
+  /** Whether runnable jobs may be held back by the limits */
+  limited: boolean;
+  /** Time at which a rate limited job can start again */
+  retryAt: number | null;
+}
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_REMOVE_ON_COMPLETE = 10;
+const DEFAULT_REMOVE_ON_FAIL = 50;
+const DEFAULT_POLL_INTERVAL = 1000;
+const DEFAULT_LEASE_DURATION = 30000;
+const DEAD_LETTER_SUFFIX = "__dead-letter";
+
+/**
+ * ID of the job at the given position of a flow.
+ *
+ * @internal
+ */
+function getFlowJobId(flowId: string, stage: number, index: number): string {
+  return `${flowId}__${stage}__${index}`;
+}
+
+/**
+ * Creates a job queue adapter running jobs in the current process, on top of the given storage.
+ * Jobs behave as with the BullMQ adapter: retries, delays, priorities, repeatable jobs and the
+ * full hook lifecycle (`onStart`, `onProgress`, `onSuccess`, `onFailure`, `onRetry`, `onComplete`).
+ *
+ * @param storage - Storage of the jobs
+ * @param options - Adapter options
+ * @param errorCode - Code of the errors thrown by the adapter
+ * @returns A complete `IgniterJobQueueAdapter` implementation
+ *
+ * @internal Use `createMemoryJobsAdapter` or `createSQLiteJobsAdapter`.
+ */
+export function createLocalJobsAdapter<TContext extends object>(
+  storage: JobsStorage,
+  options: LocalJobsAdapterOptions = {},
+  errorCode = "JOBS_ADAPTER_ERROR",
+): IgniterJobQueueAdapter<TContext> {
+  const logger: IgniterLogger =
+    options.logger ||
+    IgniterConsoleLogger.create({
+      level: resolveLogLevel(),
+      context: createLoggerContext("Jobs"),
+      showTimestamp: true,
+    });
+
+  const registeredJobs = new Map<string, JobDefinition<TContext, any, any>>();
+  const workers = new Map<string, LocalQueueWorker>();
+  const pausedQueues = new Set<string>();
+  // Schedules removed while one of their jobs was running, by `{queue}/{job}`
+  const removedSchedules = new Set<string>();
+  // Start times of the rate limited jobs, by job name
+  const rateWindows = new Map<string, number[]>();
+  // Active jobs of the concurrency groups, by group
+  const activeGroups = new Map<string, { count: number; limit: number }>();
+  // Callers waiting for jobs to finish, by job ID
+  const jobWaiters = new Map<string, Set<(outcome: StoredJob | Error) => void>>();
+  // Last enqueue of the debounced jobs, by debounce key: enqueues with the same key run one after the other
+  const debounceChains = new Map<string, Promise<unknown>>();
+  const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  const leaseDuration = options.leaseDuration ?? DEFAULT_LEASE_DURATION;
+  // Identifies the jobs run by the workers of this adapter in the shared storage
+  const workerId = crypto.randomUUID();
+  let leaseTimer: ReturnType<typeof setInterval> | undefined;
+
+  /**
+   * Creates an adapter error.
+   *
+   * @internal
+   */
+  function adapterError(message: string, details?: unknown): IgniterError {
+    return new IgniterError({ code: errorCode, message, details, log: true });
+  }
+
+  /**
+   * Creates the error thrown when an action does not fit the state of a job.
+   *
+   * @internal
+   */
+  function stateConflictError(message: string): IgniterError {
+    return new IgniterError({ code: "JOB_STATE_CONFLICT", message, log: true });
+  }
+
+  /**
+   * Constructs the full queue name with prefix support for multi-tenancy.
+   *
+   * @internal
+   */
+  function buildQueueName(queueConfig?: Partial<JobQueueConfig>): string {
+    const parts: string[] = [];
+    if (options.globalPrefix) parts.push(options.globalPrefix);
+    if (queueConfig?.prefix) parts.push(queueConfig.prefix);
+    parts.push(queueConfig?.name || "default");
+    return parts.join("__");
+  }
+
+  /**
+   * Converts a stored job to the standardized JobSearchResult format.
+   *
+   * @internal
+   */
+  function mapStoredJobToResult(job: StoredJob): JobSearchResult {
+    const status: JobStatus =
+      job.status === "waiting" && job.runAt > Date.now() ? "delayed" : job.status;
+
+    return {
+      id: job.id,
+      name: job.name,
+      payload: job.payload,
+      status,
+      createdAt: new Date(job.createdAt),
+      processedAt: job.processedAt ? new Date(job.processedAt) : undefined,
+      completedAt: job.completedAt ? new Date(job.completedAt) : undefined,
+      result: job.result,
+      error: job.error,
+      attemptsMade: job.attemptsMade,
+      priority: job.priority,
+      metadata: job.metadata,
+      flow: job.flow
+        ? { id: job.flow.id, name: job.flow.name, stage: job.flow.stage, index: job.flow.index, stages: job.flow.stages }
+        : undefined,
+    };
+  }
+
+  /**
+   * Name of the queue keeping the dead-lettered jobs of a queue.
+   *
+   * @internal
+   */
+  function buildDeadLetterQueueName(queueConfig?: Partial<JobQueueConfig>): string {
+    return `${buildQueueName(queueConfig)}${DEAD_LETTER_SUFFIX}`;
+  }
+
+  /**
+   * Converts a dead-lettered job to the standardized JobDeadLetterEntry format.
+   *
+   * @internal
+   */
+  function mapStoredJobToDeadLetter(job: StoredJob): JobDeadLetterEntry {
+    return {
+      id: job.id,
+      name: job.name,
+      queueName: job.queue.slice(0, -DEAD_LETTER_SUFFIX.length),
+      payload: job.payload,
+      error: job.error || "",
+      errors: job.errors || (job.error ? [job.error] : []),
+      attemptsMade: job.attemptsMade,
+      createdAt: new Date(job.createdAt),
+      failedAt: new Date(job.completedAt || job.createdAt),
+      priority: job.priority,
+      metadata: job.metadata,
+    };
+  }
+
+  /**
+   * Gets a dead-lettered job of a queue, or `null` when it does not exist.
+   *
+   * @internal
+   */
+  async function getDeadLetterJob(id: string, queueConfig?: JobQueueConfig): Promise<StoredJob | null> {
+    const job = await storage.get(id);
+    return job && job.queue === buildDeadLetterQueueName(queueConfig) ? job : null;
+  }
+
+  /**
+   * Lists the dead-lettered jobs of a queue, most recent failures first.
+   *
+   * @internal
+   */
+  async function listDeadLetterJobs(queueConfig?: JobQueueConfig): Promise<StoredJob[]> {
+    return (await storage.list(buildDeadLetterQueueName(queueConfig)))
+      .sort((a, b) => (b.completedAt || 0) - (a.completedAt || 0));
+  }
+
+  /**
+   * Resolves the dead-letter policy of a job definition, falling back to the policy of its queue.
+   *
+   * @internal
+   */
+  function getDeadLetterPolicy(definition: JobDefinition<TContext, any, any>): JobDeadLetterPolicy | null {
+    const policy = definition.deadLetter ?? definition.queue?.deadLetter;
+    if (!policy) return null;
+    return policy === true ? {} : policy;
+  }
+
+  /**
+   * Moves a job that failed its final attempt to the dead-letter queue of its queue,
+   * then trims the dead-letter queue to `maxEntries`.
+   *
+   * @internal
+   */
+  async function moveToDeadLetter(job: StoredJob, policy: JobDeadLetterPolicy): Promise<void> {
+    const deadLetterQueue = `${job.queue}${DEAD_LETTER_SUFFIX}`;
+    await storage.save({ ...job, queue: deadLetterQueue });
+    logger.warn(`Job "${job.name}" (${job.id}) moved to the dead-letter queue`, { queue: job.queue, error: job.error });
+
+    if (policy.maxEntries === undefined) return;
+
+    const entries = (await storage.list(deadLetterQueue))
+      .sort((a, b) => (b.completedAt || 0) - (a.completedAt || 0));
+    for (const entry of entries.slice(policy.maxEntries)) {
+      await storage.delete(entry.id);
+    }
+  }
+
+  /**
+   * Computes the job names and concurrency groups a worker can claim, from the rate limits
+   * and concurrency groups of the job definitions. Limits are tracked per process.
+   *
+   * @internal
+   */
+  function getClaimLimits(worker: LocalQueueWorker): LocalClaimLimits {
+    const now = Date.now();
+    const rateLimited: string[] = [];
+    let retryAt: number | null = null;
+
+    for (const [name, definition] of registeredJobs) {
+      if (!definition.rateLimit) continue;
+
+      const { max, duration } = definition.rateLimit;
+      const starts = (rateWindows.get(name) || []).filter((startedAt) => startedAt > now - duration);
+      rateWindows.set(name, starts);
+
+      if (starts.length >= max) {
+        rateLimited.push(name);
+        const freeAt = starts[starts.length - max] + duration;
+        retryAt = retryAt === null ? freeAt : Math.min(retryAt, freeAt);
+      }
+    }
+
+    const excludeGroups = Array.from(activeGroups)
+      .filter(([, group]) => group.count >= group.limit)
+      .map(([group]) => group);
+
+    const names = rateLimited.length > 0
+      ? (worker.config.jobFilter || Array.from(registeredJobs.keys())).filter((name) => !rateLimited.includes(name))
+      : worker.config.jobFilter;
+
+    return { names, excludeGroups, limited: rateLimited.length > 0 || excludeGroups.length > 0, retryAt };
+  }
+
+  /**
+   * Counts a claimed job in the rate limit of its definition and in its concurrency group.
+   * Returns the function releasing its concurrency group once the job finished.
+   *
+   * @internal
+   */
+  function acquireLimits(job: StoredJob): () => void {
+    const definition = registeredJobs.get(job.name);
+
+    if (definition?.rateLimit) {
+      rateWindows.set(job.name, [...(rateWindows.get(job.name) || []), Date.now()]);
+    }
+
+    const groupKey = job.group;
+    if (!groupKey) return () => {};
+
+    const group = activeGroups.get(groupKey) || { count: 0, limit: definition?.concurrencyGroup?.limit ?? 1 };
+    group.count++;
+    activeGroups.set(groupKey, group);
+
+    return () => {
+      group.count--;
+      if (group.count <= 0) activeGroups.delete(groupKey);
+    };
+  }
+
+  /**
+   * Runs the enqueues of debounced jobs with the same key one after the other in this process,
+   * so concurrent enqueues cannot all miss the pending job and each add one.
+   *
+   * @internal
+   */
+  function withDebounceLock<T>(debounceKey: string, enqueue: () => Promise<T>): Promise<T> {
+    const previous = debounceChains.get(debounceKey) || Promise.resolve();
+    const result = previous.then(enqueue);
+    const chain = result.catch(() => {});
+
+    debounceChains.set(debounceKey, chain);
+    void chain.then(() => {
+      if (debounceChains.get(debounceKey) === chain) debounceChains.delete(debounceKey);
+    });
+    return result;
+  }
+
+  /**
+   * Collapses an enqueue into an identical pending job, following the debounce options of its definition.
+   * Returns the ID of the job the enqueue collapsed into, or `null` when a new job must be added.
+   *
+   * @internal
+   */
+  async function collapseDebouncedJob(
+    debounce: NonNullable<JobDefinition<TContext, any, any>["debounce"]>,
+    queue: string,
+    debounceKey: string,
+    payload: any,
+  ): Promise<string | null> {
+    const now = Date.now();
+    const jobs = (await storage.list(queue)).filter((job) => job.debounceKey === debounceKey);
+
+    if (debounce.mode === "throttle") {
+      const recent = jobs.find((job) => job.createdAt > now - debounce.delay);
+      return recent ? recent.id : null;
+    }
+
+    const pending = jobs.find((job) => job.status === "waiting" || job.status === "delayed");
+    if (!pending) return null;
+
+    await storage.save({ ...pending, payload, status: "delayed", runAt: now + debounce.delay });
+    logger.debug("Job debounced", { jobId: pending.id, name: pending.name });
+    return pending.id;
+  }
+
+  /**
+   * Lists the pending and running jobs of the declarative schedules of a queue.
+   *
+   * @internal
+   */
+  async function getScheduledJobs(queue: string, name?: string): Promise<StoredJob[]> {
+    return (await storage.list(queue)).filter((job) =>
+      job.schedule &&
+      (!name || job.name === name) &&
+      (job.status === "waiting" || job.status === "delayed" || job.status === "active"),
+    );
+  }
+
+  /**
+   * Gets a job, throwing when it does not exist.
+   *
+   * @internal
+   */
+  async function getStoredJob(id: string): Promise<StoredJob> {
+    const job = await storage.get(id);
+    if (!job) {
+      throw adapterError(`Job "${id}" not found`);
+    }
+    return job;
+  }
+
+  /**
+   * Computes the delay before the next attempt of a failed job.
+   *
+   * @internal
+   */
+  function getRetryDelay(job: StoredJob): number {
+    const backoff = job.backoff || options.backoff;
+    if (!backoff) return 0;
+
+    const retry = job.attemptsMade;
+    const delay = backoff.delays
+      ? backoff.delays[Math.min(retry - 1, backoff.delays.length - 1)] ?? 0
+      : backoff.type === "exponential"
+        ? backoff.delay * 2 ** (retry - 1)
+        : backoff.delay;
+
+    return backoff.max ? Math.min(delay, backoff.max) : delay;
+  }
+
+  /**
+   * Computes the next occurrence of a repeatable job, or `null` when the repetition is over.
+   *
+   * @internal
+   */
+  function getNextRepeatAt(repeat: NonNullable<StoredJob["repeat"]>, from: number): number | null {
+    if (repeat.limit && repeat.count >= repeat.limit) return null;
+
+    const next = repeat.cron
+      ? getNextCronDate(repeat.cron, new Date(from)).getTime()
+      : from + (repeat.every || 0);
+
+    if (repeat.endDate && next > repeat.endDate) return null;
+    return next;
+  }
+
+  /**
+   * Safely executes a hook function, catching and logging any errors.
+   *
+   * @internal
+   */
+  async function safelyExecuteHook(
+    hookName: string,
+    hookFn: ((context: any) => void | Promise<void>) | undefined,
+    context: any,
+  ): Promise<void> {
+    if (!hookFn) return;
+
+    try {
+      await hookFn(context);
+    } catch (error) {
+      // Hook errors should not fail the job
+      logger.error(`Hook "${hookName}" failed`, { error });
+    }
+  }
+
+  /**
+   * Streams the state of a job to its realtime channel, when its definition enables it.
+   *
+   * @internal
+   */
+  async function streamJobState(
+    job: StoredJob,
+    definition: JobDefinition<TContext, any, any>,
+    message?: string,
+  ): Promise<void> {
+    if (!definition.realtime) return;
+
+    await publishJobState({
+      id: job.id,
+      name: job.name,
+      status: job.status,
+      progress: job.progress || 0,
+      message,
+      result: job.result,
+      error: job.error,
+      attemptsMade: job.attemptsMade,
+      updatedAt: Date.now(),
+    }, options.store);
+  }
+
+  /**
+   * Settles the callers waiting for a job, once it completed or failed its final attempt.
+   *
+   * @internal
+   */
+  function notifyJobWaiters(job: StoredJob): void {
+    for (const settle of jobWaiters.get(job.id) || []) {
+      settle({ ...job });
+    }
+  }
+
+  /**
+   * Waits until a job completes or fails its final attempt.
+   * Jobs run by other processes sharing the storage are detected by polling it.
+   *
+   * @internal
+   */
+  function waitForJob(id: string, timeout?: number): Promise<StoredJob> {
+    return new Promise((resolve, reject) => {
+      const waiters = jobWaiters.get(id) || new Set();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const poll = setInterval(async () => {
+        try {
+          const job = await storage.get(id);
+          if (!job) settle(adapterError(`Job "${id}" no longer exists`));
+          else if (job.status === "completed" || job.status === "failed") settle(job);
+        } catch (error) {
+          logger.warn("Failed to poll job status", { jobId: id, error });
+        }
+      }, pollInterval);
+
+      const settle = (outcome: StoredJob | Error) => {
+        clearInterval(poll);
+        clearTimeout(timer);
+        waiters.delete(settle);
+        if (waiters.size === 0) jobWaiters.delete(id);
+        if (outcome instanceof Error) reject(outcome);
+        else resolve(outcome);
+      };
+
+      if (timeout !== undefined) {
+        timer = setTimeout(
+          () => settle(adapterError(`Job "${id}" did not finish within ${timeout}ms`)),
+          timeout,
+        );
+      }
+
+      waiters.add(settle);
+      jobWaiters.set(id, waiters);
+    });
+  }
+
+  /**
+   * Applies the `removeOnComplete` / `removeOnFail` policy of a finished job.
+   *
+   * @internal
+   */
+  async function applyRemovalPolicy(job: StoredJob): Promise<void> {
+    if (job.flow) return;
+    const policy = job.status === "completed" ? job.removeOnComplete : job.removeOnFail;
+    if (policy === undefined || policy === false) return;
+
+    if (policy === true) {
+      await storage.delete(job.id);
+      return;
+    }
+
+    const finished = (await storage.list(job.queue))
+      // Flow jobs are kept, their results are the input of the next stage
+      .filter((item) => item.status === job.status && !item.flow)
+      .sort((a, b) => (b.completedAt || 0) - (a.completedAt || 0));
+
+    for (const item of finished.slice(policy)) {
+      await storage.delete(item.id);
+    }
+  }
+
+  /**
+   * Adds a job to the storage, returning the ID of the existing job when `jobId` is already used.
+   *
+   * @internal
+   */
+  async function addJob(job: StoredJob): Promise<string> {
+    const existing = await storage.get(job.id);
+    if (existing && (job.flow || (existing.status !== "completed" && existing.status !== "failed"))) {
+      logger.debug("Job already queued", { jobId: job.id, name: job.name });
+      return existing.id;
+    }
+
+    await storage.save(job);
+    logger.debug("Job added", { jobId: job.id, name: job.name, queue: job.queue });
+    wake(job.queue);
+    return job.id;
+  }
+
+  /**
+   * Runs a claimed job with its hooks, then schedules its retry or next repetition.
+   *
+   * @internal
+   */
+  async function runJob(job: StoredJob, worker: LocalQueueWorker): Promise<void> {
+    const definition = registeredJobs.get(job.name);
+    if (!definition) {
+      logger.warn(`No job definition found for "${job.name}"`);
+      job.status = "failed";
+      job.error = `Job "${job.name}" is not registered`;
+      job.completedAt = Date.now();
+      await storage.save(job);
+      notifyJobWaiters(job);
+      return;
+    }
+
+    const namespaceParts = job.name.split(".");
+    const namespace = namespaceParts.length > 1 ? namespaceParts[0] : undefined;
+    const startTime = Date.now();
+    const metadata = job.repeat
+      ? { ...job.metadata, executionCount: job.repeat.count }
+      : job.metadata;
+
+    const jobHookInfo = (executionTime?: number): JobHookInfo => ({
+      id: job.id,
+      name: job.name,
+      attemptsMade: job.attemptsMade,
+      createdAt: new Date(job.createdAt),
+      metadata,
+      namespace,
+      queueName: job.queue,
+      startedAt: new Date(startTime),
+      executionTime,
+    });
+
+    let context = {} as TContext;
+    let result: any;
+    let error: Error | undefined;
+    let success = false;
+
+    try {
+      if (options.contextFactory) {
+        context = (await options.contextFactory()) as TContext;
+      }
+
+      await safelyExecuteHook("onStart", definition.onStart, {
+        input: job.payload,
+        context,
+        job: jobHookInfo(),
+        startedAt: new Date(startTime),
+      });
+      await worker.config.onActive?.({ job: mapStoredJobToResult(job) });
+      await streamJobState(job, definition);
+
+      const executionContext: JobExecutionContext<TContext, any> = {
+        input: job.payload,
+        context,
+        job: {
+          id: job.id,
+          name: job.name,
+          attemptsMade: job.attemptsMade,
+          createdAt: new Date(job.createdAt),
+          metadata,
+          updateProgress: async (progress: number, message?: string) => {
+            job.progress = progress;
+            await storage.save(job);
+            await streamJobState(job, definition, message);
+            await safelyExecuteHook("onProgress", definition.onProgress, {
+              input: job.payload,
+              context,
+              job: jobHookInfo(Date.now() - startTime),
+              progress,
+              message,
+            });
+          },
+          log: async (message: string) => {
+            job.logs = [...(job.logs || []), message];
+            await storage.save(job);
+          },
+        },
+      };
+
+      result = await definition.handler(executionContext);
+      success = true;
+    } catch (jobError) {
+      error = jobError instanceof Error ? jobError : new Error(String(jobError));
+    }
+
+    const executionTime = Date.now() - startTime;
+    const now = Date.now();
+
+    if (success) {
+      job.status = "completed";
+      job.result = result;
+      job.error = undefined;
+      job.completedAt = now;
+      await storage.save(job);
+
+      await safelyExecuteHook("onSuccess", definition.onSuccess, {
+        input: job.payload,
+        context,
+        job: jobHookInfo(executionTime),
+        result,
+        completedAt: new Date(now),
+        executionTime,
+      });
+      await worker.config.onSuccess?.({ job: mapStoredJobToResult(job), result });
+      await streamJobState(job, definition);
+    } else {
+      const isFinalAttempt = job.attemptsMade + 1 >= job.attempts;
+
+      await safelyExecuteHook("onFailure", definition.onFailure, {
+        input: job.payload,
+        context,
+        job: jobHookInfo(executionTime),
+        error,
+        failedAt: new Date(now),
+        executionTime,
+        isFinalAttempt,
+      });
+
+      job.attemptsMade += 1;
+      job.error = error!.message;
+      job.errors = [...(job.errors || []), error!.message];
+      job.stacktrace = [...(job.stacktrace || []), error!.stack || error!.message];
+
+      if (isFinalAttempt) {
+        job.status = "failed";
+        job.completedAt = now;
+        await storage.save(job);
+      } else {
+        const retryDelay = getRetryDelay(job);
+        job.status = retryDelay > 0 ? "delayed" : "waiting";
+        job.runAt = now + retryDelay;
+        await storage.save(job);
+
+        logger.debug("Job scheduled for retry", { jobId: job.id, attempt: job.attemptsMade, retryDelay });
+        await safelyExecuteHook("onRetry", definition.onRetry, {
+          input: job.payload,
+          context,
+          job: jobHookInfo(executionTime),
+          previousError: error,
+          retryAttempt: job.attemptsMade,
+          maxAttempts: job.attempts,
+          retryDelay,
+        });
+      }
+
+      await worker.config.onFailure?.({ job: mapStoredJobToResult(job), error: error! });
+      await streamJobState(job, definition);
+    }
+
+    if (job.status === "completed" || job.status === "failed") {
+      notifyJobWaiters(job);
+
+      await safelyExecuteHook("onComplete", definition.onComplete, {
+        input: job.payload,
+        context,
+        job: jobHookInfo(executionTime),
+        success,
+        result: success ? result : undefined,
+        error: success ? undefined : error,
+        completedAt: new Date(now),
+        executionTime,
+      });
+
+      await scheduleRepetition(job);
+
+      const deadLetterPolicy = job.status === "failed" ? getDeadLetterPolicy(definition) : null;
+      if (deadLetterPolicy) {
+        await moveToDeadLetter(job, deadLetterPolicy);
+      } else {
+        await applyRemovalPolicy(job);
+      }
+    }
+
+    if (job.status === "completed") {
+      await advanceFlow(job);
+    }
+  }
+
+  /**
+   * Adds a job with the options of the invocation, validating its input.
+   *
+   * @internal
+   */
+  async function enqueueJob(params: JobInvokeParams<any>, flow?: StoredJob["flow"]): Promise<string> {
+    const definition = registeredJobs.get(params.id);
+    if (!definition) {
+      throw adapterError(`Job "${params.id}" is not registered. Please register it first using jobs.register().`);
+    }
+
+    let payload: any = params.input;
+    if (definition.input) {
+      const validation = await validateStandardSchema(definition.input, params.input);
+      if (validation.issues) {
+        throw adapterError(`Invalid payload for job "${params.id}"`, validation.issues);
+      }
+      payload = validation.value;
+    }
+
+    const invokeOptions = params as typeof params & { backoff?: LocalJobsBackoff; repeat?: { every?: number } };
+    const repeat = invokeOptions.repeat;
+    const now = Date.now();
+    const queue = buildQueueName({ ...definition.queue, ...params.queue });
+    const id = params.jobId || crypto.randomUUID();
+    let delay = params.delay || 0;
+
+    if (repeat?.cron) parseCronExpression(repeat.cron);
+
+    // Flow jobs are never collapsed, every stage needs all of its jobs
+    const debounce = flow ? undefined : definition.debounce;
+    const debounceKey = debounce
+      ? `${params.id}:${debounce.key ? debounce.key(params.input) : JSON.stringify(params.input)}`
+      : undefined;
+
+    const add = async () => {
+      if (debounce && debounceKey) {
+        const collapsedId = await collapseDebouncedJob(debounce, queue, debounceKey, payload);
+        if (collapsedId) return collapsedId;
+        if (debounce.mode !== "throttle") delay = Math.max(delay, debounce.delay);
+      }
+
+      return addJob({
+        id,
+        name: params.id,
+        queue,
+        payload,
+        status: delay > 0 ? "delayed" : "waiting",
+        priority: params.priority ?? definition.priority ?? 0,
+        attempts: params.attempts ?? definition.attempts ?? DEFAULT_ATTEMPTS,
+        attemptsMade: 0,
+        createdAt: now,
+        runAt: now + delay,
+        backoff: invokeOptions.backoff,
+        removeOnComplete: params.removeOnComplete ?? definition.removeOnComplete ?? DEFAULT_REMOVE_ON_COMPLETE,
+        removeOnFail: params.removeOnFail ?? definition.removeOnFail ?? DEFAULT_REMOVE_ON_FAIL,
+        repeat: repeat?.cron || repeat?.every
+          ? {
+              cron: repeat.cron,
+              every: repeat.every,
+              limit: repeat.limit,
+              endDate: repeat.endDate ? new Date(repeat.endDate).getTime() : undefined,
+              count: 1,
+            }
+          : undefined,
+        metadata: params.metadata ?? definition.metadata,
+        flow,
+        group: definition.concurrencyGroup ? `${params.id}:${definition.concurrencyGroup.key(params.input)}` : undefined,
+        debounceKey,
+      });
+    };
+
+    return debounceKey ? withDebounceLock(debounceKey, add) : add();
+  }
+
+  /**
+   * Adds the jobs of a flow stage, each receiving the same input.
+   * Job IDs are derived from the flow ID, so a stage is only added once.
+   *
+   * @internal
+   */
+  async function startFlowStage(flow: Omit<NonNullable<StoredJob["flow"]>, "stage" | "index">, stage: number, input: any): Promise<void> {
+    await Promise.all(
+      flow.steps[stage].map((step, index) =>
+        enqueueJob(
+          { ...step.options, id: step.job, input, jobId: getFlowJobId(flow.id, stage, index) },
+          { ...flow, stage, index },
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Starts the next stage of a flow once every job of the stage of the given job completed.
+   *
+   * @internal
+   */
+  async function advanceFlow(job: StoredJob): Promise<void> {
+    const flow = job.flow;
+    if (!flow) return;
+
+    if (flow.stage + 1 >= flow.stages) {
+      logger.info(`Flow "${flow.name}" completed`, { flowId: flow.id });
+      return;
+    }
+
+    const stageJobs = await Promise.all(
+      flow.steps[flow.stage].map((_, index) => storage.get(getFlowJobId(flow.id, flow.stage, index))),
+    );
+    if (stageJobs.some((stageJob) => stageJob?.status !== "completed")) return;
+
+    const results = stageJobs.map((stageJob) => stageJob!.result);
+
+    try {
+      await startFlowStage(flow, flow.stage + 1, results.length === 1 ? results[0] : results);
+    } catch (error) {
+      logger.error(`Flow "${flow.name}" could not start stage ${flow.stage + 1}`, { flowId: flow.id, error });
+    }
+  }
+
+  /**
+   * Adds the next occurrence of a finished repeatable job.
+   *
+   * @internal
+   */
+  async function scheduleRepetition(job: StoredJob): Promise<void> {
+    if (!job.repeat) return;
+
+    // The declarative schedule was replaced or removed while the job was running
+    if (job.schedule) {
+      if (removedSchedules.delete(`${job.queue}/${job.name}`)) return;
+      if ((await getScheduledJobs(job.queue, job.name)).some((item) => item.id !== job.id)) return;
+    }
+
+    const nextRunAt = getNextRepeatAt(job.repeat, Date.now());
+    if (nextRunAt === null) {
+      logger.info(`Repeatable job "${job.name}" completed its final execution`);
+      return;
+    }
+
+    await storage.save({
+      ...job,
+      id: `${job.id.replace(/:\d+$/, "")}:${nextRunAt}`,
+      status: "delayed",
+      attemptsMade: 0,
+      createdAt: Date.now(),
+      runAt: nextRunAt,
+      processedAt: undefined,
+      completedAt: undefined,
+      progress: undefined,
+      result: undefined,
+      error: undefined,
+      errors: undefined,
+      stacktrace: undefined,
+      repeat: { ...job.repeat, count: job.repeat.count + 1 },
+    });
+    wake(job.queue);
+  }
+
+  /**
+   * Renews the lease of the workers on their jobs every half lease, while workers run.
+   *
+   * @internal
+   */
+  function startLeaseRenewal(): void {
+    if (leaseTimer) return;
+
+    leaseTimer = setInterval(() => {
+      storage.renew({ workerId, expiresAt: Date.now() + leaseDuration }).catch((error) => {
+        logger.error("Job lease renewal failed", { error });
+      });
+    }, leaseDuration / 2);
+    // Do not keep the process alive for the renewal
+    leaseTimer.unref?.();
+  }
+
+  /**
+   * Moves the jobs of the stopped workers of a queue back to waiting, at most once per lease.
+   *
+   * @internal
+   */
+  async function recoverJobs(worker: LocalQueueWorker): Promise<void> {
+    const now = Date.now();
+    if (now - worker.recoveredAt < leaseDuration) return;
+
+    worker.recoveredAt = now;
+    const recovered = await storage.recover(worker.queue, now);
+    if (recovered > 0) {
+      logger.info(`Recovered ${recovered} interrupted jobs in queue: ${worker.queue}`);
+    }
+  }
+
+  /**
+   * Claims and runs the runnable jobs of a queue up to the worker concurrency,
+   * then waits for the next delayed job or the poll interval.
+   * Storage failures are logged and retried after the poll interval.
+   *
+   * @internal
+   */
+  async function pump(worker: LocalQueueWorker): Promise<void> {
+    if (!worker.running) return;
+    if (worker.pumping) {
+      worker.pumpAgain = true;
+      return;
+    }
+
+    worker.pumping = true;
+    clearTimeout(worker.timer);
+    let limits: LocalClaimLimits | undefined;
+
+    try {
+      await recoverJobs(worker);
+
+      do {
+        worker.pumpAgain = false;
+
+        while (worker.running && !pausedQueues.has(worker.queue) && worker.active.size < worker.concurrency) {
+          limits = getClaimLimits(worker);
+          const now = Date.now();
+          const job = await storage.claim(
+            worker.queue,
+            now,
+            { workerId, expiresAt: now + leaseDuration },
+            limits.names,
+            limits.excludeGroups,
+          );
+          if (!job) break;
+
+          worker.idle = false;
+          const releaseLimits = acquireLimits(job);
+          const execution: Promise<void> = runJob(job, worker)
+            .catch((error) => logger.error("Job execution failed", { jobId: job.id, error }))
+            .finally(() => {
+              releaseLimits();
+              worker.active.delete(execution);
+              void pump(worker);
+            });
+          worker.active.add(execution);
+        }
+      } while (worker.pumpAgain && worker.running);
+
+      if (!worker.running) return;
+
+      if (worker.active.size === 0 && !worker.idle) {
+        worker.idle = true;
+        await worker.config.onIdle?.();
+      }
+
+      const now = Date.now();
+      let nextRunAt = pausedQueues.has(worker.queue) ? null : await storage.nextRunAt(worker.queue);
+
+      // Runnable jobs held back by the limits wait for a free slot instead
+      if (limits?.limited && nextRunAt !== null && nextRunAt <= now) nextRunAt = null;
+      if (limits?.retryAt != null) nextRunAt = Math.min(nextRunAt ?? limits.retryAt, limits.retryAt);
+
+      const wait = nextRunAt === null
+        ? pollInterval
+        : Math.min(Math.max(nextRunAt - now, 0), pollInterval);
+      worker.timer = setTimeout(() => void pump(worker), wait);
+    } catch (error) {
+      logger.error("Job polling failed", { queue: worker.queue, error });
+      if (worker.running) {
+        worker.timer = setTimeout(() => void pump(worker), pollInterval);
+      }
+    } finally {
+      worker.pumping = false;
+    }
+  }
+
+  /**
+   * Wakes the worker of a queue, if any, when a job becomes runnable.
+   *
+   * @internal
+   */
+  function wake(queue: string): void {
+    const worker = workers.get(queue);
+    if (worker) void pump(worker);
+  }
+
+  /**
+   * Converts advanced schedule options to job options.
+   *
+   * @internal
+   */
+  function processAdvancedScheduleOptions(scheduleOptions: AdvancedScheduleOptions | SchedulePattern): Record<string, any> {
+    const opts = (
+      typeof scheduleOptions === "string" ? SchedulePatterns[scheduleOptions] : scheduleOptions
+    ) as AdvancedScheduleOptions;
+    const { at, retryStrategy, backoffMultiplier, maxRetryDelay, priorityBoost, repeat, ...rest } = opts;
+    const jobOptions: Record<string, any> = { ...rest };
+
+    if (at && opts.delay) {
+      throw adapterError('Cannot specify both "at" and "delay" options. Use one or the other.');
+    }
+
+    if (at) {
+      const delay = at.getTime() - Date.now();
+      if (delay <= 0) {
+        throw adapterError(`Scheduled time must be in the future. Received: ${at.toISOString()}`);
+      }
+      jobOptions.delay = delay;
+    }
+
+    if (repeat) {
+      jobOptions.repeat = {
+        cron: repeat.cron,
+        every: repeat.every,
+        limit: repeat.times,
+        endDate: repeat.until,
+      };
+    }
+
+    if (retryStrategy === "exponential") {
+      jobOptions.backoff = { type: "exponential", delay: 1000, max: maxRetryDelay || 60000 };
+      if (backoffMultiplier && backoffMultiplier !== 2) {
+        logger.warn("Only a backoff multiplier of 2 is supported, ignoring backoffMultiplier");
+      }
+    } else if (retryStrategy === "linear") {
+      jobOptions.backoff = { type: "fixed", delay: 5000 };
+    } else if (retryStrategy === "fixed") {
+      jobOptions.backoff = { type: "fixed", delay: opts.delay || 1000 };
+    } else if (typeof retryStrategy === "object" && retryStrategy.type === "custom") {
+      jobOptions.backoff = { type: "fixed", delay: 0, delays: retryStrategy.delays };
+    }
+
+    if (priorityBoost) {
+      jobOptions.priority = (jobOptions.priority || 0) + priorityBoost;
+    }
+
+    return jobOptions;
+  }
+
+  return {
+    client: { storage, registeredJobs, workers },
+
+    async bulkRegister(jobs) {
+      for (const [jobId, definition] of Object.entries(jobs)) {
+        registeredJobs.set(jobId, definition);
+
+        // Schedule the first occurrence of cron jobs, once per storage
+        const cron = definition.repeat?.cron;
+        if (cron) {
+          parseCronExpression(cron);
+          const queue = buildQueueName(definition.queue);
+          const scheduled = (await storage.list(queue)).some(
+            (job) => job.name === jobId && job.repeat && (job.status === "waiting" || job.status === "delayed"),
+          );
+          if (scheduled) continue;
+
+          const runAt = Math.max(
+            getNextCronDate(cron).getTime(),
+            definition.repeat?.startDate ? getNextCronDate(cron, definition.repeat.startDate).getTime() : 0,
+          );
+
+          logger.info(`Auto-scheduling cron job "${jobId}" with pattern: ${cron}`);
+          await addJob({
+            id: `${jobId}__cron:${runAt}`,
+            name: jobId,
+            queue,
+            payload: {},
+            status: "delayed",
+            priority: definition.priority || 0,
+            attempts: definition.attempts || 1,
+            attemptsMade: 0,
+            createdAt: Date.now(),
+            runAt,
+            removeOnComplete: definition.removeOnComplete ?? DEFAULT_REMOVE_ON_COMPLETE,
+            removeOnFail: definition.removeOnFail ?? DEFAULT_REMOVE_ON_FAIL,
+            repeat: {
+              cron,
+              limit: definition.repeat?.limit,
+              endDate: definition.repeat?.endDate?.getTime(),
+              count: 1,
+            },
+            metadata: definition.metadata,
+          });
+        }
+      }
+    },
+
+    router<TJobs extends Record<string, JobDefinition<TContext, any, any>>>(
+      config: JobsRouterConfig<TJobs>,
+    ): JobsRouter<TJobs> {
+      return createJobsRouter(config);
+    },
+
+    merge<TMergedJobs extends Record<string, JobsRouter<any>>>(
+      routers: TMergedJobs,
+    ): MergedJobsExecutor<MergedJobsRouter<TMergedJobs>> {
+      const flattenedJobs: Record<string, JobDefinition<any, any, any>> = {};
+      const mergedJobsByNamespace: Record<string, Record<string, JobDefinition<any, any, any>>> = {};
+
+      for (const [namespace, router] of Object.entries(routers)) {
+        mergedJobsByNamespace[namespace] = router.jobs;
+        for (const [jobId, definition] of Object.entries(router.jobs)) {
+          flattenedJobs[`${router.namespace || namespace}.${jobId}`] = definition as JobDefinition<any, any, any>;
+        }
+      }
+
+      const adapter = this;
+
+      // Jobs are registered synchronously so they can be enqueued right away
+      for (const [jobId, definition] of Object.entries(flattenedJobs)) {
+        registeredJobs.set(jobId, definition);
+      }
+
+      void Promise.resolve(adapter.bulkRegister(flattenedJobs)).then(async () => {
+        logger.info(`Registered ${Object.keys(flattenedJobs).length} jobs from ${Object.keys(routers).length} routers`);
+
+        if (options.autoStartWorker) {
+          const discoveredQueues = new Set<string>();
+          for (const definition of Object.values(flattenedJobs)) {
+            discoveredQueues.add(definition.queue?.name || "default");
+          }
+
+          const queues = options.autoStartWorker.queues || Array.from(discoveredQueues);
+          const schedules = await reconcileJobSchedules(adapter, flattenedJobs, queues);
+          logger.info("Job schedules reconciled", { ...schedules });
+
+          await adapter.worker({
+            queues,
+            concurrency: options.autoStartWorker.concurrency || 1,
+            onFailure: ({ job, error }) => {
+              logger.error(`Job failed: ${job.name} (${job.id})`, { error });
+            },
+          });
+        }
+      }).catch((error) => logger.error("Jobs registration failed", { error }));
+
+      const registry = createJobsRegistry(mergedJobsByNamespace, {
+        enableCache: true,
+        maxCacheSize: 1000,
+        cacheTTL: 300000,
+      });
+
+      const resolveJobId = (namespace: string, router: JobsRouter<any>, jobId: PropertyKey): string => {
+        const jobResult = registry.getJobByPath(`${namespace}.${String(jobId)}`);
+        if (!jobResult) {
+          throw adapterError(
+            `Job "${String(jobId)}" not found in namespace "${namespace}". ` +
+            `Available jobs: ${Object.keys(router.jobs).join(", ")}`,
+          );
+        }
+        return jobResult.namespacedJobId;
+      };
+
+      // Enqueues a job and returns its handle, on the same queue as `invoke`
+      const invokeJob = async (params: JobInvokeParams<any>) => {
+        const id = await adapter.invoke(params);
+        const queue = { name: "default", ...registeredJobs.get(params.id)?.queue, ...params.queue };
+        return createJobHandle(adapter, { id, queue });
+      };
+
+      const mergedExecutor = {} as Record<string, JobsNamespaceExecutor<any>>;
+
+      for (const [namespace, router] of Object.entries(routers)) {
+        mergedExecutor[namespace] = {
+          jobs: router.jobs,
+
+          async enqueue(params) {
+            const { task, input, ...invokeOptions } = params;
+            return invokeJob({ id: resolveJobId(namespace, router, task), input, ...invokeOptions });
+          },
+
+          async schedule(params) {
+            const { task, input, ...scheduleOptions } = params;
+            return invokeJob({
+              id: resolveJobId(namespace, router, task),
+              input,
+              ...processAdvancedScheduleOptions(scheduleOptions),
+            });
+          },
+
+          async bulk(jobs) {
+            return Promise.all(
+              jobs.map(({ jobId, input, ...invokeOptions }) =>
+                invokeJob({ id: resolveJobId(namespace, router, jobId), input, ...invokeOptions }),
+              ),
+            );
+          },
+        };
+      }
+
+      const proxy = createJobsProxy(
+        mergedJobsByNamespace,
+        registry,
+        ({ namespacedJobId, input, options: invokeOptions }) =>
+          invokeJob({ id: namespacedJobId, input, ...invokeOptions }),
+        (definition) => adapter.flow!(definition),
+      );
+
+      const finalExecutor = {
+        ...mergedExecutor,
+        createProxy: () => proxy,
+      } as unknown as MergedJobsExecutor<MergedJobsRouter<TMergedJobs>>;
+
+      (finalExecutor as any).__registry = registry;
+      return finalExecutor;
+    },
+
+    async invoke(params) {
+      return enqueueJob(params);
+    },
+
+    async flow(definition: JobFlowDefinition) {
+      if (definition.stages.length === 0 || definition.stages.some((stage) => stage.length === 0)) {
+        throw adapterError(`Flow "${definition.name}" must have at least one job per stage`);
+      }
+
+      for (const step of definition.stages.flat()) {
+        if (!registeredJobs.has(step.job)) {
+          throw adapterError(`Job "${step.job}" of flow "${definition.name}" is not registered.`);
+        }
+      }
+
+      const flowId = crypto.randomUUID();
+      await startFlowStage(
+        { id: flowId, name: definition.name, stages: definition.stages.length, steps: definition.stages },
+        0,
+        definition.input,
+      );
+
+      logger.debug("Flow started", { flowId, name: definition.name });
+      return flowId;
+    },
+
+    async search(params) {
+      const filter = params?.filter || {};
+      const jobs = await storage.list(params?.queue ? buildQueueName(params.queue) : undefined);
+
+      let results = jobs.map(mapStoredJobToResult).filter((job) => {
+        if (filter.status && !filter.status.includes(job.status)) return false;
+        if (filter.jobId && !job.id.includes(filter.jobId)) return false;
+        if (filter.flowId && job.flow?.id !== filter.flowId) return false;
+        if (filter.dateRange?.from && job.createdAt < filter.dateRange.from) return false;
+        if (filter.dateRange?.to && job.createdAt > filter.dateRange.to) return false;
+        return true;
+      });
+
+      if (filter.orderBy) {
+        const [field, direction] = filter.orderBy.split(":") as ["timestamp" | "priority", "asc" | "desc"];
+        results = results.sort((a, b) => {
+          const difference = field === "priority"
+            ? a.priority - b.priority
+            : a.createdAt.getTime() - b.createdAt.getTime();
+          return direction === "asc" ? difference : -difference;
+        });
+      }
+
+      const offset = filter.offset || 0;
+      return results.slice(offset, offset + (filter.limit || 100));
+    },
+
+    async getJob(params) {
+      const job = await storage.get(params.id);
+      if (!job) return null;
+
+      const details: JobDetails = {
+        ...mapStoredJobToResult(job),
+        queueName: job.queue,
+        progress: job.progress,
+        logs: job.logs || [],
+        maxAttempts: job.attempts,
+        runAt: job.runAt > Date.now() ? new Date(job.runAt) : undefined,
+        stacktrace: job.stacktrace || [],
+      };
+      return details;
+    },
+
+    async waitUntilFinished(params) {
+      const existing = await getStoredJob(params.id);
+      const job = existing.status === "completed" || existing.status === "failed"
+        ? existing
+        : await waitForJob(params.id, params.timeout);
+
+      if (job.status === "failed") {
+        throw adapterError(`Job "${job.id}" failed: ${job.error}`, { jobId: job.id, error: job.error });
+      }
+      return job.result;
+    },
+
+    async retry(params) {
+      const job = await getStoredJob(params.id);
+      if (job.status !== "failed") {
+        throw stateConflictError(`Only failed jobs can be retried, job "${job.id}" is ${job.status}`);
+      }
+
+      await storage.save({
+        ...job,
+        status: "waiting",
+        attemptsMade: 0,
+        runAt: Date.now(),
+        processedAt: undefined,
+        completedAt: undefined,
+        error: undefined,
+        errors: undefined,
+        stacktrace: undefined,
+      });
+      logger.info(`Job "${job.name}" (${job.id}) retried`);
+      wake(job.queue);
+    },
+
+    async cancel(params) {
+      const job = await getStoredJob(params.id);
+      if (job.status !== "waiting" && job.status !== "delayed") {
+        throw stateConflictError(`Only waiting or delayed jobs can be cancelled, job "${job.id}" is ${job.status}`);
+      }
+
+      await storage.delete(job.id);
+      logger.info(`Job "${job.name}" (${job.id}) cancelled`);
+    },
+
+    async promote(params) {
+      const job = await getStoredJob(params.id);
+      if ((job.status !== "waiting" && job.status !== "delayed") || job.runAt <= Date.now()) {
+        throw stateConflictError(`Only delayed jobs can be promoted, job "${job.id}" is ${job.status}`);
+      }
+
+      await storage.save({ ...job, status: "waiting", runAt: Date.now() });
+      wake(job.queue);
+    },
+
+    async pauseQueue(queue) {
+      pausedQueues.add(buildQueueName(queue));
+      logger.info(`Queue "${buildQueueName(queue)}" paused`);
+    },
+
+    async resumeQueue(queue) {
+      pausedQueues.delete(buildQueueName(queue));
+      logger.info(`Queue "${buildQueueName(queue)}" resumed`);
+      wake(buildQueueName(queue));
+    },
+
+    async drain(queue, drainOptions) {
+      const now = Date.now();
+      for (const job of await storage.list(buildQueueName(queue))) {
+        const isDelayed = job.status === "delayed" || job.runAt > now;
+        if ((job.status === "waiting" || job.status === "delayed") && (!isDelayed || drainOptions?.delayed)) {
+          await storage.delete(job.id);
+        }
+      }
+    },
+
+    async getQueueCounts(queue) {
+      const queueName = buildQueueName(queue);
+      const counts: JobQueueCounts = { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0, paused: 0 };
+
+      for (const job of await storage.list(queueName)) {
+        counts[mapStoredJobToResult(job).status as keyof JobQueueCounts]++;
+      }
+
+      // As with BullMQ, the waiting jobs of a paused queue are reported as paused
+      if (pausedQueues.has(queueName)) {
+        counts.paused = counts.waiting;
+        counts.waiting = 0;
+      }
+
+      return counts;
+    },
+
+    async listDeadLetters(params) {
+      const offset = params?.offset || 0;
+      const entries = await listDeadLetterJobs(params?.queue);
+      return entries
+        .slice(offset, params?.limit === undefined ? undefined : offset + params.limit)
+        .map(mapStoredJobToDeadLetter);
+    },
+
+    async getDeadLetter(params) {
+      const job = await getDeadLetterJob(params.id, params.queue);
+      return job ? mapStoredJobToDeadLetter(job) : null;
+    },
+
+    async replayDeadLetter(params) {
+      const job = await getDeadLetterJob(params.id, params.queue);
+      if (!job) {
+        throw adapterError(`Dead-letter entry "${params.id}" not found`);
+      }
+
+      const queue = job.queue.slice(0, -DEAD_LETTER_SUFFIX.length);
+      await storage.save({
+        ...job,
+        queue,
+        status: "waiting",
+        attemptsMade: 0,
+        runAt: Date.now(),
+        processedAt: undefined,
+        completedAt: undefined,
+        error: undefined,
+        errors: undefined,
+        stacktrace: undefined,
+      });
+      logger.info(`Job "${job.name}" (${job.id}) replayed from the dead-letter queue`);
+      wake(queue);
+      return job.id;
+    },
+
+    async purgeDeadLetters(params) {
+      const entries = (await listDeadLetterJobs(params?.queue))
+        .filter((job) => !params?.ids || params.ids.includes(job.id));
+
+      for (const job of entries) {
+        await storage.delete(job.id);
+      }
+      return entries.length;
+    },
+
+    async listSchedules(queue) {
+      const schedules = new Map<string, JobScheduleInfo>();
+
+      for (const job of await getScheduledJobs(buildQueueName(queue))) {
+        const pending = job.status !== "active";
+        if (schedules.has(job.name) && !pending) continue;
+
+        schedules.set(job.name, {
+          ...job.schedule!,
+          job: job.name,
+          queueName: job.queue,
+          nextRunAt: pending ? new Date(job.runAt) : undefined,
+        });
+      }
+
+      return Array.from(schedules.values());
+    },
+
+    async upsertSchedule(params) {
+      const definition = registeredJobs.get(params.job);
+      if (!definition) {
+        throw adapterError(`Job "${params.job}" is not registered. Please register it first using jobs.register().`);
+      }
+
+      const { schedule } = params;
+      parseCronExpression(schedule.cron);
+
+      let payload: any = schedule.input ?? {};
+      if (definition.input) {
+        const validation = await validateStandardSchema(definition.input, payload);
+        if (validation.issues) {
+          throw adapterError(`Invalid schedule input for job "${params.job}"`, validation.issues);
+        }
+        payload = validation.value;
+      }
+
+      const queue = buildQueueName({ ...definition.queue, ...params.queue });
+      removedSchedules.delete(`${queue}/${params.job}`);
+      for (const job of await getScheduledJobs(queue, params.job)) {
+        if (job.status !== "active") await storage.delete(job.id);
+      }
+
+      // Cron expressions are evaluated in the timezone of the server
+      const runAt = getNextCronDate(schedule.cron).getTime();
+      logger.info(`Scheduling job "${params.job}" with pattern: ${schedule.cron}`);
+      await addJob({
+        id: `${params.job}__schedule:${runAt}`,
+        name: params.job,
+        queue,
+        payload,
+        status: "delayed",
+        priority: definition.priority || 0,
+        attempts: definition.attempts ?? DEFAULT_ATTEMPTS,
+        attemptsMade: 0,
+        createdAt: Date.now(),
+        runAt,
+        removeOnComplete: definition.removeOnComplete ?? DEFAULT_REMOVE_ON_COMPLETE,
+        removeOnFail: definition.removeOnFail ?? DEFAULT_REMOVE_ON_FAIL,
+        repeat: { cron: schedule.cron, count: 1 },
+        metadata: definition.metadata,
+        schedule,
+      });
+    },
+
+    async removeSchedule(params) {
+      const definition = registeredJobs.get(params.job);
+      const queue = buildQueueName({ ...definition?.queue, ...params.queue });
+
+      for (const job of await getScheduledJobs(queue, params.job)) {
+        if (job.status === "active") {
+          // The running job must not schedule its next run once it finishes
+          removedSchedules.add(`${queue}/${params.job}`);
+        } else {
+          await storage.delete(job.id);
+        }
+      }
+      logger.info(`Removed the schedule of job "${params.job}"`);
+    },
+
+    async worker(config) {
+      for (const queueName of config.queues) {
+        const queue = buildQueueName({ name: queueName });
+
+        if (workers.has(queue)) {
+          logger.warn(`Worker for queue "${queueName}" already exists. Skipping.`);
+          continue;
+        }
+
+        const worker: LocalQueueWorker = {
+          queue,
+          config,
+          concurrency: config.concurrency || 1,
+          active: new Set(),
+          running: true,
+          pumping: false,
+          pumpAgain: false,
+          idle: false,
+          recoveredAt: 0,
+        };
+        workers.set(queue, worker);
+        startLeaseRenewal();
+
+        logger.info(`Worker started for queue: ${queueName} with concurrency: ${worker.concurrency}`);
+        void pump(worker);
+      }
+    },
+
+    async shutdown() {
+      for (const [queue, worker] of workers) {
+        worker.running = false;
+        clearTimeout(worker.timer);
+        await Promise.all(worker.active);
+        workers.delete(queue);
+      }
+      clearInterval(leaseTimer);
+      leaseTimer = undefined;
+
+      for (const waiters of jobWaiters.values()) {
+        for (const settle of waiters) {
+          settle(adapterError("Jobs adapter was shut down before the job finished"));
+        }
+      }
+
+      registeredJobs.clear();
+      pausedQueues.clear();
+    },
+
+    register<TInput extends StandardSchemaV1, TResult = any>(
+      config: Omit<JobDefinition<TContext, TInput, TResult>, "id"> & {
+        name: string;
+        input: TInput;
+        handler: (context: JobExecutionContext<TContext, TInput>) => Promise<TResult> | TResult;
+      },
+    ): JobDefinition<TContext, TInput, TResult> {
+      if (!config.name || config.name.trim() === "") {
+        throw adapterError("Job name is required and cannot be empty");
+      }
+
+      if (!config.input) {
+        throw adapterError("Job input schema is required");
+      }
+
+      if (!config.handler || typeof config.handler !== "function") {
+        throw adapterError("Job handler is required and must be a function");
+      }
+
+      return { ...config } as JobDefinition<TContext, TInput, TResult>;
+    },
+
+    cron<TResult = any>(
+      schedule: string | CronSchedule,
+      handler: CronJobHandler<TContext, TResult>,
+      cronOptions: CronJobOptions = {},
+    ): JobDefinition<TContext, any, TResult> {
+      try {
+        parseCronExpression(schedule);
+      } catch (error) {
+        throw adapterError((error as Error).message);
+      }
+
+      const jobName = cronOptions.jobName || `cron_${schedule.replace(/[^a-zA-Z0-9]/g, "_")}`;
+
+      return {
+        name: jobName,
+        input: undefined as any,
+        handler: async (executionContext: JobExecutionContext<TContext, any>) => {
+          const executionCount = executionContext.job.metadata?.executionCount || 1;
+          const maxExecutions = cronOptions.maxExecutions;
+
+          const cronContext: CronJobExecutionContext<TContext> = {
+            context: executionContext.context,
+            cron: {
+              schedule,
+              executionCount,
+              maxExecutions,
+              timezone: cronOptions.timezone,
+              nextExecution: getNextCronDate(schedule),
+              previousExecution: undefined,
+              isFinalExecution: maxExecutions ? executionCount >= maxExecutions : false,
+            },
+            job: {
+              ...executionContext.job,
+              metadata: {
+                ...executionContext.job.metadata,
+                cronSchedule: schedule,
+                timezone: cronOptions.timezone,
+              },
+            },
+          };
+
+          return handler(cronContext);
+        },
+        ...cronOptions,
+        repeat: {
+          cron: schedule,
+          tz: cronOptions.timezone,
+          limit: cronOptions.maxExecutions,
+          startDate: cronOptions.startDate,
+          endDate: cronOptions.endDate,
+        },
+        metadata: {
+          ...cronOptions.metadata,
+          cronSchedule: schedule,
+          timezone: cronOptions.timezone,
+          maxExecutions: cronOptions.maxExecutions,
+          isCronJob: true,
+        },
+      } as JobDefinition<TContext, any, TResult>;
+    },
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Memory Job Queue Adapter for development, testing and single-process apps.
+ * Runs jobs in the current process, without any external service. Jobs are lost when the process exits.
+ *
+ * @since 0.3.0
+ */
+
+import type { IgniterJobQueueAdapter } from "../types/jobs.interface";
+import {
+  createLocalJobsAdapter,
+  type JobLease,
+  type JobsStorage,
+  type LocalJobsAdapterOptions,
+  type StoredJob,
+} from "./jobs.local";
+
+/**
+ * Options for creating the memory job queue adapter
+ */
+export interface MemoryJobsAdapterOptions extends LocalJobsAdapterOptions {
+  /** Storage of the jobs, defaults to a new `MemoryJobsStorage` */
+  storage?: MemoryJobsStorage;
+}
+
+/**
+ * Jobs storage keeping the jobs in a map.
+ * Jobs are copied on read and write, so they behave as with a persistent storage.
+ */
+export class MemoryJobsStorage implements JobsStorage {
+  private readonly jobs = new Map<string, StoredJob>();
+  // Leases of the active jobs, by job ID
+  private readonly leases = new Map<string, JobLease>();
+
+  async save(job: StoredJob): Promise<void> {
+    this.jobs.set(job.id, structuredClone(job));
+    if (job.status !== "active") this.leases.delete(job.id);
+  }
+
+  async get(id: string): Promise<StoredJob | null> {
+    const job = this.jobs.get(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+    this.leases.delete(id);
+  }
+
+  async list(queue?: string): Promise<StoredJob[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => !queue || job.queue === queue)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((job) => structuredClone(job));
+  }
+
+  async claim(queue: string, now: number, lease: JobLease, names?: string[], excludeGroups?: string[]): Promise<StoredJob | null> {
+    let next: StoredJob | undefined;
+
+    for (const job of this.jobs.values()) {
+      if (job.queue !== queue || (job.status !== "waiting" && job.status !== "delayed")) continue;
+      if (job.runAt > now || (names && !names.includes(job.name))) continue;
+      if (job.group && excludeGroups?.includes(job.group)) continue;
+
+      if (
+        !next ||
+        job.priority > next.priority ||
+        (job.priority === next.priority && job.runAt < next.runAt)
+      ) {
+        next = job;
+      }
+    }
+
+    if (!next) return null;
+
+    next.status = "active";
+    next.processedAt = now;
+    this.leases.set(next.id, { ...lease });
+    return structuredClone(next);
+  }
+
+  async nextRunAt(queue: string): Promise<number | null> {
+    let nextRunAt: number | null = null;
+
+    for (const job of this.jobs.values()) {
+      if (job.queue !== queue || (job.status !== "waiting" && job.status !== "delayed")) continue;
+      if (nextRunAt === null || job.runAt < nextRunAt) nextRunAt = job.runAt;
+    }
+
+    return nextRunAt;
+  }
+
+  async renew(lease: JobLease): Promise<void> {
+    for (const current of this.leases.values()) {
+      if (current.workerId === lease.workerId) current.expiresAt = lease.expiresAt;
+    }
+  }
+
+  async recover(queue: string, now: number): Promise<number> {
+    let recovered = 0;
+
+    for (const job of this.jobs.values()) {
+      if (job.queue !== queue || job.status !== "active") continue;
+      if ((this.leases.get(job.id)?.expiresAt ?? 0) > now) continue;
+
+      job.status = "waiting";
+      this.leases.delete(job.id);
+      recovered++;
+    }
+
+    return recovered;
+  }
+
+  /** Removes every job. */
+  clear(): void {
+    this.jobs.clear();
+    this.leases.clear();
+  }
+}
+
+/**
+ * Creates a job queue adapter running jobs in memory, in the current process.
+ * Supports retries, delays, priorities, repeatable and cron jobs, and the full hook lifecycle,
+ * so jobs behave as with the BullMQ adapter without Redis.
+ *
+ * @param options - Adapter options
+ * @returns A complete `IgniterJobQueueAdapter` implementation
+ *
+ * @example
+ * ```typescript
+ * const jobs = createMemoryJobsAdapter({
+ *   contextFactory: () => ({ db: prisma }),
+ *   autoStartWorker: { concurrency: 2 },
+ * });
+ *
+ * const igniter = Igniter
+ *   .context<AppContext>()
+ *   .jobs(jobs.merge({ emails: emailJobs }))
+ *   .create();
+ * ```
+ */
+export function createMemoryJobsAdapter<TContext extends object>(
+  options: MemoryJobsAdapterOptions = {},
+): IgniterJobQueueAdapter<TContext> {
+  const { storage = new MemoryJobsStorage(), ...adapterOptions } = options;
+  return createLocalJobsAdapter<TContext>(storage, adapterOptions, "MEMORY_JOBS_ADAPTER_ERROR");
+}
@@ -0,0 +1,207 @@
+/**
+ * SQLite Job Queue Adapter for single-server apps.
+ * Runs jobs in the current process and keeps them in a SQLite database, so pending jobs
+ * survive restarts and can be shared by the processes using the same database file.
+ *
+ * @since 0.3.0
+ */
+
+import type { IgniterJobQueueAdapter } from "../types/jobs.interface";
+import {
+  createLocalJobsAdapter,
+  type JobLease,
+  type JobsStorage,
+  type LocalJobsAdapterOptions,
+  type StoredJob,
+} from "./jobs.local";
+
+/**
+ * Prepared statement of a SQLite database.
+ * Matches the statements of `better-sqlite3`, `bun:sqlite` and `node:sqlite`.
+ */
+export interface SQLiteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * SQLite database used by the adapter.
+ * Matches the databases of `better-sqlite3`, `bun:sqlite` and `node:sqlite`.
+ */
+export interface SQLiteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SQLiteStatement;
+}
+
+/**
+ * Options for creating the SQLite job queue adapter
+ */
+export interface SQLiteJobsAdapterOptions extends LocalJobsAdapterOptions {
+  /**
+   * SQLite database storing the jobs.
+   *
+   * @example
+   * ```typescript
+   * import Database from 'better-sqlite3';
+   * const database = new Database('jobs.db');
+   * ```
+   */
+  database: SQLiteDatabase;
+
+  /**
+   * Name of the jobs table, created if it does not exist.
+   * @default "igniter_jobs"
+   */
+  tableName?: string;
+}
+
+/**
+ * Row of the jobs table.
+ *
+ * @internal
+ */
+interface SQLiteJobRow {
+  data: string;
+}
+
+/**
+ * Jobs storage keeping the jobs in a SQLite table.
+ * The job is stored as JSON, next to the columns used to find the runnable jobs
+ * and the lease of the worker running it.
+ */
+export class SQLiteJobsStorage implements JobsStorage {
+  private readonly table: string;
+
+  constructor(private readonly database: SQLiteDatabase, tableName = "igniter_jobs") {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+      throw new Error(`Invalid table name "${tableName}"`);
+    }
+
+    this.table = tableName;
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        queue TEXT NOT NULL,
+        status TEXT NOT NULL,
+        priority INTEGER NOT NULL,
+        run_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        worker_id TEXT,
+        lease_expires_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS ${this.table}_runnable ON ${this.table} (queue, status, priority, run_at);
+    `);
+  }
+
+  async save(job: StoredJob): Promise<void> {
+    // The lease columns are only written by `claim`, `renew` and `recover`
+    this.database
+      .prepare(
+        `INSERT INTO ${this.table} (id, name, queue, status, priority, run_at, created_at, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name, queue = excluded.queue, status = excluded.status, priority = excluded.priority,
+           run_at = excluded.run_at, created_at = excluded.created_at, data = excluded.data`,
+      )
+      .run(job.id, job.name, job.queue, job.status, job.priority, job.runAt, job.createdAt, JSON.stringify(job));
+  }
+
+  async get(id: string): Promise<StoredJob | null> {
+    const row = this.database.prepare(`SELECT data FROM ${this.table} WHERE id = ?`).get(id) as SQLiteJobRow | undefined | null;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.database.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+  }
+
+  async list(queue?: string): Promise<StoredJob[]> {
+    const rows = (queue
+      ? this.database.prepare(`SELECT data FROM ${this.table} WHERE queue = ? ORDER BY created_at`).all(queue)
+      : this.database.prepare(`SELECT data FROM ${this.table} ORDER BY created_at`).all()) as SQLiteJobRow[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async claim(queue: string, now: number, lease: JobLease, names?: string[], excludeGroups?: string[]): Promise<StoredJob | null> {
+    const nameFilter = names ? ` AND name IN (${names.map(() => "?").join(", ") || "NULL"})` : "";
+    const groupFilter = excludeGroups?.length
+      ? ` AND (json_extract(data, '$.group') IS NULL OR json_extract(data, '$.group') NOT IN (${excludeGroups.map(() => "?").join(", ")}))`
+      : "";
+    const select = this.database.prepare(
+      `SELECT data FROM ${this.table}
+       WHERE queue = ? AND status IN ('waiting', 'delayed') AND run_at <= ?${nameFilter}${groupFilter}
+       ORDER BY priority DESC, run_at ASC LIMIT 1`,
+    );
+    const update = this.database.prepare(
+      `UPDATE ${this.table} SET status = 'active', data = ?, worker_id = ?, lease_expires_at = ?
+       WHERE id = ? AND status IN ('waiting', 'delayed')`,
+    );
+
+    // Another process may claim the same job between the select and the update
+    while (true) {
+      const row = select.get(queue, now, ...(names || []), ...(excludeGroups || [])) as SQLiteJobRow | undefined | null;
+      if (!row) return null;
+
+      const job: StoredJob = { ...JSON.parse(row.data), status: "active", processedAt: now };
+      if (Number(update.run(JSON.stringify(job), lease.workerId, lease.expiresAt, job.id).changes) > 0) {
+        return job;
+      }
+    }
+  }
+
+  async nextRunAt(queue: string): Promise<number | null> {
+    const row = this.database
+      .prepare(`SELECT MIN(run_at) AS next FROM ${this.table} WHERE queue = ? AND status IN ('waiting', 'delayed')`)
+      .get(queue) as { next: number | null } | undefined | null;
+    return row?.next ?? null;
+  }
+
+  async renew(lease: JobLease): Promise<void> {
+    this.database
+      .prepare(`UPDATE ${this.table} SET lease_expires_at = ? WHERE worker_id = ? AND status = 'active'`)
+      .run(lease.expiresAt, lease.workerId);
+  }
+
+  async recover(queue: string, now: number): Promise<number> {
+    const { changes } = this.database
+      .prepare(
+        `UPDATE ${this.table}
+         SET status = 'waiting', data = json_set(data, '$.status', 'waiting'), worker_id = NULL, lease_expires_at = NULL
+         WHERE queue = ? AND status = 'active' AND (lease_expires_at IS NULL OR lease_expires_at <= ?)`,
+      )
+      .run(queue, now);
+
+    return Number(changes);
+  }
+}
+
+/**
+ * Creates a job queue adapter running jobs in the current process and keeping them in SQLite.
+ * Supports retries, delays, priorities, repeatable and cron jobs, and the full hook lifecycle,
+ * so jobs behave as with the BullMQ adapter without Redis. Jobs left active by a stopped
+ * process are retried once the lease of its workers expires (`leaseDuration`).
+ *
+ * @param options - Adapter options
+ * @returns A complete `IgniterJobQueueAdapter` implementation
+ *
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ *
+ * const jobs = createSQLiteJobsAdapter({
+ *   database: new Database('jobs.db'),
+ *   contextFactory: () => ({ db: prisma }),
+ *   autoStartWorker: { concurrency: 2 },
+ * });
+ * ```
+ */
+export function createSQLiteJobsAdapter<TContext extends object>(
+  options: SQLiteJobsAdapterOptions,
+): IgniterJobQueueAdapter<TContext> {
+  const { database, tableName, ...adapterOptions } = options;
+  const storage = new SQLiteJobsStorage(database, tableName);
+  return createLocalJobsAdapter<TContext>(storage, adapterOptions, "SQLITE_JOBS_ADAPTER_ERROR");
+}
@@ -0,0 +1,260 @@
+import { IgniterError } from "../error";
+import { IgniterConsoleLogger } from "../services/logger.service";
+import type { IgniterLogger } from "../types";
+import { SSEProcessor, type SSEChannel } from "../processors/sse.processor";
+import {
+  WebSocketProcessor,
+  type IgniterWebSocket,
+  type WebSocketAuthorizer,
+  type WebSocketConnectionParams,
+} from "../processors/websocket.processor";
+import { parseURL } from "../utils/url";
+import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+
+let _logger: IgniterLogger | undefined;
+
+function getLogger(): IgniterLogger {
+  if (!_logger) {
+    _logger = IgniterConsoleLogger.create({
+      level: resolveLogLevel(),
+      context: createLoggerContext('WebSocket'),
+      showTimestamp: true,
+    });
+  }
+  return _logger;
+}
+
+/**
+ * Options shared by the WebSocket adapters
+ */
+export interface IgniterWebSocketAdapterOptions {
+  /**
+   * Base path of the API, the socket endpoint is `{basePATH}/ws/events`.
+   * Defaults to `IGNITER_APP_BASE_PATH` or `/api/v1`.
+   */
+  basePATH?: string;
+
+  /**
+   * Channels registered when the adapter is created, e.g. to declare the schema of client events.
+   */
+  channels?: SSEChannel[];
+
+  /**
+   * Authorizes the upgrade requests and grants the scopes of the connections.
+   * Return `false` to reject the upgrade. Without it, every upgrade is accepted without scopes,
+   * so the connections only receive unscoped events.
+   *
+   * @example
+   * ```typescript
+   * authorize: async (request) => {
+   *   const session = await getSession(request.headers);
+   *   return session ? { scopes: [`user:${session.userId}`] } : false;
+   * }
+   * ```
+   */
+  authorize?: WebSocketAuthorizer;
+}
+
+/**
+ * Resolves the WebSocket endpoint and registers the configured channels.
+ */
+function setupWebSocketAdapter(options: IgniterWebSocketAdapterOptions): string {
+  for (const channel of options.channels || []) {
+    SSEProcessor.registerChannel(channel);
+  }
+
+  const basePATH = options.basePATH || process.env.IGNITER_APP_BASE_PATH || "/api/v1";
+  return parseURL(basePATH, "/ws/events");
+}
+
+/**
+ * Creates the WebSocket handlers for `Bun.serve`.
+ *
+ * @param options - Adapter options
+ * @returns An `upgrade` function to call from `fetch`, and the `websocket` handlers
+ *
+ * @example
+ * ```typescript
+ * const realtime = createBunWebSocketAdapter({
+ *   channels: [{ id: 'chat', schema: z.object({ text: z.string() }), clientPublish: true }],
+ *   authorize: (request) => authorizeSocket(request),
+ * });
+ *
+ * Bun.serve({
+ *   async fetch(request, server) {
+ *     const upgrade = await realtime.upgrade(request, server);
+ *     if (upgrade !== null) return upgrade;
+ *     return AppRouter.handler(request);
+ *   },
+ *   websocket: realtime.websocket,
+ * });
+ * ```
+ */
+export const createBunWebSocketAdapter = (options: IgniterWebSocketAdapterOptions = {}) => {
+  const path = setupWebSocketAdapter(options);
+
+  type BunSocket = IgniterWebSocket & { data?: { igniter?: WebSocketConnectionParams } };
+
+  return {
+    /**
+     * Authorizes and upgrades requests sent to the WebSocket endpoint.
+     *
+     * @returns `null` when the request is not sent to the WebSocket endpoint, `undefined` when it was upgraded,
+     * or the error response to return when the upgrade is rejected or fails
+     */
+    async upgrade(
+      request: Request,
+      server: { upgrade(request: Request, options?: { data?: unknown }): boolean },
+    ): Promise<Response | undefined | null> {
+      const url = new URL(request.url);
+      if (url.pathname !== path) return null;
+
+      const params = await WebSocketProcessor.authorize(request, options.authorize);
+      if (!params) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+
+      if (!server.upgrade(request, { data: { igniter: params } })) {
+        return new Response("WebSocket upgrade failed", { status: 400 });
+      }
+
+      return undefined;
+    },
+    websocket: {
+      open(socket: BunSocket) {
+        void WebSocketProcessor.handleOpen(socket, socket.data?.igniter);
+      },
+      message(socket: BunSocket, message: string | Uint8Array) {
+        void WebSocketProcessor.handleMessage(socket, message);
+      },
+      close(socket: BunSocket) {
+        WebSocketProcessor.handleClose(socket);
+      },
+    },
+  };
+};
+
+/**
+ * Attaches the realtime transport to a Node `ws` WebSocketServer.
+ * Messages received while the connection is being authorized are handled once it is accepted,
+ * and a socket closed meanwhile is cleaned up once its connection is opened.
+ *
+ * @param server - The `ws` WebSocketServer
+ * @param options - Adapter options
+ *
+ * @example
+ * ```typescript
+ * import { WebSocketServer } from 'ws';
+ *
+ * const httpServer = app.listen(3000);
+ * attachNodeWebSocketServer(new WebSocketServer({ server: httpServer }));
+ * ```
+ */
+export const attachNodeWebSocketServer = (
+  server: {
+    on(
+      event: "connection",
+      listener: (socket: any, request: { url?: string; headers: Record<string, any> }) => void,
+    ): unknown;
+  },
+  options: IgniterWebSocketAdapterOptions = {},
+): void => {
+  const path = setupWebSocketAdapter(options);
+
+  server.on("connection", (socket, request) => {
+    const url = new URL(request.url || "/", `http://${request.headers.host || "localhost"}`);
+    if (url.pathname !== path) {
+      socket.close(1008, "Unknown WebSocket endpoint");
+      return;
+    }
+
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(request.headers)) {
+      if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(", ") : String(value));
+    }
+
+    let closed = false;
+
+    // Never rejects, so the handlers waiting for it do not fail each on their own
+    const opened = WebSocketProcessor.authorize(new Request(url, { headers }), options.authorize)
+      .then(async (params) => {
+        if (closed) return false;
+        if (!params) {
+          socket.close(1008, "Unauthorized");
+          return false;
+        }
+
+        await WebSocketProcessor.handleOpen(socket, params);
+        return !closed;
+      })
+      .catch((error) => {
+        getLogger().error("WebSocket connection opening failed", { error });
+        socket.close(1011, "Internal error");
+        return false;
+      });
+
+    // The connection is removed once it was opened, as the state is only registered by then
+    const close = () => {
+      closed = true;
+      void opened.then(() => WebSocketProcessor.handleClose(socket));
+    };
+
+    socket.on("message", (data: Uint8Array | string) => {
+      void opened.then((open) => {
+        if (!open) return;
+        return WebSocketProcessor.handleMessage(socket, typeof data === "string" ? data : data.toString());
+      });
+    });
+    socket.on("close", close);
+    socket.on("error", close);
+  });
+};
+
+/**
+ * Creates a handler authorizing and upgrading Deno requests sent to the WebSocket endpoint.
+ *
+ * @param options - Adapter options
+ * @returns A function resolving the upgrade response (a 401 when the upgrade is rejected),
+ * or `null` when the request is not a WebSocket request
+ *
+ * @example
+ * ```typescript
+ * const upgrade = createDenoWebSocketAdapter({ authorize: (request) => authorizeSocket(request) });
+ *
+ * Deno.serve(async (request) => (await upgrade(request)) ?? AppRouter.handler(request));
+ * ```
+ */
+export const createDenoWebSocketAdapter = (options: IgniterWebSocketAdapterOptions = {}) => {
+  const path = setupWebSocketAdapter(options);
+
+  return async (request: Request): Promise<Response | null> => {
+    const url = new URL(request.url);
+
+    if (url.pathname !== path) return null;
+    if (request.headers.get("upgrade")?.toLowerCase() !== "websocket") return null;
+
+    const deno = (globalThis as any).Deno;
+    if (!deno?.upgradeWebSocket) {
+      throw new IgniterError({
+        code: "WEBSOCKET_UNSUPPORTED_RUNTIME",
+        message: "Deno.upgradeWebSocket is not available in this runtime",
+      });
+    }
+
+    const params = await WebSocketProcessor.authorize(request, options.authorize);
+    if (!params) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const { socket, response } = deno.upgradeWebSocket(request);
+
+    socket.onopen = () => void WebSocketProcessor.handleOpen(socket, params);
+    socket.onmessage = (event: MessageEvent) => {
+      void WebSocketProcessor.handleMessage(socket, event.data);
+    };
+    socket.onclose = () => WebSocketProcessor.handleClose(socket);
+    socket.onerror = () => WebSocketProcessor.handleClose(socket);
+
+    return response;
+  };
+};
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createBrowserClient } from '../igniter.client.browser';
+
+const jsonResponse = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+const router = {
+  config: { baseURL: 'http://localhost:3000', basePATH: '/api/v1' },
+  controllers: {
+    users: {
+      path: '/users',
+      actions: {
+        list: { path: '/', method: 'GET' },
+        create: { path: '/', method: 'POST' },
+      },
+    },
+  },
+} as any;
+
+describe('Browser Client', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should run the request interceptor and retry with the refreshed token on 401', async () => {
+    let token = 'expired';
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) =>
+      (init.headers as Record<string, string>).Authorization === 'Bearer fresh'
+        ? jsonResponse({ data: [] })
+        : jsonResponse({ error: { code: 'ERR_UNAUTHORIZED' } }, 401),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createBrowserClient(router, {
+      onRequest: ({ init }) => {
+        init.headers.Authorization = `Bearer ${token}`;
+      },
+      onResponse: async ({ response, retry }) => {
+        if (response.status !== 401) return;
+        token = 'fresh';
+        return retry();
+      },
+    }) as any;
+
+    await expect(client.users.list.query()).resolves.toEqual({ data: [] });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:3000/api/v1/users/');
+  });
+
+  it('should retry GET requests with the retried statuses only', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ error: 'unavailable' }, 503))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(jsonResponse({ data: ['ana'] }))
+      .mockResolvedValue(jsonResponse({ error: 'unavailable' }, 503));
+    vi.stubGlobal('fetch', fetchMock);
+    const onError = vi.fn();
+
+    const client = createBrowserClient(router, { retry: { limit: 2, delay: 0 }, onError }) as any;
+
+    await expect(client.users.list.query()).resolves.toEqual({ data: ['ana'] });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    // Mutations are not retried by default
+    await expect(client.users.create.mutate({ body: { name: 'ana' } })).rejects.toEqual({ error: 'unavailable' });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, error: { error: 'unavailable' } }));
+  });
+
+  it('should not retry the errors of the interceptors', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ error: 'unavailable' }, 503));
+    vi.stubGlobal('fetch', fetchMock);
+    const onResponse = vi.fn(async () => {
+      throw new Error('Refresh failed');
+    });
+
+    const client = createBrowserClient(router, { retry: { limit: 2, delay: 0 }, onResponse }) as any;
+
+    await expect(client.users.list.query()).rejects.toThrow('IgniterClient fetch error: Refresh failed');
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(onResponse).toHaveBeenCalledOnce();
+  });
+
+  it('should stop waiting for the next retry once the signal aborts', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ error: 'unavailable' }, 503));
+    vi.stubGlobal('fetch', fetchMock);
+    const onError = vi.fn();
+
+    const client = createBrowserClient(router, { retry: { limit: 2, delay: 60_000 }, onError }) as any;
+
+    const controller = new AbortController();
+    const pending = client.users.list.query({ signal: controller.signal });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledOnce());
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('IgniterClient fetch error');
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1 }));
+  });
+
+  it('should abort requests after the timeout or with the signal of the call', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) =>
+      new Promise((_, reject) => {
+        const abort = () => reject(new DOMException('Aborted', 'AbortError'));
+        if (init.signal!.aborted) abort();
+        init.signal!.addEventListener('abort', abort);
+      }),
+    ));
+
+    const client = createBrowserClient(router, { timeout: 5000 }) as any;
+
+    await expect(client.users.list.query({ timeout: 10 })).rejects.toThrow('Request timed out after 10ms');
+
+    const controller = new AbortController();
+    const pending = client.users.list.query({ signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toThrow('IgniterClient fetch error');
+  });
+});
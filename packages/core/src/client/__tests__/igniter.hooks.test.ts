@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IgniterQueryClient } from '../igniter.query-client';
+import { useJob } from '../igniter.hooks';
+import { getJobChannel } from '../../utils/channel';
+
+// The hooks run outside of React: state and refs are kept in slots read in call order,
+// state updates render the hook again and effects run after each render when their dependencies change
+const runtime = vi.hoisted(() => ({
+  slots: [] as any[],
+  cursor: 0,
+  pending: [] as (() => void)[],
+  render: () => {},
+  scheduled: false,
+  context: undefined as unknown,
+}));
+
+vi.mock('react', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('react')>();
+  const slot = <T,>(init: () => T): T => {
+    const index = runtime.cursor++;
+    if (!(index in runtime.slots)) runtime.slots[index] = init();
+    return runtime.slots[index];
+  };
+
+  return {
+    ...actual,
+    useRef: (initial: unknown) => slot(() => ({ current: initial })),
+    useState: (initial: unknown) => {
+      const state = slot(() => ({ value: typeof initial === 'function' ? initial() : initial }));
+      const setState = (next: unknown) => {
+        state.value = typeof next === 'function' ? next(state.value) : next;
+        if (runtime.scheduled) return;
+        runtime.scheduled = true;
+        queueMicrotask(() => {
+          runtime.scheduled = false;
+          runtime.render();
+        });
+      };
+      return [state.value, setState];
+    },
+    useEffect: (effect: () => void | (() => void), deps?: unknown[]) => {
+      const state = slot(() => ({ deps: undefined as unknown[] | undefined, cleanup: undefined as void | (() => void), mounted: false }));
+      const changed = !state.mounted || !deps || deps.some((dep, index) => !Object.is(dep, state.deps?.[index]));
+      if (!changed) return;
+
+      state.mounted = true;
+      state.deps = deps;
+      runtime.pending.push(() => {
+        state.cleanup?.();
+        state.cleanup = effect();
+      });
+    },
+  };
+});
+
+vi.mock('../igniter.context', () => ({
+  useIgniterQueryClient: () => runtime.context,
+  useOptionalIgniterQueryClient: () => runtime.context,
+}));
+
+function renderHook<T>(hook: () => T) {
+  const result = { current: undefined as T };
+  runtime.slots = [];
+  runtime.render = () => {
+    runtime.cursor = 0;
+    runtime.pending = [];
+    result.current = hook();
+    runtime.pending.forEach((run) => run());
+  };
+  runtime.render();
+
+  return {
+    result,
+    unmount: () => runtime.slots.forEach((state) => state?.cleanup?.()),
+  };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Hooks', () => {
+  const sources: any[] = [];
+  const history: unknown[] = [];
+  let queryClient: IgniterQueryClient;
+
+  beforeEach(() => {
+    sources.length = 0;
+    history.length = 0;
+    // The setup defines a non-configurable `window`
+    (globalThis as any).window = {
+      location: { origin: 'http://localhost' },
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    };
+    vi.stubGlobal('EventSource', class {
+      listeners: Record<string, (event: any) => void> = {};
+      constructor(public url: string) { sources.push(this); }
+      addEventListener(type: string, listener: (event: any) => void) { this.listeners[type] = listener; }
+      close() {}
+    });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      events: history.map((data) => ({ channel: 'jobs', data })),
+    }))));
+
+    queryClient = new IgniterQueryClient();
+    runtime.context = { queryClient, subscribeToRealtime: queryClient.subscribeToRealtime };
+  });
+
+  afterEach(() => {
+    queryClient.disconnect();
+    vi.unstubAllGlobals();
+    (globalThis as any).window = undefined;
+  });
+
+  it('should update useJob with the job events of its channel', async () => {
+    const onSuccess = vi.fn();
+    const { result, unmount } = renderHook(() => useJob('9b1deb4d', { onSuccess }));
+    queryClient.connect();
+    await flush();
+
+    const source = sources.at(-1);
+    expect(source.url).toContain(encodeURIComponent(getJobChannel('9b1deb4d')));
+
+    const state = { id: '9b1deb4d', name: 'build', status: 'completed', progress: 100, result: { url: '/reports/1.pdf' }, attemptsMade: 1, updatedAt: Date.now() };
+    source.listeners.job({ data: JSON.stringify({ channel: getJobChannel('9b1deb4d'), data: state }) });
+    await flush();
+
+    expect(result.current).toMatchObject({ status: 'completed', progress: 100, result: { url: '/reports/1.pdf' }, isFinished: true });
+    expect(onSuccess).toHaveBeenCalledWith({ url: '/reports/1.pdf' }, state);
+
+    unmount();
+    expect(queryClient.realtimeSubscribers.has(getJobChannel('9b1deb4d'))).toBe(false);
+  });
+
+  it('should read the state of a job that finished before useJob subscribed', async () => {
+    const state = { id: '9b1deb4d', name: 'build', status: 'completed', progress: 100, result: 42, attemptsMade: 1, updatedAt: Date.now() };
+    history.push({ ...state, status: 'active', progress: 50, updatedAt: state.updatedAt - 10 }, state);
+    const onSuccess = vi.fn();
+
+    const { result } = renderHook(() => useJob('9b1deb4d', { onSuccess }));
+    queryClient.connect();
+    await flush();
+
+    expect(fetch).toHaveBeenCalledWith(`http://localhost/api/v1/sse/history?channel=${encodeURIComponent(getJobChannel('9b1deb4d'))}&scopes=`);
+    expect(result.current).toMatchObject({ status: 'completed', result: 42, isFinished: true, isConnected: false });
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+
+    // The streamed state already read is not applied twice
+    sources.at(-1).listeners.job({ data: JSON.stringify({ channel: getJobChannel('9b1deb4d'), data: state }) });
+    sources.at(-1).onopen();
+    await flush();
+
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+    expect(result.current.isConnected).toBe(true);
+  });
+});
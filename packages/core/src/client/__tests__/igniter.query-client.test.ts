@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createApp, effectScope, nextTick, ref } from 'vue';
+import { IgniterQueryClient, InfiniteQueryObserver, MutationObserver, QueryObserver } from '../igniter.query-client';
+import { createQueryStore } from '../igniter.svelte';
+import { createIgniterPlugin, useQuery } from '../igniter.vue';
+import { dehydrate, prefetchQuery } from '../../utils/hydration';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Query Client', () => {
+  let queryClient: IgniterQueryClient;
+  let query: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    queryClient = new IgniterQueryClient({ enableRealtime: false });
+    query = vi.fn(async (input: any) => ({ data: { page: input.query.page ?? 1 }, error: null }));
+  });
+
+  it('should dedupe the requests in flight and serve the cache within the stale time', async () => {
+    const first = new QueryObserver(queryClient, { key: 'users.list', query }, { staleTime: 1000 });
+    const second = new QueryObserver(queryClient, { key: 'users.list', query }, { staleTime: 1000 });
+
+    first.subscribe(() => {});
+    second.subscribe(() => {});
+    await flush();
+
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(second.getState()).toMatchObject({ data: { page: 1 }, status: 'success', isFetching: false });
+
+    // A new observer of the key starts from the cache
+    const third = new QueryObserver(queryClient, { key: 'users.list', query }, { staleTime: 1000 });
+    expect(third.getState()).toMatchObject({ data: { page: 1 }, isSuccess: true });
+    await third.execute();
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refetch the mounted queries matching an invalidated prefix', async () => {
+    const observer = new QueryObserver(queryClient, { key: 'users.list', query }, { staleTime: 60000 });
+    const unsubscribe = observer.subscribe(() => {});
+    await flush();
+
+    queryClient.invalidate('users');
+    await flush();
+    expect(query).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    queryClient.invalidate('users');
+    await flush();
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(queryClient.listeners.size).toBe(0);
+  });
+
+  it('should fetch again when the parameters change', async () => {
+    const observer = new QueryObserver<any>(queryClient, { key: 'users.list', query }, { query: { page: 1 } });
+    observer.subscribe(() => {});
+    await flush();
+
+    observer.setOptions({ query: { page: 2 } });
+    await flush();
+
+    expect(observer.getState().data).toEqual({ page: 2 });
+    expect(queryClient.listeners.has('users.list:{"body":{},"params":{},"query":{"page":2}}')).toBe(true);
+  });
+
+  it('should fetch the pages of an infinite query in both directions', async () => {
+    const list = vi.fn(async (input: any) => {
+      const cursor = input.query.cursor ?? 0;
+      return { data: { items: [cursor], next: cursor < 2 ? cursor + 1 : null, previous: cursor > -1 ? cursor - 1 : null }, error: null };
+    });
+    const observer = new InfiniteQueryObserver<any, number | undefined>(queryClient, { key: 'posts.list', query: list }, {
+      query: { tag: 'news' },
+      initialPageParam: undefined,
+      getNextPageParam: (lastPage) => lastPage.next,
+      getPreviousPageParam: (firstPage) => firstPage.previous,
+    });
+    observer.subscribe(() => {});
+    await flush();
+
+    expect(list).toHaveBeenCalledWith(expect.objectContaining({ query: { tag: 'news' } }));
+    expect(observer.getState()).toMatchObject({ hasNextPage: true, hasPreviousPage: true });
+
+    await observer.fetchNextPage();
+    await observer.fetchNextPage();
+    await observer.fetchPreviousPage();
+
+    expect(list).toHaveBeenLastCalledWith(expect.objectContaining({ query: { tag: 'news', cursor: -1 } }));
+    expect(observer.getState()).toMatchObject({
+      data: { pages: [{ items: [-1] }, { items: [0] }, { items: [1] }, { items: [2] }], pageParams: [-1, undefined, 1, 2] },
+      hasNextPage: false,
+      hasPreviousPage: false,
+      isFetchingNextPage: false,
+    });
+  });
+
+  it('should refetch every loaded page when an infinite query is revalidated', async () => {
+    let total = 3;
+    const list = vi.fn(async (input: any) => {
+      const cursor = input.query.cursor;
+      return { data: { items: [cursor], next: cursor < total ? cursor + 1 : null }, error: null };
+    });
+    const observer = new InfiniteQueryObserver<any, number>(queryClient, { key: 'posts.list', query: list }, {
+      initialPageParam: 1,
+      getNextPageParam: (lastPage) => lastPage.next,
+      staleTime: 60000,
+    });
+    observer.subscribe(() => {});
+    await flush();
+    await observer.fetchNextPage();
+    expect(list).toHaveBeenCalledTimes(2);
+
+    total = 1;
+    queryClient.invalidate(['posts.list']);
+    await vi.waitFor(() => expect(observer.getState().isFetching).toBe(false));
+
+    // The pages are fetched again from the first one, stopping when there is no next page
+    expect(list).toHaveBeenCalledTimes(3);
+    expect(observer.getState()).toMatchObject({ data: { pages: [{ items: [1] }], pageParams: [1] }, hasNextPage: false });
+  });
+
+  it('should track the state of a mutation', async () => {
+    const onSuccess = vi.fn();
+    const mutate = vi.fn().mockRejectedValueOnce({ code: 'ERR' }).mockResolvedValue({ data: { id: 1 }, error: null });
+    const observer = new MutationObserver<any>(queryClient, { key: 'users.create', mutate }, { onSuccess });
+
+    await expect(observer.mutate({ body: { name: 'ana' } })).resolves.toEqual({ data: null, error: { code: 'ERR' } });
+    expect(observer.getState()).toMatchObject({ status: 'error', isError: true });
+
+    await observer.retry();
+    expect(observer.getState()).toMatchObject({ data: { id: 1 }, status: 'success', variables: { body: { name: 'ana' } } });
+    expect(onSuccess).toHaveBeenCalledWith({ id: 1 });
+  });
+
+  it('should write the cache optimistically and roll it back when the mutation fails', async () => {
+    const observer = new QueryObserver<any>(queryClient, { key: 'users.list', query }, { query: { page: 1 } });
+    observer.subscribe(() => {});
+    await flush();
+
+    const onError = vi.fn();
+    const mutation = new MutationObserver<any>(queryClient, {
+      key: 'users.create',
+      mutate: vi.fn().mockRejectedValue({ code: 'ERR' }),
+    }, {
+      onMutate: () => {
+        queryClient.setQueryData('users.list', { query: { page: 1 } }, (previous: any) => ({ ...previous, optimistic: true }));
+        return 'context';
+      },
+      onError,
+    });
+
+    const pending = mutation.mutate({ body: {} });
+    expect(observer.getState().data).toEqual({ page: 1, optimistic: true });
+
+    await pending;
+    expect(observer.getState().data).toEqual({ page: 1 });
+    expect(queryClient.getQueryData('users.list', { query: { page: 1 } })).toEqual({ page: 1 });
+    expect(onError).toHaveBeenCalledWith({ code: 'ERR' }, { query: {}, params: {}, body: {} }, 'context');
+  });
+
+  it('should write the data of the revalidation events instead of refetching', async () => {
+    const sources: any[] = [];
+    // The setup defines a non-configurable `window`
+    (globalThis as any).window = {
+      location: { origin: 'http://localhost' },
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    };
+    vi.stubGlobal('EventSource', class {
+      listeners: Record<string, (event: any) => void> = {};
+      constructor(public url: string) { sources.push(this); }
+      addEventListener(type: string, listener: (event: any) => void) { this.listeners[type] = listener; }
+      close() {}
+    });
+
+    const realtimeClient = new IgniterQueryClient();
+    const byId = new QueryObserver<any>(realtimeClient, { key: 'users.getById', query }, { params: { id: 1 } });
+    const list = new QueryObserver<any>(realtimeClient, { key: 'users.list', query });
+    byId.subscribe(() => {});
+    list.subscribe(() => {});
+    const disconnect = realtimeClient.connect();
+    await flush();
+    expect(query).toHaveBeenCalledTimes(2);
+
+    sources[0].listeners.revalidate({
+      data: JSON.stringify({
+        channel: 'revalidation',
+        data: {
+          queryKeys: ['users.getById:{"params":{"id":1}}', 'users.list'],
+          queryData: { 'users.getById:{"params":{"id":1}}': { id: 1, name: 'Ana' } },
+        },
+      }),
+    });
+    await flush();
+
+    expect(byId.getState().data).toEqual({ id: 1, name: 'Ana' });
+    expect(query).toHaveBeenCalledTimes(3);
+    expect(query).toHaveBeenLastCalledWith(expect.objectContaining({ query: {}, params: {} }));
+
+    disconnect();
+    vi.unstubAllGlobals();
+    (globalThis as any).window = undefined;
+  });
+
+  it('should render the queries prefetched on the server without fetching them on mount', async () => {
+    const state = await dehydrate([
+      prefetchQuery('users.list', { query: { page: 1 } }, async () => ({ data: { page: 1, prefetched: true }, error: null })),
+      prefetchQuery('users.getById', { params: { id: 1 } }, async () => { throw { code: 'ERR_NOT_FOUND' }; }),
+    ]);
+    expect(state.queries.map((entry) => entry.queryKey)).toEqual(['users.list:{"body":{},"params":{},"query":{"page":1}}']);
+
+    queryClient.hydrate(JSON.parse(JSON.stringify(state)));
+    const observer = new QueryObserver<any>(queryClient, { key: 'users.list', query }, { query: { page: 1 } });
+    expect(observer.getState()).toMatchObject({ data: { page: 1, prefetched: true }, status: 'success' });
+
+    observer.subscribe(() => {});
+    await flush();
+    expect(query).not.toHaveBeenCalled();
+
+    // Invalidating a hydrated query fetches it like any other
+    queryClient.invalidate('users.list');
+    await flush();
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(observer.getState().data).toEqual({ page: 1 });
+  });
+
+  it('should expose queries as Svelte stores', async () => {
+    const store = createQueryStore(queryClient, { key: 'users.list', query });
+    const values: any[] = [];
+
+    const unsubscribe = store.subscribe((value) => values.push(value));
+    await flush();
+    unsubscribe();
+
+    expect(values[0]).toMatchObject({ status: 'loading', data: null });
+    expect(values.at(-1)).toMatchObject({ status: 'success', data: { page: 1 } });
+  });
+
+  it('should expose queries as Vue composables following reactive options', async () => {
+    const app = createApp({});
+    app.use(createIgniterPlugin({ client: queryClient }));
+    const scope = effectScope();
+    const page = ref(1);
+
+    const users = app.runWithContext(() =>
+      scope.run(() => useQuery<any>({ key: 'users.list', query }, () => ({ query: { page: page.value } }))),
+    )!;
+    await flush();
+    expect(users.data.value).toEqual({ page: 1 });
+
+    page.value = 2;
+    await nextTick();
+    await flush();
+    expect(users.data.value).toEqual({ page: 2 });
+
+    scope.stop();
+    expect(queryClient.listeners.size).toBe(0);
+  });
+});
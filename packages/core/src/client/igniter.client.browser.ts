@@ -3,9 +3,19 @@
  * This file contains all browser-only code and dependencies
  */
 
-import type { IgniterAction, IgniterControllerConfig, IgniterRouter, InferRouterCaller, ClientConfig } from '../types';
+import type {
+  IgniterAction,
+  IgniterControllerConfig,
+  IgniterRouter,
+  InferRouterCaller,
+  ClientConfig,
+  ClientFetchConfig,
+  ClientRequestContext,
+  ClientRetryPolicy,
+} from '../types';
 import { parseURL } from '../utils/url';
-import { createUseQuery, createUseMutation, createUseRealtime } from './igniter.hooks';
+import { prefetchQuery } from '../utils/hydration';
+import { createUseQuery, createUseInfiniteQuery, createUseMutation, createUseRealtime } from './igniter.hooks';
 
 /**
  * Creates a browser-side client for Igniter Router
@@ -18,6 +28,7 @@ export const createIgniterClient = <TRouter extends IgniterRouter<any, any, any,
     basePATH,
     baseURL,
     router,
+    ...fetchConfig
   }: ClientConfig<TRouter>
 ): InferRouterCaller<TRouter> => {
   if (!router) {
@@ -29,7 +40,7 @@ export const createIgniterClient = <TRouter extends IgniterRouter<any, any, any,
   }
 
   // Browser-side: Use fetch-based client (zero server dependencies)
-  return createBrowserClient({ ...router, config: { basePATH, baseURL } }) as unknown as InferRouterCaller<TRouter>;
+  return createBrowserClient({ ...router, config: { basePATH, baseURL } }, fetchConfig) as unknown as InferRouterCaller<TRouter>;
 };
 
 /**
@@ -37,7 +48,8 @@ export const createIgniterClient = <TRouter extends IgniterRouter<any, any, any,
  * Uses fetch-based approach with hooks
  */
 export function createBrowserClient<TRouter extends IgniterRouter<any, any, any, any, any>>(
-  router: TRouter
+  router: TRouter,
+  fetchConfig: ClientFetchConfig = {},
 ): InferRouterCaller<TRouter> {
 
   const client = {} as InferRouterCaller<TRouter>;
@@ -56,17 +68,21 @@ export function createBrowserClient<TRouter extends IgniterRouter<any, any, any,
       const action = controller.actions[actionName] as IgniterAction<any, any, any, any, any, any, any, any, any, any>;
 
       // Create fetcher for this specific action
-      const fetcher = createActionFetcher(action, parsedBaseURL);
+      const fetcher = createActionFetcher(action, parsedBaseURL, fetchConfig);
 
       // Browser-side implementation - hooks + fetch
       if (action.method === 'GET') {
         (client[controllerName as keyof typeof client] as any)[actionName] = {
+          key: `${controllerName}.${actionName}`,
           useQuery: createUseQuery(controllerName, actionName, fetcher),
+          useInfiniteQuery: createUseInfiniteQuery(controllerName, actionName, fetcher),
           query: fetcher,
+          prefetch: (input?: any) => prefetchQuery(`${controllerName}.${actionName}`, input, () => fetcher(input)),
           useRealtime: createUseRealtime(controllerName, actionName),
         };
       } else {
         (client[controllerName as keyof typeof client] as any)[actionName] = {
+          key: `${controllerName}.${actionName}`,
           useMutation: createUseMutation(controllerName, actionName, fetcher),
           mutate: fetcher,
         };
@@ -77,6 +93,47 @@ export function createBrowserClient<TRouter extends IgniterRouter<any, any, any,
   return client;
 }
 
+const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Resolves the retry policy of the client, where a number is the retries of GET requests
+ */
+function resolveRetryPolicy(retry?: number | ClientRetryPolicy): Required<ClientRetryPolicy> {
+  const policy = typeof retry === 'number' ? { limit: retry } : retry || {};
+
+  return {
+    limit: policy.limit ?? 0,
+    methods: policy.methods ?? ['GET'],
+    statuses: policy.statuses ?? DEFAULT_RETRY_STATUSES,
+    delay: policy.delay ?? ((attempt: number) => 300 * 2 ** (attempt - 1)),
+  };
+}
+
+async function parseResponseBody(response: Response): Promise<unknown> {
+  const contentType = response.headers.get("Content-Type") || "";
+  return contentType.includes("application/json") ? response.json() : response.text();
+}
+
+/**
+ * Waits for the delay before a retry, rejecting with the reason of the signal once it aborts
+ */
+function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, delay);
+
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
 /**
  * Creates a fetch-based caller for browser environment
  * This function includes all browser-specific fetch logic
@@ -84,7 +141,11 @@ export function createBrowserClient<TRouter extends IgniterRouter<any, any, any,
 function createActionFetcher<TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>>(
   action: TAction,
   baseURL: string,
+  fetchConfig: ClientFetchConfig = {},
 ) {
+  const retryPolicy = resolveRetryPolicy(fetchConfig.retry);
+  const isRetryable = retryPolicy.methods.includes(action.method);
+
   return async (options?: TAction['$Infer']['$Input']): Promise<TAction['$Infer']['$Response']> => {
     // Extract path parameters
     const params = options?.params || {};
@@ -129,7 +190,6 @@ function createActionFetcher<TAction extends IgniterAction<any, any, any, any, a
 
     const requestOptions: RequestInit = {
       method: action.method,
-      headers: finalHeaders,
       credentials: options?.credentials,
     };
 
@@ -138,35 +198,99 @@ function createActionFetcher<TAction extends IgniterAction<any, any, any, any, a
       requestOptions.body = JSON.stringify(options.body);
     }
 
-    try {
-      const response = await fetch(url, requestOptions);
+    const signal: AbortSignal | undefined = options?.signal;
+    const timeout: number | undefined = options?.timeout ?? fetchConfig.timeout;
 
-      let data: unknown;
-      const contentType = response.headers.get("Content-Type") || "";
+    // Runs the request interceptor on a fresh copy of the request, so attempts do not share changes
+    const prepare = async (attempt: number): Promise<ClientRequestContext> => {
+      const context: ClientRequestContext = {
+        url,
+        init: { ...requestOptions, headers: { ...finalHeaders } },
+        attempt,
+      };
+      await fetchConfig.onRequest?.(context);
+      return context;
+    };
 
-      if (!response.ok) {
-        // Try to parse error details if possible
-        if (contentType.includes("application/json")) {
-          data = await response.json();
-        } else {
-          data = await response.text();
-        }
+    // Sends an attempt, aborted by the signal of the caller or once the timeout elapses
+    const send = async (context: ClientRequestContext): Promise<Response> => {
+      const controller = new AbortController();
+      const abort = () => controller.abort(signal?.reason);
+      let timedOut = false;
+
+      if (signal?.aborted) abort();
+      signal?.addEventListener('abort', abort, { once: true });
 
-        // Throw the structured error data directly to be handled by the hooks
-        throw data;
+      const timer = timeout
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : undefined;
+
+      try {
+        return await fetch(context.url, { ...context.init, signal: controller.signal });
+      } catch (error) {
+        if (timedOut) throw new Error(`Request timed out after ${timeout}ms`);
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
       }
+    };
 
-      if (contentType.includes("application/json")) {
-        data = await response.json();
-      } else {
-        data = await response.text();
+    for (let attempt = 1; ; attempt++) {
+      const context = await prepare(attempt);
+      let response: Response | undefined;
+      let error: unknown;
+      // Only failures of fetch itself and the retried statuses are retried, never errors of the interceptors
+      let retryable = false;
+
+      try {
+        response = await send(context);
+      } catch (fetchError) {
+        // Network, abort and timeout errors from fetch itself
+        error = fetchError;
+        retryable = true;
       }
 
-      return data as TAction['$Infer']['$Output'];
-    } catch (error: unknown) {
-      // The error is either the parsed body from a non-ok response,
-      // or a network error from fetch itself.
-      // In both cases, we re-throw it to be handled by the hooks.
+      if (response) {
+        try {
+          if (fetchConfig.onResponse) {
+            const replaced = await fetchConfig.onResponse({
+              ...context,
+              response,
+              retry: async () => send(await prepare(attempt + 1)),
+            });
+            if (replaced) response = replaced;
+          }
+
+          const data = await parseResponseBody(response);
+          if (response.ok) {
+            return data as TAction['$Infer']['$Output'];
+          }
+
+          // The structured error data is thrown directly to be handled by the hooks
+          error = data;
+          retryable = retryPolicy.statuses.includes(response.status);
+        } catch (responseError) {
+          error = responseError;
+        }
+      }
+
+      if (retryable && isRetryable && attempt <= retryPolicy.limit && !signal?.aborted) {
+        const delay = typeof retryPolicy.delay === 'function' ? retryPolicy.delay(attempt) : retryPolicy.delay;
+
+        try {
+          await waitForRetry(delay, signal);
+          continue;
+        } catch (abortError) {
+          error = abortError;
+        }
+      }
+
+      await fetchConfig.onError?.({ ...context, error, response });
+
       if (error instanceof Error) {
         // Add more context to network errors
         throw new Error(`IgniterClient fetch error: ${error.message}`);
@@ -1,74 +1,51 @@
 "use client";
 
-import { IgniterConsoleLogger } from "../services";
-import { IgniterLogLevel, type IgniterRouter } from "../types";
+import type { IgniterRouter } from "../types";
 import type {
   IgniterContextType,
-  RefetchFn,
-  RealtimeSubscriberFn,
+  IgniterDehydratedState,
+  IgniterQueryClientOptions,
 } from "../types/client.interface";
+import { IgniterQueryClient } from "./igniter.query-client";
 
 import {
   createContext,
   useContext,
   useState,
-  useCallback,
   useMemo,
   useEffect,
-  useRef,
   type PropsWithChildren,
 } from "react";
 
+type IgniterContextValue<TRouter extends IgniterRouter<any, any, any, any, any>> =
+  IgniterContextType<TRouter> & {
+    /** The query client the hooks are built on */
+    queryClient: IgniterQueryClient<any>;
+  };
+
 /**
  * Igniter context provider type
  */
-const IgniterContext = createContext<IgniterContextType<any> | undefined>(
+const IgniterContext = createContext<IgniterContextValue<any> | undefined>(
   undefined,
 );
 
 /**
  * Options for the Igniter Provider
  */
-export interface IgniterProviderOptions<TContext extends () => Promise<any> | any> {
-  /**
-   * Enable Realtime(SSE) connection for streams and revalidation
-   */
-  enableRealtime?: boolean;
-
-  /**
-   * Automatically reconnect on connection loss
-   * @default true
-   */
-  autoReconnect?: boolean;
-
-  /**
-   * Maximum number of reconnection attempts
-   * @default 5
-   */
-  maxReconnectAttempts?: number;
-
-  /**
-   * Delay between reconnection attempts (in ms)
-   * Base delay that increases exponentially with each attempt
-   * @default 1000
-   */
-  reconnectDelay?: number;
-
+export interface IgniterProviderOptions<TContext extends () => Promise<any> | any>
+  extends IgniterQueryClientOptions<TContext> {
   /**
-   * Enable debug mode
-   * @default false
+   * Query client shared with code outside React. The realtime options are ignored when it is provided.
+   * @default A client created from the options
    */
-  debug?: boolean;
+  client?: IgniterQueryClient<TContext>;
 
   /**
-   * Get the context for the IgniterProvider
+   * Queries prefetched on the server with `prefetch` and `dehydrate`, seeding the cache
+   * so the hooks render them without fetching on mount. Hydrated again when it changes.
    */
-  getContext?: TContext;
-
-  /**
-   * The context to be passed to the IgniterProvider
-   */
-  getScopes?: (ctx: Awaited<ReturnType<TContext>>) => Promise<string[]> | string[];
+  dehydratedState?: IgniterDehydratedState;
 }
 
 /**
@@ -84,19 +61,18 @@ export interface IgniterProviderOptions<TContext extends () => Promise<any> | an
  * <IgniterProvider options={{ enableRevalidation: true }}>
  *   <App />
  * </IgniterProvider>
- * ```
  *
- * @remarks
- * The IgniterProvider manages a collection of query listeners and provides methods to:
- * - Register refetch functions for specific query keys
- * - Unregister refetch functions
- * - Invalidate queries by key(s)
- * - Automatically revalidate based on server-sent events
+ * // Seeding the cache with queries prefetched on the server
+ * const dehydratedState = await dehydrate([api.users.list.prefetch()]);
  *
- * @internal State
- * - listeners: Map<string, Set<RefetchFn>> - Stores refetch functions indexed by query keys
+ * <IgniterProvider dehydratedState={dehydratedState}>
+ *   <App />
+ * </IgniterProvider>
+ * ```
  *
- * @public Methods
+ * @remarks
+ * The IgniterProvider connects an `IgniterQueryClient` to the realtime events and
+ * provides it to the hooks. Its methods:
  * - register(key: string, refetch: RefetchFn): () => void
  *   Registers a refetch function for a specific query key and returns cleanup function
  *
@@ -110,522 +86,53 @@ export interface IgniterProviderOptions<TContext extends () => Promise<any> | an
  */
 export function IgniterProvider<TContext extends () => Promise<any> | any>({
   children,
-  getContext,
-  getScopes,
-  debug,
-  enableRealtime = true,
-  autoReconnect = true,
-  maxReconnectAttempts = 5,
-  reconnectDelay = 1000,
+  client,
+  dehydratedState,
+  ...options
 }: PropsWithChildren & IgniterProviderOptions<TContext>) {
-  // Maps para armazenar os listeners de queries e streams
-  const [listeners] = useState(() => new Map<string, Set<RefetchFn>>());
-  const [streamSubscribers] = useState(
-    () => new Map<string, Set<RealtimeSubscriberFn>>(),
-  );
-  const sseConnectionRef = useRef<EventSource | null>(null);
-  const reconnectAttemptsRef = useRef(0);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-
-  const sseEndpoint = '/api/v1/sse/events'
-
-  const logger = useMemo(() => {
-    return IgniterConsoleLogger.create({
-      level: debug ? IgniterLogLevel.DEBUG : IgniterLogLevel.INFO,
-      context: {
-        provider: 'IgniterProvider',
-        package: 'core'
-      }
+  const [queryClient] = useState(() => client ?? new IgniterQueryClient(options));
+
+  // The queries not cached yet are hydrated while rendering, so the hooks mounting them start
+  // from their data. The cached ones are updated after the render, not to update the hooks during it.
+  useMemo(() => {
+    if (!dehydratedState) return;
+    queryClient.hydrate({
+      queries: dehydratedState.queries.filter((query) => !queryClient.getQueryState(query.queryKey)),
     });
-  }, []);
-
-  // Registra uma função de refetch para uma queryKey específica
-  const register = useCallback(
-    (key: string, refetch: RefetchFn) => {
-      logger.debug(`Registering refetch function for key: ${key}`);
-
-      const current = listeners.get(key) || new Set();
-      current.add(refetch);
-      listeners.set(key, current);
-
-      logger.debug(`Current listeners for ${key}:`, current.size);
-
-      return () => {
-        const listenerSet = listeners.get(key);
-        if (listenerSet) {
-          listenerSet.delete(refetch);
-          if (listenerSet.size === 0) {
-            listeners.delete(key);
-          }
-          logger.debug(
-            `Unregistered refetch function for key: ${key}`,
-          );
-        }
-      };
-    },
-    [listeners],
-  );
-
-  // Remove o registro de uma função de refetch
-  const unregister = useCallback(
-    (key: string, refetch: RefetchFn) => {
-      logger.debug(`Unregistering refetch function for key: ${key}`);
-
-      const current = listeners.get(key);
-      if (current) {
-        current.delete(refetch);
-        if (current.size === 0) {
-          listeners.delete(key);
-        }
-        logger.debug(`Current listeners for ${key}:`, current.size);
-      }
-    },
-    [listeners],
-  );
-
-  // Trigger the refetch for all registered queries with the specified queryKey
-  const invalidate = useCallback(
-    (keys: string | string[]) => {
-      const keysArray = Array.isArray(keys) ? keys : [keys];
-
-      // Invalidate all queries that match the provided keys (prefix matching)
-      keysArray.forEach((invalidationKey) => {
-        logger.debug(`Invalidating queries matching key: ${invalidationKey}`);
-
-        // Iterate over all registered listeners
-        listeners.forEach((refetchFns, registeredKey) => {
-          // Check if the registered key starts with the invalidation key
-          if (registeredKey.startsWith(invalidationKey)) {
-            logger.debug(
-              `Found ${refetchFns.size} listeners for matching key: ${registeredKey}`,
-            );
-
-            refetchFns.forEach((refetch) => {
-              try {
-                logger.debug(`Executing refetch for key: ${registeredKey}`);
-                refetch();
-              } catch (err) {
-                logger.error(
-                  `Error refetching query for key '${registeredKey}':`,
-                  err,
-                );
-              }
-            });
-          }
-        });
-      });
-    },
-    [listeners],
-  );
-
-  // Track channels that need reconnection to avoid frequent reconnects
-  const pendingChannelChangesRef = useRef<{
-    channelsAdded: Set<string>;
-    channelsRemoved: Set<string>;
-    timeoutId: NodeJS.Timeout | null;
-  }>({
-    channelsAdded: new Set(),
-    channelsRemoved: new Set(),
-    timeoutId: null,
-  });
-
-  // Function to batch channel changes and reconnect only once
-  const scheduleReconnect = useCallback(() => {
-    if (pendingChannelChangesRef.current.timeoutId) {
-      clearTimeout(pendingChannelChangesRef.current.timeoutId);
-    }
-
-    pendingChannelChangesRef.current.timeoutId = setTimeout(() => {
-      if (
-        sseConnectionRef.current &&
-        (pendingChannelChangesRef.current.channelsAdded.size > 0 ||
-          pendingChannelChangesRef.current.channelsRemoved.size > 0)
-      ) {
-        logger.debug(
-          `Reconnecting due to channel changes: added=${Array.from(
-            pendingChannelChangesRef.current.channelsAdded,
-          ).join(",")}, removed=${Array.from(
-            pendingChannelChangesRef.current.channelsRemoved,
-          ).join(",")}`,
-        );
-
-        sseConnectionRef.current.close();
-        connectSSE();
-
-        // Clear pending changes
-        pendingChannelChangesRef.current.channelsAdded.clear();
-        pendingChannelChangesRef.current.channelsRemoved.clear();
-      }
-
-      pendingChannelChangesRef.current.timeoutId = null;
-    }, 300); // Debounce reconnection by 300ms
-  }, []);
-
-  // Subscribe to a specific stream channel
-  const subscribeToRealtime = useCallback(
-    (channelId: string, callback: RealtimeSubscriberFn) => {
-      logger.debug(`Subscribing to stream channel: ${channelId}`);
-
-      // Add the subscriber to the channel
-      const subscribers = streamSubscribers.get(channelId) || new Set();
-      const isFirstSubscriber = subscribers.size === 0;
-
-      subscribers.add(callback);
-      streamSubscribers.set(channelId, subscribers);
-
-      logger.debug(
-        `Current subscribers for channel ${channelId}: ${subscribers.size}`,
-      );
-
-      // If this is the first subscriber, schedule reconnection
-      if (isFirstSubscriber && sseConnectionRef.current) {
-        logger.debug(
-          `First subscriber for channel ${channelId}, scheduling reconnect`,
-        );
-        pendingChannelChangesRef.current.channelsAdded.add(channelId);
-        scheduleReconnect();
-      }
-
-      // Return cleanup function
-      return () => {
-        logger.debug(
-          `Unsubscribing from stream channel: ${channelId}`,
-        );
-        const subs = streamSubscribers.get(channelId);
-        if (subs) {
-          subs.delete(callback);
-          if (subs.size === 0) {
-            streamSubscribers.delete(channelId);
-            logger.debug(
-              `No more subscribers for channel ${channelId}, scheduling reconnect`,
-            );
-
-            // Schedule reconnection without this channel
-            if (sseConnectionRef.current) {
-              pendingChannelChangesRef.current.channelsRemoved.add(channelId);
-              scheduleReconnect();
-            }
-          }
-          logger.debug(
-            `Current subscribers for channel ${channelId}: ${subs.size}`,
-          );
-        }
-      };
-    },
-    [streamSubscribers, scheduleReconnect],
-  );
+  }, [queryClient, dehydratedState]);
 
-  // Handle SSE connection errors
-  const handleSSEError = useCallback(() => {
-    logger.warn("SSE connection error");
-
-    if (autoReconnect && reconnectAttemptsRef.current < maxReconnectAttempts) {
-      reconnectAttemptsRef.current++;
-      const delay =
-        reconnectDelay * Math.pow(2, reconnectAttemptsRef.current - 1); // Exponential backoff
-
-      logger.debug(
-        `Reconnecting in ${delay}ms (attempt ${reconnectAttemptsRef.current}/${maxReconnectAttempts})`,
-      );
-
-      // Clear any existing timeout
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-
-      // Set up new reconnection timeout
-      reconnectTimeoutRef.current = setTimeout(() => {
-        if (sseConnectionRef.current) {
-          sseConnectionRef.current.close();
-        }
-        connectSSE();
-      }, delay);
-    } else if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
-      logger.error(
-        `Max reconnection attempts (${maxReconnectAttempts}) reached, giving up`,
-      );
-    }
-  }, [autoReconnect, maxReconnectAttempts, reconnectDelay]);
-
-  // Store current state of streamSubscribers for comparison
-  const streamSubscribersRef = useRef(
-    new Map<string, Set<RealtimeSubscriberFn>>(),
-  );
-
-  // Function to get channels that need subscription
-  const getChannelsToSubscribe = useCallback(() => {
-    const channelsToSubscribe = ["revalidation"];
-
-    // Add channels that have active subscribers
-    streamSubscribers.forEach((_, channel) => {
-      if (!channelsToSubscribe.includes(channel)) {
-        channelsToSubscribe.push(channel);
-      }
-    });
-
-    return channelsToSubscribe;
-  }, [streamSubscribers]);
-
-  // Update the reference when streamSubscribers changes
   useEffect(() => {
-    // Deep compare - check if the channels have actually changed
-    const currentChannels = Array.from(streamSubscribers.keys())
-      .sort()
-      .join(",");
-    const prevChannels = Array.from(streamSubscribersRef.current.keys())
-      .sort()
-      .join(",");
-
-    if (currentChannels !== prevChannels) {
-      logger.debug(
-        "Stream subscribers changed, channels:",
-        currentChannels,
-      );
-
-      // Clone the current subscribers map
-      const newMap = new Map<string, Set<RealtimeSubscriberFn>>();
-      streamSubscribers.forEach((subscribers, channel) => {
-        newMap.set(channel, new Set(subscribers));
-      });
-
-      streamSubscribersRef.current = newMap;
-
-      // Reconnect only if we already have an active connection
-      if (sseConnectionRef.current) {
-        logger.debug("Reconnecting due to channel changes");
-        sseConnectionRef.current.close();
-        connectSSE();
-      }
-    }
-  }, [streamSubscribers]);
-
-  // Connect to SSE endpoint
-  const connectSSE = useCallback(async () => {
-    if (!enableRealtime) {
-      logger.debug("SSE is disabled, skipping connection");
-      return;
-    }
-
-    // Close existing connection if any
-    if (sseConnectionRef.current) {
-      sseConnectionRef.current.close();
-      sseConnectionRef.current = null;
-    }
-
-    try {
-      const context = await getContext?.();
-      const scopeIds = await getScopes?.(context);
-
-      // Get channels to subscribe to
-      const channelsToSubscribe = getChannelsToSubscribe();
-
-      // Build SSE URL with channels parameter
-      const url = new URL(sseEndpoint, window.location.origin);
-      url.searchParams.set("channels", channelsToSubscribe.join(","));
-      url.searchParams.set("scopes", scopeIds?.join(",") || "");
-
-      logger.debug(`Connecting to SSE: ${url.toString()}`);
-      logger.debug(
-        `Subscribing to channels: ${channelsToSubscribe.join(", ")}`,
-      );
-
-      // Create new EventSource
-      const eventSource = new EventSource(url.toString());
-      sseConnectionRef.current = eventSource;
-
-      // Set up event handlers
-      eventSource.onopen = () => {
-        logger.debug("SSE connection established");
-        reconnectAttemptsRef.current = 0;
-      };
-
-      // Add specific event listeners for your event types
-      eventSource.addEventListener("connected", (event) => {
-        try {
-          logger.debug(`Received connected event: ${event.data}`);
-          const data = JSON.parse(event.data);
-          // Process connected event data
-          // Notify any relevant subscribers
-        } catch (err) {
-          logger.error("Failed to parse connected event:", err);
-        }
-      });
-
-      eventSource.addEventListener("revalidate", (event) => {
-        try {
-          logger.debug(`Received revalidate event: ${event.data}`);
-          const data = JSON.parse(event.data) as { channel: string, data: { queryKeys: string[] } };
-
-          const queryKeys: string[] = data.data.queryKeys || [];
+    if (dehydratedState) queryClient.hydrate(dehydratedState);
+  }, [queryClient, dehydratedState]);
 
-          // Handle revalidation using queryKeys
-          if (queryKeys.length > 0) {
-            logger.debug(
-              `Processing revalidation for keys: ${queryKeys}`,
-            );
-            invalidate(queryKeys);
-          }
-
-          // Also notify any channel subscribers that might be listening for this data
-          // This is critical for useStream to work
-          queryKeys.forEach((queryKey) => {
-            if (streamSubscribers.has(queryKey)) {
-              const subscribers = streamSubscribers.get(queryKey)!;
-              logger.debug(
-                `Dispatching to ${subscribers.size} subscribers for channel ${queryKey}`,
-              );
-
-              subscribers.forEach((callback) => {
-                try {
-                  callback(data.data); // Pass the actual data payload to subscribers
-                } catch (err) {
-                  logger.error(
-                    `Error in stream subscriber for channel '${queryKey}':`,
-                    err,
-                  );
-                }
-              });
-            }
-          });
-        } catch (err) {
-          logger.error("Failed to parse revalidate event:", err);
-        }
-      });
-
-      // Keep the generic onmessage handler for other events
-      eventSource.onmessage = (event) => {
-        try {
-          logger.debug(`Received generic SSE event: ${event.data}`);
-
-          // ✅ ADICIONAR ESTA LÓGICA:
-          const eventData = JSON.parse(event.data);
-
-          logger.debug("Event data:", {
-            event,
-            eventData,
-          });
-
-          // Check if this is a channel-specific message
-          if (eventData.channel && streamSubscribers.has(eventData.channel)) {
-            const subscribers = streamSubscribers.get(eventData.channel)!;
-            logger.debug(
-              `Dispatching generic event to ${subscribers.size} subscribers for channel ${eventData.channel}`,
-            );
-
-            subscribers.forEach((callback) => {
-              try {
-                callback(eventData.data || eventData); // Pass the data payload
-              } catch (err) {
-                logger.error(
-                  `Error in stream subscriber for channel '${eventData.channel}':`,
-                  err,
-                );
-              }
-            });
-          }
-        } catch (err) {
-          logger.error("Failed to parse SSE message:", err);
-        }
-      };
-
-      eventSource.onerror = handleSSEError;
-
-      return () => {
-        logger.debug("Cleaning up SSE connection");
-        if (reconnectTimeoutRef.current) {
-          clearTimeout(reconnectTimeoutRef.current);
-          reconnectTimeoutRef.current = null;
-        }
-        eventSource.close();
-        sseConnectionRef.current = null;
-      };
-    } catch (err) {
-      logger.error("Failed to establish SSE connection:", err);
-      handleSSEError();
-      return () => {};
-    }
-  }, [
-    enableRealtime,
-    sseEndpoint,
-    getChannelsToSubscribe,
-    invalidate,
-    handleSSEError,
-  ]);
-
-  // Setup SSE connection - with debounce to prevent rapid reconnections
+  // Setup SSE connection - with a small delay to allow initial state setup
   useEffect(() => {
-    // Don't connect immediately, wait a bit to allow initial state setup
-    const initialConnectTimeout = setTimeout(async () => {
-      const cleanup = await connectSSE();
-
-      // Store cleanup function for later
-      return () => {
-        cleanup?.();
-      };
-    }, 100); // Small delay for initial connection
-
-    // Handle visibility change (reconnect when tab becomes visible)
-    const handleVisibilityChange = () => {
-      if (!document.hidden && !sseConnectionRef.current && enableRealtime) {
-        logger.debug("Page became visible, reconnecting SSE");
-
-        // Add small delay to prevent rapid reconnections
-        setTimeout(() => {
-          if (!sseConnectionRef.current) {
-            connectSSE();
-          }
-        }, 300);
-      }
-    };
-
-    document.addEventListener("visibilitychange", handleVisibilityChange);
+    let disconnect: (() => void) | undefined;
+    const initialConnectTimeout = setTimeout(() => {
+      disconnect = queryClient.connect();
+    }, 100);
 
     return () => {
       clearTimeout(initialConnectTimeout);
-      document.removeEventListener("visibilitychange", handleVisibilityChange);
-
-      // Clean up any pending reconnect timeouts
-      if (pendingChannelChangesRef.current.timeoutId) {
-        clearTimeout(pendingChannelChangesRef.current.timeoutId);
-        pendingChannelChangesRef.current.timeoutId = null;
-      }
+      disconnect?.();
     };
-  }, [connectSSE, enableRealtime]);
+  }, [queryClient]);
 
-  // Memoizando o valor do contexto para evitar re-renders desnecessários
   const contextValue = useMemo(
     () => ({
-      register,
-      unregister,
-      invalidate,
-      subscribeToRealtime,
-      listeners,
-      streamSubscribers,
-    }),
-    [register, unregister, invalidate, subscribeToRealtime],
+      register: queryClient.register,
+      unregister: queryClient.unregister,
+      invalidate: queryClient.invalidate,
+      setQueryData: queryClient.setQueryData,
+      getQueryData: queryClient.getQueryData,
+      subscribeToRealtime: queryClient.subscribeToRealtime,
+      listeners: queryClient.listeners,
+      realtimeSubscribers: queryClient.realtimeSubscribers,
+      queryClient,
+    }) as IgniterContextValue<any>,
+    [queryClient],
   );
 
-  useEffect(() => {
-    logger.debug("Provider mounted");
-    logger.debug(
-      "Current listeners:",
-      Array.from(listeners.entries()).map(([key, set]) => ({
-        key,
-        listeners: set.size,
-      })),
-    );
-
-    return () => {
-      logger.debug("Provider unmounted");
-      if (sseConnectionRef.current) {
-        sseConnectionRef.current.close();
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-    };
-  }, [listeners]);
-
   return (
     <IgniterContext.Provider value={contextValue}>
       {children}
@@ -633,6 +140,12 @@ export function IgniterProvider<TContext extends () => Promise<any> | any>({
   );
 }
 
+/**
+ * Returns the query client of the IgniterProvider, or `undefined` outside of it.
+ * Used by the hooks working without a provider.
+ */
+export const useOptionalIgniterQueryClient = () => useContext(IgniterContext)?.queryClient;
+
 /**
  * Hook to access the Igniter context, providing access to query registration and invalidation methods.
  *
@@ -644,7 +157,7 @@ export const useIgniterQueryClient = <
   TRouter extends IgniterRouter<any, any, any, any, any>,
 >() => {
   const context = useContext(IgniterContext) as
-    | IgniterContextType<TRouter>
+    | IgniterContextValue<TRouter>
     | undefined;
 
   if (!context) {
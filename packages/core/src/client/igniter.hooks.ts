@@ -2,23 +2,27 @@
 
 import type {
   IgniterAction,
+  IgniterRealtimeChannelRef,
+  InfiniteQueryActionCallerOptions,
+  InfiniteQueryActionCallerResult,
   IgniterRouter,
+  JobRealtimeState,
+  JobStatus,
   MutationActionCallerOptions,
   MutationActionCallerResult,
   QueryActionCallerOptions,
   QueryActionCallerResult,
   RealtimeActionCallerOptions,
   RealtimeActionCallerResult,
+  RealtimePresenceEvent,
+  RealtimePresenceMember,
 } from "../types";
 
-import { useState, useEffect, useCallback, useRef, useMemo } from "react";
-import { useIgniterQueryClient } from "./igniter.context";
-import { ClientCache } from "../utils/cache";
+import { useState, useEffect, useCallback, useRef, useMemo, useSyncExternalStore } from "react";
+import { useIgniterQueryClient, useOptionalIgniterQueryClient } from "./igniter.context";
+import { IgniterQueryClient, InfiniteQueryObserver, MutationObserver, QueryObserver } from "./igniter.query-client";
 import { generateQueryKey } from "../utils/queryKey";
-import { IgniterConsoleLogger } from "../services/logger.service";
-import { resolveLogLevel, createLoggerContext } from "../utils/logger";
-import { mergeQueryParams } from "../utils/deepMerge";
-import { normalizeResponseData } from "../utils/response";
+import { getJobChannel } from "../utils/channel";
 
 type InferIgniterResponse<T> = T extends { data: infer TData, error: infer TError } ? { data: TData | null, error: TError | null } : { data: null, error: null };
 
@@ -30,12 +34,14 @@ export const createUseQueryClient = <
   TRouter extends IgniterRouter<any, any, any, any, any>,
 >() => {
   return () => {
-    const { register, unregister, invalidate } = useIgniterQueryClient();
+    const { register, unregister, invalidate, setQueryData, getQueryData } = useIgniterQueryClient<TRouter>();
 
     return {
       register,
       unregister,
       invalidate,
+      setQueryData,
+      getQueryData,
     };
   };
 };
@@ -47,27 +53,6 @@ export const createUseQueryClient = <
  * @param fetcher The function that calls the server action
  * @returns A React hook for querying data
  */
-
-
-/**
- * Normalizes input parameters to ensure consistent query key generation
- * Converts undefined query/params to empty objects to avoid inconsistencies
- */
-function normalizeInputParams<T extends { query?: any, params?: any, body?: any }>(
-  input: T | undefined
-): T {
-  if (!input) {
-    return { query: {}, params: {}, body: {} } as T;
-  }
-
-  return {
-    ...input,
-    query: input.query || {},
-    params: input.params || {},
-    body: input.body || {}
-  } as T;
-}
-
 export const createUseQuery = <
   TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>,
 >(
@@ -75,200 +60,72 @@ export const createUseQuery = <
   action: string,
   fetcher: (input: TAction['$Infer']['$Input']) => Promise<Awaited<TAction["$Infer"]["$Output"]>>,
 ) => {
+  const caller = { key: `${controller}.${action}`, query: fetcher };
+
   return (
     options?: QueryActionCallerOptions<TAction>,
   ): QueryActionCallerResult<TAction> => {
-    const { register, unregister, invalidate } = useIgniterQueryClient();
-
-    const [status, setStatus] = useState<'loading' | 'error' | 'success'>('loading');
-    const [isFetching, setIsFetching] = useState(false);
-    const [response, setResponse] = useState<{
-      data: TAction["$Infer"]["$Response"]["data"] | null;
-      error: TAction["$Infer"]["$Response"]["error"] | null;
-    }>({
-      data: options?.initialData?.data || null,
-      error: options?.initialData?.error || null,
-    });
-
-    const [variables, setVariables] = useState<TAction['$Infer']['$Input'] | undefined>();
-
-    const isInitialLoadRef = useRef(true);
-    const optionsRef = useRef(options);
-    optionsRef.current = options;
-
-    const getQueryKey = useCallback(
-      (params?: TAction["$Infer"]["$Input"]) => {
-        // Normalize params before generating query key to ensure consistency
-        const normalizedParams = normalizeInputParams(params);
-        return generateQueryKey(controller, action, normalizedParams);
-      },
-      [controller, action],
-    );
-
-    // Initialize lastUsedParamsRef synchronously with initial parameters
-    const initialParams = useMemo(() => {
-      return normalizeInputParams({
-        query: options?.query,
-        params: options?.params,
-      } as TAction["$Infer"]["$Input"]);
-    }, [options?.query, options?.params]);
-
-    const lastUsedParamsRef = useRef<TAction["$Infer"]["$Input"]>(initialParams);
+    const { queryClient } = useIgniterQueryClient();
+    const [observer] = useState(() => new QueryObserver<TAction>(queryClient, caller, options));
 
-    // Update lastUsedParamsRef reactively when options change
+    // Callbacks and transport options are read from the latest render
     useEffect(() => {
-      const newParams = normalizeInputParams({
-        query: options?.query,
-        params: options?.params,
-      } as TAction["$Infer"]["$Input"]);
-      lastUsedParamsRef.current = newParams;
-    }, [options?.query, options?.params]);
-
-    // Estabilizar parâmetros para evitar recriação desnecessária da função execute
-    const stableOptions = useMemo(() => ({
-      enabled: options?.enabled,
-      staleTime: options?.staleTime,
-      query: options?.query,
-      params: options?.params
-    }), [options?.enabled, options?.staleTime, JSON.stringify(options?.query), JSON.stringify(options?.params)]);
-
-    const execute = useCallback(
-      async (params?: TAction["$Infer"]["$Input"], force = false) => {
-        if (stableOptions.enabled === false) return;
-
-        // Use deep merge for proper parameter combination
-        const mergedParams = mergeQueryParams(lastUsedParamsRef.current, params);
-        lastUsedParamsRef.current = mergedParams;
-
-        setVariables(mergedParams);
-
-        setIsFetching(true);
-        if (isInitialLoadRef.current) {
-          setStatus('loading');
-        }
-        optionsRef.current?.onLoading?.(true);
-
-        const queryKey = getQueryKey(mergedParams);
-        let settledData: Awaited<TAction["$Infer"]["$Output"]> | null = null;
-        let settledError: Awaited<TAction["$Infer"]["$Errors"]> | null = null;
-
-        try {
-          if (stableOptions.staleTime) {
-            const cachedData = ClientCache.get(queryKey, stableOptions.staleTime);
-            if (cachedData) {
-              setResponse(cachedData);
-              setStatus('success');
-              optionsRef.current?.onSuccess?.(cachedData);
-              return cachedData;
-            }
-          }
-
-          const result = await fetcher(mergedParams);
-          const normalizedResult = normalizeResponseData(result) as Awaited<TAction["$Infer"]["$Output"]>;
-          settledData = normalizedResult;
-
-          setResponse(normalizedResult);
-          setStatus('success');
-          optionsRef.current?.onRequest?.(normalizedResult);
-          optionsRef.current?.onSuccess?.(normalizedResult.data);
-
-          if (stableOptions.staleTime) {
-            ClientCache.set(queryKey, result);
-          }
-          return result;
-        } catch (error) {
-          const errorResponse = { data: null, error: error as TAction["$Infer"]["$Errors"] };
-          settledError = errorResponse.error;
-          setResponse(errorResponse);
-          setStatus('error');
-          optionsRef.current?.onError?.(errorResponse.error);
-        } finally {
-          setIsFetching(false);
-          isInitialLoadRef.current = false;
-          optionsRef.current?.onLoading?.(false);
-          optionsRef.current?.onSettled?.(settledData?.data ?? null, settledError);
-        }
-      },
-      [getQueryKey, fetcher, stableOptions],
-    );
-
-    const refetch = useCallback((invalidate = true) => {
-      execute(lastUsedParamsRef.current, invalidate);
-    }, [execute]);
-
-    // Register query with reactive query key that updates when parameters change - usar queryKey estável
-    const currentQueryKey = useMemo(() => getQueryKey(lastUsedParamsRef.current), [getQueryKey, stableOptions.query, stableOptions.params]);
-
-    useEffect(() => {
-      register(currentQueryKey, refetch);
-      return () => unregister(currentQueryKey, refetch);
-    }, [register, unregister, refetch, currentQueryKey]);
-
-    // Automatic refetching side effects - separar lógica de intervalo
-    useEffect(() => {
-      if (stableOptions.enabled === false) return;
-
-      if (optionsRef.current?.refetchInterval) {
-        const interval = setInterval(() => {
-          if (!optionsRef.current?.refetchIntervalInBackground && document.hidden) return;
-          execute();
-        }, optionsRef.current.refetchInterval);
-        return () => clearInterval(interval);
-      }
-    }, [execute, stableOptions.enabled]);
-
-    useEffect(() => {
-        if (stableOptions.enabled === false) return;
-
-        if (optionsRef.current?.refetchOnWindowFocus !== false) {
-            const handleFocus = () => execute();
-            window.addEventListener("focus", handleFocus);
-            return () => window.removeEventListener("focus", handleFocus);
-        }
-    }, [execute, stableOptions.enabled]);
+      observer.setOptions(options);
+    });
 
-    useEffect(() => {
-        if (stableOptions.enabled === false) return;
+    const state = useSyncExternalStore(observer.subscribe, observer.getState, observer.getState);
 
-        if (optionsRef.current?.refetchOnReconnect !== false) {
-            const handleOnline = () => execute();
-            window.addEventListener("online", handleOnline);
-            return () => window.removeEventListener("online", handleOnline);
-        }
-    }, [execute, stableOptions.enabled]);
+    return {
+      data: state.data,
+      error: state.error,
+      isLoading: state.isLoading,
+      isFetching: state.isFetching,
+      isSuccess: state.isSuccess,
+      isError: state.isError,
+      status: state.status,
+      refetch: observer.refetch,
+      execute: observer.execute as TAction["$Infer"]["$Caller"],
+      loading: state.isLoading,
+      invalidate: observer.invalidate,
+      variables: state.variables
+    };
+  };
+};
 
-    // Initial fetch - usar ref para evitar loop infinito
-    const hasExecutedRef = useRef(false);
+/**
+ * Creates a useInfiniteQuery hook for a specific action
+ * @param controller The name of the controller
+ * @param action The name of the action
+ * @param fetcher The function that calls the server action
+ * @returns A React hook for querying the pages of paginated data
+ */
+export const createUseInfiniteQuery = <
+  TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+>(
+  controller: string,
+  action: string,
+  fetcher: (input: TAction['$Infer']['$Input']) => Promise<Awaited<TAction["$Infer"]["$Output"]>>,
+) => {
+  const caller = { key: `${controller}.${action}`, query: fetcher };
 
-    useEffect(() => {
-        if (stableOptions.enabled !== false && optionsRef.current?.refetchOnMount !== false && !hasExecutedRef.current) {
-            hasExecutedRef.current = true;
-            execute();
-        }
-    }, [execute, stableOptions.enabled]);
+  return <TPageParam>(
+    options: InfiniteQueryActionCallerOptions<TAction, TPageParam>,
+  ): InfiniteQueryActionCallerResult<TAction, TPageParam> => {
+    const { queryClient } = useIgniterQueryClient();
+    const [observer] = useState(() => new InfiniteQueryObserver<TAction, TPageParam>(queryClient, caller, options));
 
-    // Reset execution flag when params change significantly
     useEffect(() => {
-        hasExecutedRef.current = false;
-    }, [currentQueryKey]);
+      observer.setOptions(options);
+    });
 
-    const isLoading = status === 'loading';
-    const isSuccess = status === 'success';
-    const isError = status === 'error';
+    const state = useSyncExternalStore(observer.subscribe, observer.getState, observer.getState);
 
     return {
-      data: response.data,
-      error: response.error,
-      isLoading,
-      isFetching,
-      isSuccess,
-      isError,
-      status,
-      refetch,
-      execute: execute as TAction["$Infer"]["$Caller"],
-      loading: isLoading,
-      invalidate: () => invalidate([getQueryKey(lastUsedParamsRef.current) as `${string}.${string}`]),
-      variables
+      ...state,
+      fetchNextPage: observer.fetchNextPage,
+      fetchPreviousPage: observer.fetchPreviousPage,
+      refetch: observer.refetch,
+      invalidate: observer.invalidate,
     };
   };
 };
@@ -287,109 +144,50 @@ export const createUseMutation = <
   action: string,
   fetcher: (input: TAction['$Infer']['$Input']) => Promise<TAction["$Infer"]["$Output"]>,
 ) => {
+  const caller = { key: `${controller}.${action}`, mutate: fetcher };
+
   return (
     options?: MutationActionCallerOptions<TAction>,
   ): MutationActionCallerResult<TAction> => {
-    const [status, setStatus] = useState<'idle' | 'loading' | 'error' | 'success'>('idle');
-    const [response, setResponse] = useState<{
-      data: TAction["$Infer"]["$Response"]["data"] | null;
-      error: TAction["$Infer"]["$Response"]["error"] | null;
-    }>({
-      data: null,
-      error: null,
-    });
-
-    const [variables, setVariables] = useState<TAction['$Infer']['$Input'] | undefined>();
+    // Without a provider, the cache writes of `onMutate` go to a client of the hook
+    const providedClient = useOptionalIgniterQueryClient();
+    const [observer] = useState(() => new MutationObserver<TAction>(
+      providedClient ?? new IgniterQueryClient({ enableRealtime: false }),
+      caller,
+      options,
+    ));
 
-    const optionsRef = useRef(options);
-    optionsRef.current = options;
-    // @ts-expect-error - Ignore type error for now
-    const lastUsedParamsRef = useRef<TAction["$Infer"]["$Input"]>();
-
-    const mutate = useCallback(async (params: TAction["$Infer"]["$Input"]) => {
-      // Use deep merge for mutation parameters as well
-       const baseParams = {
-         query: optionsRef.current?.query || {},
-         params: optionsRef.current?.params || {},
-       } as TAction["$Infer"]["$Input"];
-
-       const mergedParams = mergeQueryParams(baseParams, params);
-      lastUsedParamsRef.current = mergedParams;
-
-      setVariables(mergedParams);
-
-      let settledData: Awaited<TAction["$Infer"]["$Output"]> | null = null;
-      let settledError: Awaited<TAction["$Infer"]["$Errors"]> | null = null;
-
-      setStatus('loading');
-      optionsRef.current?.onLoading?.(true);
-
-      try {
-        const result = await fetcher(mergedParams);
-        const normalizedResult = normalizeResponseData(result) as Awaited<TAction["$Infer"]["$Output"]>;
-        settledData = normalizedResult;
-        setResponse(normalizedResult);
-        setStatus('success');
-        optionsRef.current?.onRequest?.(normalizedResult);
-         optionsRef.current?.onSuccess?.(normalizedResult.data);
-         return normalizedResult;
-      } catch (error) {
-        const errorResponse = { data: null, error: error as TAction["$Infer"]["$Errors"] };
-        settledError = errorResponse.error;
-        setResponse(errorResponse);
-        setStatus('error');
-        optionsRef.current?.onError?.(errorResponse.error);
-        return errorResponse;
-      } finally {
-        optionsRef.current?.onLoading?.(false);
-
-        optionsRef.current?.onSettled?.(
-          settledData as Awaited<TAction["$Infer"]["$Output"]>,
-          settledError as Awaited<TAction["$Infer"]["$Errors"]>
-        );
-      }
-    }, [fetcher]);
-
-    const retry = useCallback(() => {
-      if (lastUsedParamsRef.current) {
-        mutate(lastUsedParamsRef.current);
-      } else {
-        const logger = IgniterConsoleLogger.create({
-          level: resolveLogLevel(),
-          context: createLoggerContext('IgniterHooks')
-        });
-        logger.error("Cannot retry mutation: no parameters were provided in the last call.");
-      }
-    }, [mutate]);
+    useEffect(() => {
+      observer.setOptions(options);
+    });
 
-    const isLoading = status === 'loading';
-    const isSuccess = status === 'success';
-    const isError = status === 'error';
+    const state = useSyncExternalStore(observer.subscribe, observer.getState, observer.getState);
 
     return {
-      mutate,
-      data: response.data,
-      error: response.error,
-      variables,
-      isLoading,
-      isSuccess,
-      isError,
-      status: status === 'idle' ? 'loading' : status, // For backward compatibility
-      retry,
+      mutate: observer.mutate,
+      data: state.data,
+      error: state.error,
+      variables: state.variables,
+      isLoading: state.isLoading,
+      isSuccess: state.isSuccess,
+      isError: state.isError,
+      status: state.status === 'idle' ? 'loading' : state.status, // For backward compatibility
+      retry: observer.retry,
       // Deprecated
-      loading: isLoading,
+      loading: state.isLoading,
     } as unknown as MutationActionCallerResult<TAction>;
   };
 };
 
 /**
  * Generic hook for subscribing to SSE events from the central connection
- * @param channelId - The channel ID to subscribe to
+ * @param channel - The channel ID to subscribe to, or a typed channel resolved with `channel.to(params)`,
+ * inferring the type of the data
  * @param options - Configuration options for the subscription
  * @returns Stream data and connection status
  */
 export function useRealtime<T = any>(
-  channelId: string,
+  channel: string | IgniterRealtimeChannelRef<any, T>,
   options: {
     initialData?: T;
     onMessage?: (data: T) => void;
@@ -400,6 +198,7 @@ export function useRealtime<T = any>(
   data: T | null;
   isConnected: boolean;
 } {
+  const channelId = typeof channel === 'string' ? channel : channel.id;
   const [data, setData] = useState<T | null>(options.initialData || null);
   const [isConnected, setIsConnected] = useState(false);
   const { subscribeToRealtime } = useIgniterQueryClient();
@@ -448,6 +247,178 @@ export function useRealtime<T = any>(
   };
 }
 
+/**
+ * Hook tracking the members of a channel from its `presence` events.
+ * On channels declaring `presence`, the server joins and leaves the member of the realtime connection on its own.
+ * @param channelId - The channel ID to track
+ * @param options - Presence options. `join`, `heartbeat` and `leave` call the actions updating
+ * the presence on the server, usually mutations calling `context.realtime.presence(channel)`,
+ * for channels whose members are not tracked from the connections
+ * @returns The members of the channel, and whether the realtime connection is open
+ */
+export function usePresence<TMetadata = Record<string, unknown>>(
+  channelId: string,
+  options: {
+    initialMembers?: RealtimePresenceMember<TMetadata>[];
+    join?: () => unknown;
+    heartbeat?: () => unknown;
+    leave?: () => unknown;
+    /**
+     * Interval between heartbeats, in milliseconds. Must be shorter than the server timeout.
+     * @default 25000
+     */
+    heartbeatInterval?: number;
+    onJoin?: (member: RealtimePresenceMember<TMetadata>) => void;
+    onLeave?: (member: RealtimePresenceMember<TMetadata>) => void;
+  } = {}
+): {
+  members: RealtimePresenceMember<TMetadata>[];
+  isConnected: boolean;
+} {
+  const [members, setMembers] = useState<RealtimePresenceMember<TMetadata>[]>(
+    options.initialMembers || []
+  );
+  const { subscribeToRealtime, queryClient } = useIgniterQueryClient();
+  const [isConnected, setIsConnected] = useState(() => queryClient.isRealtimeConnected());
+
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    const handleMessage = (message: RealtimePresenceEvent<TMetadata>) => {
+      if (!message || !Array.isArray(message.members) || !message.member) return;
+
+      setMembers(message.members);
+      if (message.type === 'join') {
+        optionsRef.current.onJoin?.(message.member);
+      } else {
+        optionsRef.current.onLeave?.(message.member);
+      }
+    };
+
+    return subscribeToRealtime(channelId, handleMessage);
+  }, [channelId, subscribeToRealtime]);
+
+  useEffect(() => {
+    setIsConnected(queryClient.isRealtimeConnected());
+    return queryClient.onConnectionChange(setIsConnected);
+  }, [queryClient]);
+
+  useEffect(() => {
+    const { join, heartbeat, heartbeatInterval = 25000 } = optionsRef.current;
+    Promise.resolve(join?.()).catch(() => {});
+
+    const timer = heartbeat
+      ? setInterval(() => {
+          Promise.resolve(optionsRef.current.heartbeat?.()).catch(() => {});
+        }, heartbeatInterval)
+      : null;
+
+    return () => {
+      if (timer) clearInterval(timer);
+      Promise.resolve(optionsRef.current.leave?.()).catch(() => {});
+    };
+  }, [channelId]);
+
+  return {
+    members,
+    isConnected
+  };
+}
+
+/**
+ * Hook watching the state of a job, streamed to its realtime channel by the workers.
+ * The definition of the job must enable `realtime`. The last state published before the
+ * hook subscribed is read from the history of the channel on mount.
+ * @param jobId - The ID of the job returned by `enqueue`. Nothing is watched while it is empty
+ * @param options - Callbacks called when the job progresses, completes or fails
+ * @returns The status, progress, result and error of the job, and connection status
+ */
+export function useJob<TResult = any>(
+  jobId: string | null | undefined,
+  options: {
+    initialData?: JobRealtimeState<TResult>;
+    onProgress?: (state: JobRealtimeState<TResult>) => void;
+    onSuccess?: (result: TResult, state: JobRealtimeState<TResult>) => void;
+    onFailure?: (error: string, state: JobRealtimeState<TResult>) => void;
+  } = {}
+): {
+  data: JobRealtimeState<TResult> | null;
+  status: JobStatus | null;
+  progress: number;
+  message: string | null;
+  result: TResult | null;
+  error: string | null;
+  isFinished: boolean;
+  isConnected: boolean;
+} {
+  const [data, setData] = useState<JobRealtimeState<TResult> | null>(options.initialData || null);
+  const { subscribeToRealtime, queryClient } = useIgniterQueryClient();
+  const [isConnected, setIsConnected] = useState(() => queryClient.isRealtimeConnected());
+
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    let unmounted = false;
+    let updatedAt = 0;
+
+    const handleMessage = (state: JobRealtimeState<TResult>) => {
+      // The state read on mount may resolve after the streamed states, which are newer
+      if (unmounted || !state || state.id !== jobId || state.updatedAt <= updatedAt) return;
+
+      updatedAt = state.updatedAt;
+      setData(state);
+      if (state.status === 'completed') {
+        optionsRef.current.onSuccess?.(state.result as TResult, state);
+      } else if (state.status === 'failed') {
+        optionsRef.current.onFailure?.(state.error || 'Job failed', state);
+      } else {
+        optionsRef.current.onProgress?.(state);
+      }
+    };
+
+    const channel = getJobChannel(jobId);
+    const unsubscribe = subscribeToRealtime(channel, handleMessage);
+
+    // The job may have progressed, or finished, before the hook subscribed
+    void queryClient.getRealtimeHistory<JobRealtimeState<TResult>>(channel).then((states) => {
+      const state = states[states.length - 1];
+      if (state) handleMessage(state);
+    });
+
+    return () => {
+      unmounted = true;
+      setData(null);
+      unsubscribe();
+    };
+  }, [jobId, subscribeToRealtime, queryClient]);
+
+  useEffect(() => {
+    setIsConnected(queryClient.isRealtimeConnected());
+    return queryClient.onConnectionChange(setIsConnected);
+  }, [queryClient]);
+
+  return {
+    data,
+    status: data?.status ?? null,
+    progress: data?.progress ?? 0,
+    message: data?.message ?? null,
+    result: data?.result ?? null,
+    error: data?.error ?? null,
+    isFinished: data?.status === 'completed' || data?.status === 'failed',
+    isConnected
+  };
+}
+
 /**
  * Creates a useRealtime hook for real-time data streaming
  * @param actionPath The action path for the stream endpoint
@@ -0,0 +1,1222 @@
+/**
+ * Framework-agnostic query client
+ * Caches and dedupes queries, invalidates them from the realtime revalidation events and
+ * exposes observers the React hooks, Vue composables and Svelte stores are built on.
+ */
+
+import type {
+  IgniterAction,
+  IgniterDehydratedState,
+  IgniterLogger,
+  InfiniteQueryActionCallerOptions,
+  InfiniteQueryData,
+  InfiniteQueryObserverState,
+  IgniterMutationCaller,
+  IgniterQueryCaller,
+  IgniterQueryClientOptions,
+  MutationActionCallerOptions,
+  MutationObserverState,
+  QueryActionCallerOptions,
+  QueryObserverState,
+  RealtimeSubscriberFn,
+  RefetchFn,
+} from "../types";
+import { IgniterLogLevel } from "../types";
+import { IgniterConsoleLogger } from "../services/logger.service";
+import { generateActionQueryKey, generateQueryKey, normalizeInputParams } from "../utils/queryKey";
+import { mergeQueryParams } from "../utils/deepMerge";
+import { normalizeResponseData } from "../utils/response";
+import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+
+type AnyAction = IgniterAction<any, any, any, any, any, any, any, any, any, any>;
+
+type QueryResponse = { data: any; error: any };
+
+type QueryCacheEntry = {
+  response?: QueryResponse;
+  updatedAt: number;
+  promise?: Promise<QueryResponse>;
+  // Written by `hydrate` and not fetched since: the queries mounting it skip their first fetch
+  hydrated?: boolean;
+};
+
+const SSE_ENDPOINT = '/api/v1/sse/events';
+const SSE_HISTORY_ENDPOINT = '/api/v1/sse/history';
+
+/**
+ * Converts a query key generated by the server, e.g. `users.getById:{"params":{"id":1}}`,
+ * to the key of the query with the same input on the client
+ */
+function toClientQueryKey(queryKey: string) {
+  const separator = queryKey.indexOf(':');
+  if (separator === -1) return generateActionQueryKey(queryKey);
+
+  try {
+    return generateActionQueryKey(queryKey.slice(0, separator), JSON.parse(queryKey.slice(separator + 1)));
+  } catch {
+    return queryKey;
+  }
+}
+
+/**
+ * Refetches a query on interval, window focus and reconnection, as enabled by its options
+ * @returns A function removing the listeners
+ */
+function watchRefetchTriggers(
+  options: Pick<
+    QueryActionCallerOptions<AnyAction>,
+    'refetchInterval' | 'refetchIntervalInBackground' | 'refetchOnWindowFocus' | 'refetchOnReconnect'
+  >,
+  refetch: () => void,
+) {
+  if (typeof window === 'undefined') return () => {};
+
+  const cleanups: (() => void)[] = [];
+
+  if (options.refetchInterval) {
+    const interval = setInterval(() => {
+      if (!options.refetchIntervalInBackground && document.hidden) return;
+      refetch();
+    }, options.refetchInterval);
+    cleanups.push(() => clearInterval(interval));
+  }
+
+  if (options.refetchOnWindowFocus !== false) {
+    window.addEventListener("focus", refetch);
+    cleanups.push(() => window.removeEventListener("focus", refetch));
+  }
+
+  if (options.refetchOnReconnect !== false) {
+    window.addEventListener("online", refetch);
+    cleanups.push(() => window.removeEventListener("online", refetch));
+  }
+
+  return () => cleanups.forEach((cleanup) => cleanup());
+}
+
+/**
+ * Query client holding the cache, the invalidation listeners and the realtime connection.
+ * One client is usually shared by the whole app, e.g. through the `IgniterProvider`.
+ *
+ * @example
+ * ```typescript
+ * const queryClient = createIgniterQueryClient({ enableRealtime: true });
+ * const disconnect = queryClient.connect();
+ *
+ * const users = new QueryObserver(queryClient, api.users.list, { staleTime: 5000 });
+ * const unsubscribe = users.subscribe(() => render(users.getState()));
+ * ```
+ */
+export class IgniterQueryClient<TContext extends () => Promise<any> | any = () => any> {
+  /** Refetch functions of the mounted queries, by query key */
+  readonly listeners = new Map<string, Set<RefetchFn>>();
+  /** Subscribers of the realtime channels, by channel */
+  readonly realtimeSubscribers = new Map<string, Set<RealtimeSubscriberFn>>();
+
+  private readonly queries = new Map<string, QueryCacheEntry>();
+  private readonly queryWatchers = new Map<string, Set<(response: QueryResponse) => void>>();
+  // Previous entries of the queries written while a mutation runs `onMutate`, to roll them back
+  private readonly writeRecorders = new Set<Map<string, QueryCacheEntry | undefined>>();
+  private readonly logger: IgniterLogger;
+
+  private eventSource: EventSource | null = null;
+  private isConnected = false;
+  // Whether the realtime connection is open, as opposed to requested with `connect`
+  private isRealtimeOpen = false;
+  private readonly connectionListeners = new Set<(connected: boolean) => void>();
+  private reconnectAttempts = 0;
+  // Id of the last event received, sent on reconnect to replay missed events
+  private lastEventId: string | null = null;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private channelsTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly options: IgniterQueryClientOptions<TContext> = {}) {
+    this.logger = IgniterConsoleLogger.create({
+      level: options.debug ? IgniterLogLevel.DEBUG : IgniterLogLevel.INFO,
+      context: {
+        provider: 'IgniterQueryClient',
+        package: 'core'
+      }
+    });
+  }
+
+  /**
+   * Registers a refetch function for a query key, called when the key is invalidated
+   * @returns A function removing the registration
+   */
+  register = (key: string, refetch: RefetchFn) => {
+    this.logger.debug(`Registering refetch function for key: ${key}`);
+
+    const current = this.listeners.get(key) || new Set();
+    current.add(refetch);
+    this.listeners.set(key, current);
+
+    return () => this.unregister(key, refetch);
+  };
+
+  /**
+   * Removes the registration of a refetch function
+   */
+  unregister = (key: string, refetch: RefetchFn) => {
+    const current = this.listeners.get(key);
+    if (!current) return;
+
+    current.delete(refetch);
+    if (current.size === 0) {
+      this.listeners.delete(key);
+    }
+    this.logger.debug(`Unregistered refetch function for key: ${key}`);
+  };
+
+  /**
+   * Marks the cached queries starting with the keys as stale and refetches the mounted ones
+   * @param keys Query keys or prefixes, e.g. `users.list`
+   */
+  invalidate = (keys: string | string[]) => {
+    const keysArray = Array.isArray(keys) ? keys : [keys];
+
+    keysArray.forEach((invalidationKey) => {
+      this.logger.debug(`Invalidating queries matching key: ${invalidationKey}`);
+
+      this.queries.forEach((entry, key) => {
+        if (!key.startsWith(invalidationKey)) return;
+        entry.updatedAt = 0;
+        entry.hydrated = false;
+      });
+
+      this.listeners.forEach((refetchFns, registeredKey) => {
+        if (!registeredKey.startsWith(invalidationKey)) return;
+
+        refetchFns.forEach((refetch) => {
+          try {
+            refetch();
+          } catch (err) {
+            this.logger.error(`Error refetching query for key '${registeredKey}':`, err);
+          }
+        });
+      });
+    });
+  };
+
+  /**
+   * Fetches a query, sharing the request in flight for the same key and
+   * returning the cached response while it is fresher than `staleTime`
+   */
+  fetchQuery = async (
+    key: string,
+    fetcher: () => Promise<unknown>,
+    options: { staleTime?: number; force?: boolean } = {},
+  ): Promise<QueryResponse> => {
+    const entry = this.queries.get(key);
+
+    if (entry?.promise) {
+      return entry.promise;
+    }
+
+    if (
+      !options.force &&
+      entry?.response &&
+      options.staleTime &&
+      Date.now() - entry.updatedAt <= options.staleTime
+    ) {
+      return entry.response;
+    }
+
+    const promise = fetcher().then((result) => normalizeResponseData(result));
+    const current: QueryCacheEntry = { ...entry, updatedAt: entry?.updatedAt ?? 0, promise };
+    this.queries.set(key, current);
+
+    try {
+      const response = await promise;
+      this.queries.set(key, { response, updatedAt: Date.now() });
+      this.notifyWatchers(key, response);
+      return response;
+    } catch (error) {
+      if (this.queries.get(key) === current) {
+        this.queries.set(key, { response: entry?.response, updatedAt: entry?.updatedAt ?? 0 });
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Returns the cached response of a query key, stale or not
+   */
+  getQueryState = (key: string): QueryResponse | undefined => {
+    return this.queries.get(key)?.response;
+  };
+
+  /**
+   * Writes the cached response of a query key, notifying its observers
+   */
+  setQueryState = (key: string, response: QueryResponse) => {
+    const entry = this.queries.get(key);
+    this.writeRecorders.forEach((writes) => {
+      if (!writes.has(key)) writes.set(key, entry && { response: entry.response, updatedAt: entry.updatedAt });
+    });
+
+    this.queries.set(key, { ...entry, response, updatedAt: Date.now(), hydrated: false });
+    this.notifyWatchers(key, response);
+  };
+
+  /**
+   * Seeds the cache with queries prefetched on the server, e.g. with `dehydrate`.
+   * The queries already cached with more recent data are kept.
+   * Observers mounting a hydrated query render its data without fetching it again.
+   */
+  hydrate = (state: IgniterDehydratedState) => {
+    state.queries.forEach(({ queryKey, data, error, updatedAt }) => {
+      const entry = this.queries.get(queryKey);
+      if (entry?.response && entry.updatedAt >= updatedAt) return;
+
+      const response = { data, error };
+      this.queries.set(queryKey, { ...entry, response, updatedAt, hydrated: true });
+      this.notifyWatchers(queryKey, response);
+    });
+  };
+
+  /**
+   * Whether the cached query was written by `hydrate` and not fetched since
+   */
+  isHydrated = (key: string) => !!this.queries.get(key)?.hydrated;
+
+  /**
+   * Subscribes to the writes of a query key, from a fetch, `setQueryData` or a revalidation event
+   * @returns A function removing the subscription
+   */
+  watchQuery = (key: string, listener: (response: QueryResponse) => void) => {
+    const watchers = this.queryWatchers.get(key) || new Set();
+    watchers.add(listener);
+    this.queryWatchers.set(key, watchers);
+
+    return () => {
+      watchers.delete(listener);
+      if (watchers.size === 0) this.queryWatchers.delete(key);
+    };
+  };
+
+  /**
+   * Reads the data of a cached query, stale or not
+   * @param path The action, e.g. `users.list`
+   * @param input The `query` and `params` of the query
+   */
+  getQueryData = (path: string, input?: { query?: unknown; params?: unknown }) => {
+    return this.getQueryState(generateActionQueryKey(path, input))?.data;
+  };
+
+  /**
+   * Writes the data of a cached query, updating the queries rendering it
+   * @param path The action, e.g. `users.list`
+   * @param input The `query` and `params` of the query
+   * @param updater The new data, or a function of the current data
+   */
+  setQueryData = (
+    path: string,
+    input: { query?: unknown; params?: unknown } | undefined,
+    updater: unknown,
+  ) => {
+    const key = generateActionQueryKey(path, input);
+    const data = typeof updater === 'function'
+      ? updater(this.getQueryState(key)?.data ?? undefined)
+      : updater;
+
+    this.setQueryState(key, { data, error: null });
+  };
+
+  /**
+   * Records the queries written until `stop` is called, to restore them with `rollback`
+   */
+  recordWrites = () => {
+    const writes = new Map<string, QueryCacheEntry | undefined>();
+    this.writeRecorders.add(writes);
+
+    return {
+      stop: () => {
+        this.writeRecorders.delete(writes);
+      },
+      rollback: () => {
+        this.writeRecorders.delete(writes);
+        writes.forEach((entry, key) => {
+          if (entry) {
+            this.queries.set(key, entry);
+          } else {
+            this.queries.delete(key);
+          }
+          this.notifyWatchers(key, entry?.response ?? { data: null, error: null });
+        });
+      },
+    };
+  };
+
+  /**
+   * Removes every cached query
+   */
+  clear = () => {
+    this.queries.clear();
+  };
+
+  /**
+   * Subscribes to a realtime channel, reconnecting when the subscribed channels change
+   * @returns A function removing the subscription
+   */
+  subscribeToRealtime = (channelId: string, callback: RealtimeSubscriberFn) => {
+    this.logger.debug(`Subscribing to stream channel: ${channelId}`);
+
+    const subscribers = this.realtimeSubscribers.get(channelId) || new Set();
+    const isFirstSubscriber = subscribers.size === 0;
+
+    subscribers.add(callback);
+    this.realtimeSubscribers.set(channelId, subscribers);
+
+    if (isFirstSubscriber) this.scheduleReconnect();
+
+    return () => {
+      const subs = this.realtimeSubscribers.get(channelId);
+      if (!subs) return;
+
+      subs.delete(callback);
+      if (subs.size === 0) {
+        this.realtimeSubscribers.delete(channelId);
+        this.scheduleReconnect();
+      }
+    };
+  };
+
+  /**
+   * Reads the events the server retains for a realtime channel, e.g. the last states of a job,
+   * so subscribers render what was published before they subscribed
+   * @returns The data of the events, oldest first. Empty when the history cannot be read
+   */
+  getRealtimeHistory = async <TData = unknown>(channelId: string): Promise<TData[]> => {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const context = await this.options.getContext?.();
+      const scopeIds = await this.options.getScopes?.(context);
+
+      const url = new URL(SSE_HISTORY_ENDPOINT, window.location.origin);
+      url.searchParams.set("channel", channelId);
+      url.searchParams.set("scopes", scopeIds?.join(",") || "");
+
+      const response = await fetch(url.toString());
+      if (!response.ok) {
+        this.logger.warn(`Failed to read the history of channel '${channelId}': ${response.status}`);
+        return [];
+      }
+
+      const { events } = await response.json() as { events: { data: TData }[] };
+      return events.map((event) => event.data);
+    } catch (err) {
+      this.logger.error(`Failed to read the history of channel '${channelId}':`, err);
+      return [];
+    }
+  };
+
+  /**
+   * Opens the realtime connection, receiving the revalidation events and the
+   * messages of the subscribed channels. Does nothing when `enableRealtime` is false.
+   * @returns A function closing the connection
+   */
+  connect = () => {
+    if (this.options.enableRealtime === false) {
+      this.logger.debug("SSE is disabled, skipping connection");
+      return () => {};
+    }
+
+    this.isConnected = true;
+    void this.openEventSource();
+
+    // Reconnect when the tab becomes visible again
+    const handleVisibilityChange = () => {
+      if (!document.hidden && !this.eventSource && this.isConnected) {
+        this.logger.debug("Page became visible, reconnecting SSE");
+        void this.openEventSource();
+      }
+    };
+
+    if (typeof document !== 'undefined') {
+      document.addEventListener("visibilitychange", handleVisibilityChange);
+    }
+
+    return () => {
+      if (typeof document !== 'undefined') {
+        document.removeEventListener("visibilitychange", handleVisibilityChange);
+      }
+      this.disconnect();
+    };
+  };
+
+  /**
+   * Whether the realtime connection is open
+   */
+  isRealtimeConnected = () => this.isRealtimeOpen;
+
+  /**
+   * Listens to the realtime connection opening and closing
+   * @returns A function removing the listener
+   */
+  onConnectionChange = (listener: (connected: boolean) => void) => {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  };
+
+  /**
+   * Closes the realtime connection
+   */
+  disconnect = () => {
+    this.isConnected = false;
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.channelsTimeout) {
+      clearTimeout(this.channelsTimeout);
+      this.channelsTimeout = null;
+    }
+
+    this.eventSource?.close();
+    this.eventSource = null;
+    this.setRealtimeOpen(false);
+  };
+
+  private setRealtimeOpen(open: boolean) {
+    if (this.isRealtimeOpen === open) return;
+
+    this.isRealtimeOpen = open;
+    this.connectionListeners.forEach((listener) => {
+      try {
+        listener(open);
+      } catch (err) {
+        this.logger.error("Error in realtime connection listener:", err);
+      }
+    });
+  }
+
+  // Batches channel changes to reconnect only once
+  private scheduleReconnect() {
+    if (!this.eventSource) return;
+
+    if (this.channelsTimeout) {
+      clearTimeout(this.channelsTimeout);
+    }
+
+    this.channelsTimeout = setTimeout(() => {
+      this.channelsTimeout = null;
+      if (!this.isConnected) return;
+
+      this.logger.debug("Reconnecting due to channel changes");
+      void this.openEventSource();
+    }, 300);
+  }
+
+  private handleError() {
+    this.logger.warn("SSE connection error");
+
+    const { autoReconnect = true, maxReconnectAttempts = 5, reconnectDelay = 1000 } = this.options;
+
+    if (autoReconnect && this.reconnectAttempts < maxReconnectAttempts) {
+      this.reconnectAttempts++;
+      // Exponential backoff
+      const delay = reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+
+      this.logger.debug(
+        `Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${maxReconnectAttempts})`,
+      );
+
+      if (this.reconnectTimeout) {
+        clearTimeout(this.reconnectTimeout);
+      }
+
+      this.reconnectTimeout = setTimeout(() => {
+        if (this.isConnected) void this.openEventSource();
+      }, delay);
+    } else if (this.reconnectAttempts >= maxReconnectAttempts) {
+      this.logger.error(
+        `Max reconnection attempts (${maxReconnectAttempts}) reached, giving up`,
+      );
+    }
+  }
+
+  private notifyWatchers(key: string, response: QueryResponse) {
+    this.queryWatchers.get(key)?.forEach((listener) => listener(response));
+  }
+
+  private dispatch(channel: string, data: unknown) {
+    const subscribers = this.realtimeSubscribers.get(channel);
+    if (!subscribers) return;
+
+    this.logger.debug(`Dispatching to ${subscribers.size} subscribers for channel ${channel}`);
+
+    subscribers.forEach((callback) => {
+      try {
+        callback(data);
+      } catch (err) {
+        this.logger.error(`Error in stream subscriber for channel '${channel}':`, err);
+      }
+    });
+  }
+
+  private async openEventSource() {
+    this.eventSource?.close();
+    this.eventSource = null;
+
+    try {
+      const context = await this.options.getContext?.();
+      const scopeIds = await this.options.getScopes?.(context);
+      if (!this.isConnected) return;
+
+      const channels = ["revalidation", ...Array.from(this.realtimeSubscribers.keys()).filter((channel) => channel !== "revalidation")];
+
+      // Build SSE URL with channels parameter
+      const url = new URL(SSE_ENDPOINT, window.location.origin);
+      url.searchParams.set("channels", channels.join(","));
+      url.searchParams.set("scopes", scopeIds?.join(",") || "");
+      if (this.lastEventId) {
+        url.searchParams.set("lastEventId", this.lastEventId);
+      }
+
+      this.logger.debug(`Connecting to SSE: ${url.toString()}`);
+
+      const eventSource = new EventSource(url.toString());
+      this.eventSource = eventSource;
+
+      eventSource.onopen = () => {
+        this.logger.debug("SSE connection established");
+        this.reconnectAttempts = 0;
+        this.setRealtimeOpen(true);
+      };
+
+      eventSource.addEventListener("revalidate", (event) => {
+        if (event.lastEventId) this.lastEventId = event.lastEventId;
+
+        try {
+          const data = JSON.parse(event.data) as {
+            channel: string,
+            data: { queryKeys: string[], queryData?: Record<string, unknown> },
+          };
+          const queryKeys: string[] = data.data.queryKeys || [];
+          const queryData = data.data.queryData || {};
+
+          // The queries sent with their data are written to the cache instead of being refetched
+          Object.entries(queryData).forEach(([queryKey, value]) => {
+            this.logger.debug(`Writing revalidated data for key: ${queryKey}`);
+            this.setQueryState(toClientQueryKey(queryKey), { data: value, error: null });
+          });
+
+          const staleKeys = queryKeys.filter((queryKey) => !(queryKey in queryData));
+          if (staleKeys.length > 0) {
+            this.logger.debug(`Processing revalidation for keys: ${staleKeys}`);
+            this.invalidate(staleKeys);
+          }
+
+          // Also notify the channel subscribers listening for this data (useRealtime)
+          queryKeys.forEach((queryKey) => this.dispatch(queryKey, data.data));
+        } catch (err) {
+          this.logger.error("Failed to parse revalidate event:", err);
+        }
+      });
+
+      const handleChannelEvent = (event: MessageEvent) => {
+        if (event.lastEventId) this.lastEventId = event.lastEventId;
+
+        try {
+          const eventData = JSON.parse(event.data);
+          if (eventData.channel) {
+            this.dispatch(eventData.channel, eventData.data || eventData);
+          }
+        } catch (err) {
+          this.logger.error("Failed to parse SSE message:", err);
+        }
+      };
+
+      eventSource.onmessage = handleChannelEvent;
+      // Presence changes are dispatched to the channel subscribers (usePresence)
+      eventSource.addEventListener("presence", handleChannelEvent);
+      // So are the job states streamed by the workers (useJob)
+      eventSource.addEventListener("job", handleChannelEvent);
+
+      eventSource.onerror = () => {
+        this.setRealtimeOpen(false);
+        this.handleError();
+      };
+    } catch (err) {
+      this.logger.error("Failed to establish SSE connection:", err);
+      this.handleError();
+    }
+  }
+}
+
+/**
+ * Creates a query client
+ * @param options Realtime options of the client
+ */
+export const createIgniterQueryClient = <TContext extends () => Promise<any> | any = () => any>(
+  options?: IgniterQueryClientOptions<TContext>,
+) => new IgniterQueryClient<TContext>(options);
+
+/**
+ * Observes a query action: fetches it when subscribed, refetches it on invalidation,
+ * window focus, reconnection and interval, and notifies the subscribers of its state.
+ */
+export class QueryObserver<TAction extends AnyAction> {
+  private state: QueryObserverState<TAction>;
+  private options: QueryActionCallerOptions<TAction>;
+  private params: TAction["$Infer"]["$Input"];
+  private queryKey: string;
+  private hasFetched = false;
+  private readonly listeners = new Set<() => void>();
+  private cleanups: (() => void)[] = [];
+  private readonly controller: string;
+  private readonly action: string;
+
+  constructor(
+    private readonly client: IgniterQueryClient<any>,
+    private readonly caller: IgniterQueryCaller<TAction>,
+    options: QueryActionCallerOptions<TAction> = {},
+  ) {
+    [this.controller, this.action] = caller.key.split('.');
+    this.options = options;
+    this.params = this.paramsFromOptions(options);
+    this.queryKey = this.getQueryKey(this.params);
+
+    const cached = client.getQueryState(this.queryKey);
+    this.hasFetched = !!cached;
+    this.state = this.buildState({
+      data: cached?.data ?? options.initialData?.data ?? null,
+      error: cached?.error ?? options.initialData?.error ?? null,
+      status: cached ? 'success' : 'loading',
+      isFetching: false,
+    });
+  }
+
+  /**
+   * Returns the current state, the same object until it changes
+   */
+  getState = (): QueryObserverState<TAction> => this.state;
+
+  /**
+   * Subscribes to the state changes. The first subscriber mounts the query: it is fetched,
+   * registered for invalidation and refetched on focus, reconnection and interval.
+   * @returns A function removing the subscription, unmounting the query after the last one
+   */
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.mount();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.unmount();
+    };
+  };
+
+  /**
+   * Updates the options, refetching the query when its parameters or `enabled` change
+   */
+  setOptions = (options: QueryActionCallerOptions<TAction> = {}) => {
+    const previous = this.options;
+    this.options = options;
+
+    const params = this.paramsFromOptions(options);
+    const queryKey = this.getQueryKey(params);
+    if (queryKey === this.queryKey && previous.enabled === options.enabled) return;
+
+    this.params = params;
+    this.queryKey = queryKey;
+
+    if (this.listeners.size > 0) {
+      this.unmount();
+      this.mount();
+    }
+  };
+
+  /**
+   * Fetches the query, merging the parameters into the last used ones
+   */
+  execute = async (params?: TAction["$Infer"]["$Input"], force = false) => {
+    if (this.options.enabled === false) return;
+
+    // Use deep merge for proper parameter combination
+    const mergedParams = mergeQueryParams(this.params, params);
+    this.params = mergedParams;
+
+    const queryKey = this.getQueryKey(mergedParams);
+    if (queryKey !== this.queryKey && this.listeners.size > 0) {
+      this.unmount();
+      this.queryKey = queryKey;
+      this.mount(false);
+    }
+    this.queryKey = queryKey;
+
+    this.setState({
+      variables: mergedParams,
+      isFetching: true,
+      status: this.hasFetched ? this.state.status : 'loading',
+    });
+    this.options.onLoading?.(true);
+
+    let settledData: any = null;
+    let settledError: any = null;
+
+    try {
+      const response = await this.client.fetchQuery(
+        queryKey,
+        // Transport options are not part of the query key, so they are read from the latest options
+        () => this.caller.query({
+          signal: this.options.signal,
+          timeout: this.options.timeout,
+          ...mergedParams,
+        }),
+        { staleTime: this.options.staleTime, force },
+      );
+      settledData = response;
+
+      this.setState({ data: response.data, error: response.error, status: 'success' });
+      this.options.onRequest?.(response as any);
+      this.options.onSuccess?.(response.data);
+      return response;
+    } catch (error) {
+      settledError = error;
+      this.setState({ data: null, error: error as any, status: 'error' });
+      this.options.onError?.(error as any);
+    } finally {
+      this.hasFetched = true;
+      this.setState({ isFetching: false });
+      this.options.onLoading?.(false);
+      this.options.onSettled?.(settledData?.data ?? null, settledError);
+    }
+  };
+
+  /**
+   * Fetches the query again with the last used parameters, bypassing the cache
+   */
+  refetch = (invalidate = true) => {
+    void this.execute(undefined, invalidate);
+  };
+
+  /**
+   * Invalidates the query, refetching every observer of its key
+   */
+  invalidate = () => {
+    this.client.invalidate(this.queryKey);
+  };
+
+  private mount(fetch = true) {
+    this.cleanups.push(this.client.register(this.queryKey, this.refetch));
+    this.cleanups.push(this.client.watchQuery(this.queryKey, (response) => {
+      this.setState({ data: response.data, error: response.error, status: response.error ? 'error' : 'success' });
+    }));
+    if (this.options.enabled === false) return;
+
+    if (fetch && this.options.refetchOnMount !== false && !this.client.isHydrated(this.queryKey)) {
+      void this.execute();
+    }
+
+    this.cleanups.push(watchRefetchTriggers(this.options, () => void this.execute()));
+  }
+
+  private unmount() {
+    this.cleanups.forEach((cleanup) => cleanup());
+    this.cleanups = [];
+  }
+
+  private paramsFromOptions(options: QueryActionCallerOptions<TAction>) {
+    return normalizeInputParams({
+      query: options.query,
+      params: options.params,
+    } as TAction["$Infer"]["$Input"]);
+  }
+
+  private getQueryKey(params: TAction["$Infer"]["$Input"]) {
+    return generateQueryKey(this.controller, this.action, normalizeInputParams(params));
+  }
+
+  private buildState(
+    state: Pick<QueryObserverState<TAction>, 'data' | 'error' | 'status' | 'isFetching' | 'variables'>,
+  ): QueryObserverState<TAction> {
+    return {
+      ...state,
+      isLoading: state.status === 'loading',
+      isSuccess: state.status === 'success',
+      isError: state.status === 'error',
+    };
+  }
+
+  private setState(patch: Partial<QueryObserverState<TAction>>) {
+    this.state = this.buildState({ ...this.state, ...patch });
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Observes the pages of a query action, fetched with the page params returned by
+ * `getNextPageParam` and `getPreviousPageParam`. Each page is cached under its own query key,
+ * and the loaded pages are refetched from the first one when the query is invalidated.
+ */
+export class InfiniteQueryObserver<TAction extends AnyAction, TPageParam = unknown> {
+  private state: InfiniteQueryObserverState<TAction, TPageParam>;
+  private options: InfiniteQueryActionCallerOptions<TAction, TPageParam>;
+  private queryKey: string;
+  // Incremented when the pages are reset, to drop the responses of the previous query
+  private generation = 0;
+  private readonly listeners = new Set<() => void>();
+  private cleanups: (() => void)[] = [];
+  private readonly controller: string;
+  private readonly action: string;
+
+  constructor(
+    private readonly client: IgniterQueryClient<any>,
+    private readonly caller: IgniterQueryCaller<TAction>,
+    options: InfiniteQueryActionCallerOptions<TAction, TPageParam>,
+  ) {
+    [this.controller, this.action] = caller.key.split('.');
+    this.options = options;
+    this.queryKey = this.getQueryKey(options);
+    this.state = this.buildState({ data: null, error: null, status: 'loading' });
+  }
+
+  /**
+   * Returns the current state, the same object until it changes
+   */
+  getState = (): InfiniteQueryObserverState<TAction, TPageParam> => this.state;
+
+  /**
+   * Subscribes to the state changes. The first subscriber mounts the query, fetching its first page
+   * @returns A function removing the subscription, unmounting the query after the last one
+   */
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.mount();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.unmount();
+    };
+  };
+
+  /**
+   * Updates the options, starting over from the first page when the parameters or `enabled` change
+   */
+  setOptions = (options: InfiniteQueryActionCallerOptions<TAction, TPageParam>) => {
+    const previous = this.options;
+    this.options = options;
+
+    const queryKey = this.getQueryKey(options);
+    if (queryKey === this.queryKey && previous.enabled === options.enabled) return;
+
+    this.queryKey = queryKey;
+    this.generation++;
+    this.state = this.buildState({ data: null, error: null, status: 'loading' });
+
+    if (this.listeners.size > 0) {
+      this.unmount();
+      this.mount();
+    }
+  };
+
+  /**
+   * Fetches the page after the last one, when there is one
+   */
+  fetchNextPage = () => this.fetchAdjacentPage('next');
+
+  /**
+   * Fetches the page before the first one, when there is one
+   */
+  fetchPreviousPage = () => this.fetchAdjacentPage('previous');
+
+  /**
+   * Fetches the loaded pages again, from the first one, bypassing the cache
+   */
+  refetch = () => {
+    void this.fetchPages(true);
+  };
+
+  /**
+   * Invalidates the pages, refetching every observer of the query
+   */
+  invalidate = () => {
+    this.client.invalidate(this.queryKey);
+  };
+
+  private mount() {
+    this.cleanups.push(this.client.register(this.queryKey, this.refetch));
+    if (this.options.enabled === false) return;
+
+    if (this.options.refetchOnMount !== false) {
+      void this.fetchPages(false);
+    }
+
+    this.cleanups.push(watchRefetchTriggers(this.options, () => void this.fetchPages(false)));
+  }
+
+  private unmount() {
+    this.cleanups.forEach((cleanup) => cleanup());
+    this.cleanups = [];
+  }
+
+  private async fetchPages(force: boolean) {
+    if (this.options.enabled === false) return;
+
+    const generation = this.generation;
+    const current = this.state.data;
+    const count = Math.max(current?.pages.length ?? 0, 1);
+    let pageParam = current ? current.pageParams[0] : this.options.initialPageParam;
+
+    this.setState({ isFetching: true });
+
+    try {
+      const data: InfiniteQueryData<TAction, TPageParam> = { pages: [], pageParams: [] };
+
+      while (data.pages.length < count) {
+        data.pages.push(await this.fetchPage(pageParam, force));
+        data.pageParams.push(pageParam);
+
+        if (data.pages.length === count) break;
+        const nextPageParam = this.getNextPageParam(data);
+        if (nextPageParam === undefined || nextPageParam === null) break;
+        pageParam = nextPageParam;
+      }
+
+      if (generation !== this.generation) return;
+      this.setState({ data, error: null, status: 'success' });
+      this.options.onSuccess?.(data);
+    } catch (error) {
+      if (generation !== this.generation) return;
+      this.setState({ error: error as any, status: 'error' });
+      this.options.onError?.(error as any);
+    } finally {
+      if (generation === this.generation) this.setState({ isFetching: false });
+    }
+  }
+
+  private async fetchAdjacentPage(direction: 'next' | 'previous') {
+    const current = this.state.data;
+    if (!current || this.state.isFetching) return;
+
+    const pageParam = direction === 'next'
+      ? this.getNextPageParam(current)
+      : this.getPreviousPageParam(current);
+    if (pageParam === undefined || pageParam === null) return;
+
+    const generation = this.generation;
+    this.setState({
+      isFetching: true,
+      isFetchingNextPage: direction === 'next',
+      isFetchingPreviousPage: direction === 'previous',
+    });
+
+    try {
+      const page = await this.fetchPage(pageParam, false);
+      if (generation !== this.generation) return;
+
+      const latest = this.state.data ?? current;
+      const data = direction === 'next'
+        ? { pages: [...latest.pages, page], pageParams: [...latest.pageParams, pageParam] }
+        : { pages: [page, ...latest.pages], pageParams: [pageParam, ...latest.pageParams] };
+
+      this.setState({ data, error: null, status: 'success' });
+      this.options.onSuccess?.(data);
+    } catch (error) {
+      if (generation !== this.generation) return;
+      this.setState({ error: error as any, status: 'error' });
+      this.options.onError?.(error as any);
+    } finally {
+      if (generation === this.generation) {
+        this.setState({ isFetching: false, isFetchingNextPage: false, isFetchingPreviousPage: false });
+      }
+    }
+  }
+
+  private async fetchPage(pageParam: TPageParam | undefined, force: boolean) {
+    const { pageParamKey = 'cursor', query, params } = this.options;
+    const input = {
+      query: pageParam === undefined || pageParam === null
+        ? { ...query }
+        : { ...query, [pageParamKey]: pageParam },
+      params: params || {},
+    } as TAction["$Infer"]["$Input"];
+
+    const response = await this.client.fetchQuery(
+      generateQueryKey(this.controller, this.action, normalizeInputParams(input)),
+      () => this.caller.query({
+        signal: this.options.signal,
+        timeout: this.options.timeout,
+        ...input,
+      }),
+      { staleTime: this.options.staleTime, force },
+    );
+
+    if (response.error) throw response.error;
+    return response.data as Awaited<TAction["$Infer"]["$Output"]>;
+  }
+
+  private getNextPageParam(data: InfiniteQueryData<TAction, TPageParam>) {
+    return this.options.getNextPageParam(
+      data.pages[data.pages.length - 1],
+      data.pages,
+      data.pageParams[data.pageParams.length - 1],
+      data.pageParams,
+    );
+  }
+
+  private getPreviousPageParam(data: InfiniteQueryData<TAction, TPageParam>) {
+    return this.options.getPreviousPageParam?.(data.pages[0], data.pages, data.pageParams[0], data.pageParams);
+  }
+
+  private getQueryKey(options: InfiniteQueryActionCallerOptions<TAction, TPageParam>) {
+    return generateQueryKey(this.controller, this.action, normalizeInputParams({
+      query: options.query,
+      params: options.params,
+    }));
+  }
+
+  private buildState(
+    state: Partial<InfiniteQueryObserverState<TAction, TPageParam>> &
+      Pick<InfiniteQueryObserverState<TAction, TPageParam>, 'data' | 'error' | 'status'>,
+  ): InfiniteQueryObserverState<TAction, TPageParam> {
+    const hasPage = (pageParam: TPageParam | undefined | null) => pageParam !== undefined && pageParam !== null;
+
+    return {
+      isFetching: false,
+      isFetchingNextPage: false,
+      isFetchingPreviousPage: false,
+      ...state,
+      isLoading: state.status === 'loading',
+      isSuccess: state.status === 'success',
+      isError: state.status === 'error',
+      hasNextPage: !!state.data && hasPage(this.getNextPageParam(state.data)),
+      hasPreviousPage: !!state.data && hasPage(this.getPreviousPageParam(state.data)),
+    };
+  }
+
+  private setState(patch: Partial<InfiniteQueryObserverState<TAction, TPageParam>>) {
+    this.state = this.buildState({ ...this.state, ...patch });
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Observes a mutation action, notifying the subscribers of the state of its last call.
+ * The cache writes made by `onMutate` are rolled back when the call fails.
+ */
+export class MutationObserver<TAction extends AnyAction> {
+  private state: MutationObserverState<TAction> = {
+    data: null,
+    error: null,
+    status: 'idle',
+    isLoading: false,
+    isSuccess: false,
+    isError: false,
+  };
+  private lastParams?: TAction["$Infer"]["$Input"];
+  private readonly listeners = new Set<() => void>();
+
+  constructor(
+    private readonly client: IgniterQueryClient<any>,
+    private readonly caller: IgniterMutationCaller<TAction>,
+    private options: MutationActionCallerOptions<TAction> = {},
+  ) {}
+
+  /**
+   * Returns the current state, the same object until it changes
+   */
+  getState = (): MutationObserverState<TAction> => this.state;
+
+  /**
+   * Subscribes to the state changes
+   * @returns A function removing the subscription
+   */
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Updates the options used by the next calls
+   */
+  setOptions = (options: MutationActionCallerOptions<TAction> = {}) => {
+    this.options = options;
+  };
+
+  /**
+   * Calls the mutation, merging the parameters into the `query` and `params` of the options
+   * @returns The response of the mutation, with the error instead of throwing it
+   */
+  mutate = async (params: TAction["$Infer"]["$Input"]) => {
+    const baseParams = {
+      query: this.options.query || {},
+      params: this.options.params || {},
+    } as TAction["$Infer"]["$Input"];
+
+    const mergedParams = mergeQueryParams(baseParams, params);
+    this.lastParams = mergedParams;
+
+    this.setState({ variables: mergedParams, status: 'loading' });
+    this.options.onLoading?.(true);
+
+    let settledData: any = null;
+    let settledError: any = null;
+    let context: unknown;
+    const writes = this.client.recordWrites();
+
+    try {
+      try {
+        context = await this.options.onMutate?.(mergedParams);
+      } finally {
+        writes.stop();
+      }
+
+      const result = await this.caller.mutate({
+        signal: this.options.signal,
+        timeout: this.options.timeout,
+        ...mergedParams,
+      });
+      const response = normalizeResponseData<any>(result);
+      settledData = response;
+
+      this.setState({ data: response.data, error: response.error, status: 'success' });
+      this.options.onRequest?.(response as any);
+      this.options.onSuccess?.(response.data);
+      return response;
+    } catch (error) {
+      settledError = error;
+      writes.rollback();
+      this.setState({ data: null, error: error as any, status: 'error' });
+      this.options.onError?.(error as any, mergedParams, context);
+      return { data: null, error };
+    } finally {
+      this.options.onLoading?.(false);
+      this.options.onSettled?.(settledData, settledError);
+    }
+  };
+
+  /**
+   * Calls the mutation again with the parameters of the last call
+   */
+  retry = () => {
+    if (!this.lastParams) {
+      const logger = IgniterConsoleLogger.create({
+        level: resolveLogLevel(),
+        context: createLoggerContext('IgniterHooks')
+      });
+      logger.error("Cannot retry mutation: no parameters were provided in the last call.");
+      return;
+    }
+    return this.mutate(this.lastParams);
+  };
+
+  private setState(patch: Partial<MutationObserverState<TAction>>) {
+    const state = { ...this.state, ...patch };
+    this.state = {
+      ...state,
+      isLoading: state.status === 'loading',
+      isSuccess: state.status === 'success',
+      isError: state.status === 'error',
+    };
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Svelte stores for the Igniter client
+ * Thin bindings of the query client observers, exported from `@igniter-js/core/client/svelte`
+ */
+
+import type { Readable } from "svelte/store";
+import type {
+  IgniterAction,
+  IgniterMutationCaller,
+  IgniterQueryCaller,
+  IgniterRealtimeChannelRef,
+  InfiniteQueryActionCallerOptions,
+  InfiniteQueryObserverState,
+  MutationActionCallerOptions,
+  MutationObserverState,
+  QueryActionCallerOptions,
+  QueryObserverState,
+} from "../types";
+import { type IgniterQueryClient, InfiniteQueryObserver, MutationObserver, QueryObserver } from "./igniter.query-client";
+
+type AnyAction = IgniterAction<any, any, any, any, any, any, any, any, any, any>;
+
+/**
+ * Store of a query: its value is the state of the query, fetched while the store has subscribers
+ */
+export type IgniterQueryStore<TAction extends AnyAction> = Readable<QueryObserverState<TAction>> &
+  Pick<QueryObserver<TAction>, "refetch" | "execute" | "invalidate" | "setOptions">;
+
+/**
+ * Store of an infinite query: its value is the state of its pages, fetched while the store has subscribers
+ */
+export type IgniterInfiniteQueryStore<TAction extends AnyAction, TPageParam = unknown> =
+  Readable<InfiniteQueryObserverState<TAction, TPageParam>> &
+  Pick<InfiniteQueryObserver<TAction, TPageParam>, "fetchNextPage" | "fetchPreviousPage" | "refetch" | "invalidate" | "setOptions">;
+
+/**
+ * Store of a mutation: its value is the state of the last call
+ */
+export type IgniterMutationStore<TAction extends AnyAction> = Readable<MutationObserverState<TAction>> &
+  Pick<MutationObserver<TAction>, "mutate" | "retry" | "setOptions">;
+
+/**
+ * Binds the state of an observer to the store contract, calling the subscriber right away
+ */
+function toReadable<T>(observer: { getState: () => T; subscribe: (listener: () => void) => () => void }): Readable<T> {
+  return {
+    subscribe(run) {
+      run(observer.getState());
+      return observer.subscribe(() => run(observer.getState()));
+    },
+  };
+}
+
+/**
+ * Creates a store querying an action
+ * @param queryClient The query client of the app
+ * @param caller The query action of the client, e.g. `api.users.list`
+ * @param options Options of the query. Call `setOptions` on the store to change them
+ *
+ * @example
+ * ```svelte
+ * <script lang="ts">
+ *   const users = createQueryStore(queryClient, api.users.list, { staleTime: 5000 });
+ * </script>
+ *
+ * {#if $users.isLoading}Loading...{:else}{$users.data?.length} users{/if}
+ * ```
+ */
+export function createQueryStore<TAction extends AnyAction>(
+  queryClient: IgniterQueryClient<any>,
+  caller: IgniterQueryCaller<TAction>,
+  options?: QueryActionCallerOptions<TAction>,
+): IgniterQueryStore<TAction> {
+  const observer = new QueryObserver<TAction>(queryClient, caller, options);
+
+  return {
+    ...toReadable(observer),
+    refetch: observer.refetch,
+    execute: observer.execute,
+    invalidate: observer.invalidate,
+    setOptions: observer.setOptions,
+  };
+}
+
+/**
+ * Creates a store querying the pages of an action
+ * @param queryClient The query client of the app
+ * @param caller The query action of the client, e.g. `api.posts.list`
+ * @param options Options of the query. Call `setOptions` on the store to change them
+ */
+export function createInfiniteQueryStore<TAction extends AnyAction, TPageParam = unknown>(
+  queryClient: IgniterQueryClient<any>,
+  caller: IgniterQueryCaller<TAction>,
+  options: InfiniteQueryActionCallerOptions<TAction, TPageParam>,
+): IgniterInfiniteQueryStore<TAction, TPageParam> {
+  const observer = new InfiniteQueryObserver<TAction, TPageParam>(queryClient, caller, options);
+
+  return {
+    ...toReadable(observer),
+    fetchNextPage: observer.fetchNextPage,
+    fetchPreviousPage: observer.fetchPreviousPage,
+    refetch: observer.refetch,
+    invalidate: observer.invalidate,
+    setOptions: observer.setOptions,
+  };
+}
+
+/**
+ * Creates a store mutating through an action
+ * @param queryClient The query client of the app, written by `onMutate`
+ * @param caller The mutation action of the client, e.g. `api.users.create`
+ * @param options Options of the mutation
+ */
+export function createMutationStore<TAction extends AnyAction>(
+  queryClient: IgniterQueryClient<any>,
+  caller: IgniterMutationCaller<TAction>,
+  options?: MutationActionCallerOptions<TAction>,
+): IgniterMutationStore<TAction> {
+  const observer = new MutationObserver<TAction>(queryClient, caller, options);
+
+  return {
+    ...toReadable(observer),
+    mutate: observer.mutate,
+    retry: observer.retry,
+    setOptions: observer.setOptions,
+  };
+}
+
+/**
+ * Creates a store of the last message of a realtime channel, subscribed while the store has subscribers
+ * @param queryClient The query client of the app
+ * @param channel - The channel ID to subscribe to, or a typed channel resolved with `channel.to(params)`
+ * @param initialData - The value of the store until a message is received
+ */
+export function createRealtimeStore<T = any>(
+  queryClient: IgniterQueryClient<any>,
+  channel: string | IgniterRealtimeChannelRef<any, T>,
+  initialData: T | null = null,
+): Readable<T | null> {
+  const channelId = typeof channel === "string" ? channel : channel.id;
+  let data = initialData;
+
+  return {
+    subscribe(run) {
+      run(data);
+      return queryClient.subscribeToRealtime(channelId, (message: T) => {
+        data = message;
+        run(message);
+      });
+    },
+  };
+}
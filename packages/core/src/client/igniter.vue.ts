@@ -0,0 +1,204 @@
+/**
+ * Vue composables for the Igniter client
+ * Thin bindings of the query client observers, exported from `@igniter-js/core/client/vue`
+ */
+
+import {
+  computed,
+  inject,
+  onScopeDispose,
+  shallowRef,
+  toValue,
+  watch,
+  type App,
+  type InjectionKey,
+  type MaybeRefOrGetter,
+} from "vue";
+import type {
+  IgniterAction,
+  IgniterDehydratedState,
+  IgniterMutationCaller,
+  IgniterQueryCaller,
+  IgniterQueryClientOptions,
+  IgniterRealtimeChannelRef,
+  InfiniteQueryActionCallerOptions,
+  MutationActionCallerOptions,
+  QueryActionCallerOptions,
+} from "../types";
+import { IgniterQueryClient, InfiniteQueryObserver, MutationObserver, QueryObserver } from "./igniter.query-client";
+
+type AnyAction = IgniterAction<any, any, any, any, any, any, any, any, any, any>;
+
+const IgniterQueryClientKey: InjectionKey<IgniterQueryClient<any>> = Symbol("IgniterQueryClient");
+
+/**
+ * Creates the Vue plugin providing the query client to the composables
+ *
+ * @example
+ * ```typescript
+ * import { createIgniterPlugin } from '@igniter-js/core/client/vue';
+ *
+ * createApp(App).use(createIgniterPlugin({ enableRealtime: true })).mount('#app');
+ *
+ * // Seeding the cache with the queries prefetched on the server
+ * createSSRApp(App).use(createIgniterPlugin({ dehydratedState: window.__IGNITER_STATE__ }));
+ * ```
+ */
+export function createIgniterPlugin<TContext extends () => Promise<any> | any>(
+  options: IgniterQueryClientOptions<TContext> & {
+    client?: IgniterQueryClient<TContext>;
+    /** Queries prefetched on the server with `prefetch` and `dehydrate`, seeding the cache */
+    dehydratedState?: IgniterDehydratedState;
+  } = {},
+) {
+  const { client, dehydratedState, ...clientOptions } = options;
+
+  return {
+    install(app: App) {
+      const queryClient = client ?? new IgniterQueryClient(clientOptions);
+      if (dehydratedState) queryClient.hydrate(dehydratedState);
+      app.provide(IgniterQueryClientKey, queryClient);
+
+      if (typeof window !== "undefined") {
+        app.onUnmount(queryClient.connect());
+      }
+    },
+  };
+}
+
+/**
+ * Returns the query client provided by the `createIgniterPlugin` plugin
+ */
+export function useIgniterQueryClient() {
+  const queryClient = inject(IgniterQueryClientKey, null);
+
+  if (!queryClient) {
+    throw new Error(
+      "useIgniterQueryClient must be used within an app using the Igniter plugin",
+    );
+  }
+
+  return queryClient;
+}
+
+/**
+ * Queries an action, refetching it when the reactive options change
+ * @param caller The query action of the client, e.g. `api.users.list`
+ * @param options Options of the query, as a ref or getter to make them reactive
+ */
+export function useQuery<TAction extends AnyAction>(
+  caller: IgniterQueryCaller<TAction>,
+  options?: MaybeRefOrGetter<QueryActionCallerOptions<TAction> | undefined>,
+) {
+  const observer = new QueryObserver<TAction>(useIgniterQueryClient(), caller, toValue(options));
+  const state = shallowRef(observer.getState());
+
+  const unsubscribe = observer.subscribe(() => {
+    state.value = observer.getState();
+  });
+  watch(() => toValue(options), (value) => observer.setOptions(value), { deep: true });
+  onScopeDispose(unsubscribe);
+
+  return {
+    data: computed(() => state.value.data),
+    error: computed(() => state.value.error),
+    variables: computed(() => state.value.variables),
+    status: computed(() => state.value.status),
+    isLoading: computed(() => state.value.isLoading),
+    isFetching: computed(() => state.value.isFetching),
+    isSuccess: computed(() => state.value.isSuccess),
+    isError: computed(() => state.value.isError),
+    refetch: observer.refetch,
+    execute: observer.execute,
+    invalidate: observer.invalidate,
+  };
+}
+
+/**
+ * Queries the pages of an action, starting over from the first page when the reactive options change
+ * @param caller The query action of the client, e.g. `api.posts.list`
+ * @param options Options of the query, as a ref or getter to make them reactive
+ */
+export function useInfiniteQuery<TAction extends AnyAction, TPageParam = unknown>(
+  caller: IgniterQueryCaller<TAction>,
+  options: MaybeRefOrGetter<InfiniteQueryActionCallerOptions<TAction, TPageParam>>,
+) {
+  const observer = new InfiniteQueryObserver<TAction, TPageParam>(useIgniterQueryClient(), caller, toValue(options));
+  const state = shallowRef(observer.getState());
+
+  const unsubscribe = observer.subscribe(() => {
+    state.value = observer.getState();
+  });
+  watch(() => toValue(options), (value) => observer.setOptions(value), { deep: true });
+  onScopeDispose(unsubscribe);
+
+  return {
+    data: computed(() => state.value.data),
+    error: computed(() => state.value.error),
+    status: computed(() => state.value.status),
+    isLoading: computed(() => state.value.isLoading),
+    isFetching: computed(() => state.value.isFetching),
+    isSuccess: computed(() => state.value.isSuccess),
+    isError: computed(() => state.value.isError),
+    isFetchingNextPage: computed(() => state.value.isFetchingNextPage),
+    isFetchingPreviousPage: computed(() => state.value.isFetchingPreviousPage),
+    hasNextPage: computed(() => state.value.hasNextPage),
+    hasPreviousPage: computed(() => state.value.hasPreviousPage),
+    fetchNextPage: observer.fetchNextPage,
+    fetchPreviousPage: observer.fetchPreviousPage,
+    refetch: observer.refetch,
+    invalidate: observer.invalidate,
+  };
+}
+
+/**
+ * Mutates through an action
+ * @param caller The mutation action of the client, e.g. `api.users.create`
+ * @param options Options of the mutation, as a ref or getter to make them reactive
+ */
+export function useMutation<TAction extends AnyAction>(
+  caller: IgniterMutationCaller<TAction>,
+  options?: MaybeRefOrGetter<MutationActionCallerOptions<TAction> | undefined>,
+) {
+  const observer = new MutationObserver<TAction>(useIgniterQueryClient(), caller, toValue(options));
+  const state = shallowRef(observer.getState());
+
+  const unsubscribe = observer.subscribe(() => {
+    state.value = observer.getState();
+  });
+  watch(() => toValue(options), (value) => observer.setOptions(value), { deep: true });
+  onScopeDispose(unsubscribe);
+
+  return {
+    data: computed(() => state.value.data),
+    error: computed(() => state.value.error),
+    variables: computed(() => state.value.variables),
+    status: computed(() => state.value.status),
+    isLoading: computed(() => state.value.isLoading),
+    isSuccess: computed(() => state.value.isSuccess),
+    isError: computed(() => state.value.isError),
+    mutate: observer.mutate,
+    retry: observer.retry,
+  };
+}
+
+/**
+ * Subscribes to a realtime channel
+ * @param channel - The channel ID to subscribe to, or a typed channel resolved with `channel.to(params)`
+ * @param options - The initial data, and a callback called with each message
+ */
+export function useRealtime<T = any>(
+  channel: string | IgniterRealtimeChannelRef<any, T>,
+  options: { initialData?: T; onMessage?: (data: T) => void } = {},
+) {
+  const channelId = typeof channel === "string" ? channel : channel.id;
+  const data = shallowRef<T | null>(options.initialData ?? null);
+
+  const unsubscribe = useIgniterQueryClient().subscribeToRealtime(channelId, (message: T) => {
+    data.value = message;
+    options.onMessage?.(message);
+  });
+  onScopeDispose(unsubscribe);
+
+  return { data };
+}
@@ -1,7 +1,18 @@
 // Browser-specific barrel file
 // React-specific exports (client-side only)
 export { IgniterProvider, useIgniterQueryClient } from "./igniter.context";
-export { useRealtime } from "./igniter.hooks";
+export { useRealtime, usePresence, useJob } from "./igniter.hooks";
+export { createIgniterChannel } from "../services/channel.service";
+export { dehydrate } from "../utils/hydration";
+
+// Framework-agnostic query client, used by the Vue (`./vue`) and Svelte (`./svelte`) bindings
+export {
+  IgniterQueryClient,
+  createIgniterQueryClient,
+  QueryObserver,
+  InfiniteQueryObserver,
+  MutationObserver,
+} from "./igniter.query-client";
 
 // Browser-specific createIgniterClient (uses fetch + hooks)
 export { createIgniterClient } from './igniter.client.browser';
@@ -1,6 +1,17 @@
 // React-specific exports (client-side only)
 export { IgniterProvider, useIgniterQueryClient } from "./igniter.context";
-export { useRealtime } from "./igniter.hooks";
+export { useRealtime, usePresence, useJob } from "./igniter.hooks";
+export { createIgniterChannel } from "../services/channel.service";
+export { dehydrate } from "../utils/hydration";
+
+// Framework-agnostic query client, used by the Vue (`./vue`) and Svelte (`./svelte`) bindings
+export {
+  IgniterQueryClient,
+  createIgniterQueryClient,
+  QueryObserver,
+  InfiniteQueryObserver,
+  MutationObserver,
+} from "./igniter.query-client";
 
 // Re-export createIgniterClient - will be environment-aware via imports
 export { createIgniterClient } from './igniter.client.browser';
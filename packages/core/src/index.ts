@@ -1,5 +1,6 @@
 export * from './error';
 export * from './processors';
+export * from './procedures';
 export * from './services';
 export * from './types';
 export type { DocsConfig } from './types/builder.interface';
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { rateLimit, type IgniterRateLimitOptions } from '../rate-limit.procedure';
+import { IgniterResponseProcessor } from '../../processors/response.processor';
+import { IgniterCookie } from '../../services/cookie.service';
+import { IgniterConsoleLogger } from '../../services/logger.service';
+import type { IgniterStoreAdapter } from '../../types/store.interface';
+import type { IgniterProcedureContext } from '../../types/procedure.interface';
+
+type TestContext = { store?: IgniterStoreAdapter; user?: { id: string } };
+
+function createMemoryStore(): IgniterStoreAdapter {
+  const data = new Map<string, any>();
+  return {
+    client: data,
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: any) => { data.set(key, value); }),
+    delete: vi.fn(async (key: string) => { data.delete(key); }),
+    has: vi.fn(async (key: string) => data.has(key)),
+    increment: vi.fn(async (key: string) => {
+      const value = (data.get(key) ?? 0) + 1;
+      data.set(key, value);
+      return value;
+    }),
+    expire: vi.fn(async () => {}),
+    publish: vi.fn(async () => {}),
+    subscribe: vi.fn(async () => {}),
+    unsubscribe: vi.fn(async () => {}),
+  } as IgniterStoreAdapter;
+}
+
+function createProcedureContext(
+  store: IgniterStoreAdapter,
+  ip = '10.0.0.1',
+  context: TestContext = {},
+): IgniterProcedureContext<TestContext> {
+  const headers = new Headers({ 'x-forwarded-for': ip });
+
+  return {
+    request: {
+      path: '/users',
+      method: 'GET' as const,
+      params: {},
+      body: null,
+      query: {},
+      headers,
+      cookies: new IgniterCookie(headers),
+    },
+    context: { store, ...context },
+    response: IgniterResponseProcessor.init(),
+    next: vi.fn(),
+  };
+}
+
+// The executor calls the configured procedures with the context only
+type ConfiguredHandler = (ctx: IgniterProcedureContext<TestContext>) => Promise<unknown>;
+
+async function run(options: IgniterRateLimitOptions, ctx: IgniterProcedureContext<TestContext>) {
+  const handler = rateLimit(options).handler as unknown as ConfiguredHandler;
+  return handler(ctx);
+}
+
+describe('rateLimit procedure', () => {
+  let store: IgniterStoreAdapter;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('fixed-window', () => {
+    it('should allow requests under the limit and expose the rate limit state', async () => {
+      const ctx = createProcedureContext(store);
+      const result = await run({ limit: 2, window: 60 }, ctx);
+
+      expect(result).toEqual({ rateLimit: { limit: 2, remaining: 1, reset: 60 } });
+
+      const headers = ctx.response.getHeaders();
+      expect(headers.get('RateLimit-Limit')).toBe('2');
+      expect(headers.get('RateLimit-Remaining')).toBe('1');
+      expect(headers.get('RateLimit-Reset')).toBe('60');
+      expect(store.expire).toHaveBeenCalledTimes(1);
+    });
+
+    it('should answer with 429 and Retry-After once the limit is exceeded', async () => {
+      await run({ limit: 1, window: 60 }, createProcedureContext(store));
+
+      vi.advanceTimersByTime(20_000);
+      const result = await run({ limit: 1, window: 60 }, createProcedureContext(store));
+
+      expect(result).toBeInstanceOf(IgniterResponseProcessor);
+      const response = await (result as IgniterResponseProcessor).toResponse();
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBe('40');
+      expect(response.headers.get('RateLimit-Remaining')).toBe('0');
+
+      const body = await response.json();
+      expect(body.error.code).toBe('ERR_TOO_MANY_REQUESTS');
+    });
+
+    it('should reset the counter on the next window', async () => {
+      await run({ limit: 1, window: 60 }, createProcedureContext(store));
+
+      vi.advanceTimersByTime(60_000);
+      const result = await run({ limit: 1, window: 60 }, createProcedureContext(store));
+
+      expect(result).toHaveProperty('rateLimit');
+    });
+
+    it('should ignore addresses the client prepends to x-forwarded-for', async () => {
+      await run({ limit: 1, window: 60, trustedProxies: 1 }, createProcedureContext(store, '10.0.0.1'));
+      const result = await run({ limit: 1, window: 60, trustedProxies: 1 }, createProcedureContext(store, '1.2.3.4, 10.0.0.1'));
+
+      expect(result).toBeInstanceOf(IgniterResponseProcessor);
+      expect(store.increment).toHaveBeenLastCalledWith(expect.stringContaining(':ip:10.0.0.1:'));
+    });
+
+    it('should read the client address behind the trusted proxies', async () => {
+      await run({ limit: 10, window: 60, trustedProxies: 2 }, createProcedureContext(store, '1.2.3.4, 10.0.0.1, 10.0.0.2'));
+
+      expect(store.increment).toHaveBeenLastCalledWith(expect.stringContaining(':ip:10.0.0.1:'));
+    });
+
+    it('should not trust forwarding headers by default and warn once about them', async () => {
+      const warn = vi.spyOn(IgniterConsoleLogger.prototype, 'warn').mockImplementation(() => {});
+      const options: IgniterRateLimitOptions = { limit: 10, window: 60 };
+
+      await run(options, createProcedureContext(store, '1.2.3.4'));
+      await run(options, createProcedureContext(store, '5.6.7.8'));
+
+      // Every client is counted against the same address
+      expect(store.increment).toHaveBeenCalledTimes(2);
+      expect(store.increment).toHaveBeenLastCalledWith(expect.stringContaining(':ip:127.0.0.1:'));
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith('Rate limit counts all clients as one', expect.any(Object));
+      warn.mockRestore();
+    });
+
+    it('should count each IP separately', async () => {
+      await run({ limit: 1, window: 60, trustedProxies: 1 }, createProcedureContext(store, '10.0.0.1'));
+      const result = await run({ limit: 1, window: 60, trustedProxies: 1 }, createProcedureContext(store, '10.0.0.2'));
+
+      expect(result).toHaveProperty('rateLimit');
+    });
+  });
+
+  describe('keys', () => {
+    it('should count requests of the same user across IPs', async () => {
+      const options: IgniterRateLimitOptions = { limit: 1, window: 60, key: 'user' };
+      await run(options, createProcedureContext(store, '10.0.0.1', { user: { id: 'u1' } }));
+      const result = await run(options, createProcedureContext(store, '10.0.0.2', { user: { id: 'u1' } }));
+
+      expect(result).toBeInstanceOf(IgniterResponseProcessor);
+    });
+
+    it('should use a custom key', async () => {
+      const key = vi.fn().mockReturnValue('tenant-1');
+      await run({ limit: 10, window: 60, key }, createProcedureContext(store));
+
+      expect(key).toHaveBeenCalled();
+      expect(store.increment).toHaveBeenCalledWith(
+        expect.stringContaining('igniter:ratelimit:fixed-window:tenant-1'),
+      );
+    });
+  });
+
+  describe('sliding-window', () => {
+    it('should weight the previous window count', async () => {
+      const options: IgniterRateLimitOptions = { limit: 2, window: 60, strategy: 'sliding-window' };
+      await run(options, createProcedureContext(store));
+      await run(options, createProcedureContext(store));
+
+      // 15s into the next window, 75% of the previous count still applies
+      vi.advanceTimersByTime(75_000);
+      expect(await run(options, createProcedureContext(store))).toHaveProperty('rateLimit');
+      expect(await run(options, createProcedureContext(store))).toBeInstanceOf(IgniterResponseProcessor);
+    });
+  });
+
+  describe('token-bucket', () => {
+    it('should allow bursts up to the limit and refill over time', async () => {
+      const options: IgniterRateLimitOptions = { limit: 2, window: 10, strategy: 'token-bucket' };
+      expect(await run(options, createProcedureContext(store))).toHaveProperty('rateLimit');
+      expect(await run(options, createProcedureContext(store))).toHaveProperty('rateLimit');
+      expect(await run(options, createProcedureContext(store))).toBeInstanceOf(IgniterResponseProcessor);
+
+      // One token every 5 seconds
+      vi.advanceTimersByTime(5_000);
+      expect(await run(options, createProcedureContext(store))).toHaveProperty('rateLimit');
+    });
+  });
+
+  it('should let requests through when no store is available', async () => {
+    const ctx = createProcedureContext(store);
+    ctx.context.store = undefined;
+
+    const result = await run({ limit: 1, window: 60 }, ctx);
+
+    expect(result).toEqual({});
+  });
+});
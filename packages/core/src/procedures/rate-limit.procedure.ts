@@ -0,0 +1,341 @@
+import { createIgniterProcedure } from "../services/procedure.service";
+import { IgniterConsoleLogger } from "../services/logger.service";
+import type { IgniterLogger } from "../types";
+import type { IgniterProcedureContext } from "../types/procedure.interface";
+import type { IgniterStoreAdapter } from "../types/store.interface";
+import { getClientIP, hasForwardedIP } from "../utils/ip";
+import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+
+/**
+ * Algorithm used to count requests.
+ * - `fixed-window`: counts requests per window, resetting at the end of each window
+ * - `sliding-window`: weights the previous window count to smooth bursts at window boundaries
+ * - `token-bucket`: refills `limit` tokens per window, allowing bursts up to `limit`
+ */
+export type IgniterRateLimitStrategy = "fixed-window" | "sliding-window" | "token-bucket";
+
+/**
+ * Resolves the identity a request is counted against.
+ * - `ip`: the client IP address
+ * - `user`: the authenticated user id (`context.user.id` or `context.auth.user.id`), falling back to the IP
+ * - a function returning a custom key
+ */
+export type IgniterRateLimitKey<TContext = any> =
+  | "ip"
+  | "user"
+  | ((ctx: IgniterProcedureContext<TContext>) => string | Promise<string>);
+
+/**
+ * Options of the rate limit procedure
+ */
+export interface IgniterRateLimitOptions<TContext = any> {
+  /**
+   * Maximum number of requests allowed per window
+   */
+  limit: number;
+
+  /**
+   * Window duration, in seconds
+   */
+  window: number;
+
+  /**
+   * Counting algorithm
+   * @default "fixed-window"
+   */
+  strategy?: IgniterRateLimitStrategy;
+
+  /**
+   * Identity the requests are counted against
+   * @default "ip"
+   */
+  key?: IgniterRateLimitKey<TContext>;
+
+  /**
+   * Prefix of the store keys, use it to keep separate limits for different routes
+   * @default "igniter:ratelimit"
+   */
+  prefix?: string;
+
+  /**
+   * Store adapter holding the counters. Defaults to `context.store`.
+   */
+  store?: IgniterStoreAdapter;
+
+  /**
+   * Number of trusted proxies in front of the app, used to read the client IP from `x-forwarded-for`
+   * when counting by IP. See `getClientIP`.
+   *
+   * The forwarding headers can be set by any client, so they are only read once the proxies are
+   * declared. Until then, the client IP is unknown and every request is counted against the same
+   * key, so the limit applies to all clients together. A warning is logged when such a request
+   * carries forwarding headers, as the app is then likely behind a proxy that should be trusted.
+   * @default 0
+   */
+  trustedProxies?: number;
+
+  /**
+   * Error message sent when the limit is exceeded
+   * @default "Too Many Requests"
+   */
+  message?: string;
+}
+
+/**
+ * Rate limit state of the current request, added to the context as `rateLimit`
+ */
+export interface IgniterRateLimitInfo {
+  /**
+   * Maximum number of requests allowed per window
+   */
+  limit: number;
+
+  /**
+   * Requests left in the current window
+   */
+  remaining: number;
+
+  /**
+   * Seconds until the limit resets
+   */
+  reset: number;
+}
+
+type RateLimitResult = IgniterRateLimitInfo & { allowed: boolean; retryAfter: number };
+
+type TokenBucketState = { tokens: number; updatedAt: number };
+
+let _logger: IgniterLogger | undefined;
+
+function getLogger(): IgniterLogger {
+  if (!_logger) {
+    _logger = IgniterConsoleLogger.create({
+      level: resolveLogLevel(),
+      context: createLoggerContext('RateLimit'),
+      showTimestamp: true,
+    });
+  }
+  return _logger;
+}
+
+// Options already warned about, so the warning is logged once per procedure
+const untrustedProxyWarnings = new WeakSet<IgniterRateLimitOptions>();
+
+function warnUntrustedProxy(options: IgniterRateLimitOptions): void {
+  if (untrustedProxyWarnings.has(options)) return;
+  untrustedProxyWarnings.add(options);
+
+  getLogger().warn("Rate limit counts all clients as one", {
+    reason: "forwarding headers received without trustedProxies",
+    hint: "set trustedProxies to the number of proxies in front of the app, or count by user or a custom key",
+  });
+}
+
+async function resolveIdentity(
+  options: IgniterRateLimitOptions,
+  ctx: IgniterProcedureContext<any>,
+): Promise<string> {
+  const { key } = options;
+
+  if (typeof key === "function") {
+    return key(ctx);
+  }
+
+  if (key === "user") {
+    const userId = ctx.context?.user?.id ?? ctx.context?.auth?.user?.id;
+    if (userId !== undefined && userId !== null) {
+      return `user:${userId}`;
+    }
+  }
+
+  if ((options.trustedProxies ?? 0) <= 0 && hasForwardedIP(ctx.request.headers)) {
+    warnUntrustedProxy(options);
+  }
+
+  return `ip:${getClientIP(ctx.request.headers, { trustedProxies: options.trustedProxies })}`;
+}
+
+async function fixedWindow(
+  store: IgniterStoreAdapter,
+  key: string,
+  limit: number,
+  window: number,
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowMs = window * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const counterKey = `${key}:${windowStart}`;
+
+  const count = await store.increment(counterKey);
+  if (count === 1) {
+    await store.expire(counterKey, window);
+  }
+
+  const reset = Math.ceil((windowStart + windowMs - now) / 1000);
+  const allowed = count <= limit;
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - count),
+    reset,
+    retryAfter: allowed ? 0 : reset,
+  };
+}
+
+async function slidingWindow(
+  store: IgniterStoreAdapter,
+  key: string,
+  limit: number,
+  window: number,
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowMs = window * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const currentKey = `${key}:${windowStart}`;
+  const previousKey = `${key}:${windowStart - windowMs}`;
+
+  const current = await store.increment(currentKey);
+  if (current === 1) {
+    // Kept for two windows, as it is weighted in the next one
+    await store.expire(currentKey, window * 2);
+  }
+
+  const previous = Number(await store.get<number>(previousKey)) || 0;
+  const previousWeight = 1 - (now - windowStart) / windowMs;
+  const count = Math.floor(previous * previousWeight) + current;
+
+  const reset = Math.ceil((windowStart + windowMs - now) / 1000);
+  const allowed = count <= limit;
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - count),
+    reset,
+    retryAfter: allowed ? 0 : reset,
+  };
+}
+
+async function tokenBucket(
+  store: IgniterStoreAdapter,
+  key: string,
+  limit: number,
+  window: number,
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const refillPerSecond = limit / window;
+
+  const state = await store.get<TokenBucketState>(key);
+  const elapsed = state ? (now - state.updatedAt) / 1000 : 0;
+  const available = state
+    ? Math.min(limit, state.tokens + elapsed * refillPerSecond)
+    : limit;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  await store.set(key, { tokens, updatedAt: now }, { ttl: window });
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.floor(tokens),
+    reset: Math.ceil((limit - tokens) / refillPerSecond),
+    retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / refillPerSecond),
+  };
+}
+
+const strategies: Record<
+  IgniterRateLimitStrategy,
+  (store: IgniterStoreAdapter, key: string, limit: number, window: number) => Promise<RateLimitResult>
+> = {
+  "fixed-window": fixedWindow,
+  "sliding-window": slidingWindow,
+  "token-bucket": tokenBucket,
+};
+
+/**
+ * Rate limit procedure backed by the store adapter.
+ * Sets the `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset` headers on every response
+ * and answers with a `429 ERR_TOO_MANY_REQUESTS` error and a `Retry-After` header when the limit is exceeded.
+ *
+ * The token bucket strategy reads and writes its state without a lock, so concurrent
+ * requests across instances may occasionally consume the same token.
+ *
+ * @example
+ * ```typescript
+ * // Globally, 100 requests per minute per IP
+ * export const igniter = Igniter
+ *   .context<AppContext>()
+ *   .store(store)
+ *   .middleware([rateLimit({ limit: 100, window: 60 })])
+ *   .create();
+ *
+ * // Per action, 5 login attempts per 15 minutes per email
+ * login: igniter.mutation({
+ *   path: '/login',
+ *   method: 'POST',
+ *   use: [rateLimit({
+ *     limit: 5,
+ *     window: 900,
+ *     strategy: 'sliding-window',
+ *     prefix: 'igniter:ratelimit:login',
+ *     key: (ctx) => ctx.request.body.email,
+ *   })],
+ *   handler: async ({ request, response }) => { ... },
+ * })
+ * ```
+ */
+export const rateLimit = createIgniterProcedure<any, IgniterRateLimitOptions, { rateLimit?: IgniterRateLimitInfo }>({
+  name: "rateLimit",
+  handler: async (options, ctx) => {
+    const logger = getLogger();
+
+    if (!options) {
+      logger.warn("Rate limit skipped", { reason: "missing options" });
+      return {};
+    }
+
+    const store: IgniterStoreAdapter | undefined = options.store || ctx.context?.store;
+    if (!store) {
+      logger.warn("Rate limit skipped", { reason: "no store adapter configured" });
+      return {};
+    }
+
+    const strategy = options.strategy || "fixed-window";
+    const identity = await resolveIdentity(options, ctx);
+    const key = `${options.prefix || "igniter:ratelimit"}:${strategy}:${identity}`;
+
+    let result: RateLimitResult;
+    try {
+      result = await strategies[strategy](store, key, options.limit, options.window);
+    } catch (error) {
+      // Fail open: an unavailable store must not take the API down
+      logger.error("Rate limit check failed", { key, error });
+      return {};
+    }
+
+    ctx.response.setHeader("RateLimit-Limit", String(result.limit));
+    ctx.response.setHeader("RateLimit-Remaining", String(result.remaining));
+    ctx.response.setHeader("RateLimit-Reset", String(result.reset));
+    ctx.response.setHeader("RateLimit-Policy", `${options.limit};w=${options.window}`);
+
+    if (!result.allowed) {
+      logger.debug("Rate limit exceeded", { key, strategy, limit: result.limit });
+      ctx.response.setHeader("Retry-After", String(result.retryAfter));
+      return ctx.response.tooManyRequests(options.message || "Too Many Requests", {
+        limit: result.limit,
+        retryAfter: result.retryAfter,
+      });
+    }
+
+    return {
+      rateLimit: {
+        limit: result.limit,
+        remaining: result.remaining,
+        reset: result.reset,
+      },
+    };
+  },
+});
@@ -0,0 +1,315 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IdempotencyProcessor, IDEMPOTENT_REPLAYED_HEADER } from '../idempotency.processor';
+import type { IgniterStoreAdapter } from '../../types/store.interface';
+import type { ProcessedContext } from '../context-builder.processor';
+import { RequestProcessor } from '../request.processor';
+import { createIgniterProcedure } from '../../services/procedure.service';
+import { createIgniterMutation } from '../../services/action.service';
+import { createIgniterController } from '../../services/controller.service';
+
+function createMemoryStore(): IgniterStoreAdapter {
+  const data = new Map<string, any>();
+  const expiresAt = new Map<string, number>();
+  return {
+    client: data,
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: any) => { data.set(key, value); }),
+    delete: vi.fn(async (key: string) => { data.delete(key); }),
+    has: vi.fn(async (key: string) => data.has(key)),
+    increment: vi.fn(async (key: string) => {
+      const value = (data.get(key) ?? 0) + 1;
+      data.set(key, value);
+      return value;
+    }),
+    expire: vi.fn(async () => {}),
+    setIfAbsent: vi.fn(async (key: string, value: any, options?: { ttl?: number }) => {
+      if (data.has(key) && (expiresAt.get(key) ?? Infinity) > Date.now()) return false;
+      data.set(key, value);
+      if (options?.ttl) expiresAt.set(key, Date.now() + options.ttl * 1000);
+      return true;
+    }),
+    publish: vi.fn(async () => {}),
+    subscribe: vi.fn(async () => {}),
+    unsubscribe: vi.fn(async () => {}),
+  } as IgniterStoreAdapter;
+}
+
+function createContext(
+  headers: Record<string, string> = {},
+  body: unknown = { title: 'Hello' },
+  context: Record<string, any> = {},
+): ProcessedContext {
+  return {
+    request: {
+      path: '/posts',
+      method: 'POST',
+      params: {},
+      query: {},
+      body,
+      headers: new Headers(headers),
+    },
+    $context: context,
+  } as unknown as ProcessedContext;
+}
+
+function createdResponse() {
+  return new Response(JSON.stringify({ data: { id: 1 }, error: null }), {
+    status: 201,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('IdempotencyProcessor', () => {
+  let store: IgniterStoreAdapter;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+  });
+
+  it('should skip requests without an idempotency key', async () => {
+    const result = await IdempotencyProcessor.check(store, 'posts.create', true, createContext());
+
+    expect(result).toEqual({});
+    expect(store.setIfAbsent).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests without a key when it is required', async () => {
+    const result = await IdempotencyProcessor.check(store, 'posts.create', { required: true }, createContext());
+
+    expect(result.response?.status).toBe(400);
+    const body = await result.response!.json();
+    expect(body.error.code).toBe('ERR_BAD_REQUEST');
+  });
+
+  it('should lock the first request with a key', async () => {
+    const result = await IdempotencyProcessor.check(store, 'posts.create', true, createContext({ 'Idempotency-Key': 'abc' }));
+
+    expect(result.response).toBeUndefined();
+    expect(result.lock).toEqual(expect.objectContaining({
+      key: 'igniter:idempotency:posts.create:anonymous:abc',
+      ttl: 86400,
+    }));
+    expect(store.setIfAbsent).toHaveBeenCalledWith('igniter:idempotency:posts.create:anonymous:abc:lock', 1, { ttl: 60 });
+    expect(store.increment).not.toHaveBeenCalled();
+  });
+
+  it('should reject concurrent duplicates with a 409', async () => {
+    const context = createContext({ 'Idempotency-Key': 'abc' });
+    await IdempotencyProcessor.check(store, 'posts.create', true, context);
+
+    const duplicate = await IdempotencyProcessor.check(store, 'posts.create', true, context);
+
+    expect(duplicate.response?.status).toBe(409);
+    const body = await duplicate.response!.json();
+    expect(body.error.code).toBe('ERR_CONFLICT');
+  });
+
+  it('should accept the key again once the lock of an unfinished request expires', async () => {
+    vi.useFakeTimers();
+    try {
+      const context = createContext({ 'Idempotency-Key': 'abc' });
+      await IdempotencyProcessor.check(store, 'posts.create', { lockTimeout: 30 }, context);
+
+      vi.advanceTimersByTime(29_000);
+      expect((await IdempotencyProcessor.check(store, 'posts.create', { lockTimeout: 30 }, context)).response?.status).toBe(409);
+      vi.advanceTimersByTime(1000);
+      expect((await IdempotencyProcessor.check(store, 'posts.create', { lockTimeout: 30 }, context)).lock).toBeDefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should replay the stored response once the first request completes', async () => {
+    const context = createContext({ 'Idempotency-Key': 'abc' });
+    const { lock } = await IdempotencyProcessor.check(store, 'posts.create', true, context);
+    await IdempotencyProcessor.save(store, lock!, createdResponse());
+    await IdempotencyProcessor.release(store, lock!);
+
+    const replay = await IdempotencyProcessor.check(store, 'posts.create', true, context);
+
+    expect(replay.response?.status).toBe(201);
+    expect(replay.response?.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBe('true');
+    expect(await replay.response!.json()).toEqual({ data: { id: 1 }, error: null });
+  });
+
+  it('should reject a reused key with a different body', async () => {
+    const { lock } = await IdempotencyProcessor.check(store, 'posts.create', true, createContext({ 'Idempotency-Key': 'abc' }));
+    await IdempotencyProcessor.save(store, lock!, createdResponse());
+    await IdempotencyProcessor.release(store, lock!);
+
+    const result = await IdempotencyProcessor.check(
+      store,
+      'posts.create',
+      true,
+      createContext({ 'Idempotency-Key': 'abc' }, { title: 'Other' }),
+    );
+
+    expect(result.response?.status).toBe(422);
+  });
+
+  it('should not store failed responses so the request can be retried', async () => {
+    const context = createContext({ 'Idempotency-Key': 'abc' });
+    const { lock } = await IdempotencyProcessor.check(store, 'posts.create', true, context);
+    await IdempotencyProcessor.save(store, lock!, new Response('{}', { status: 500 }));
+    await IdempotencyProcessor.release(store, lock!);
+
+    const retry = await IdempotencyProcessor.check(store, 'posts.create', true, context);
+
+    expect(retry.response).toBeUndefined();
+    expect(retry.lock).toBeDefined();
+  });
+
+  it('should read a custom header', async () => {
+    const result = await IdempotencyProcessor.check(
+      store,
+      'posts.create',
+      { header: 'X-Request-Id', ttl: 60 },
+      createContext({ 'X-Request-Id': 'req-1' }),
+    );
+
+    expect(result.lock).toEqual(expect.objectContaining({
+      key: 'igniter:idempotency:posts.create:anonymous:req-1',
+      ttl: 60,
+    }));
+  });
+
+  it('should scope the keys to the credentials of the caller', async () => {
+    const first = await IdempotencyProcessor.check(
+      store,
+      'posts.create',
+      true,
+      createContext({ 'Idempotency-Key': 'abc', Authorization: 'Bearer token-1' }),
+    );
+    await IdempotencyProcessor.save(store, first.lock!, createdResponse());
+    await IdempotencyProcessor.release(store, first.lock!);
+
+    const other = await IdempotencyProcessor.check(
+      store,
+      'posts.create',
+      true,
+      createContext({ 'Idempotency-Key': 'abc', Authorization: 'Bearer token-2' }),
+    );
+
+    expect(other.response).toBeUndefined();
+    expect(other.lock!.key).not.toBe(first.lock!.key);
+    expect(first.lock!.key).not.toContain('token-1');
+  });
+
+  it('should scope the keys with a custom scope', async () => {
+    const result = await IdempotencyProcessor.check(
+      store,
+      'posts.create',
+      { scope: ({ context }) => context.user.id },
+      createContext({ 'Idempotency-Key': 'abc' }, { title: 'Hello' }, { user: { id: 'u1' } }),
+    );
+
+    expect(result.lock!.key).toBe('igniter:idempotency:posts.create:u1:abc');
+  });
+
+  it('should not store the cookies of the first response', async () => {
+    const context = createContext({ 'Idempotency-Key': 'abc' });
+    const { lock } = await IdempotencyProcessor.check(store, 'posts.create', true, context);
+    const response = createdResponse();
+    response.headers.append('Set-Cookie', 'session=secret; HttpOnly');
+    await IdempotencyProcessor.save(store, lock!, response);
+    await IdempotencyProcessor.release(store, lock!);
+
+    const replay = await IdempotencyProcessor.check(store, 'posts.create', true, context);
+
+    expect(replay.response?.headers.get('Set-Cookie')).toBeNull();
+    expect(replay.response?.headers.get('Content-Type')).toBe('application/json');
+  });
+
+  describe('with the request processor', () => {
+    let handlerCalls: number;
+    let authCalls: number;
+    let processor: RequestProcessor<any>;
+
+    const auth = createIgniterProcedure<any, unknown, { user: { id: string } }>({
+      name: 'auth',
+      handler: async (_options, ctx) => {
+        authCalls++;
+        const token = ctx.request.headers.get('authorization');
+        if (!token) return ctx.response.unauthorized();
+        return { user: { id: token } };
+      },
+    });
+
+    function request(headers: Record<string, string> = {}) {
+      return new Request('http://localhost/api/v1/posts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': 'abc', ...headers },
+        body: JSON.stringify({ title: 'Hello' }),
+      });
+    }
+
+    beforeEach(async () => {
+      handlerCalls = 0;
+      authCalls = 0;
+      const create = createIgniterMutation({
+        name: 'create',
+        path: '/',
+        method: 'POST',
+        use: [auth()],
+        idempotency: true,
+        handler: async ({ response }: any) => {
+          handlerCalls++;
+          return response.created({ id: handlerCalls });
+        },
+      } as any);
+
+      processor = new RequestProcessor({
+        baseURL: 'http://localhost',
+        basePATH: '/api/v1',
+        controllers: { posts: createIgniterController({ name: 'posts', path: '/posts', actions: { create } }) },
+        context: { store },
+      } as any);
+
+      // Routes are registered asynchronously
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    it('should not replay a stored response to an unauthenticated caller', async () => {
+      await processor.process(request({ Authorization: 'Bearer token-1' }));
+
+      const response = await processor.process(request());
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBeNull();
+    });
+
+    it('should replay a stored response to its caller only', async () => {
+      await processor.process(request({ Authorization: 'Bearer token-1' }));
+
+      const replay = await processor.process(request({ Authorization: 'Bearer token-1' }));
+      const other = await processor.process(request({ Authorization: 'Bearer token-2' }));
+
+      expect(replay.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBe('true');
+      expect(await replay.json()).toEqual({ data: { id: 1 }, error: null });
+      expect(other.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBeNull();
+      expect(await other.json()).toEqual({ data: { id: 2 }, error: null });
+    });
+
+    it('should replay a stored response without running the middlewares again', async () => {
+      await processor.process(request({ Authorization: 'Bearer token-1' }));
+
+      const replay = await processor.process(request({ Authorization: 'Bearer token-1' }));
+
+      expect(replay.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBe('true');
+      expect(authCalls).toBe(1);
+      expect(handlerCalls).toBe(1);
+    });
+
+    it('should release the key without storing a response when a middleware returns early', async () => {
+      const rejected = await processor.process(request());
+      const retried = await processor.process(request());
+
+      expect(rejected.status).toBe(401);
+      expect(retried.status).toBe(401);
+      expect(retried.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBeNull();
+      expect(store.delete).toHaveBeenCalledWith('igniter:idempotency:posts.create:anonymous:abc:lock');
+      expect(authCalls).toBe(2);
+      expect(handlerCalls).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { JobsAdminProcessor } from '../jobs-admin.processor';
+import { createMemoryJobsAdapter } from '../../adapters/jobs.memory';
+import type { IgniterJobQueueAdapter, IgniterJobsAdminOptions } from '../../types/jobs.interface';
+import type { IgniterLogger } from '../../types/logger.interface';
+
+const silentLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as IgniterLogger;
+
+describe('JobsAdminProcessor', () => {
+  let adapter: IgniterJobQueueAdapter<any>;
+  let options: IgniterJobsAdminOptions;
+
+  const request = (method: string, path: string, headers: Record<string, string> = { authorization: 'admin' }) =>
+    JobsAdminProcessor.handle(
+      new Request(`http://localhost/api/v1/_igniter/jobs${path}`, { method, headers }),
+      '/api/v1',
+      options,
+    );
+
+  beforeEach(async () => {
+    adapter = createMemoryJobsAdapter({ logger: silentLogger });
+    options = {
+      adapter,
+      authorize: (req) => req.headers.get('authorization') === 'admin',
+    };
+
+    await adapter.bulkRegister({
+      'task.later': adapter.register({ name: 'later', input: z.object({}), handler: vi.fn() }),
+    });
+  });
+
+  afterEach(async () => {
+    await adapter.shutdown();
+  });
+
+  it('should match the routes under the configured path', () => {
+    expect(JobsAdminProcessor.matches('/api/v1/_igniter/jobs/queues/default', '/api/v1', options)).toBe(true);
+    expect(JobsAdminProcessor.matches('/api/v1/jobs/queues/default', '/api/v1', options)).toBe(false);
+    expect(JobsAdminProcessor.matches('/api/v1/_igniter/jobsx', '/api/v1', options)).toBe(false);
+    expect(JobsAdminProcessor.matches('/api/v1/admin/queues/default', '/api/v1', { ...options, path: '/admin' })).toBe(true);
+  });
+
+  it('should reject unauthorized requests', async () => {
+    const response = await request('GET', '/queues/default', {});
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ error: { code: 'ERR_FORBIDDEN' } });
+  });
+
+  it('should return the job counts of a queue', async () => {
+    await adapter.invoke({ id: 'task.later', input: {}, delay: 60_000 });
+
+    const response = await request('GET', '/queues/default');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ data: { delayed: 1, waiting: 0 } });
+  });
+
+  it('should get, promote and cancel jobs', async () => {
+    const jobId = await adapter.invoke({ id: 'task.later', input: {}, delay: 60_000 });
+
+    const details = await request('GET', `/queues/default/jobs/${jobId}`);
+    expect(await details.json()).toMatchObject({ data: { id: jobId, status: 'delayed', logs: [] } });
+
+    expect((await request('POST', `/queues/default/jobs/${jobId}/promote`)).status).toBe(200);
+    expect((await request('POST', `/queues/default/jobs/${jobId}/cancel`)).status).toBe(200);
+    expect((await request('GET', `/queues/default/jobs/${jobId}`)).status).toBe(404);
+  });
+
+  it('should answer with a conflict when the action does not fit the job', async () => {
+    const jobId = await adapter.invoke({ id: 'task.later', input: {} });
+
+    const response = await request('POST', `/queues/default/jobs/${jobId}/retry`);
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ error: { code: 'ERR_CONFLICT' } });
+  });
+
+  it('should answer with an internal error when the adapter fails', async () => {
+    vi.spyOn(adapter, 'getQueueCounts').mockRejectedValueOnce(new Error('Connection refused'));
+
+    const response = await request('GET', '/queues/default');
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ error: { code: 'ERR_UNKNOWN_ERROR', message: 'Internal server error' } });
+  });
+
+  it('should reject malformed job IDs', async () => {
+    const response = await request('GET', '/queues/default/jobs/%E0%A4%A');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: 'ERR_BAD_REQUEST' } });
+  });
+
+  it('should pause, resume and drain queues', async () => {
+    await adapter.invoke({ id: 'task.later', input: {} });
+
+    expect((await request('POST', '/queues/default/pause')).status).toBe(200);
+    expect(await (await request('GET', '/queues/default')).json()).toMatchObject({ data: { paused: 1 } });
+    expect((await request('POST', '/queues/default/resume')).status).toBe(200);
+    expect((await request('POST', '/queues/default/drain')).status).toBe(200);
+
+    const search = await request('GET', '/queues/default/jobs?status=waiting');
+    expect(await search.json()).toMatchObject({ data: [] });
+  });
+
+  it('should list, replay and purge dead-letter entries', async () => {
+    await adapter.bulkRegister({
+      'task.broken': adapter.register({
+        name: 'broken',
+        input: z.object({}),
+        attempts: 1,
+        deadLetter: true,
+        handler: () => { throw new Error('boom'); },
+      }),
+    });
+    await adapter.worker({ queues: ['default'] });
+    const first = await adapter.invoke({ id: 'task.broken', input: {} });
+    await adapter.invoke({ id: 'task.broken', input: {} });
+    await vi.waitFor(async () => expect(await adapter.listDeadLetters()).toHaveLength(2));
+
+    const list = await request('GET', '/queues/default/dead-letters');
+    expect(await list.json()).toMatchObject({ data: [{ error: 'boom' }, { error: 'boom' }] });
+
+    const entry = await request('GET', `/queues/default/dead-letters/${first}`);
+    expect(await entry.json()).toMatchObject({ data: { id: first, errors: ['boom'] } });
+
+    await adapter.pauseQueue();
+    expect((await request('POST', `/queues/default/dead-letters/${first}/replay`)).status).toBe(200);
+    expect((await request('POST', `/queues/default/dead-letters/${first}/replay`)).status).toBe(404);
+
+    const purge = await request('DELETE', '/queues/default/dead-letters');
+    expect(await purge.json()).toMatchObject({ data: { purged: 1 } });
+  });
+
+  it('should return 404 for unknown routes and jobs', async () => {
+    expect((await request('GET', '/unknown')).status).toBe(404);
+    expect((await request('POST', '/queues/default/jobs/missing/retry')).status).toBe(404);
+  });
+});
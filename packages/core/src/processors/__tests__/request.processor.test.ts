@@ -0,0 +1,146 @@
+import { describe, it, expect, expectTypeOf, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { RequestProcessor } from '../request.processor';
+import { IgniterResponseProcessor } from '../response.processor';
+import { createIgniterMutation, createIgniterQuery } from '../../services/action.service';
+import { createIgniterController } from '../../services/controller.service';
+
+describe('RequestProcessor', () => {
+  describe('response validation', () => {
+    const output = z.object({ id: z.number(), name: z.string() });
+    const errors = {
+      404: z.object({ code: z.literal('ERR_NOT_FOUND'), message: z.string(), data: z.object({ id: z.string() }) }),
+    };
+    let processor: RequestProcessor<any>;
+    let payload: unknown;
+
+    const getById = createIgniterQuery({
+      name: 'getById',
+      path: '/:id',
+      output,
+      errors,
+      handler: async ({ request, response }) => {
+        switch (request.params.id) {
+          case 'missing':
+            return response.notFound('User not found', { id: 'missing' });
+          case 'gone':
+            return response.notFound('Gone');
+          case 'forbidden':
+            return response.forbidden();
+          default:
+            return response.success(payload as any);
+        }
+      },
+    });
+
+    const remove = createIgniterMutation({
+      name: 'remove',
+      path: '/:id',
+      method: 'DELETE',
+      output,
+      handler: async ({ response }) => response.success(payload as any),
+    });
+
+    const list = createIgniterQuery({
+      name: 'list',
+      path: '/',
+      output: z.array(output),
+      handler: async () => payload as any,
+    });
+
+    function request(path: string, method = 'GET') {
+      return processor.process(new Request(`http://localhost/api/v1/users${path}`, { method }));
+    }
+
+    beforeEach(async () => {
+      payload = { id: 1, name: 'Ada' };
+      processor = new RequestProcessor({
+        baseURL: 'http://localhost',
+        basePATH: '/api/v1',
+        controllers: {
+          users: createIgniterController({ name: 'users', path: '/users', actions: { getById, remove, list } }),
+        },
+        context: {},
+      } as any);
+
+      // Routes are registered asynchronously
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+    });
+
+    it('should send responses matching the output schema', async () => {
+      const response = await request('/1');
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).data).toEqual({ id: 1, name: 'Ada' });
+    });
+
+    it('should reject responses not matching the output schema', async () => {
+      payload = { id: '1', name: 'Ada' };
+
+      const response = await request('/1');
+
+      expect(response.status).toBe(500);
+      const body = await response.json();
+      expect(body.error.code).toBe('RESPONSE_VALIDATION_ERROR');
+      expect(body.error.details).toEqual([expect.objectContaining({ path: ['id'] })]);
+    });
+
+    it('should validate the objects returned by the handler', async () => {
+      payload = [{ id: 1, name: 'Ada' }, { id: 2 }];
+
+      const response = await request('/');
+
+      expect(response.status).toBe(500);
+      expect((await response.json()).error.code).toBe('RESPONSE_VALIDATION_ERROR');
+    });
+
+    it('should not validate responses in production', async () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      payload = { id: '1' };
+
+      const response = await request('/1');
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).data).toEqual({ id: '1' });
+    });
+
+    it('should not validate responses without a body', async () => {
+      const toResponse = vi.spyOn(IgniterResponseProcessor.prototype, 'toResponse');
+      toResponse.mockResolvedValueOnce(new Response(null, { status: 204, headers: { 'Content-Type': 'application/json' } }));
+      toResponse.mockResolvedValueOnce(new Response('', { status: 200, headers: { 'Content-Type': 'application/json' } }));
+
+      const noContent = await request('/1', 'DELETE');
+      const empty = await request('/1', 'DELETE');
+
+      expect(noContent.status).toBe(204);
+      expect(empty.status).toBe(200);
+    });
+
+    it('should validate error payloads against the schema of their status', async () => {
+      const notFound = await request('/missing');
+      const invalid = await request('/gone');
+
+      expect(notFound.status).toBe(404);
+      expect((await notFound.json()).error).toMatchObject({ code: 'ERR_NOT_FOUND', data: { id: 'missing' } });
+      expect(invalid.status).toBe(500);
+      expect((await invalid.json()).error.message).toContain('404 error schema');
+    });
+
+    it('should send the errors of statuses without a schema as they are', async () => {
+      const response = await request('/forbidden');
+
+      expect(response.status).toBe(403);
+      expect((await response.json()).error.code).toBe('ERR_FORBIDDEN');
+    });
+
+    it('should infer the output of the action from its schema', () => {
+      expectTypeOf<typeof getById.$Infer.$Output>().toEqualTypeOf<{ id: number; name: string }>();
+      expectTypeOf<typeof list.$Infer.$Output>().toEqualTypeOf<{ id: number; name: string }[]>();
+    });
+  });
+});
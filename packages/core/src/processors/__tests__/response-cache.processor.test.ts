@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { ResponseCacheProcessor, CACHE_STATUS_HEADER } from '../response-cache.processor';
+import type { IgniterStoreAdapter } from '../../types/store.interface';
+import type { ProcessedContext } from '../context-builder.processor';
+
+function createMemoryStore(): IgniterStoreAdapter {
+  const data = new Map<string, any>();
+  const expiresAt = new Map<string, number>();
+  return {
+    client: data,
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: any) => { data.set(key, value); }),
+    delete: vi.fn(async (key: string) => { data.delete(key); expiresAt.delete(key); }),
+    has: vi.fn(async (key: string) => data.has(key)),
+    increment: vi.fn(async (key: string) => {
+      const value = (data.get(key) ?? 0) + 1;
+      data.set(key, value);
+      return value;
+    }),
+    expire: vi.fn(async () => {}),
+    setIfAbsent: vi.fn(async (key: string, value: any, options?: { ttl?: number }) => {
+      if (data.has(key) && (expiresAt.get(key) ?? Infinity) > Date.now()) return false;
+      data.set(key, value);
+      if (options?.ttl) expiresAt.set(key, Date.now() + options.ttl * 1000);
+      return true;
+    }),
+    publish: vi.fn(async () => {}),
+    subscribe: vi.fn(async () => {}),
+    unsubscribe: vi.fn(async () => {}),
+  } as IgniterStoreAdapter;
+}
+
+function createContext(overrides: Partial<ProcessedContext['request']> = {}): ProcessedContext {
+  return {
+    request: {
+      path: '/users/1',
+      method: 'GET',
+      params: { id: '1' },
+      query: {},
+      headers: new Headers(),
+      ...overrides,
+    },
+  } as unknown as ProcessedContext;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('ResponseCacheProcessor', () => {
+  let store: IgniterStoreAdapter;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('resolveKey', () => {
+    it('should ignore the order of query parameters', async () => {
+      const a = await ResponseCacheProcessor.resolveKey('users.list', { ttl: 10 }, createContext({ query: { page: '1', limit: '10' } }));
+      const b = await ResponseCacheProcessor.resolveKey('users.list', { ttl: 10 }, createContext({ query: { limit: '10', page: '1' } }));
+
+      expect(a).toBe(b);
+    });
+
+    it('should vary by the selected headers only', async () => {
+      const options = { ttl: 10, headers: ['Accept-Language'] };
+      const en = await ResponseCacheProcessor.resolveKey('users.list', options, createContext({
+        headers: new Headers({ 'accept-language': 'en', 'x-request-id': '1' }),
+      }));
+      const enOtherRequest = await ResponseCacheProcessor.resolveKey('users.list', options, createContext({
+        headers: new Headers({ 'accept-language': 'en', 'x-request-id': '2' }),
+      }));
+      const pt = await ResponseCacheProcessor.resolveKey('users.list', options, createContext({
+        headers: new Headers({ 'accept-language': 'pt' }),
+      }));
+
+      expect(en).toBe(enOtherRequest);
+      expect(en).not.toBe(pt);
+    });
+
+    it('should use the custom key function when provided', async () => {
+      const key = await ResponseCacheProcessor.resolveKey('users.getById', {
+        ttl: 10,
+        key: ({ params }) => `user-${params.id}`,
+      }, createContext());
+
+      expect(key).toBe('igniter:cache:entry:users.getById:user-1');
+    });
+
+    it('should vary by the credentials unless the cache is shared', async () => {
+      const ana = createContext({ headers: new Headers({ authorization: 'Bearer ana' }) });
+      const bob = createContext({ headers: new Headers({ cookie: 'session=bob' }) });
+
+      const anaKey = await ResponseCacheProcessor.resolveKey('users.me', { ttl: 10 }, ana);
+      const bobKey = await ResponseCacheProcessor.resolveKey('users.me', { ttl: 10 }, bob);
+
+      expect(anaKey).not.toBe(bobKey);
+      expect(anaKey).not.toContain('Bearer ana');
+      expect(await ResponseCacheProcessor.resolveKey('users.me', { ttl: 10, shared: true }, ana))
+        .toBe(await ResponseCacheProcessor.resolveKey('users.me', { ttl: 10, shared: true }, bob));
+    });
+  });
+
+  describe('lookup and save', () => {
+    it('should return null on a miss', async () => {
+      expect(await ResponseCacheProcessor.lookup(store, 'missing')).toBeNull();
+    });
+
+    it('should serve a stored response as a fresh hit', async () => {
+      await ResponseCacheProcessor.save(store, 'key', { ttl: 60 }, { 'users.list': 0 }, jsonResponse({ data: [1], error: null }));
+
+      const cached = await ResponseCacheProcessor.lookup(store, 'key');
+
+      expect(cached?.stale).toBe(false);
+      expect(cached?.response.headers.get(CACHE_STATUS_HEADER)).toBe('HIT');
+      expect(await cached?.response.json()).toEqual({ data: [1], error: null });
+      expect(store.set).toHaveBeenCalledWith('key', expect.any(Object), { ttl: 60 });
+    });
+
+    it('should mark entries past their ttl as stale within the revalidation window', async () => {
+      vi.useFakeTimers();
+      await ResponseCacheProcessor.save(store, 'key', { ttl: 10, staleWhileRevalidate: 30 }, {}, jsonResponse({ data: 1 }));
+
+      vi.advanceTimersByTime(15_000);
+      const stale = await ResponseCacheProcessor.lookup(store, 'key');
+      expect(stale?.stale).toBe(true);
+      expect(stale?.response.headers.get(CACHE_STATUS_HEADER)).toBe('STALE');
+
+      vi.advanceTimersByTime(30_000);
+      expect(await ResponseCacheProcessor.lookup(store, 'key')).toBeNull();
+    });
+
+    it('should not cache error or cookie responses', async () => {
+      await ResponseCacheProcessor.save(store, 'error', { ttl: 60 }, {}, jsonResponse({ error: 'x' }, 500));
+
+      const withCookie = jsonResponse({ data: 1 });
+      withCookie.headers.append('Set-Cookie', 'session=1');
+      await ResponseCacheProcessor.save(store, 'cookie', { ttl: 60 }, {}, withCookie);
+
+      expect(store.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should drop every entry registered under a tag', async () => {
+      const users = await ResponseCacheProcessor.getTagVersions(store, ['users.list']);
+      const posts = await ResponseCacheProcessor.getTagVersions(store, ['posts.list']);
+      await ResponseCacheProcessor.save(store, 'page-1', { ttl: 60 }, users, jsonResponse({ data: 1 }));
+      await ResponseCacheProcessor.save(store, 'page-2', { ttl: 60 }, users, jsonResponse({ data: 2 }));
+      await ResponseCacheProcessor.save(store, 'other', { ttl: 60 }, posts, jsonResponse({ data: 3 }));
+
+      await ResponseCacheProcessor.invalidate(store, ['users.list']);
+
+      expect(await ResponseCacheProcessor.lookup(store, 'page-1')).toBeNull();
+      expect(await ResponseCacheProcessor.lookup(store, 'page-2')).toBeNull();
+      expect(await ResponseCacheProcessor.lookup(store, 'other')).not.toBeNull();
+    });
+
+    it('should drop the entries computed while their tag was invalidated', async () => {
+      const versions = await ResponseCacheProcessor.getTagVersions(store, ['users.list']);
+
+      // The response is still being computed when a mutation invalidates its tag
+      await ResponseCacheProcessor.invalidate(store, ['users.list']);
+      await ResponseCacheProcessor.save(store, 'page-1', { ttl: 60 }, versions, jsonResponse({ data: 1 }));
+
+      expect(await ResponseCacheProcessor.lookup(store, 'page-1')).toBeNull();
+    });
+
+    it('should not lose entries saved concurrently', async () => {
+      const versions = await ResponseCacheProcessor.getTagVersions(store, ['users.list']);
+      await Promise.all(
+        Array.from({ length: 5 }, (_, page) =>
+          ResponseCacheProcessor.save(store, `page-${page}`, { ttl: 60 }, versions, jsonResponse({ data: page }))),
+      );
+
+      await ResponseCacheProcessor.invalidate(store, ['users.list']);
+
+      for (let page = 0; page < 5; page++) {
+        expect(await ResponseCacheProcessor.lookup(store, `page-${page}`)).toBeNull();
+      }
+    });
+  });
+
+  describe('refresh lock', () => {
+    it('should only be acquired once until released', async () => {
+      expect(await ResponseCacheProcessor.acquireRefreshLock(store, 'key', 10)).toBe(true);
+      expect(await ResponseCacheProcessor.acquireRefreshLock(store, 'key', 10)).toBe(false);
+
+      await ResponseCacheProcessor.releaseRefreshLock(store, 'key');
+
+      expect(await ResponseCacheProcessor.acquireRefreshLock(store, 'key', 10)).toBe(true);
+    });
+
+    it('should expire after its TTL when it is not released', async () => {
+      vi.useFakeTimers();
+
+      expect(await ResponseCacheProcessor.acquireRefreshLock(store, 'key', 10)).toBe(true);
+      vi.advanceTimersByTime(9000);
+      expect(await ResponseCacheProcessor.acquireRefreshLock(store, 'key', 10)).toBe(false);
+      vi.advanceTimersByTime(1000);
+      expect(await ResponseCacheProcessor.acquireRefreshLock(store, 'key', 10)).toBe(true);
+
+      // The lock and its TTL are set in a single call
+      expect(store.setIfAbsent).toHaveBeenCalledWith('key:lock', 1, { ttl: 10 });
+      expect(store.increment).not.toHaveBeenCalled();
+      expect(store.expire).not.toHaveBeenCalled();
+    });
+  });
+});
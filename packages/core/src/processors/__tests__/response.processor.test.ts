@@ -4,14 +4,16 @@ import type { IgniterStoreAdapter } from '../../types/store.interface';
 import type { CookieOptions } from '../../types/cookie.interface';
 
 // Mock the SSEProcessor
-vi.mock('../sse.processor', () => ({
-  SSEProcessor: {
+vi.mock('../sse.processor', () => {
+  const SSEProcessor = {
     channelExists: vi.fn(),
     registerChannel: vi.fn(),
     publishEvent: vi.fn(),
     getRegisteredChannels: vi.fn(),
-  }
-}));
+    publishDistributed: vi.fn(async (event: any) => SSEProcessor.publishEvent(event)),
+  };
+  return { SSEProcessor };
+});
 
 // Mock the logger service
 vi.mock('../../services/logger.service', () => ({
@@ -325,6 +327,26 @@ describe('Response Processor', () => {
       });
     });
 
+    it('should create too many requests response', async () => {
+      const response = await IgniterResponseProcessor.init()
+        .setHeader('Retry-After', '30')
+        .tooManyRequests('Slow down', { retryAfter: 30 })
+        .toResponse();
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBe('30');
+
+      const body = await response.json();
+      expect(body).toEqual({
+        error: {
+          message: 'Slow down',
+          code: 'ERR_TOO_MANY_REQUESTS',
+          data: { retryAfter: 30 }
+        },
+        data: null
+      });
+    });
+
     it('should create error responses with custom data', async () => {
       const errorData = { resourceId: '123', resource: 'user' };
       
@@ -0,0 +1,390 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SSEProcessor, SSE_DISTRIBUTION_CHANNEL, type SSEEvent } from '../sse.processor';
+import type { EventCallback, IgniterStoreAdapter } from '../../types/store.interface';
+
+function createPubSubStore() {
+  const data = new Map<string, any>();
+  const subscribers = new Map<string, EventCallback[]>();
+  const store = {
+    client: subscribers,
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: any) => { data.set(key, value); }),
+    delete: vi.fn(async () => {}),
+    has: vi.fn(async () => false),
+    increment: vi.fn(async () => 1),
+    expire: vi.fn(async () => {}),
+    pushToList: vi.fn(async (key: string, value: any, options?: { maxLength?: number }) => {
+      const list = [...(data.get(key) ?? []), JSON.parse(JSON.stringify(value))];
+      data.set(key, options?.maxLength ? list.slice(-options.maxLength) : list);
+    }),
+    getList: vi.fn(async (key: string) => data.get(key) ?? []),
+    // Serialize like the Redis adapter does, delivering to every subscriber including the publisher
+    publish: vi.fn(async (channel: string, message: any) => {
+      const payload = JSON.parse(JSON.stringify(message));
+      for (const callback of subscribers.get(channel) || []) {
+        await callback(payload);
+      }
+    }),
+    subscribe: vi.fn(async (channel: string, callback: EventCallback) => {
+      subscribers.set(channel, [...(subscribers.get(channel) || []), callback]);
+    }),
+    unsubscribe: vi.fn(async () => {}),
+  } as IgniterStoreAdapter;
+
+  /**
+   * Simulates an event published by another instance sharing the store
+   */
+  const receive = (event: SSEEvent) =>
+    store.publish(SSE_DISTRIBUTION_CHANNEL, { origin: 'other-instance', event });
+
+  return { store, receive };
+}
+
+async function readMessages(response: Response, count: number): Promise<string[]> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const messages: string[] = [];
+
+  while (messages.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    messages.push(decoder.decode(value));
+  }
+
+  await reader.cancel();
+  return messages;
+}
+
+describe('SSEProcessor distribution', () => {
+  let events: SSEEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    SSEProcessor.registerChannel({ id: 'notifications' });
+    events = [];
+    unsubscribe = SSEProcessor.subscribe(['notifications'], (event) => events.push(event));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    for (const channel of SSEProcessor.getRegisteredChannels()) {
+      SSEProcessor.unregisterChannel(channel.id);
+    }
+  });
+
+  it('should publish events to the store and deliver them locally once', async () => {
+    const { store } = createPubSubStore();
+
+    const sent = await SSEProcessor.publishDistributed(
+      { channel: 'notifications', data: { title: 'Hi' } },
+      store,
+    );
+
+    expect(sent).toBe(1);
+    expect(store.subscribe).toHaveBeenCalledWith(SSE_DISTRIBUTION_CHANNEL, expect.any(Function));
+    expect(store.publish).toHaveBeenCalledWith(
+      SSE_DISTRIBUTION_CHANNEL,
+      expect.objectContaining({
+        event: expect.objectContaining({ channel: 'notifications', id: expect.any(String) }),
+      }),
+    );
+    expect(events).toHaveLength(1);
+  });
+
+  it('should deliver events published by other instances to local connections', async () => {
+    const { store, receive } = createPubSubStore();
+    await SSEProcessor.enableDistribution(store);
+
+    await receive({ channel: 'notifications', id: 'remote-1', type: 'created', data: { title: 'Hi' } });
+
+    expect(events).toEqual([
+      expect.objectContaining({ id: 'remote-1', type: 'created', data: expect.objectContaining({ title: 'Hi' }) }),
+    ]);
+  });
+
+  it('should de-duplicate events received more than once', async () => {
+    const { store, receive } = createPubSubStore();
+    await SSEProcessor.enableDistribution(store);
+
+    await receive({ channel: 'notifications', id: 'remote-2', data: {} });
+    await receive({ channel: 'notifications', id: 'remote-2', data: {} });
+
+    expect(events).toHaveLength(1);
+  });
+
+  it('should subscribe to a store only once', async () => {
+    const { store } = createPubSubStore();
+
+    await SSEProcessor.enableDistribution(store);
+    await SSEProcessor.enableDistribution(store);
+
+    expect(store.subscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore events for channels not registered on this instance', async () => {
+    const { store, receive } = createPubSubStore();
+    await SSEProcessor.enableDistribution(store);
+
+    await receive({ channel: 'unknown', id: 'remote-3', data: {} });
+
+    expect(events).toHaveLength(0);
+  });
+
+  it('should publish locally when the store has no pub/sub', async () => {
+    const sent = await SSEProcessor.publishDistributed({ channel: 'notifications', data: {} }, {} as any);
+
+    expect(sent).toBe(1);
+    expect(events).toHaveLength(1);
+  });
+});
+
+describe('SSEProcessor replay', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    for (const channel of SSEProcessor.getRegisteredChannels()) {
+      SSEProcessor.unregisterChannel(channel.id);
+    }
+  });
+
+  it('should not keep events of channels without retention', async () => {
+    SSEProcessor.registerChannel({ id: 'notifications' });
+    SSEProcessor.publishEvent({ channel: 'notifications', id: 'evt-1', data: {} });
+    SSEProcessor.publishEvent({ channel: 'notifications', id: 'evt-2', data: {} });
+
+    expect(await SSEProcessor.getEventsSince(['notifications'], 'evt-1')).toEqual([]);
+  });
+
+  it('should return the events published after the last event id', async () => {
+    SSEProcessor.registerChannel({ id: 'notifications', retention: {} });
+    for (const id of ['evt-1', 'evt-2', 'evt-3']) {
+      SSEProcessor.publishEvent({ channel: 'notifications', id, data: {} });
+    }
+
+    const events = await SSEProcessor.getEventsSince(['notifications'], 'evt-1');
+
+    expect(events.map((event) => event.id)).toEqual(['evt-2', 'evt-3']);
+  });
+
+  it('should keep at most maxEvents per channel', async () => {
+    SSEProcessor.registerChannel({ id: 'notifications', retention: { maxEvents: 2 } });
+    for (const id of ['evt-1', 'evt-2', 'evt-3', 'evt-4']) {
+      SSEProcessor.publishEvent({ channel: 'notifications', id, data: {} });
+    }
+
+    expect(await SSEProcessor.getEventsSince(['notifications'], 'evt-1')).toEqual([]);
+    expect((await SSEProcessor.getEventsSince(['notifications'], 'evt-3')).map((event) => event.id)).toEqual(['evt-4']);
+  });
+
+  it('should drop events older than the ttl', async () => {
+    vi.useFakeTimers();
+    SSEProcessor.registerChannel({ id: 'notifications', retention: { ttl: 60 } });
+    SSEProcessor.publishEvent({ channel: 'notifications', id: 'evt-1', data: {} });
+    SSEProcessor.publishEvent({ channel: 'notifications', id: 'evt-2', data: {} });
+
+    vi.advanceTimersByTime(61_000);
+
+    expect(await SSEProcessor.getEventsSince(['notifications'], 'evt-1')).toEqual([]);
+  });
+
+  it('should merge the events of every requested channel in publish order', async () => {
+    vi.useFakeTimers();
+    SSEProcessor.registerChannel({ id: 'notifications', retention: {} });
+    SSEProcessor.registerChannel({ id: 'revalidation', retention: {} });
+
+    SSEProcessor.publishEvent({ channel: 'notifications', id: 'evt-1', data: {} });
+    vi.advanceTimersByTime(10);
+    SSEProcessor.publishEvent({ channel: 'revalidation', id: 'evt-2', data: {} });
+    vi.advanceTimersByTime(10);
+    SSEProcessor.publishEvent({ channel: 'notifications', id: 'evt-3', data: {} });
+
+    const events = await SSEProcessor.getEventsSince(['notifications', 'revalidation'], 'evt-1');
+
+    expect(events.map((event) => event.id)).toEqual(['evt-2', 'evt-3']);
+  });
+
+  it('should keep the history in the store adapter', async () => {
+    const { store } = createPubSubStore();
+    SSEProcessor.registerChannel({ id: 'notifications', retention: { store, ttl: 120 } });
+
+    await SSEProcessor.publishDistributed({ channel: 'notifications', id: 'evt-1', data: {} });
+    await SSEProcessor.publishDistributed({ channel: 'notifications', id: 'evt-2', data: {} });
+    await vi.waitFor(async () => {
+      expect(await store.getList!('igniter:realtime:history:notifications')).toHaveLength(2);
+    });
+
+    expect(store.pushToList).toHaveBeenCalledWith(
+      'igniter:realtime:history:notifications',
+      expect.objectContaining({ event: expect.objectContaining({ id: 'evt-2' }) }),
+      { maxLength: 100, ttl: 120 },
+    );
+    expect(store.set).not.toHaveBeenCalled();
+    const events = await SSEProcessor.getEventsSince(['notifications'], 'evt-1');
+    expect(events.map((event) => event.id)).toEqual(['evt-2']);
+  });
+
+  it('should keep the history in memory when the store adapter has no list operations', async () => {
+    const { store } = createPubSubStore();
+    delete store.pushToList;
+    delete store.getList;
+    SSEProcessor.registerChannel({ id: 'notifications', retention: { store } });
+
+    await SSEProcessor.publishDistributed({ channel: 'notifications', id: 'evt-1', data: {} });
+    await SSEProcessor.publishDistributed({ channel: 'notifications', id: 'evt-2', data: {} });
+
+    const events = await SSEProcessor.getEventsSince(['notifications'], 'evt-1');
+    expect(events.map((event) => event.id)).toEqual(['evt-2']);
+  });
+
+  it('should keep the history of the channels matching a pattern with retention', async () => {
+    SSEProcessor.registerChannel({ id: 'jobs:{jobId}', retention: { maxEvents: 2 } });
+    for (const id of ['evt-1', 'evt-2', 'evt-3']) {
+      SSEProcessor.publishEvent({ channel: 'jobs:job-1', id, data: {} });
+    }
+
+    const events = await SSEProcessor.getEventsSince(['jobs:job-1'], 'evt-2');
+    SSEProcessor.unregisterChannel('jobs:{jobId}');
+
+    expect(events.map((event) => event.id)).toEqual(['evt-3']);
+    expect(await SSEProcessor.getEventsSince(['jobs:job-1'], 'evt-2')).toEqual([]);
+  });
+
+  it('should serve the history of a channel matching the scopes of the request', async () => {
+    SSEProcessor.registerChannel({ id: 'jobs:{jobId}', retention: {} });
+    SSEProcessor.publishEvent({ channel: 'jobs:job-2', id: 'evt-1', data: { status: 'active' }, scopes: ['user:1'] });
+    SSEProcessor.publishEvent({ channel: 'jobs:job-2', id: 'evt-2', data: { status: 'completed' } });
+
+    const response = await SSEProcessor.handleHistory(
+      new Request('http://localhost/api/v1/sse/history?channel=jobs:job-2&scopes=user:2'),
+    );
+    const granted = await SSEProcessor.handleHistory(
+      new Request('http://localhost/api/v1/sse/history?channel=jobs:job-2&scopes=user:2'),
+      () => ({ scopes: ['user:1'] }),
+    );
+    const unknown = await SSEProcessor.handleHistory(
+      new Request('http://localhost/api/v1/sse/history?channel=orders:1'),
+    );
+    SSEProcessor.unregisterChannel('jobs:{jobId}');
+
+    expect((await response.json()).events.map((event: SSEEvent) => event.id)).toEqual(['evt-2']);
+    expect((await granted.json()).events.map((event: SSEEvent) => event.id)).toEqual(['evt-1', 'evt-2']);
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should replay missed events to connections sending Last-Event-ID', async () => {
+    SSEProcessor.registerChannel({ id: 'notifications', retention: {} });
+    for (const id of ['evt-1', 'evt-2', 'evt-3']) {
+      SSEProcessor.publishEvent({ channel: 'notifications', id, type: 'created', data: { id } });
+    }
+
+    const response = await SSEProcessor.handleConnection(
+      new Request('http://localhost/api/v1/sse/events?channels=notifications', {
+        headers: { 'Last-Event-ID': 'evt-1' },
+      }),
+    );
+    const [connected, ...replayed] = await readMessages(response, 3);
+
+    expect(connected).toContain('event: connected');
+    expect(replayed[0]).toContain('id: evt-2');
+    expect(replayed[1]).toContain('id: evt-3');
+  });
+
+  it('should read the last event id from the query string', async () => {
+    SSEProcessor.registerChannel({ id: 'notifications', retention: {} });
+    for (const id of ['evt-1', 'evt-2']) {
+      SSEProcessor.publishEvent({ channel: 'notifications', id, data: { id } });
+    }
+
+    const response = await SSEProcessor.handleConnection(
+      new Request('http://localhost/api/v1/sse/events?channels=notifications&lastEventId=evt-1'),
+    );
+    const [, replayed] = await readMessages(response, 2);
+
+    expect(replayed).toContain('id: evt-2');
+  });
+
+  it('should deliver the events published while the missed events are read, once', async () => {
+    const { store } = createPubSubStore();
+    SSEProcessor.registerChannel({ id: 'notifications', retention: { store } });
+    await store.pushToList('igniter:realtime:history:notifications', { event: { channel: 'notifications', id: 'evt-1', data: {} }, publishedAt: Date.now() });
+    await store.pushToList('igniter:realtime:history:notifications', { event: { channel: 'notifications', id: 'evt-2', data: {} }, publishedAt: Date.now() });
+
+    let readHistory!: () => void;
+    const historyRead = new Promise<void>((resolve) => { readHistory = resolve; });
+    const getList = store.getList;
+    vi.mocked(store.getList).mockImplementationOnce(async (key: string) => {
+      await historyRead;
+      return getList(key);
+    });
+
+    const response = await SSEProcessor.handleConnection(
+      new Request('http://localhost/api/v1/sse/events?channels=notifications&lastEventId=evt-1'),
+    );
+    const messages = readMessages(response, 4);
+
+    // Published while the history is read, and recorded in it
+    await SSEProcessor.publishDistributed({ channel: 'notifications', id: 'evt-3', data: {} });
+    await vi.waitFor(async () => {
+      expect(await getList('igniter:realtime:history:notifications')).toHaveLength(3);
+    });
+    readHistory();
+    await SSEProcessor.publishDistributed({ channel: 'notifications', id: 'evt-4', data: {} });
+
+    const [, ...delivered] = await messages;
+    expect(delivered.map((message) => message.match(/id: (evt-\d)/)?.[1])).toEqual(['evt-2', 'evt-3', 'evt-4']);
+  });
+});
+
+describe('SSEProcessor connections', () => {
+  beforeEach(() => {
+    SSEProcessor.registerChannel({ id: 'notifications' });
+  });
+
+  afterEach(() => {
+    for (const channel of SSEProcessor.getRegisteredChannels()) {
+      SSEProcessor.unregisterChannel(channel.id);
+    }
+  });
+
+  it('should reject connections the authorizer refuses', async () => {
+    const response = await SSEProcessor.handleConnection(
+      new Request('http://localhost/api/v1/sse/events?channels=notifications'),
+      () => false,
+    );
+
+    expect(response.status).toBe(401);
+    expect(SSEProcessor.getConnectionCount('notifications')).toBe(0);
+  });
+
+  it('should grant the scopes of the authorizer instead of the requested scopes', async () => {
+    const response = await SSEProcessor.handleConnection(
+      new Request('http://localhost/api/v1/sse/events?channels=notifications&scopes=user:2'),
+      () => ({ scopes: ['user:1'] }),
+    );
+    const messages = readMessages(response, 2);
+
+    SSEProcessor.publishEvent({ channel: 'notifications', id: 'evt-1', data: {}, scopes: ['user:2'] });
+    SSEProcessor.publishEvent({ channel: 'notifications', id: 'evt-2', data: {}, scopes: ['user:1'] });
+
+    const [, delivered] = await messages;
+    expect(delivered).toContain('id: evt-2');
+  });
+
+  it('should notify the member of the connections opening and closing', async () => {
+    const changes: unknown[] = [];
+    const stopListening = SSEProcessor.onConnectionChange((change) => changes.push(change));
+    const member = { id: 'user-1', metadata: { name: 'Ada' } };
+
+    const response = await SSEProcessor.handleConnection(
+      new Request('http://localhost/api/v1/sse/events?channels=notifications'),
+      () => ({ member }),
+    );
+    await readMessages(response, 1);
+    stopListening();
+
+    expect(changes).toEqual([
+      { type: 'open', channel: 'notifications', member },
+      { type: 'close', channel: 'notifications', member },
+    ]);
+    expect(SSEProcessor.getConnectionCount('notifications')).toBe(0);
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { WebSocketProcessor, type IgniterWebSocket } from '../websocket.processor';
+import { SSEProcessor } from '../sse.processor';
+import { IgniterRealtimeService } from '../../services/realtime.service';
+
+function createSocket() {
+  const messages: any[] = [];
+  const socket: IgniterWebSocket & { readyState: number } = {
+    readyState: 1,
+    send: vi.fn((data: string) => { messages.push(JSON.parse(data)); }),
+    close: vi.fn(),
+  };
+  return { socket, messages };
+}
+
+describe('WebSocketProcessor', () => {
+  beforeEach(() => {
+    SSEProcessor.registerChannel({ id: 'revalidation' });
+    SSEProcessor.registerChannel({ id: 'notifications' });
+    SSEProcessor.registerChannel({
+      id: 'chat',
+      schema: z.object({ text: z.string().min(1) }),
+      clientPublish: true,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    WebSocketProcessor.closeAllConnections();
+    for (const channel of SSEProcessor.getRegisteredChannels()) {
+      SSEProcessor.unregisterChannel(channel.id);
+    }
+  });
+
+  it('should parse the channels but not the scopes from the upgrade url', () => {
+    const params = WebSocketProcessor.parseConnectionParams(
+      new URL('http://localhost/api/v1/ws/events?channels=chat,notifications&scopes=user:1'),
+    );
+
+    expect(params).toEqual({ channels: ['chat', 'notifications'] });
+  });
+
+  describe('authorize', () => {
+    const request = new Request('http://localhost/api/v1/ws/events?channels=chat&scopes=user:2', {
+      headers: { Authorization: 'Bearer token' },
+    });
+
+    it('should grant the scopes and the member returned by the authorizer', async () => {
+      const authorizer = vi.fn(async () => ({ scopes: ['user:1'], member: { id: 'user-1' } }));
+
+      const params = await WebSocketProcessor.authorize(request, authorizer);
+
+      expect(authorizer).toHaveBeenCalledWith(request);
+      expect(params).toEqual({ channels: ['chat'], scopes: ['user:1'], member: { id: 'user-1' } });
+    });
+
+    it('should accept upgrades without scopes when there is no authorizer', async () => {
+      expect(await WebSocketProcessor.authorize(request)).toEqual({ channels: ['chat'] });
+      expect(await WebSocketProcessor.authorize(request, () => true)).toEqual({ channels: ['chat'], scopes: undefined });
+    });
+
+    it('should reject upgrades the authorizer denies or fails to authorize', async () => {
+      expect(await WebSocketProcessor.authorize(request, () => false)).toBeNull();
+      expect(await WebSocketProcessor.authorize(request, async () => { throw new Error('Session store down'); })).toBeNull();
+    });
+  });
+
+  it('should subscribe to the requested channels on open', async () => {
+    const { socket, messages } = createSocket();
+
+    await WebSocketProcessor.handleOpen(socket, { channels: ['chat'] });
+
+    expect(messages[0]).toEqual(expect.objectContaining({ type: 'connected', channels: ['chat'] }));
+    expect(SSEProcessor.getConnectionCount('chat')).toBe(1);
+    expect(SSEProcessor.getConnectionCount('notifications')).toBe(0);
+  });
+
+  it('should deliver events published by the realtime service', async () => {
+    const { socket, messages } = createSocket();
+    await WebSocketProcessor.handleOpen(socket, { channels: ['notifications'] });
+
+    await new IgniterRealtimeService({} as any).publish('notifications', { title: 'Hi' }, { type: 'created' });
+
+    expect(messages[1]).toEqual(expect.objectContaining({
+      type: 'event',
+      channel: 'notifications',
+      event: 'created',
+      data: expect.objectContaining({ title: 'Hi' }),
+    }));
+  });
+
+  it('should deliver revalidation events with the same scope filtering as SSE', async () => {
+    const tenantA = createSocket();
+    const tenantB = createSocket();
+    await WebSocketProcessor.handleOpen(tenantA.socket, { channels: ['revalidation'], scopes: ['tenant:a'] });
+    await WebSocketProcessor.handleOpen(tenantB.socket, { channels: ['revalidation'], scopes: ['tenant:b'] });
+
+    await new IgniterRealtimeService({} as any).revalidate({ path: 'users.list', scopes: ['tenant:a'] });
+
+    expect(tenantA.messages[1]).toEqual(expect.objectContaining({
+      type: 'event',
+      event: 'revalidate',
+      data: expect.objectContaining({ queryKeys: ['users.list'] }),
+    }));
+    expect(tenantB.messages).toHaveLength(1);
+  });
+
+  it('should subscribe and unsubscribe through messages', async () => {
+    const { socket, messages } = createSocket();
+    await WebSocketProcessor.handleOpen(socket, { channels: ['chat'] });
+
+    await WebSocketProcessor.handleMessage(socket, JSON.stringify({ type: 'subscribe', channels: ['notifications', 'unknown'] }));
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'error', code: 'INVALID_CHANNEL' }));
+    expect(messages).toContainEqual({ type: 'subscribed', channels: ['chat', 'notifications'] });
+
+    await WebSocketProcessor.handleMessage(socket, JSON.stringify({ type: 'unsubscribe', channels: ['chat'] }));
+    expect(SSEProcessor.getConnectionCount('chat')).toBe(0);
+    expect(SSEProcessor.getConnectionCount('notifications')).toBe(1);
+  });
+
+  it('should fan out client events that match the channel schema', async () => {
+    const sender = createSocket();
+    const receiver = createSocket();
+    await WebSocketProcessor.handleOpen(sender.socket, { channels: ['chat'] });
+    await WebSocketProcessor.handleOpen(receiver.socket, { channels: ['chat'] });
+
+    await WebSocketProcessor.handleMessage(sender.socket, JSON.stringify({
+      type: 'publish',
+      channel: 'chat',
+      event: 'message',
+      id: 'msg-1',
+      data: { text: 'Hello' },
+    }));
+
+    const published = sender.messages.find((message) => message.type === 'published');
+    expect(published).toEqual({ type: 'published', channel: 'chat', id: expect.any(String) });
+    expect(published.id).not.toBe('msg-1');
+    expect(receiver.messages).toContainEqual(expect.objectContaining({
+      type: 'event',
+      channel: 'chat',
+      event: 'message',
+      id: published.id,
+      data: expect.objectContaining({ text: 'Hello' }),
+    }));
+  });
+
+  it('should reject client events that do not match the channel schema', async () => {
+    const sender = createSocket();
+    const receiver = createSocket();
+    await WebSocketProcessor.handleOpen(sender.socket, { channels: ['chat'] });
+    await WebSocketProcessor.handleOpen(receiver.socket, { channels: ['chat'] });
+
+    await WebSocketProcessor.handleMessage(sender.socket, JSON.stringify({
+      type: 'publish',
+      channel: 'chat',
+      data: { text: '' },
+    }));
+
+    expect(sender.messages).toContainEqual(expect.objectContaining({ type: 'error', code: 'VALIDATION_ERROR' }));
+    expect(receiver.messages).toHaveLength(1);
+  });
+
+  it('should reject client events on channels without a schema', async () => {
+    const { socket, messages } = createSocket();
+    await WebSocketProcessor.handleOpen(socket, { channels: ['revalidation'] });
+
+    await WebSocketProcessor.handleMessage(socket, JSON.stringify({
+      type: 'publish',
+      channel: 'revalidation',
+      data: { queryKeys: ['users.list'] },
+    }));
+
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'error', code: 'PUBLISH_NOT_ALLOWED' }));
+  });
+
+  it('should reject client events on channels that do not opt in', async () => {
+    SSEProcessor.registerChannel({ id: 'orders', schema: z.object({ id: z.string() }) });
+    const { socket, messages } = createSocket();
+    await WebSocketProcessor.handleOpen(socket, { channels: ['orders'] });
+
+    await WebSocketProcessor.handleMessage(socket, JSON.stringify({
+      type: 'publish',
+      channel: 'orders',
+      data: { id: '1' },
+    }));
+
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'error', code: 'PUBLISH_NOT_ALLOWED' }));
+  });
+
+  it('should reject client events on channels whose parameters do not match the params schema', async () => {
+    SSEProcessor.registerChannel({
+      id: 'chat:room:{roomId}',
+      schema: z.object({ text: z.string() }),
+      paramsSchema: z.object({ roomId: z.string().regex(/^\d+$/) }),
+      clientPublish: true,
+    });
+    const publish = vi.spyOn(SSEProcessor, 'publishDistributed');
+    const { socket, messages } = createSocket();
+    await WebSocketProcessor.handleOpen(socket, { channels: [] });
+
+    await WebSocketProcessor.handleMessage(socket, JSON.stringify({
+      type: 'publish',
+      channel: 'chat:room:lobby',
+      data: { text: 'Hello' },
+    }));
+    SSEProcessor.unregisterChannel('chat:room:{roomId}');
+
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'error', code: 'INVALID_CHANNEL' }));
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('should answer failed messages with an error frame', async () => {
+    const { socket, messages } = createSocket();
+    await WebSocketProcessor.handleOpen(socket, { channels: ['chat'] });
+    vi.spyOn(SSEProcessor, 'publishDistributed').mockRejectedValueOnce(new Error('Store unavailable'));
+
+    await expect(WebSocketProcessor.handleMessage(socket, JSON.stringify({
+      type: 'publish',
+      channel: 'chat',
+      data: { text: 'Hello' },
+    }))).resolves.toBeUndefined();
+
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'error', code: 'INTERNAL_ERROR' }));
+  });
+
+  it('should answer invalid messages and pings', async () => {
+    const { socket, messages } = createSocket();
+    await WebSocketProcessor.handleOpen(socket, { channels: ['chat'] });
+
+    await WebSocketProcessor.handleMessage(socket, 'not json');
+    await WebSocketProcessor.handleMessage(socket, JSON.stringify({ type: 'ping' }));
+
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'error', code: 'INVALID_MESSAGE' }));
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'pong' }));
+  });
+
+  it('should remove subscriptions when the socket closes', async () => {
+    const { socket } = createSocket();
+    await WebSocketProcessor.handleOpen(socket, { channels: ['chat', 'notifications'] });
+
+    WebSocketProcessor.handleClose(socket);
+
+    expect(SSEProcessor.getConnectionCount('chat')).toBe(0);
+    expect(SSEProcessor.getConnectionCount('notifications')).toBe(0);
+    expect(WebSocketProcessor.getConnectionCount()).toBe(0);
+  });
+});
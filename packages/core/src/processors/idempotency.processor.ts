@@ -0,0 +1,259 @@
+import type { IgniterLogger } from "../types";
+import type { IgniterMutationIdempotencyOptions } from "../types/action.interface";
+import type { IgniterStoreAdapter } from "../types/store.interface";
+import { IgniterResponseError } from "../types/response.interface";
+import type { ProcessedContext } from "./context-builder.processor";
+import { IgniterResponseProcessor } from "./response.processor";
+import { IgniterConsoleLogger } from "../services/logger.service";
+import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+import { getCredentialScope } from "../utils/credentials";
+
+/**
+ * Serialized mutation response persisted for replays
+ */
+export interface IdempotentResponseEntry {
+  /**
+   * Fingerprint of the request body the response was produced for
+   */
+  fingerprint: string;
+
+  /**
+   * HTTP status code of the response
+   */
+  status: number;
+
+  /**
+   * Response headers, without the headers specific to the caller's session
+   */
+  headers: [string, string][];
+
+  /**
+   * Raw response body
+   */
+  body: string;
+}
+
+/**
+ * Lock held while the first request with an idempotency key is processed
+ */
+export interface IdempotencyLock {
+  /**
+   * Store key of the persisted response
+   */
+  key: string;
+
+  /**
+   * Store key of the in-flight lock
+   */
+  lockKey: string;
+
+  /**
+   * Fingerprint of the request body
+   */
+  fingerprint: string;
+
+  /**
+   * Time, in seconds, during which the response is replayed
+   */
+  ttl: number;
+}
+
+/**
+ * Result of the idempotency check. Either a response to send right away
+ * (replay, conflict or missing key) or the lock to release once the request completes.
+ */
+export interface IdempotencyCheckResult {
+  response?: Response;
+  lock?: IdempotencyLock;
+}
+
+const IDEMPOTENCY_PREFIX = "igniter:idempotency";
+
+const DEFAULT_HEADER = "Idempotency-Key";
+const DEFAULT_TTL = 60 * 60 * 24;
+const DEFAULT_LOCK_TIMEOUT = 60;
+
+/**
+ * Response headers left out of the stored responses, as they belong to the session of the first request
+ */
+const EXCLUDED_HEADERS = ["set-cookie", "set-cookie2", "www-authenticate", "proxy-authenticate"];
+
+/**
+ * Header set on replayed responses
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = "Idempotent-Replayed";
+
+/**
+ * Idempotency processor for the Igniter Framework.
+ * Replays the stored response of a mutation when a caller retries it with the same `Idempotency-Key`.
+ * Runs before the middlewares, so replays skip their side effects, and scopes the keys to the credentials of the caller.
+ */
+export class IdempotencyProcessor {
+  private static _logger: IgniterLogger;
+
+  private static get logger(): IgniterLogger {
+    if (!this._logger) {
+      this._logger = IgniterConsoleLogger.create({
+        level: resolveLogLevel(),
+        context: createLoggerContext('Idempotency'),
+        showTimestamp: true,
+      });
+    }
+    return this._logger;
+  }
+
+  /**
+   * Normalizes the `idempotency` option of a mutation.
+   *
+   * @param option - The `idempotency` option of the mutation
+   * @returns The options with defaults applied
+   */
+  static resolveOptions(
+    option: boolean | IgniterMutationIdempotencyOptions,
+  ): Required<IgniterMutationIdempotencyOptions> {
+    const options = typeof option === "object" ? option : {};
+    return {
+      header: options.header || DEFAULT_HEADER,
+      ttl: options.ttl ?? DEFAULT_TTL,
+      lockTimeout: options.lockTimeout ?? DEFAULT_LOCK_TIMEOUT,
+      required: options.required ?? false,
+      scope: options.scope ?? (({ request }) => getCredentialScope(request.headers)),
+    };
+  }
+
+  /**
+   * Checks the idempotency key of a request before its handler runs.
+   * Replays a stored response, rejects duplicates of an in-flight request with a 409,
+   * or locks the key so the caller can process the request.
+   *
+   * @param store - The store adapter
+   * @param actionKey - The `controller.action` key of the mutation
+   * @param option - The `idempotency` option of the mutation
+   * @param context - The processed context, extended by the middlewares
+   * @returns The response to send, the lock to release, or neither when the request has no key
+   */
+  static async check(
+    store: IgniterStoreAdapter,
+    actionKey: string,
+    option: boolean | IgniterMutationIdempotencyOptions,
+    context: ProcessedContext,
+  ): Promise<IdempotencyCheckResult> {
+    const options = this.resolveOptions(option);
+    const idempotencyKey = context.request.headers.get(options.header);
+
+    if (!idempotencyKey) {
+      if (options.required) {
+        this.logger.debug("Idempotency key missing", { action: actionKey });
+        const response = IgniterResponseProcessor.init();
+        response.badRequest(`Missing ${options.header} header`);
+        return { response: await response.toResponse() };
+      }
+      return {};
+    }
+
+    const scope = await options.scope({ request: context.request, context: context.$context });
+    const key = `${IDEMPOTENCY_PREFIX}:${actionKey}:${scope}:${idempotencyKey}`;
+    const lockKey = `${key}:lock`;
+    const fingerprint = JSON.stringify(context.request.body ?? null);
+
+    const stored = await store.get<IdempotentResponseEntry>(key);
+    if (stored) {
+      if (stored.fingerprint !== fingerprint) {
+        this.logger.warn("Idempotency key reused with a different body", { action: actionKey });
+        return {
+          response: await this.errorResponse(
+            "ERR_UNPROCESSABLE_ENTITY",
+            `${options.header} was already used with a different request body`,
+          ),
+        };
+      }
+
+      this.logger.debug("Idempotent response replayed", { action: actionKey });
+      const headers = new Headers(stored.headers);
+      headers.set(IDEMPOTENT_REPLAYED_HEADER, "true");
+      return {
+        response: new Response(stored.body, { status: stored.status, headers }),
+      };
+    }
+
+    // Set with its TTL in one call, so a crash cannot leave a key locked forever
+    const locked = await store.setIfAbsent(lockKey, 1, { ttl: options.lockTimeout });
+    if (!locked) {
+      this.logger.debug("Idempotent request already in flight", { action: actionKey });
+      return {
+        response: await this.errorResponse(
+          "ERR_CONFLICT",
+          `A request with this ${options.header} is already being processed`,
+        ),
+      };
+    }
+
+    return { lock: { key, lockKey, fingerprint, ttl: options.ttl } };
+  }
+
+  /**
+   * Stores the response of a locked request so duplicates replay it.
+   * Only successful, non-stream responses are stored, so failed requests can be retried.
+   * Cookies and authentication challenges are not stored.
+   *
+   * @param store - The store adapter
+   * @param lock - The lock acquired by {@link check}
+   * @param response - The final response (it is cloned, not consumed)
+   */
+  static async save(
+    store: IgniterStoreAdapter,
+    lock: IdempotencyLock,
+    response: Response,
+  ): Promise<void> {
+    if (response.status < 200 || response.status >= 300) return;
+
+    const contentType = response.headers.get("Content-Type") || "";
+    if (contentType.includes("text/event-stream")) return;
+
+    try {
+      const headers: [string, string][] = [];
+      response.headers.forEach((value, name) => {
+        if (EXCLUDED_HEADERS.includes(name.toLowerCase())) return;
+        headers.push([name, value]);
+      });
+
+      const entry: IdempotentResponseEntry = {
+        fingerprint: lock.fingerprint,
+        status: response.status,
+        headers,
+        body: await response.clone().text(),
+      };
+
+      await store.set(lock.key, entry, { ttl: lock.ttl });
+      this.logger.debug("Idempotent response stored", { key: lock.key, ttl: lock.ttl });
+    } catch (error) {
+      this.logger.warn("Idempotent response storing failed", { key: lock.key, error });
+    }
+  }
+
+  /**
+   * Releases the in-flight lock of a request.
+   *
+   * @param store - The store adapter
+   * @param lock - The lock acquired by {@link check}
+   */
+  static async release(
+    store: IgniterStoreAdapter,
+    lock: IdempotencyLock,
+  ): Promise<void> {
+    try {
+      await store.delete(lock.lockKey);
+    } catch (error) {
+      this.logger.warn("Idempotency lock release failed", { key: lock.lockKey, error });
+    }
+  }
+
+  private static errorResponse(
+    code: "ERR_CONFLICT" | "ERR_UNPROCESSABLE_ENTITY",
+    message: string,
+  ): Promise<Response> {
+    const response = IgniterResponseProcessor.init();
+    response.error(new IgniterResponseError({ code, message }));
+    return response.toResponse();
+  }
+}
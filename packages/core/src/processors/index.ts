@@ -9,3 +9,7 @@ export * from './context-builder.processor';
 export * from './middleware-executor.processor';
 export * from './telemetry-manager.processor';
 export * from './error-handler.processor';
+export * from './response-cache.processor';
+export * from './idempotency.processor';
+export * from './websocket.processor';
+export * from './jobs-admin.processor';
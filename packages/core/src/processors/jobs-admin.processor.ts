@@ -0,0 +1,209 @@
+import type { IgniterLogger } from "../types";
+import { IgniterError } from "../error";
+import type { IgniterJobsAdminOptions, JobQueueConfig, JobStatus } from "../types/jobs.interface";
+import { IgniterResponseError } from "../types/response.interface";
+import { IgniterResponseProcessor } from "./response.processor";
+import { IgniterConsoleLogger } from "../services/logger.service";
+import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+import { parseURL } from "../utils/url";
+
+const DEFAULT_PATH = "/_igniter/jobs";
+
+/**
+ * Jobs admin processor for the Igniter Framework.
+ * Serves the job management routes (queue counts, pause/resume/drain, job retry/cancel/promote,
+ * dead-letter entries) on top of the job queue adapter.
+ */
+export class JobsAdminProcessor {
+  private static _logger: IgniterLogger;
+
+  private static get logger(): IgniterLogger {
+    if (!this._logger) {
+      this._logger = IgniterConsoleLogger.create({
+        level: resolveLogLevel(),
+        context: createLoggerContext('JobsAdmin'),
+        showTimestamp: true,
+      });
+    }
+    return this._logger;
+  }
+
+  /**
+   * Checks whether a request targets the jobs admin routes.
+   *
+   * @param path - The request path
+   * @param basePATH - The base path of the API
+   * @param options - The jobs admin options
+   */
+  static matches(path: string, basePATH: string, options: IgniterJobsAdminOptions): boolean {
+    const prefix = parseURL(basePATH, options.path || DEFAULT_PATH);
+    return path === prefix || path.startsWith(`${prefix}/`);
+  }
+
+  /**
+   * Handles a request to the jobs admin routes.
+   *
+   * @param request - The incoming request
+   * @param basePATH - The base path of the API
+   * @param options - The jobs admin options
+   * @returns The response of the route
+   */
+  static async handle(
+    request: Request,
+    basePATH: string,
+    options: IgniterJobsAdminOptions,
+  ): Promise<Response> {
+    const url = new URL(request.url);
+    const prefix = parseURL(basePATH, options.path || DEFAULT_PATH);
+
+    if (!(await options.authorize(request))) {
+      this.logger.warn("Jobs admin request rejected", { path: url.pathname });
+      return this.errorResponse("ERR_FORBIDDEN", "Forbidden");
+    }
+
+    try {
+      const segments = url.pathname
+        .slice(prefix.length)
+        .split("/")
+        .filter(Boolean)
+        .map(decodeURIComponent);
+
+      const [resource, queueName, section, jobId, action] = segments;
+      if (resource !== "queues" || !queueName) {
+        return this.errorResponse("ERR_NOT_FOUND", "Route not found");
+      }
+
+      const { adapter } = options;
+      const queue: JobQueueConfig = { name: queueName, prefix: url.searchParams.get("prefix") || undefined };
+      const method = request.method;
+
+      // /queues/:queue
+      if (!section && method === "GET") {
+        return this.successResponse(await adapter.getQueueCounts(queue));
+      }
+
+      // /queues/:queue/pause | resume | drain
+      if (section && segments.length === 3 && method === "POST") {
+        switch (section) {
+          case "pause":
+            await adapter.pauseQueue(queue);
+            return this.successResponse({ queue: queueName, paused: true });
+          case "resume":
+            await adapter.resumeQueue(queue);
+            return this.successResponse({ queue: queueName, paused: false });
+          case "drain":
+            await adapter.drain(queue, { delayed: url.searchParams.get("delayed") === "true" });
+            return this.successResponse({ queue: queueName, drained: true });
+        }
+      }
+
+      if (section === "jobs") {
+        // /queues/:queue/jobs
+        if (!jobId && method === "GET") {
+          const status = url.searchParams.get("status");
+          const limit = url.searchParams.get("limit");
+          const offset = url.searchParams.get("offset");
+
+          return this.successResponse(await adapter.search({
+            queue,
+            filter: {
+              status: status ? (status.split(",") as JobStatus[]) : undefined,
+              limit: limit ? Number(limit) : undefined,
+              offset: offset ? Number(offset) : undefined,
+              flowId: url.searchParams.get("flowId") || undefined,
+            },
+          }));
+        }
+
+        // /queues/:queue/jobs/:id
+        if (jobId && !action && method === "GET") {
+          const job = await adapter.getJob({ id: jobId, queue });
+          return job
+            ? this.successResponse(job)
+            : this.errorResponse("ERR_NOT_FOUND", `Job "${jobId}" not found`);
+        }
+
+        // /queues/:queue/jobs/:id/retry | cancel | promote
+        if (jobId && segments.length === 5 && method === "POST" && ["retry", "cancel", "promote"].includes(action)) {
+          if (!(await adapter.getJob({ id: jobId, queue }))) {
+            return this.errorResponse("ERR_NOT_FOUND", `Job "${jobId}" not found`);
+          }
+
+          await adapter[action as "retry" | "cancel" | "promote"]({ id: jobId, queue });
+          this.logger.info(`Job ${action} requested`, { jobId, queue: queueName });
+          return this.successResponse({ id: jobId, action });
+        }
+      }
+
+      if (section === "dead-letters") {
+        const entryId = jobId;
+
+        // /queues/:queue/dead-letters
+        if (!entryId && method === "GET") {
+          const limit = url.searchParams.get("limit");
+          const offset = url.searchParams.get("offset");
+
+          return this.successResponse(await adapter.listDeadLetters({
+            queue,
+            limit: limit ? Number(limit) : undefined,
+            offset: offset ? Number(offset) : undefined,
+          }));
+        }
+
+        // /queues/:queue/dead-letters | /queues/:queue/dead-letters/:id
+        if (!action && method === "DELETE") {
+          const purged = await adapter.purgeDeadLetters({ queue, ids: entryId ? [entryId] : undefined });
+          return this.successResponse({ queue: queueName, purged });
+        }
+
+        // /queues/:queue/dead-letters/:id
+        if (entryId && !action && method === "GET") {
+          const entry = await adapter.getDeadLetter({ id: entryId, queue });
+          return entry
+            ? this.successResponse(entry)
+            : this.errorResponse("ERR_NOT_FOUND", `Dead-letter entry "${entryId}" not found`);
+        }
+
+        // /queues/:queue/dead-letters/:id/replay
+        if (entryId && segments.length === 5 && action === "replay" && method === "POST") {
+          if (!(await adapter.getDeadLetter({ id: entryId, queue }))) {
+            return this.errorResponse("ERR_NOT_FOUND", `Dead-letter entry "${entryId}" not found`);
+          }
+
+          const id = await adapter.replayDeadLetter({ id: entryId, queue });
+          this.logger.info("Dead-letter entry replayed", { jobId: id, queue: queueName });
+          return this.successResponse({ id, action });
+        }
+      }
+
+      return this.errorResponse("ERR_NOT_FOUND", "Route not found");
+    } catch (error) {
+      if (error instanceof URIError) {
+        return this.errorResponse("ERR_BAD_REQUEST", "Malformed path segment");
+      }
+
+      // Adapters reject actions that do not fit the state of the job
+      if (error instanceof IgniterError && error.code === "JOB_STATE_CONFLICT") {
+        this.logger.warn("Jobs admin action rejected", { path: url.pathname, error });
+        return this.errorResponse("ERR_CONFLICT", error.message);
+      }
+
+      this.logger.error("Jobs admin action failed", { path: url.pathname, error });
+      return this.errorResponse("ERR_UNKNOWN_ERROR", "Internal server error");
+    }
+  }
+
+  private static successResponse(data: unknown): Promise<Response> {
+    const response = IgniterResponseProcessor.init().success(data) as unknown as IgniterResponseProcessor;
+    return response.toResponse();
+  }
+
+  private static errorResponse(
+    code: "ERR_BAD_REQUEST" | "ERR_FORBIDDEN" | "ERR_NOT_FOUND" | "ERR_CONFLICT" | "ERR_UNKNOWN_ERROR",
+    message: string,
+  ): Promise<Response> {
+    const response = IgniterResponseProcessor.init();
+    response.error(new IgniterResponseError({ code, message }));
+    return response.toResponse();
+  }
+}
@@ -2,6 +2,7 @@ import { addRoute, createRouter, type RouterContext } from "rou3";
 import { IgniterError } from "../error";
 import { IgniterResponseProcessor } from "./response.processor";
 import { SSEProcessor } from "./sse.processor";
+import { JobsAdminProcessor } from "./jobs-admin.processor";
 import { parseURL } from "../utils/url";
 import { parseResponse } from "../utils/response";
 import {
@@ -12,6 +13,7 @@ import {
   type IgniterLogger,
   type IgniterProcedure,
   type IgniterRouter,
+  type IgniterStoreAdapter,
 } from "../types";
 import type {
   RequestProcessorConfig,
@@ -30,10 +32,16 @@ import {
   type TelemetrySpan,
 } from "./telemetry-manager.processor";
 import { ErrorHandlerProcessor } from "./error-handler.processor";
+import { ResponseCacheProcessor, CACHE_STATUS_HEADER, type CacheTagVersions } from "./response-cache.processor";
+import { IdempotencyProcessor, type IdempotencyLock } from "./idempotency.processor";
 import { IgniterRealtimeService } from "../services/realtime.service";
+import { IgniterOutboxService } from "../services/outbox.service";
 import { IgniterConsoleLogger } from "../services/logger.service";
 import { IgniterPluginManager } from "../services/plugin.service";
 import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+import { validateStandardSchema } from "../utils/schema";
+import { getClientIP } from "../utils/ip";
+import { JOB_CHANNEL_PATTERN } from "../utils/channel";
 
 /**
  * Handles HTTP request processing for the Igniter Framework.
@@ -69,6 +77,10 @@ export class RequestProcessor<
   public pluginManager?: IgniterPluginManager<any>;
 
   private logger: IgniterLogger;
+  private actionKeys = new WeakMap<
+    IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+    string
+  >();
 
   private static get isProduction() {
     return process.env.NODE_ENV === "production";
@@ -210,6 +222,8 @@ export class RequestProcessor<
     SSEProcessor.registerChannel({
       id: "revalidation",
       description: "Channel for cache revalidation events",
+      // Replay revalidations missed by reconnecting clients
+      retention: { maxEvents: 100, ttl: 300 },
     });
 
     SSEProcessor.registerChannel({
@@ -217,6 +231,13 @@ export class RequestProcessor<
       description: "Channel for system events like metrics and logs",
     });
 
+    // Keep the last states of a job for the clients subscribing after it started
+    SSEProcessor.registerChannel({
+      id: JOB_CHANNEL_PATTERN,
+      description: "Channel streaming the state of a job",
+      retention: { maxEvents: 10, ttl: 300 },
+    });
+
     // Register action-specific channels for streams
     for (const [controllerKey, controller] of Object.entries(
       this.config.controllers,
@@ -235,6 +256,19 @@ export class RequestProcessor<
       }
     }
 
+    // Register typed channels, validating published events against their schema
+    for (const channel of Object.values(this.config.channels || {})) {
+      SSEProcessor.registerChannel({
+        id: channel.name,
+        description: channel.description,
+        schema: channel.schema,
+        paramsSchema: channel.paramsSchema,
+        retention: channel.retention,
+        clientPublish: channel.clientPublish,
+        presence: channel.presence,
+      });
+    }
+
     this.logger.debug('SSE initialization completed', {
       channels: SSEProcessor.getRegisteredChannels().map((c) => c.id)
     });
@@ -250,23 +284,16 @@ export class RequestProcessor<
     let routeCount = 0;
 
     // Register application controllers and actions
-    for (const controller of Object.values(
+    for (const [controllerKey, controller] of Object.entries(
       this.config.controllers,
-    ) as IgniterControllerConfig<any>[]) {
-      for (const endpoint of Object.values(controller.actions) as IgniterAction<
-        any,
-        any,
-        any,
-        any,
-        any,
-        any,
-        any,
-        any,
-        any,
-        any
-      >[]) {
+    ) as [string, IgniterControllerConfig<any>][]) {
+      for (const [actionKey, endpoint] of Object.entries(controller.actions) as [
+        string,
+        IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+      ][]) {
         const path = parseURL(basePATH, controller.path, endpoint.path);
         addRoute(this.router, endpoint.method, path, endpoint);
+        this.actionKeys.set(endpoint, `${controllerKey}.${actionKey}`);
         routeCount++;
         this.logger.debug('[CONTROLLER] Route registered', {
           method: endpoint.method,
@@ -404,6 +431,8 @@ export class RequestProcessor<
 
     let telemetrySpan: TelemetrySpan | null = null;
     let context: ProcessedContext;
+    let store: IgniterStoreAdapter | undefined;
+    let idempotencyLock: IdempotencyLock | undefined;
 
     try {
       // Check if this is an SSE request to the central endpoint
@@ -413,7 +442,17 @@ export class RequestProcessor<
 
       if (path === sseEndpoint && method === "GET") {
         this.logger.debug('SSE connection received', { url: request.url });
-        return await SSEProcessor.handleConnection(request);
+        return await SSEProcessor.handleConnection(request, this.config.realtime?.authorize);
+      }
+
+      // Serve the retained events of a channel to the clients subscribing to it
+      if (path === parseURL(basePATH, "/sse/history") && method === "GET") {
+        return await SSEProcessor.handleHistory(request, this.config.realtime?.authorize);
+      }
+
+      // Serve the job management routes when they are mounted
+      if (this.config.jobsAdmin && JobsAdminProcessor.matches(path, basePATH, this.config.jobsAdmin)) {
+        return await JobsAdminProcessor.handle(request, basePATH, this.config.jobsAdmin);
       }
 
       // Step 1: Resolve route
@@ -459,7 +498,28 @@ export class RequestProcessor<
         this.logger.debug('HTTP span created');
       }
 
-      // Step 5: Execute global middlewares
+      // Step 5: Replay or lock idempotent mutations before the middlewares, so replays skip their side effects
+      // The keys are scoped by a hash of the credentials, so only a caller sending the same ones gets the replay
+      store = context.$plugins?.store || context.$context?.store;
+      const actionKey = this.actionKeys.get(handler);
+
+      if (handler.idempotency && handler.type === "mutation" && store && actionKey) {
+        const idempotency = await IdempotencyProcessor.check(
+          store,
+          actionKey,
+          handler.idempotency,
+          context,
+        );
+        if (idempotency.response) {
+          if (telemetrySpan) {
+            TelemetryManagerProcessor.finishSpanSuccess(telemetrySpan, idempotency.response.status);
+          }
+          return this.applyProcedureHeaders(idempotency.response, context);
+        }
+        idempotencyLock = idempotency.lock;
+      }
+
+      // Step 6: Execute global middlewares
       if (context.$plugins.use && Array.isArray(context.$plugins.use)) {
         const globalResult = await MiddlewareExecutorProcessor.executeGlobal(
           context,
@@ -474,7 +534,7 @@ export class RequestProcessor<
         context = globalResult.updatedContext;
       }
 
-      // Step 6: Execute action-specific middlewares
+      // Step 7: Execute action-specific middlewares
       if (handler.use && Array.isArray(handler.use)) {
         const actionResult = await MiddlewareExecutorProcessor.executeAction(
           context,
@@ -492,24 +552,73 @@ export class RequestProcessor<
         context = actionResult.updatedContext;
       }
 
-      // Step 7: Execute action handler
-      const actionResponse = await this.executeAction(handler, context);
+      // Step 8: Serve the response from the server cache when available
+      const cacheKey =
+        handler.cache && handler.type === "query" && store && actionKey
+          ? await ResponseCacheProcessor.resolveKey(actionKey, handler.cache, context)
+          : null;
+      let cacheTagVersions: CacheTagVersions = {};
+
+      if (cacheKey) {
+        const cached = await ResponseCacheProcessor.lookup(store!, cacheKey);
+        if (cached) {
+          if (cached.stale) {
+            void this.refreshCachedResponse(handler, context, store!, cacheKey, actionKey!);
+          }
+
+          await this.trackInstanceRequest(request, startTime, cached.response.status);
+          if (telemetrySpan) {
+            TelemetryManagerProcessor.finishSpanSuccess(telemetrySpan, cached.response.status);
+          }
+          return this.applyProcedureHeaders(cached.response, context);
+        }
+
+        cacheTagVersions = await ResponseCacheProcessor.getTagVersions(
+          store!,
+          [actionKey!, ...(handler.cache!.tags || [])],
+        );
+      }
+
+      // Step 9: Execute action handler
+      const { actionResponse, outbox } = await this.executeAction(handler, context);
 
-      // Step 8: Handle successful response
-      return await this.handleSuccessfulResponse(
+      // Step 10: Handle successful response
+      const response = await this.handleSuccessfulResponse(
         actionResponse,
+        handler,
         context,
         telemetrySpan,
         startTime,
         request,
       );
+      await this.settleOutbox(outbox, response);
+
+      // Step 11: Update the server cache and the idempotent response
+      if (idempotencyLock) {
+        await IdempotencyProcessor.save(store!, idempotencyLock, response);
+      }
+
+      if (cacheKey) {
+        await ResponseCacheProcessor.save(
+          store!,
+          cacheKey,
+          handler.cache!,
+          cacheTagVersions,
+          response,
+        );
+        this.setCacheStatusHeader(response, "MISS");
+      } else if (store && handler.invalidates?.length && response.status < 400) {
+        await ResponseCacheProcessor.invalidate(store, handler.invalidates);
+      }
+
+      return this.applyProcedureHeaders(response, context);
     } catch (error) {
       this.logger.error('Request processing failed', {
         error,
         path,
         method
       });
-      // Step 9: Handle errors
+      // Step 12: Handle errors
       if (context!) {
         const errorResult = await ErrorHandlerProcessor.handleError(
           error,
@@ -529,6 +638,113 @@ export class RequestProcessor<
           );
         return errorResult.response;
       }
+    } finally {
+      // Release the in-flight lock, duplicates now replay or retry the request
+      if (idempotencyLock) {
+        await IdempotencyProcessor.release(store!, idempotencyLock);
+      }
+    }
+  }
+
+  /**
+   * Refreshes a stale cached response in the background.
+   * Only one request refreshes an entry at a time; failures keep the stale entry until it expires.
+   *
+   * @param handler - The cached query
+   * @param context - The processed context
+   * @param store - The store adapter holding the cache
+   * @param cacheKey - The cache key of the entry
+   * @param actionKey - The `controller.action` key of the query
+   */
+  private async refreshCachedResponse(
+    handler: IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+    context: ProcessedContext,
+    store: IgniterStoreAdapter,
+    cacheKey: string,
+    actionKey: string,
+  ): Promise<void> {
+    const cache = handler.cache!;
+    const locked = await ResponseCacheProcessor.acquireRefreshLock(
+      store,
+      cacheKey,
+      cache.staleWhileRevalidate || cache.ttl,
+    );
+    if (!locked) return;
+
+    try {
+      this.logger.debug('Stale cache entry refreshing', { key: cacheKey });
+      const tagVersions = await ResponseCacheProcessor.getTagVersions(
+        store,
+        [actionKey, ...(cache.tags || [])],
+      );
+      const { actionResponse, outbox } = await this.executeAction(handler, context);
+
+      let response: Response;
+      if (actionResponse instanceof Response) {
+        response = actionResponse;
+      } else if (actionResponse instanceof IgniterResponseProcessor) {
+        response = await actionResponse.toResponse();
+      } else {
+        response = new Response(JSON.stringify(actionResponse), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      await this.settleOutbox(outbox, response);
+
+      await ResponseCacheProcessor.save(
+        store,
+        cacheKey,
+        cache,
+        tagVersions,
+        response,
+      );
+    } catch (error) {
+      this.logger.warn('Stale cache entry refresh failed', { key: cacheKey, error });
+    } finally {
+      await ResponseCacheProcessor.releaseRefreshLock(store, cacheKey);
+    }
+  }
+
+  /**
+   * Copies the headers set by procedures on `ctx.response` (e.g. `RateLimit-*`)
+   * to the final response, without overriding the headers set by the handler.
+   *
+   * @param response - The final HTTP response
+   * @param context - The processed context
+   * @returns The same response
+   */
+  private applyProcedureHeaders(
+    response: Response,
+    context: ProcessedContext,
+  ): Response {
+    const headers = context.response?.getHeaders?.();
+    if (!headers) return response;
+
+    try {
+      headers.forEach((value, name) => {
+        if (!response.headers.has(name)) {
+          response.headers.set(name, value);
+        }
+      });
+    } catch {
+      // Headers of responses returned by fetch are immutable
+    }
+
+    return response;
+  }
+
+  /**
+   * Sets the cache status header, ignoring responses with immutable headers.
+   *
+   * @param response - The final HTTP response
+   * @param status - The cache status
+   */
+  private setCacheStatusHeader(response: Response, status: string): void {
+    try {
+      response.headers.set(CACHE_STATUS_HEADER, status);
+    } catch {
+      // Headers of responses returned by fetch are immutable
     }
   }
 
@@ -537,16 +753,32 @@ export class RequestProcessor<
    *
    * @param handler - The action handler to execute
    * @param context - The processed context
-   * @returns The action response
+   * @returns The action response, with the outbox to settle once the final response is built
    */
   private async executeAction(
     handler: IgniterAction<any, any, any, any, any, any, any, any, any, any>,
     context: ProcessedContext,
-  ): Promise<any> {
+  ): Promise<{ actionResponse: any; outbox: IgniterOutboxService }> {
     this.logger.debug('Action handler executing');
 
-    // Validate and parse body and query to ensure correct types
+    // Validate and parse params, body and query to ensure correct types
     try {
+      if (handler.params) {
+        this.logger.debug('Validating and coercing path params');
+        const paramsResult = await validateStandardSchema(
+          handler.params,
+          context.request.params,
+        );
+        if (paramsResult.issues) {
+          // Same shape as schema parse errors, so it is answered with VALIDATION_ERROR
+          throw {
+            name: 'ValidationError',
+            message: 'Path params validation failed',
+            issues: paramsResult.issues,
+          };
+        }
+        context.request.params = paramsResult.value as Record<string, any>;
+      }
       if (handler.body) {
         this.logger.debug('Validating and parsing request body');
         context.request.body = handler.body.parse(context.request.body);
@@ -577,32 +809,62 @@ export class RequestProcessor<
       context.$plugins?.store || context.$context?.store
     );
 
+    const outbox = new IgniterOutboxService(
+      realtimeService,
+      context.$plugins?.store || context.$context?.store,
+      this.config.outbox,
+    );
+
     // Execute handler with proper IgniterActionContext structure
-    const response = await handler.handler({
-      request: {
-        method: context.request.method as HTTPMethod,
-        path: context.request.path,
-        params: context.request.params,
-        headers: context.request.headers,
-        cookies: context.request.cookies,
-        body: context.request.body,
-        query: context.request.query,
-      },
-      context: context.$context,
-      plugins: context.$plugins,
-      response: responseProcessor,
-      realtime: realtimeService,
-    });
+    let response: any;
+    try {
+      response = await handler.handler({
+        request: {
+          method: context.request.method as HTTPMethod,
+          path: context.request.path,
+          params: context.request.params,
+          headers: context.request.headers,
+          cookies: context.request.cookies,
+          body: context.request.body,
+          query: context.request.query,
+        },
+        context: context.$context,
+        plugins: context.$plugins,
+        response: responseProcessor,
+        realtime: realtimeService,
+        outbox,
+      });
+    } catch (error) {
+      // Side effects of failed handlers are never dispatched
+      outbox.discard();
+      throw error;
+    }
 
     this.logger.debug('Action handler completed');
 
-    return response;
+    return { actionResponse: response, outbox };
+  }
+
+  /**
+   * Dispatches the side effects buffered by the handler when its final response succeeded,
+   * and discards them when the handler returned an error response.
+   *
+   * @param outbox - The outbox of the action
+   * @param response - The final HTTP response
+   */
+  private async settleOutbox(outbox: IgniterOutboxService, response: Response): Promise<void> {
+    if (response.status < 400) {
+      await outbox.flush();
+    } else {
+      outbox.discard();
+    }
   }
 
   /**
    * Handles successful response processing.
    *
    * @param actionResponse - Response from action handler
+   * @param action - The action that produced the response
    * @param context - The processed context
    * @param telemetrySpan - Telemetry span for tracking
    * @param startTime - Request start time
@@ -611,6 +873,7 @@ export class RequestProcessor<
    */
   private async handleSuccessfulResponse(
     actionResponse: any,
+    action: IgniterAction<any, any, any, any, any, any, any, any, any, any>,
     context: ProcessedContext,
     telemetrySpan: TelemetrySpan | null,
     startTime: number,
@@ -631,6 +894,14 @@ export class RequestProcessor<
       });
       const finalResponse = await actionResponse.toResponse();
 
+      // Validate against declared output/error schemas (development only)
+      if (this.shouldValidateResponse(action, finalResponse)) {
+        const payload = await this.readResponsePayload(finalResponse);
+        if (payload !== undefined) {
+          await this.validateResponseSchemas(action, finalResponse.status, payload);
+        }
+      }
+
       // Track successful request
       await this.trackInstanceRequest(
         request,
@@ -656,6 +927,13 @@ export class RequestProcessor<
     }
 
     // Handle JSON response
+    if (this.shouldValidateResponse(action)) {
+      await this.validateResponseSchemas(action, 200, {
+        data: actionResponse,
+        error: null,
+      });
+    }
+
     await this.trackInstanceRequest(request, startTime, 200);
 
     this.logger.debug('Request processed', {
@@ -677,6 +955,94 @@ export class RequestProcessor<
     });
   }
 
+  /**
+   * Checks whether the response of an action must be validated against its schemas.
+   * Validation only runs outside production, for non-stream JSON responses.
+   *
+   * @param action - The executed action
+   * @param response - The final HTTP response, when already built
+   * @returns `true` if the response must be validated
+   */
+  private shouldValidateResponse(
+    action: IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+    response?: Response,
+  ): boolean {
+    if (RequestProcessor.isProduction) return false;
+    if (!action.output && !action.errors) return false;
+    if (action.stream) return false;
+    if (!response) return true;
+
+    // Statuses without a body have nothing to validate
+    if ([204, 205, 304].includes(response.status)) return false;
+
+    const contentType = response.headers.get("Content-Type") || "";
+    return contentType.includes("application/json");
+  }
+
+  /**
+   * Reads the JSON payload of a response without consuming it.
+   *
+   * @param response - The final HTTP response
+   * @returns The parsed payload, or `undefined` when the body is empty or not valid JSON
+   */
+  private async readResponsePayload(
+    response: Response,
+  ): Promise<{ data?: unknown; error?: unknown } | null | undefined> {
+    const body = await response.clone().text();
+    if (!body) return undefined;
+
+    try {
+      return JSON.parse(body);
+    } catch {
+      this.logger.debug('Response validation skipped: body is not valid JSON', {
+        status: response.status,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Validates a response payload against the action `output` schema or,
+   * for error payloads, against the schema registered for the status code.
+   *
+   * @param action - The executed action
+   * @param status - The HTTP status code of the response
+   * @param payload - The `{ data, error }` response payload
+   *
+   * @throws {IgniterError} RESPONSE_VALIDATION_ERROR when the payload does not match
+   */
+  private async validateResponseSchemas(
+    action: IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+    status: number,
+    payload: { data?: unknown; error?: unknown } | null,
+  ): Promise<void> {
+    const isError = payload?.error !== null && payload?.error !== undefined;
+    const schema = isError ? action.errors?.[status] : action.output;
+    if (!schema) return;
+
+    const result = await validateStandardSchema(
+      schema,
+      isError ? payload?.error : payload?.data,
+    );
+
+    if (result.issues) {
+      this.logger.error('Response validation failed', {
+        method: action.method,
+        path: action.path,
+        status,
+        issues: result.issues,
+      });
+
+      throw new IgniterError({
+        code: "RESPONSE_VALIDATION_ERROR",
+        message: `Response of ${action.method} ${action.path} does not match its ${isError ? `${status} error` : "output"} schema`,
+        details: result.issues,
+      });
+    }
+
+    this.logger.debug('Response validated', { status, isError });
+  }
+
   /**
    * Makes a direct call to a specific controller action.
    * Useful for server-side calls without going through the HTTP layer.
@@ -859,7 +1225,8 @@ export class RequestProcessor<
         path: url.pathname || "/",
         statusCode: statusCode,
         responseTime: responseTime,
-        ip: this.getClientIP(request),
+        // Only logged, so the address set by a proxy is read without declaring it
+        ip: getClientIP(request.headers, { trustedProxies: 1 }),
         userAgent: request.headers?.get("user-agent")?.substring(0, 70) || 'N/A', // Truncate user agent
         contentLength: this.getContentLength(request) || 0,
         error: error ? { message: error.message, name: error.name } : undefined,
@@ -978,26 +1345,6 @@ export class RequestProcessor<
     return this.publishEvent(channelId, data, type);
   }
 
-  /**
-   * Extracts client IP from request headers.
-   *
-   * @param request - The HTTP request
-   * @returns Client IP address
-   */
-  private getClientIP(request: Request): string {
-    // Try various headers for client IP
-    const forwarded = request.headers.get("x-forwarded-for");
-    if (forwarded) {
-      return forwarded.split(",")[0].trim();
-    }
-
-    const ip = request.headers.get("x-real-ip") ||
-      request.headers.get("x-client-ip");
-
-    // In local development, it might be undefined
-    return ip || "127.0.0.1";
-  }
-
   /**
    * Gets content length from request headers.
    *
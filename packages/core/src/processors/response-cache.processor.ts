@@ -0,0 +1,350 @@
+import type { IgniterLogger } from "../types";
+import type { IgniterQueryCacheOptions } from "../types/action.interface";
+import type { IgniterStoreAdapter } from "../types/store.interface";
+import type { ProcessedContext } from "./context-builder.processor";
+import { IgniterConsoleLogger } from "../services/logger.service";
+import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+import { getCredentialScope } from "../utils/credentials";
+
+/**
+ * Serialized HTTP response persisted in the store
+ */
+export interface CachedResponseEntry {
+  /**
+   * HTTP status code of the cached response
+   */
+  status: number;
+
+  /**
+   * Response headers, without cookies
+   */
+  headers: [string, string][];
+
+  /**
+   * Raw response body
+   */
+  body: string;
+
+  /**
+   * Timestamp (ms) until which the entry is fresh
+   */
+  freshUntil: number;
+
+  /**
+   * Timestamp (ms) until which the entry can be served while it is refreshed
+   */
+  staleUntil: number;
+
+  /**
+   * Versions of the tags of the entry when it was computed. The entry is
+   * invalidated as soon as one of them is incremented.
+   */
+  tags: CacheTagVersions;
+}
+
+/**
+ * Versions of cache tags, by tag
+ */
+export type CacheTagVersions = Record<string, number>;
+
+/**
+ * Result of a cache lookup
+ */
+export interface CacheLookupResult {
+  /**
+   * Response rebuilt from the cached entry
+   */
+  response: Response;
+
+  /**
+   * Whether the entry is past its TTL and must be refreshed
+   */
+  stale: boolean;
+}
+
+const CACHE_PREFIX = "igniter:cache";
+
+/**
+ * Header describing how the response was served (HIT, STALE or MISS)
+ */
+export const CACHE_STATUS_HEADER = "X-Igniter-Cache";
+
+/**
+ * Response cache processor for the Igniter Framework.
+ * Stores query responses in the store adapter and invalidates them by tag.
+ */
+export class ResponseCacheProcessor {
+  private static _logger: IgniterLogger;
+
+  private static get logger(): IgniterLogger {
+    if (!this._logger) {
+      this._logger = IgniterConsoleLogger.create({
+        level: resolveLogLevel(),
+        context: createLoggerContext('ResponseCache'),
+        showTimestamp: true,
+      });
+    }
+    return this._logger;
+  }
+
+  /**
+   * Builds the cache key of a request.
+   * Uses the custom `key` function when provided, otherwise params, query and the selected headers.
+   * Unless the cache is `shared`, the default key also varies by a hash of the credentials
+   * (`Authorization` and `Cookie` headers), so a response is never served to another caller.
+   *
+   * @param actionKey - The `controller.action` key of the query
+   * @param options - The cache options of the query
+   * @param context - The processed context
+   * @returns The store key of the cached response
+   */
+  static async resolveKey(
+    actionKey: string,
+    options: IgniterQueryCacheOptions,
+    context: ProcessedContext,
+  ): Promise<string> {
+    const { params, query, headers } = context.request;
+
+    if (options.key) {
+      return `${CACHE_PREFIX}:entry:${actionKey}:${options.key({ params, query, headers })}`;
+    }
+
+    const varyHeaders: Record<string, string | null> = {};
+    for (const name of options.headers || []) {
+      varyHeaders[name.toLowerCase()] = headers.get(name);
+    }
+
+    const variant = this.stableStringify({
+      params: params || {},
+      query: query || {},
+      headers: varyHeaders,
+    });
+
+    if (options.shared) {
+      return `${CACHE_PREFIX}:entry:${actionKey}:${variant}`;
+    }
+
+    const scope = await getCredentialScope(headers);
+
+    return `${CACHE_PREFIX}:entry:${actionKey}:${scope}:${variant}`;
+  }
+
+  /**
+   * Reads the current versions of cache tags. Read before computing a response,
+   * so an invalidation happening meanwhile invalidates the stored entry too.
+   *
+   * @param store - The store adapter
+   * @param tags - The tags of the query
+   * @returns The versions, by tag
+   */
+  static async getTagVersions(
+    store: IgniterStoreAdapter,
+    tags: string[],
+  ): Promise<CacheTagVersions> {
+    const versions: CacheTagVersions = {};
+    for (const tag of tags) {
+      versions[tag] = Number(await store.get<number>(this.getTagKey(tag))) || 0;
+    }
+    return versions;
+  }
+
+  /**
+   * Looks up a cached response.
+   *
+   * @param store - The store adapter
+   * @param key - The cache key
+   * @returns The cached response, or `null` on a miss or an expired entry
+   */
+  static async lookup(
+    store: IgniterStoreAdapter,
+    key: string,
+  ): Promise<CacheLookupResult | null> {
+    try {
+      const entry = await store.get<CachedResponseEntry>(key);
+      if (!entry) {
+        this.logger.debug("Cache miss", { key });
+        return null;
+      }
+
+      const now = Date.now();
+      if (now > entry.staleUntil) {
+        this.logger.debug("Cache entry expired", { key });
+        return null;
+      }
+
+      const current = await this.getTagVersions(store, Object.keys(entry.tags || {}));
+      const invalidated = Object.entries(entry.tags || {}).some(
+        ([tag, version]) => current[tag] !== version,
+      );
+      if (invalidated) {
+        this.logger.debug("Cache entry invalidated", { key });
+        await store.delete(key);
+        return null;
+      }
+
+      const stale = now > entry.freshUntil;
+      const headers = new Headers(entry.headers);
+      headers.set(CACHE_STATUS_HEADER, stale ? "STALE" : "HIT");
+
+      this.logger.debug(stale ? "Cache stale hit" : "Cache hit", { key });
+
+      return {
+        response: new Response(entry.body, { status: entry.status, headers }),
+        stale,
+      };
+    } catch (error) {
+      this.logger.warn("Cache lookup failed", { key, error });
+      return null;
+    }
+  }
+
+  /**
+   * Checks whether a response can be cached.
+   * Only successful JSON responses without cookies are cached.
+   *
+   * @param response - The final HTTP response
+   * @returns `true` if the response can be stored
+   */
+  static isCacheable(response: Response): boolean {
+    if (response.status < 200 || response.status >= 300) return false;
+    if (response.headers.has("Set-Cookie")) return false;
+
+    const contentType = response.headers.get("Content-Type") || "";
+    return contentType.includes("application/json");
+  }
+
+  /**
+   * Stores a response with the versions of its tags.
+   *
+   * @param store - The store adapter
+   * @param key - The cache key
+   * @param options - The cache options of the query
+   * @param tags - Versions of the tags used for invalidation, read with `getTagVersions` before computing the response
+   * @param response - The response to store (it is cloned, not consumed)
+   */
+  static async save(
+    store: IgniterStoreAdapter,
+    key: string,
+    options: IgniterQueryCacheOptions,
+    tags: CacheTagVersions,
+    response: Response,
+  ): Promise<void> {
+    if (!this.isCacheable(response)) {
+      this.logger.debug("Response not cacheable", { key, status: response.status });
+      return;
+    }
+
+    try {
+      const ttl = options.ttl;
+      const lifetime = ttl + (options.staleWhileRevalidate || 0);
+      const now = Date.now();
+
+      const headers: [string, string][] = [];
+      response.headers.forEach((value, name) => {
+        if (name.toLowerCase() !== CACHE_STATUS_HEADER.toLowerCase()) {
+          headers.push([name, value]);
+        }
+      });
+
+      const entry: CachedResponseEntry = {
+        status: response.status,
+        headers,
+        body: await response.clone().text(),
+        freshUntil: now + ttl * 1000,
+        staleUntil: now + lifetime * 1000,
+        tags,
+      };
+
+      await store.set(key, entry, { ttl: lifetime });
+
+      this.logger.debug("Response cached", { key, ttl, tags: Object.keys(tags) });
+    } catch (error) {
+      this.logger.warn("Response caching failed", { key, error });
+    }
+  }
+
+  /**
+   * Invalidates every cached response of the given tags, by atomically incrementing their versions.
+   * The entries computed with a previous version are dropped on their next lookup.
+   *
+   * @param store - The store adapter
+   * @param tags - Tags to invalidate (e.g. `users.list`)
+   */
+  static async invalidate(
+    store: IgniterStoreAdapter,
+    tags: string[],
+  ): Promise<void> {
+    for (const tag of tags) {
+      try {
+        const version = await store.increment(this.getTagKey(tag));
+        this.logger.debug("Cache tag invalidated", { tag, version });
+      } catch (error) {
+        this.logger.warn("Cache invalidation failed", { tag, error });
+      }
+    }
+  }
+
+  /**
+   * Acquires the lock used to refresh a stale entry, so only one request refreshes it.
+   *
+   * @param store - The store adapter
+   * @param key - The cache key
+   * @param ttl - Lock duration, in seconds
+   * @returns `true` if the caller owns the lock
+   */
+  static async acquireRefreshLock(
+    store: IgniterStoreAdapter,
+    key: string,
+    ttl: number,
+  ): Promise<boolean> {
+    try {
+      // Set with its TTL in one call, so a crash cannot leave a lock that never expires
+      return await store.setIfAbsent(`${key}:lock`, 1, {
+        ttl: Math.max(1, Math.ceil(ttl)),
+      });
+    } catch (error) {
+      this.logger.warn("Cache refresh lock failed", { key, error });
+      return false;
+    }
+  }
+
+  /**
+   * Releases the refresh lock of an entry.
+   *
+   * @param store - The store adapter
+   * @param key - The cache key
+   */
+  static async releaseRefreshLock(
+    store: IgniterStoreAdapter,
+    key: string,
+  ): Promise<void> {
+    try {
+      await store.delete(`${key}:lock`);
+    } catch (error) {
+      this.logger.warn("Cache refresh lock release failed", { key, error });
+    }
+  }
+
+  private static getTagKey(tag: string): string {
+    return `${CACHE_PREFIX}:tag:${tag}:version`;
+  }
+
+  /**
+   * Serializes a value with sorted object keys, so equivalent inputs share a key.
+   */
+  private static stableStringify(value: unknown): string {
+    if (value === null || typeof value !== "object") {
+      return JSON.stringify(value) ?? "null";
+    }
+
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.stableStringify(item)).join(",")}]`;
+    }
+
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${this.stableStringify((value as Record<string, unknown>)[key])}`);
+
+    return `{${entries.join(",")}}`;
+  }
+}
@@ -1,5 +1,6 @@
 import { type IgniterLogger } from "../types"
 import { SSEProcessor } from "./sse.processor"
+import { ResponseCacheProcessor } from "./response-cache.processor"
 import { IgniterConsoleLogger } from "../services/logger.service"
 import type { CookieOptions } from "../types/cookie.interface"
 import { IgniterCommonErrorCode, IgniterResponseError, IgniterResponse } from "../types/response.interface"
@@ -552,6 +553,40 @@ export class IgniterResponseProcessor<TContext = unknown> {
     return this as unknown as IgniterResponse<null, IgniterResponseError<'ERR_NOT_FOUND'>>;
   }
 
+  /**
+   * Creates a 429 Too Many Requests response.
+   *
+   * @param message - Optional error message
+   * @param data - Optional error data (e.g. when the client can retry)
+   * @returns New instance typed with TooManyRequests error
+   *
+   * @example
+   * ```typescript
+   * response.setHeader('Retry-After', '30').tooManyRequests('Slow down');
+   * ```
+   */
+  tooManyRequests<TTooManyRequestsData>(message = 'Too Many Requests', data?: TTooManyRequestsData) {
+    this._response = {} as IgniterResponse<null, IgniterResponseError<'ERR_TOO_MANY_REQUESTS'>>;
+    this._response.data = null;
+    this._response.error = new IgniterResponseError({
+      message,
+      data,
+      code: 'ERR_TOO_MANY_REQUESTS'
+    });
+    if (!this._statusExplicitlySet) this._status = 429;
+    return this as unknown as IgniterResponse<null, IgniterResponseError<'ERR_TOO_MANY_REQUESTS'>>;
+  }
+
+  /**
+   * Returns a copy of the headers set on this response so far.
+   * Used to carry headers set by procedures over to the final response.
+   *
+   * @returns The response headers, without cookies
+   */
+  getHeaders(): Headers {
+    return new Headers(this._headers);
+  }
+
   /**
    * Creates a redirect response.
    *
@@ -600,7 +635,7 @@ export class IgniterResponseProcessor<TContext = unknown> {
   }
 
   /**
-   * Handles cache revalidation by publishing to Redis channels.
+   * Handles cache revalidation by purging the server cache and publishing to Redis channels.
    * Internal method called during response processing.
    *
    * @private
@@ -624,7 +659,12 @@ export class IgniterResponseProcessor<TContext = unknown> {
       }
     }
 
-    const clientCount = SSEProcessor.publishEvent({
+    // Purge server cached responses tagged with the revalidated keys
+    if (this._store) {
+      await ResponseCacheProcessor.invalidate(this._store, keysArray);
+    }
+
+    const clientCount = await SSEProcessor.publishDistributed({
       channel: 'revalidation',
       type: 'revalidate',
       scopes: scopeIds, // Use subscribers for scoped revalidation
@@ -633,7 +673,7 @@ export class IgniterResponseProcessor<TContext = unknown> {
         data,
         timestamp: new Date().toISOString()
       },
-    });
+    }, this._store);
 
     this.logger.debug("Revalidation published", {
       keys: keysArray,
@@ -813,6 +853,7 @@ export class IgniterResponseProcessor<TContext = unknown> {
         case 'ERR_NOT_FOUND': return 404;
         case 'ERR_CONFLICT': return 409;
         case 'ERR_UNPROCESSABLE_ENTITY': return 422;
+        case 'ERR_TOO_MANY_REQUESTS': return 429;
         case 'ERR_REDIRECT': return 302;
         default: return 500;
       }
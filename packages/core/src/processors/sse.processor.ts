@@ -2,20 +2,117 @@ import { IgniterLogLevel, type IgniterLogger } from "../types";
 import { IgniterError } from "../error";
 import { IgniterConsoleLogger } from "../services/logger.service";
 import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+import type { StandardSchemaV1 } from "../types/schema.interface";
+import type { IgniterStoreAdapter } from "../types/store.interface";
+import type { RealtimePresenceOptions } from "../types/realtime.interface";
+import { isChannelPattern, matchChannelName } from "../utils/channel";
+import { validateStandardSchema } from "../utils/schema";
 
 /**
  * Structure defining an SSE channel
  */
 export interface SSEChannel {
   /**
-   * Unique identifier for the channel
+   * Unique identifier for the channel.
+   * Identifiers with `{param}` placeholders (e.g. `chat:room:{roomId}`) register a pattern:
+   * matching channels are resolved with the settings of the pattern, without being registered.
    */
   id: string;
 
+  /**
+   * Schema of the parameters of a channel pattern, validating the channels clients subscribe to,
+   * e.g. `z.object({ roomId: z.string().uuid() })` for `chat:room:{roomId}`
+   */
+  paramsSchema?: StandardSchemaV1;
+
   /**
    * Human-readable description of the channel's purpose
    */
   description?: string;
+
+  /**
+   * Schema of the event payloads, validating the events published by the realtime
+   * service and by WebSocket clients. Clients can only publish to channels declaring a schema.
+   */
+  schema?: StandardSchemaV1;
+
+  /**
+   * Whether WebSocket clients can publish events on the channel. Requires a `schema`.
+   * @default false
+   */
+  clientPublish?: boolean;
+
+  /**
+   * Keeps the latest events of the channel so clients reconnecting with
+   * `Last-Event-ID` receive the events they missed. Disabled when omitted.
+   */
+  retention?: SSEChannelRetention;
+
+  /**
+   * Tracks the members of the channel: connections authorized with a `member` join
+   * when they subscribe and leave when they close. Disabled when omitted.
+   */
+  presence?: RealtimePresenceOptions;
+}
+
+/**
+ * Member behind a realtime connection, e.g. the signed-in user
+ */
+export interface SSEConnectionMember {
+  /**
+   * Unique identifier of the member, e.g. the user id
+   */
+  id: string;
+
+  /**
+   * Metadata shared with the other members of the channels tracking presence
+   */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Result of the authorization of a realtime connection.
+ * `false` rejects the connection, `true` accepts it without scopes,
+ * and an object accepts it with the scopes and the member of the caller.
+ */
+export type SSEAuthorization = boolean | { scopes?: string[]; member?: SSEConnectionMember };
+
+/**
+ * Authorizes a realtime connection request and grants its scopes and member,
+ * e.g. from the session of the caller.
+ */
+export type SSEAuthorizer = (request: Request) => SSEAuthorization | Promise<SSEAuthorization>;
+
+/**
+ * A connection subscribing to or leaving a channel, observed with `SSEProcessor.onConnectionChange`
+ */
+export interface SSEConnectionChange {
+  type: "open" | "close";
+  channel: string;
+  member?: SSEConnectionMember;
+}
+
+/**
+ * Retention settings of the events replayed on reconnect
+ */
+export interface SSEChannelRetention {
+  /**
+   * Maximum number of events kept for the channel
+   * @default 100
+   */
+  maxEvents?: number;
+
+  /**
+   * Time, in seconds, during which an event can be replayed
+   * @default 300 (5 minutes)
+   */
+  ttl?: number;
+
+  /**
+   * Store adapter keeping the history, shared by every instance.
+   * Events are kept in memory when omitted or when the adapter has no list operations.
+   */
+  store?: IgniterStoreAdapter;
 }
 
 /**
@@ -56,6 +153,7 @@ type SSEConnectionHandler = {
   scopes?: string[];
   metadata?: {
     connectedAt: number;
+    member?: SSEConnectionMember;
   };
 };
 
@@ -83,8 +181,70 @@ export interface SSEStreamOptions {
    * Scopes to filter events by
    */
   scopes?: string[];
+
+  /**
+   * ID of the last event received by the client. The events missed since then
+   * are sent right after the connection message, before live events.
+   */
+  lastEventId?: string | null;
+
+  /**
+   * Member behind the connection, granted by the authorizer
+   */
+  member?: SSEConnectionMember;
+}
+
+/**
+ * Event kept in the history of a channel
+ */
+interface SSEHistoryEntry {
+  event: SSEEvent;
+  publishedAt: number;
+}
+
+/**
+ * Store adapter with the list operations keeping the histories
+ */
+type SSEHistoryStore = IgniterStoreAdapter & Required<Pick<IgniterStoreAdapter, "pushToList" | "getList">>;
+
+/**
+ * Store channel used to distribute events between instances
+ */
+export const SSE_DISTRIBUTION_CHANNEL = "igniter:realtime:events";
+
+/**
+ * Message exchanged between instances on the distribution channel
+ */
+interface SSEDistributedMessage {
+  /**
+   * Id of the instance that published the event
+   */
+  origin: string;
+
+  /**
+   * The published event
+   */
+  event: SSEEvent;
 }
 
+/**
+ * Store key prefix of the channel histories
+ */
+const SSE_HISTORY_PREFIX = "igniter:realtime:history";
+
+const DEFAULT_RETENTION_MAX_EVENTS = 100;
+const DEFAULT_RETENTION_TTL = 60 * 5;
+
+/**
+ * Interval between two sweeps of the expired in-memory histories, in milliseconds
+ */
+const HISTORY_SWEEP_INTERVAL = 60 * 1000;
+
+/**
+ * Number of event ids remembered to de-duplicate distributed events
+ */
+const DELIVERED_EVENT_IDS_LIMIT = 1000;
+
 /**
  * Central processor for Server-Sent Events (SSE)
  * Manages event channels, connections, and message distribution
@@ -109,6 +269,12 @@ export class SSEProcessor {
    */
   private static channels: Map<string, SSEChannel> = new Map();
 
+  /**
+   * Map of registered channel patterns, such as `chat:room:{roomId}`
+   * @private
+   */
+  private static channelPatterns: Map<string, SSEChannel> = new Map();
+
   /**
    * Map of active connections per channel
    * @private
@@ -122,6 +288,128 @@ export class SSEProcessor {
    */
   private static activeStreams: Set<ReadableStream> = new Set();
 
+  /**
+   * In-memory history of the channels with retention, oldest first
+   * @private
+   */
+  private static history: Map<string, SSEHistoryEntry[]> = new Map();
+
+  /**
+   * When the expired in-memory histories were last swept
+   * @private
+   */
+  private static historySweptAt = 0;
+
+  /**
+   * Stores subscribed to the distribution channel
+   * @private
+   */
+  private static distributionStores: Set<IgniterStoreAdapter> = new Set();
+
+  /**
+   * Ids of the events recently delivered to local connections, oldest first
+   * @private
+   */
+  private static deliveredEventIds: Set<string> = new Set();
+
+  /**
+   * Id of this instance, used to ignore its own distributed events
+   * @private
+   */
+  private static readonly instanceId: string = crypto.randomUUID();
+
+  /**
+   * Listeners notified when a connection subscribes to or leaves a channel
+   * @private
+   */
+  private static connectionListeners: Set<(change: SSEConnectionChange) => void> = new Set();
+
+  /**
+   * Listen to the connections subscribing to and leaving channels, e.g. to track presence
+   *
+   * @param listener - Called for every channel a connection subscribes to or leaves
+   * @returns A function that removes the listener
+   */
+  static onConnectionChange(listener: (change: SSEConnectionChange) => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add a connection to a channel and notify the connection listeners
+   */
+  private static addConnection(channel: string, connection: SSEConnectionHandler): void {
+    let channelConnections = this.connections.get(channel);
+    if (!channelConnections) {
+      // Channels resolved from a pattern get their connections on first subscription
+      channelConnections = new Set();
+      this.connections.set(channel, channelConnections);
+    }
+
+    channelConnections.add(connection);
+    this.logger.debug("Client subscribed", {
+      channel,
+      connectionCount: channelConnections.size,
+    });
+    this.notifyConnectionChange({ type: "open", channel, member: connection.metadata?.member });
+  }
+
+  /**
+   * Remove a connection from a channel and notify the connection listeners
+   */
+  private static removeConnection(channel: string, connection: SSEConnectionHandler): void {
+    const channelConnections = this.connections.get(channel);
+    if (!channelConnections?.delete(connection)) return;
+
+    // Forget the channels resolved from a pattern once their last subscriber leaves
+    if (channelConnections.size === 0 && !this.channels.has(channel)) {
+      this.connections.delete(channel);
+    }
+
+    this.logger.debug("Client unsubscribed", {
+      channel,
+      connectionCount: channelConnections.size,
+    });
+    this.notifyConnectionChange({ type: "close", channel, member: connection.metadata?.member });
+  }
+
+  private static notifyConnectionChange(change: SSEConnectionChange): void {
+    for (const listener of this.connectionListeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        this.logger.error("Connection listener failed", { channel: change.channel, error });
+      }
+    }
+  }
+
+  /**
+   * Authorize a realtime connection request and resolve the scopes and member it is granted
+   *
+   * @param request - The connection request
+   * @param authorizer - Authorizes the request
+   * @returns The scopes and member of the connection, or `null` when the request is rejected
+   */
+  static async authorize(
+    request: Request,
+    authorizer: SSEAuthorizer,
+  ): Promise<{ scopes?: string[]; member?: SSEConnectionMember } | null> {
+    try {
+      const authorization = await authorizer(request);
+      if (!authorization) {
+        this.logger.debug("Realtime connection rejected", { url: request.url });
+        return null;
+      }
+
+      return authorization === true ? {} : authorization;
+    } catch (error) {
+      this.logger.error("Realtime authorization failed", { url: request.url, error });
+      return null;
+    }
+  }
+
   /**
    * Register a new channel for SSE events
    *
@@ -129,6 +417,12 @@ export class SSEProcessor {
    * @throws {IgniterError} When channel already exists
    */
   static registerChannel(channel: SSEChannel): void {
+    if (isChannelPattern(channel.id)) {
+      this.logger.debug("Channel pattern registered", { pattern: channel.id });
+      this.channelPatterns.set(channel.id, channel);
+      return;
+    }
+
     if (this.channels.has(channel.id)) {
       this.logger.warn(
         "Channel already exists",
@@ -151,6 +445,14 @@ export class SSEProcessor {
    * @param channelId - ID of the channel to unregister
    */
   static unregisterChannel(channelId: string): void {
+    if (this.channelPatterns.delete(channelId)) {
+      this.logger.debug("Channel pattern unregistered", { pattern: channelId });
+      for (const channel of this.history.keys()) {
+        if (matchChannelName(channelId, channel)) this.history.delete(channel);
+      }
+      return;
+    }
+
     if (!this.channels.has(channelId)) {
       this.logger.warn(
         "Channel not found for unregister",
@@ -186,9 +488,69 @@ export class SSEProcessor {
       });
     }
 
-    // Remove channel and its connections
+    // Remove channel, its connections and its history
+    for (const connection of connections || []) {
+      this.removeConnection(channelId, connection);
+    }
     this.channels.delete(channelId);
     this.connections.delete(channelId);
+    this.history.delete(channelId);
+  }
+
+  /**
+   * Get a registered channel, or resolve a channel matching a registered pattern
+   * with the settings of the pattern. Resolved channels are not registered.
+   *
+   * @param channelId - ID of the channel
+   * @returns The channel, or undefined if it is not registered
+   */
+  static getChannel(channelId: string): SSEChannel | undefined {
+    const channel = this.channels.get(channelId);
+    if (channel) return channel;
+
+    const pattern = this.matchChannelPattern(channelId)?.pattern;
+    return pattern && { ...pattern, id: channelId };
+  }
+
+  /**
+   * Resolve a channel a client subscribes to, validating the parameters of the channels
+   * matching a pattern against the `paramsSchema` of the pattern
+   *
+   * @param channelId - ID of the channel
+   * @returns The channel, or undefined if it is not registered or its parameters are invalid
+   */
+  static async resolveChannel(channelId: string): Promise<SSEChannel | undefined> {
+    const channel = this.channels.get(channelId);
+    if (channel) return channel;
+
+    const match = this.matchChannelPattern(channelId);
+    if (!match) return undefined;
+
+    if (match.pattern.paramsSchema) {
+      try {
+        const result = await validateStandardSchema(match.pattern.paramsSchema, match.params);
+        if (result.issues) {
+          this.logger.debug("Channel parameters rejected", { channelId, issues: result.issues });
+          return undefined;
+        }
+      } catch (error) {
+        this.logger.error("Channel parameters validation failed", { channelId, error });
+        return undefined;
+      }
+    }
+
+    return { ...match.pattern, id: channelId };
+  }
+
+  private static matchChannelPattern(
+    channelId: string,
+  ): { pattern: SSEChannel; params: Record<string, string> } | undefined {
+    for (const pattern of this.channelPatterns.values()) {
+      const params = matchChannelName(pattern.id, channelId);
+      if (params) return { pattern, params };
+    }
+
+    return undefined;
   }
 
   /**
@@ -231,32 +593,49 @@ export class SSEProcessor {
    * @returns True if the channel exists
    */
   static channelExists(channelId: string): boolean {
-    return this.channels.has(channelId);
+    return !!this.getChannel(channelId);
   }
 
   /**
    * Handle a new SSE connection request
    *
    * @param request - The incoming HTTP request
-   * @returns SSE response stream
+   * @param authorizer - Authorizes the connection and grants its scopes and member.
+   * Without an authorizer, the scopes are read from the `scopes` query parameter
+   * @returns SSE response stream, or a 401 response when the connection is rejected
    * @throws {IgniterError} When channel validation fails
    */
-  static async handleConnection(request: Request): Promise<Response> {
+  static async handleConnection(request: Request, authorizer?: SSEAuthorizer): Promise<Response> {
     const url = new URL(request.url);
     const channelsParam = url.searchParams.get("channels");
     const channels = channelsParam ? channelsParam.split(",") : [];
     const scopesParam = url.searchParams.get("scopes");
-    const scopes = scopesParam ? scopesParam.split(",") : [];
+    let scopes = scopesParam ? scopesParam.split(",") : [];
+    let member: SSEConnectionMember | undefined;
+
+    if (authorizer) {
+      const authorization = await this.authorize(request, authorizer);
+      if (!authorization) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+      scopes = authorization.scopes || [];
+      member = authorization.member;
+    }
+    // Browsers send the header when EventSource reconnects, clients opening a new
+    // EventSource pass the query parameter instead
+    const lastEventId =
+      request.headers.get("last-event-id") || url.searchParams.get("lastEventId");
 
     this.logger.debug("SSE connection requested", {
       requested_channels: channels,
       requested_scopes: scopes,
+      last_event_id: lastEventId,
       from_ip: request.headers.get('x-forwarded-for')
     });
 
     // Validate that requested channels exist
     for (const channel of channels) {
-      if (!this.channelExists(channel)) {
+      if (!(await this.resolveChannel(channel))) {
         this.logger.error("SSE connection refused", {
           requestedChannel: channel,
           availableChannels: this.getRegisteredChannels().map((c) => c.id),
@@ -282,6 +661,44 @@ export class SSEProcessor {
       channels: targetChannels,
       keepAliveInterval: 30000, // 30 seconds default
       scopes,
+      lastEventId,
+      member,
+    });
+  }
+
+  /**
+   * Handle a request reading the retained events of a channel, such as the last states of a job.
+   * Clients read them when they subscribe, to render the events published before.
+   *
+   * @param request - The incoming request, with the `channel` query parameter
+   * @param authorizer - Authorizes the request and grants its scopes, like the connections
+   * @returns The events of the history matching the scopes of the request, oldest first
+   */
+  static async handleHistory(request: Request, authorizer?: SSEAuthorizer): Promise<Response> {
+    const url = new URL(request.url);
+    const channelId = url.searchParams.get("channel") || "";
+    const scopesParam = url.searchParams.get("scopes");
+    let scopes = scopesParam ? scopesParam.split(",") : [];
+
+    if (authorizer) {
+      const authorization = await this.authorize(request, authorizer);
+      if (!authorization) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+      scopes = authorization.scopes || [];
+    }
+
+    if (!(await this.resolveChannel(channelId))) {
+      this.logger.debug("History of an unregistered channel requested", { channelId });
+      return new Response("Not Found", { status: 404 });
+    }
+
+    const events = (await this.readHistory(channelId))
+      .map((entry) => entry.event)
+      .filter((event) => this.matchesScopes(event, scopes));
+
+    return new Response(JSON.stringify({ events }), {
+      headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
     });
   }
 
@@ -292,9 +709,10 @@ export class SSEProcessor {
    * @returns Response object with SSE stream
    */
   private static createSSEStream(options: SSEStreamOptions): Response {
-    const { channels, keepAliveInterval = 30000, headers = {}, scopes } = options;
+    const { channels, keepAliveInterval = 30000, headers = {}, scopes, lastEventId, member } = options;
     const encoder = new TextEncoder();
     const connectionId = crypto.randomUUID();
+    let cleanup: (() => void) | undefined;
 
     // Create a new ReadableStream for SSE
     const stream = new ReadableStream({
@@ -319,8 +737,8 @@ export class SSEProcessor {
         });
         controller.enqueue(initialMessage);
 
-        // Create a handler for this connection
-        const connectionHandler = (event: SSEEvent) => {
+        // Send an event to this connection
+        const deliver = (event: SSEEvent) => {
           try {
             // Only handle events for subscribed channels
             if (!channels.includes(event.channel)) {
@@ -334,17 +752,14 @@ export class SSEProcessor {
             }
 
             // 🔥 FILTRO PRINCIPAL - Subscriber filtering
-            if (event.scopes && event.scopes.length > 0) {
-              // Se o evento tem lista de subscribers específicos
-              if (!scopes || !event.scopes.some(scope => scopes.includes(scope))) {
-                this.logger.debug("Event scope filtering applied", {
-                  connectionId,
-                  channel: event.channel,
-                  event_scopes: event.scopes,
-                  connection_scopes: scopes
-                });
-                return; // 🚫 Não envia se o client não está na lista
-              }
+            if (!this.matchesScopes(event, scopes)) {
+              this.logger.debug("Event scope filtering applied", {
+                connectionId,
+                channel: event.channel,
+                event_scopes: event.scopes,
+                connection_scopes: scopes
+              });
+              return; // 🚫 Não envia se o client não está na lista
             }
 
             const message = this.encodeSSEMessage({
@@ -373,20 +788,45 @@ export class SSEProcessor {
           }
         };
 
-        // Register this connection handler with each requested channel
+        // The connection is registered before the missed events are read, so no event is lost
+        // in between: live events are held back until the missed events are sent
+        let pending: SSEEvent[] | null = lastEventId ? [] : null;
+        const connection: SSEConnectionHandler = {
+          handler: (event: SSEEvent) => {
+            if (pending) {
+              pending.push(event);
+              return;
+            }
+            deliver(event);
+          },
+          scopes,
+          metadata: { connectedAt: Date.now(), member },
+        };
+
+        // Register this connection with each requested channel
         for (const channel of channels) {
-          if (this.connections.has(channel)) {
-            const channelConnections = this.connections.get(channel)!;
-            channelConnections.add({
-              handler: connectionHandler,
-              scopes,
-              metadata: { connectedAt: Date.now() }
+          this.addConnection(channel, connection);
+        }
+
+        // Replay the events missed since the Last-Event-ID, then the live events held back,
+        // skipping those already in the history
+        if (lastEventId) {
+          void this.getEventsSince(channels, lastEventId)
+            .catch((error) => {
+              this.logger.warn("Missed events replay failed", { connectionId, error });
+              return [] as SSEEvent[];
+            })
+            .then((replay) => {
+              const replayedIds = new Set(replay.map((event) => event.id));
+              const live = (pending || []).filter((event) => !event.id || !replayedIds.has(event.id));
+              pending = null;
+
+              if (replay.length > 0) {
+                this.logger.debug("Missed events replayed", { connectionId, count: replay.length });
+              }
+              replay.forEach(deliver);
+              live.forEach(deliver);
             });
-            this.logger.debug(
-              "Client subscribed",
-              { channel, connectionCount: channelConnections.size }
-            );
-          }
         }
 
         // Set up keep-alive interval
@@ -409,30 +849,24 @@ export class SSEProcessor {
           }
         }, keepAliveInterval);
 
-        // Return cleanup function
-        return () => {
+        // Cleanup when the client disconnects
+        cleanup = () => {
           this.logger.debug(
             "Closing SSE connection",
             { connectionId, channels: channels.join(", ") }
           );
           clearInterval(keepAliveTimer);
 
-          // Unregister this connection handler from all channels
+          // Unregister this connection from all channels
           for (const channel of channels) {
-            if (this.connections.has(channel)) {
-              const channelConnections = this.connections.get(channel)!;
-              channelConnections.delete({
-                handler: connectionHandler,
-                scopes,
-                metadata: { connectedAt: Date.now() }
-              });
-              this.logger.debug(
-                `Client unsubscribed from channel '${channel}' (${channelConnections.size} connections remaining)`,
-              );
-            }
+            this.removeConnection(channel, connection);
           }
+          this.activeStreams.delete(stream);
         };
       },
+      cancel: () => {
+        cleanup?.();
+      },
     });
 
     // Track this stream for potential cleanup
@@ -450,6 +884,70 @@ export class SSEProcessor {
     });
   }
 
+  /**
+   * Subscribe a connection handler to channels, for transports other than the SSE stream (e.g. WebSocket).
+   * Events are filtered by scopes the same way as SSE connections.
+   *
+   * @param channels - IDs of the channels to subscribe to
+   * @param handler - Called for every event delivered to the connection. Throwing an error
+   * containing "closed" removes the connection
+   * @param scopes - Scopes of the connection
+   * @param member - Member behind the connection, tracked by the channels with presence
+   * @returns A function that unsubscribes the handler from the channels
+   * @throws {IgniterError} When a channel is not registered
+   */
+  static subscribe(
+    channels: string[],
+    handler: (event: SSEEvent) => void,
+    scopes?: string[],
+    member?: SSEConnectionMember,
+  ): () => void {
+    for (const channel of channels) {
+      if (!this.channelExists(channel)) {
+        throw new IgniterError({
+          code: "INVALID_SSE_CHANNEL",
+          message: `Channel '${channel}' is not registered`,
+          details: {
+            requestedChannel: channel,
+            availableChannels: this.getRegisteredChannels().map((c) => c.id),
+          },
+        });
+      }
+    }
+
+    const connection: SSEConnectionHandler = {
+      handler: (event: SSEEvent) => {
+        if (!this.matchesScopes(event, scopes)) return;
+        handler(event);
+      },
+      scopes,
+      metadata: { connectedAt: Date.now(), member },
+    };
+
+    for (const channel of channels) {
+      this.addConnection(channel, connection);
+    }
+
+    return () => {
+      for (const channel of channels) {
+        this.removeConnection(channel, connection);
+      }
+    };
+  }
+
+  /**
+   * Check whether an event can be delivered to a connection holding the given scopes.
+   * Events without scopes are delivered to every connection.
+   *
+   * @param event - The event to deliver
+   * @param scopes - Scopes of the connection
+   * @returns True if the event must be delivered
+   */
+  private static matchesScopes(event: SSEEvent, scopes?: string[]): boolean {
+    if (!event.scopes || event.scopes.length === 0) return true;
+    return !!scopes && event.scopes.some((scope) => scopes.includes(scope));
+  }
+
   /**
    * Publish an event to a specific channel
    *
@@ -457,6 +955,18 @@ export class SSEProcessor {
    * @returns Number of clients the event was sent to
    */
   static publishEvent(event: SSEEvent): number {
+    return this.dispatchEvent(event, true);
+  }
+
+  /**
+   * Record an event in the channel history and send it to the local connections
+   *
+   * @param event - The event to publish
+   * @param persist - Whether to write the event to the store history. False for events
+   * received from other instances, which the publishing instance already persisted
+   * @returns Number of clients the event was sent to
+   */
+  private static dispatchEvent(event: SSEEvent, persist: boolean): number {
     const { channel } = event;
 
     // Validate channel exists
@@ -468,6 +978,22 @@ export class SSEProcessor {
       return 0;
     }
 
+    // Add timestamp if not present
+    if (
+      typeof event.data === "object" &&
+      event.data !== null &&
+      !("timestamp" in event.data)
+    ) {
+      event.data.timestamp = new Date().toISOString();
+    }
+
+    // Add unique ID if not provided
+    if (!event.id) {
+      event.id = crypto.randomUUID();
+    }
+
+    this.recordEvent(event, persist);
+
     const connections = this.connections.get(channel);
     if (!connections || connections.size === 0) {
       this.logger.debug("No connections, event skipped", { channel });
@@ -485,20 +1011,6 @@ export class SSEProcessor {
       }
     );
 
-    // Add timestamp if not present
-    if (
-      typeof event.data === "object" &&
-      event.data !== null &&
-      !("timestamp" in event.data)
-    ) {
-      event.data.timestamp = new Date().toISOString();
-    }
-
-    // Add unique ID if not provided
-    if (!event.id) {
-      event.id = crypto.randomUUID();
-    }
-
     // Create a copy of the connections to avoid concurrent modification issues
     const connectionsToNotify = [...connections];
 
@@ -525,7 +1037,7 @@ export class SSEProcessor {
     // Clean up dead connections
     if (deadConnections.length > 0) {
       for (const deadConnection of deadConnections) {
-        connections.delete(deadConnection);
+        this.removeConnection(channel, deadConnection);
       }
       this.logger.debug("Dead connections removed", { 
         channel, 
@@ -560,6 +1072,268 @@ export class SSEProcessor {
     return totalSent;
   }
 
+  /**
+   * Get the events published after an event, in the history of the given channels.
+   * Nothing is replayed when the event is no longer, or was never, in the history.
+   *
+   * @param channels - IDs of the channels to read
+   * @param lastEventId - ID of the last event received by the client
+   * @returns The missed events, oldest first
+   */
+  static async getEventsSince(
+    channels: string[],
+    lastEventId: string,
+  ): Promise<SSEEvent[]> {
+    const histories = await Promise.all(
+      channels.map((channel) => this.readHistory(channel)),
+    );
+
+    let last: { entry: SSEHistoryEntry; channelIndex: number; entryIndex: number } | undefined;
+    histories.forEach((entries, channelIndex) => {
+      const entryIndex = entries.findIndex((entry) => entry.event.id === lastEventId);
+      if (entryIndex !== -1) {
+        last = { entry: entries[entryIndex], channelIndex, entryIndex };
+      }
+    });
+
+    if (!last) {
+      this.logger.debug("Last event not found in history, nothing to replay", { lastEventId });
+      return [];
+    }
+
+    const { entry: lastEntry, channelIndex: lastChannelIndex, entryIndex: lastEntryIndex } = last;
+    const missed = histories.flatMap((entries, channelIndex) =>
+      channelIndex === lastChannelIndex
+        ? entries.slice(lastEntryIndex + 1)
+        : entries.filter((entry) => entry.publishedAt > lastEntry.publishedAt),
+    );
+
+    return missed
+      .sort((a, b) => a.publishedAt - b.publishedAt)
+      .map((entry) => entry.event);
+  }
+
+  /**
+   * Append an event to the history of its channel when the channel has retention.
+   * Store histories are written asynchronously.
+   */
+  private static recordEvent(event: SSEEvent, persist: boolean): void {
+    const retention = this.getChannel(event.channel)?.retention;
+    if (!retention) return;
+
+    const entry: SSEHistoryEntry = { event, publishedAt: Date.now() };
+    const maxEvents = retention.maxEvents ?? DEFAULT_RETENTION_MAX_EVENTS;
+    const ttl = retention.ttl ?? DEFAULT_RETENTION_TTL;
+
+    if (this.supportsHistory(retention.store)) {
+      if (persist) {
+        void this.persistEvent(retention.store, entry, maxEvents, ttl);
+      }
+      return;
+    }
+
+    const entries = this.history.get(event.channel) || [];
+    entries.push(entry);
+    this.history.set(event.channel, this.trimHistory(entries, maxEvents, ttl));
+    this.sweepHistory();
+  }
+
+  /**
+   * Drop the in-memory histories whose events all expired. Channels matching a pattern,
+   * such as the channel of each job, are not read again once their events expire.
+   */
+  private static sweepHistory(): void {
+    const now = Date.now();
+    if (now - this.historySweptAt < HISTORY_SWEEP_INTERVAL) return;
+    this.historySweptAt = now;
+
+    for (const [channelId, entries] of this.history) {
+      const ttl = this.getChannel(channelId)?.retention?.ttl ?? DEFAULT_RETENTION_TTL;
+      const last = entries[entries.length - 1];
+      if (!last || last.publishedAt <= now - ttl * 1000) {
+        this.history.delete(channelId);
+      }
+    }
+  }
+
+  private static async persistEvent(
+    store: SSEHistoryStore,
+    entry: SSEHistoryEntry,
+    maxEvents: number,
+    ttl: number,
+  ): Promise<void> {
+    const key = `${SSE_HISTORY_PREFIX}:${entry.event.channel}`;
+
+    try {
+      await store.pushToList(key, entry, { maxLength: maxEvents, ttl });
+    } catch (error) {
+      this.logger.warn("Event history write failed", { channel: entry.event.channel, error });
+    }
+  }
+
+  private static async readHistory(channelId: string): Promise<SSEHistoryEntry[]> {
+    const retention = this.getChannel(channelId)?.retention;
+    if (!retention) return [];
+
+    const maxEvents = retention.maxEvents ?? DEFAULT_RETENTION_MAX_EVENTS;
+    const ttl = retention.ttl ?? DEFAULT_RETENTION_TTL;
+
+    if (!this.supportsHistory(retention.store)) {
+      return this.trimHistory(this.history.get(channelId) || [], maxEvents, ttl);
+    }
+
+    try {
+      const entries = await retention.store.getList<SSEHistoryEntry>(
+        `${SSE_HISTORY_PREFIX}:${channelId}`,
+      );
+      return this.trimHistory(entries, maxEvents, ttl);
+    } catch (error) {
+      this.logger.warn("Event history read failed", { channel: channelId, error });
+      return [];
+    }
+  }
+
+  /**
+   * Drop expired events and keep the latest `maxEvents`
+   */
+  private static trimHistory(
+    entries: SSEHistoryEntry[],
+    maxEvents: number,
+    ttl: number,
+  ): SSEHistoryEntry[] {
+    const expiredBefore = Date.now() - ttl * 1000;
+    return entries
+      .filter((entry) => entry.publishedAt > expiredBefore)
+      .slice(-maxEvents);
+  }
+
+  /**
+   * Subscribe this instance to the events published by other instances through the store.
+   * Received events are delivered to the local connections once, de-duplicated by event id.
+   * Calling it again with the same store is a no-op.
+   *
+   * @param store - Store adapter providing publish/subscribe
+   */
+  static async enableDistribution(store?: IgniterStoreAdapter): Promise<void> {
+    if (!this.supportsDistribution(store) || this.distributionStores.has(store)) {
+      return;
+    }
+
+    this.distributionStores.add(store);
+
+    try {
+      await store.subscribe(SSE_DISTRIBUTION_CHANNEL, (message) => {
+        try {
+          const { origin, event }: Partial<SSEDistributedMessage> =
+            (typeof message === "string" ? JSON.parse(message) : message) || {};
+          if (origin === this.instanceId || !event?.channel || !event.id) return;
+
+          if (!this.channelExists(event.channel)) {
+            this.logger.debug("Distributed event skipped, channel not registered", {
+              channel: event.channel,
+            });
+            return;
+          }
+
+          this.deliverOnce(event);
+        } catch (error) {
+          this.logger.warn("Distributed event delivery failed", { error });
+        }
+      });
+      this.logger.debug("Event distribution enabled", { channel: SSE_DISTRIBUTION_CHANNEL });
+    } catch (error) {
+      this.distributionStores.delete(store);
+      this.logger.error("Event distribution subscription failed", { error });
+    }
+  }
+
+  /**
+   * Publish an event to the local connections and to the other instances sharing the store.
+   * Falls back to a local publish when no store with publish/subscribe is available.
+   *
+   * @param event - The event to publish
+   * @param store - Store adapter to publish through. Defaults to the store passed to {@link enableDistribution}
+   * @returns Number of local clients the event was sent to
+   */
+  static async publishDistributed(
+    event: SSEEvent,
+    store?: IgniterStoreAdapter,
+  ): Promise<number> {
+    if (!event.id) {
+      event.id = crypto.randomUUID();
+    }
+
+    this.rememberEventId(event.id);
+    const sentCount = this.publishEvent(event);
+
+    const target = this.supportsDistribution(store)
+      ? store
+      : this.distributionStores.values().next().value;
+
+    if (target) {
+      if (!this.distributionStores.has(target)) {
+        await this.enableDistribution(target);
+      }
+
+      try {
+        const message: SSEDistributedMessage = { origin: this.instanceId, event };
+        await target.publish(SSE_DISTRIBUTION_CHANNEL, message);
+      } catch (error) {
+        this.logger.warn("Event distribution failed", {
+          channel: event.channel,
+          event_id: event.id,
+          error,
+        });
+      }
+    }
+
+    return sentCount;
+  }
+
+  /**
+   * Publish a distributed event to the local connections unless an event with the same id was already delivered.
+   *
+   * @returns Number of clients the event was sent to
+   */
+  private static deliverOnce(event: SSEEvent): number {
+    if (event.id && this.deliveredEventIds.has(event.id)) {
+      this.logger.debug("Duplicate distributed event skipped", { event_id: event.id });
+      return 0;
+    }
+
+    this.rememberEventId(event.id);
+    return this.dispatchEvent(event, false);
+  }
+
+  private static rememberEventId(id?: string): void {
+    if (!id) return;
+
+    this.deliveredEventIds.delete(id);
+    this.deliveredEventIds.add(id);
+    if (this.deliveredEventIds.size > DELIVERED_EVENT_IDS_LIMIT) {
+      const oldest = this.deliveredEventIds.values().next().value;
+      if (oldest) this.deliveredEventIds.delete(oldest);
+    }
+  }
+
+  private static supportsHistory(
+    store?: IgniterStoreAdapter,
+  ): store is SSEHistoryStore {
+    return (
+      typeof store?.pushToList === "function" &&
+      typeof store?.getList === "function"
+    );
+  }
+
+  private static supportsDistribution(
+    store?: IgniterStoreAdapter,
+  ): store is IgniterStoreAdapter {
+    return (
+      typeof store?.publish === "function" &&
+      typeof store?.subscribe === "function"
+    );
+  }
+
   /**
    * Close all connections and cleanup resources
    */
@@ -624,7 +1398,7 @@ export class SSEProcessor {
 
       // Remove dead connections
       deadConnections.forEach(connection => {
-        connections.delete(connection);
+        this.removeConnection(channel, connection);
       });
 
       const removed = beforeCount - connections.size;
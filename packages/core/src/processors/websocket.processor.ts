@@ -0,0 +1,435 @@
+import type { IgniterLogger } from "../types";
+import { IgniterConsoleLogger } from "../services/logger.service";
+import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+import { validateStandardSchema } from "../utils/schema";
+import {
+  SSEProcessor,
+  type SSEAuthorization,
+  type SSEAuthorizer,
+  type SSEConnectionMember,
+  type SSEEvent,
+} from "./sse.processor";
+
+/**
+ * Minimal WebSocket interface shared by Bun, Node `ws` and Deno sockets
+ */
+export interface IgniterWebSocket {
+  /**
+   * Ready state of the socket (1 when open)
+   */
+  readonly readyState?: number;
+
+  /**
+   * Sends a text frame
+   */
+  send(data: string): unknown;
+
+  /**
+   * Closes the socket
+   */
+  close(code?: number, reason?: string): unknown;
+}
+
+/**
+ * Parameters of a WebSocket connection, resolved from the upgrade request
+ */
+export interface WebSocketConnectionParams {
+  /**
+   * Channels to subscribe to when the socket opens. Defaults to every registered channel.
+   */
+  channels?: string[];
+
+  /**
+   * Scopes of the connection, used to filter scoped events. Granted by the server when it authorizes the upgrade.
+   */
+  scopes?: string[];
+
+  /**
+   * Member behind the connection, tracked by the channels with presence. Granted by the server when it authorizes the upgrade.
+   */
+  member?: SSEConnectionMember;
+}
+
+/**
+ * Result of the authorization of a WebSocket upgrade.
+ * `false` rejects the upgrade, `true` accepts it without scopes,
+ * and an object accepts it with the scopes and the member of the caller.
+ */
+export type WebSocketAuthorization = SSEAuthorization;
+
+/**
+ * Authorizes a WebSocket upgrade request and grants the scopes and the member of the connection,
+ * e.g. from the session of the caller.
+ */
+export type WebSocketAuthorizer = SSEAuthorizer;
+
+/**
+ * Messages sent by clients over the WebSocket
+ */
+export type WebSocketClientMessage =
+  | { type: "subscribe"; channels: string[] }
+  | { type: "unsubscribe"; channels: string[] }
+  | { type: "publish"; channel: string; event?: string; data: unknown }
+  | { type: "ping" };
+
+/**
+ * Messages sent by the server over the WebSocket
+ */
+export type WebSocketServerMessage =
+  | { type: "connected"; connectionId: string; channels: string[]; timestamp: string }
+  | { type: "subscribed"; channels: string[] }
+  | { type: "unsubscribed"; channels: string[] }
+  | { type: "published"; channel: string; id: string }
+  | {
+      type: "event";
+      channel: string;
+      event: string;
+      id?: string;
+      data: unknown;
+      scopes?: string[];
+      timestamp: string;
+    }
+  | { type: "error"; code: string; message: string; details?: unknown }
+  | { type: "pong"; timestamp: string };
+
+/**
+ * State of an open WebSocket connection
+ */
+interface WebSocketConnectionState {
+  id: string;
+  scopes: string[];
+  member?: SSEConnectionMember;
+  subscriptions: Map<string, () => void>;
+}
+
+const WEBSOCKET_OPEN = 1;
+
+/**
+ * WebSocket processor for the Igniter Framework.
+ * Bidirectional transport sharing the SSE channel registry, scopes and revalidation events.
+ * Runtime adapters (Bun, Node `ws`, Deno) forward socket lifecycle events to this processor.
+ */
+export class WebSocketProcessor {
+  private static _logger: IgniterLogger;
+
+  private static get logger(): IgniterLogger {
+    if (!this._logger) {
+      this._logger = IgniterConsoleLogger.create({
+        level: resolveLogLevel(),
+        context: createLoggerContext('WebSocket'),
+        showTimestamp: true,
+      });
+    }
+    return this._logger;
+  }
+
+  /**
+   * Open connections and their subscriptions
+   * @private
+   */
+  private static connections: Map<IgniterWebSocket, WebSocketConnectionState> = new Map();
+
+  /**
+   * Reads the requested channels from the `channels` query parameter of the upgrade request URL.
+   * Scopes are not read from the URL, as the client controls it; they are granted by {@link authorize}.
+   *
+   * @param url - URL of the upgrade request
+   * @returns The connection parameters
+   */
+  static parseConnectionParams(url: URL): WebSocketConnectionParams {
+    const channelsParam = url.searchParams.get("channels");
+
+    return {
+      channels: channelsParam ? channelsParam.split(",") : undefined,
+    };
+  }
+
+  /**
+   * Authorizes an upgrade request and resolves the parameters of the connection.
+   * Without an authorizer, every upgrade is accepted without scopes.
+   *
+   * @param request - The upgrade request
+   * @param authorizer - The `authorize` option of the adapter
+   * @returns The connection parameters, or `null` when the upgrade is rejected
+   */
+  static async authorize(
+    request: Request,
+    authorizer?: WebSocketAuthorizer,
+  ): Promise<WebSocketConnectionParams | null> {
+    const params = this.parseConnectionParams(new URL(request.url));
+    if (!authorizer) return params;
+
+    const authorization = await SSEProcessor.authorize(request, authorizer);
+    if (!authorization) return null;
+
+    return {
+      ...params,
+      scopes: authorization.scopes,
+      member: authorization.member,
+    };
+  }
+
+  /**
+   * Handles a newly opened socket and subscribes it to the requested channels.
+   *
+   * @param socket - The opened socket
+   * @param params - The connection parameters
+   */
+  static async handleOpen(socket: IgniterWebSocket, params: WebSocketConnectionParams = {}): Promise<void> {
+    const state: WebSocketConnectionState = {
+      id: crypto.randomUUID(),
+      scopes: params.scopes || [],
+      member: params.member,
+      subscriptions: new Map(),
+    };
+    this.connections.set(socket, state);
+
+    const channels = params.channels && params.channels.length > 0
+      ? params.channels
+      : SSEProcessor.getRegisteredChannels().map((channel) => channel.id);
+
+    const subscribed = await this.subscribe(socket, state, channels);
+
+    this.logger.debug("WebSocket connection opened", {
+      connectionId: state.id,
+      channels: subscribed.join(", "),
+      scopes: state.scopes.join(", "),
+    });
+
+    this.send(socket, {
+      type: "connected",
+      connectionId: state.id,
+      channels: subscribed,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Handles a message received from a socket.
+   * Never rejects: failures are logged and answered with an `INTERNAL_ERROR` frame.
+   *
+   * @param socket - The socket that sent the message
+   * @param raw - The raw message
+   */
+  static async handleMessage(
+    socket: IgniterWebSocket,
+    raw: string | ArrayBuffer | Uint8Array,
+  ): Promise<void> {
+    try {
+      await this.processMessage(socket, raw);
+    } catch (error) {
+      this.logger.error("WebSocket message handling failed", {
+        connectionId: this.connections.get(socket)?.id,
+        error,
+      });
+
+      try {
+        this.sendError(socket, "INTERNAL_ERROR", "The message could not be processed");
+      } catch {
+        // The socket closed meanwhile
+      }
+    }
+  }
+
+  /**
+   * Handles a closed socket and removes its subscriptions.
+   *
+   * @param socket - The closed socket
+   */
+  static handleClose(socket: IgniterWebSocket): void {
+    const state = this.connections.get(socket);
+    if (!state) return;
+
+    for (const unsubscribe of state.subscriptions.values()) {
+      unsubscribe();
+    }
+    this.connections.delete(socket);
+
+    this.logger.debug("WebSocket connection closed", { connectionId: state.id });
+  }
+
+  /**
+   * Get the number of open WebSocket connections
+   *
+   * @returns Number of open connections
+   */
+  static getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Close all sockets and cleanup resources
+   */
+  static closeAllConnections(): void {
+    for (const socket of [...this.connections.keys()]) {
+      this.handleClose(socket);
+      try {
+        socket.close(1001, "Server is shutting down all connections.");
+      } catch (error) {
+        this.logger.warn("WebSocket closure failed", { error });
+      }
+    }
+  }
+
+  /**
+   * Parses a client message and runs it.
+   */
+  private static async processMessage(
+    socket: IgniterWebSocket,
+    raw: string | ArrayBuffer | Uint8Array,
+  ): Promise<void> {
+    const state = this.connections.get(socket);
+    if (!state) {
+      this.logger.warn("Message received from unknown socket");
+      return;
+    }
+
+    let message: WebSocketClientMessage;
+    try {
+      const text = typeof raw === "string" ? raw : new TextDecoder().decode(raw);
+      message = JSON.parse(text);
+    } catch {
+      this.sendError(socket, "INVALID_MESSAGE", "Message must be valid JSON");
+      return;
+    }
+
+    switch (message?.type) {
+      case "subscribe": {
+        const channels = await this.subscribe(socket, state, message.channels || []);
+        this.send(socket, { type: "subscribed", channels });
+        return;
+      }
+      case "unsubscribe": {
+        const channels = message.channels || [];
+        for (const channel of channels) {
+          state.subscriptions.get(channel)?.();
+          state.subscriptions.delete(channel);
+        }
+        this.send(socket, { type: "unsubscribed", channels });
+        return;
+      }
+      case "publish":
+        await this.publish(socket, state, message);
+        return;
+      case "ping":
+        this.send(socket, { type: "pong", timestamp: new Date().toISOString() });
+        return;
+      default:
+        this.sendError(socket, "INVALID_MESSAGE", `Unknown message type '${(message as any)?.type}'`);
+    }
+  }
+
+  /**
+   * Subscribes a socket to channels, skipping unknown and already subscribed channels
+   * and the channels whose parameters do not match the schema of their pattern.
+   *
+   * @returns The channels the socket is subscribed to after the call
+   */
+  private static async subscribe(
+    socket: IgniterWebSocket,
+    state: WebSocketConnectionState,
+    channels: string[],
+  ): Promise<string[]> {
+    for (const channel of channels) {
+      if (state.subscriptions.has(channel)) continue;
+
+      const resolved = await SSEProcessor.resolveChannel(channel);
+      // The socket closed while the channel was resolved
+      if (this.connections.get(socket) !== state) break;
+      if (state.subscriptions.has(channel)) continue;
+
+      if (!resolved) {
+        this.sendError(socket, "INVALID_CHANNEL", `Channel '${channel}' is not registered`, {
+          requestedChannel: channel,
+        });
+        continue;
+      }
+
+      const unsubscribe = SSEProcessor.subscribe(
+        [channel],
+        (event) => this.deliver(socket, event),
+        state.scopes,
+        state.member,
+      );
+      state.subscriptions.set(channel, unsubscribe);
+    }
+
+    return Array.from(state.subscriptions.keys());
+  }
+
+  /**
+   * Validates an event published by a client against the channel schema and fans it out.
+   * Events get a server-generated id and are restricted to the scopes of the publishing connection.
+   */
+  private static async publish(
+    socket: IgniterWebSocket,
+    state: WebSocketConnectionState,
+    message: Extract<WebSocketClientMessage, { type: "publish" }>,
+  ): Promise<void> {
+    const channel = await SSEProcessor.resolveChannel(message.channel);
+    if (!channel) {
+      this.sendError(socket, "INVALID_CHANNEL", `Channel '${message.channel}' is not registered`, {
+        requestedChannel: message.channel,
+      });
+      return;
+    }
+
+    if (!channel.schema || !channel.clientPublish) {
+      this.sendError(socket, "PUBLISH_NOT_ALLOWED", `Channel '${channel.id}' does not accept client events`);
+      return;
+    }
+
+    const result = await validateStandardSchema(channel.schema, message.data);
+    if (result.issues) {
+      this.logger.debug("Client event rejected", { connectionId: state.id, channel: channel.id });
+      this.sendError(socket, "VALIDATION_ERROR", "Event data validation failed", result.issues);
+      return;
+    }
+
+    const id = crypto.randomUUID();
+    await SSEProcessor.publishDistributed({
+      channel: channel.id,
+      type: message.event,
+      id,
+      data: result.value,
+      scopes: state.scopes.length > 0 ? state.scopes : undefined,
+    });
+
+    this.logger.debug("Client event published", { connectionId: state.id, channel: channel.id, id });
+    this.send(socket, { type: "published", channel: channel.id, id });
+  }
+
+  /**
+   * Delivers a channel event to a socket.
+   * Throws when the socket is closed, so the publisher removes the connection.
+   */
+  private static deliver(socket: IgniterWebSocket, event: SSEEvent): void {
+    if (socket.readyState !== undefined && socket.readyState !== WEBSOCKET_OPEN) {
+      this.handleClose(socket);
+      throw new Error("Socket is closed");
+    }
+
+    this.send(socket, {
+      type: "event",
+      channel: event.channel,
+      event: event.type || "message",
+      id: event.id,
+      data: event.data,
+      scopes: event.scopes,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private static send(socket: IgniterWebSocket, message: WebSocketServerMessage): void {
+    socket.send(JSON.stringify(message));
+  }
+
+  private static sendError(
+    socket: IgniterWebSocket,
+    code: string,
+    message: string,
+    details?: unknown,
+  ): void {
+    this.send(socket, { type: "error", code, message, details });
+  }
+}
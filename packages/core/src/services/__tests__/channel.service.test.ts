@@ -0,0 +1,140 @@
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createIgniterChannel } from '../channel.service';
+import { IgniterRealtimeService } from '../realtime.service';
+import { SSEProcessor, type SSEEvent } from '../../processors/sse.processor';
+import { WebSocketProcessor, type IgniterWebSocket } from '../../processors/websocket.processor';
+
+const chatRoom = createIgniterChannel({
+  name: 'chat:room:{roomId}',
+  description: 'Messages of a chat room',
+  schema: z.object({ text: z.string().min(1), author: z.string() }),
+});
+
+const announcements = createIgniterChannel({
+  name: 'announcements',
+  schema: z.object({ title: z.string() }),
+});
+
+describe('Channel Service', () => {
+  afterEach(() => {
+    SSEProcessor.unregisterChannel(chatRoom.name);
+    for (const channel of SSEProcessor.getRegisteredChannels()) {
+      SSEProcessor.unregisterChannel(channel.id);
+    }
+  });
+
+  describe('createIgniterChannel', () => {
+    it('should list the parameters of the channel name', () => {
+      expect(chatRoom.params).toEqual(['roomId']);
+      expect(announcements.params).toEqual([]);
+    });
+
+    it('should resolve channel names from their parameters', () => {
+      expect(chatRoom.to({ roomId: '42' }).id).toBe('chat:room:42');
+      expect(chatRoom.to({ roomId: 'a b' }).id).toBe('chat:room:a%20b');
+      expect(announcements.to().id).toBe('announcements');
+      expect(chatRoom.to({ roomId: '42' }).channel).toBe(chatRoom);
+    });
+
+    it('should throw when a parameter is missing', () => {
+      // @ts-expect-error - Testing a missing parameter
+      expect(() => chatRoom.to({})).toThrow("Missing parameter 'roomId'");
+    });
+
+    it('should match channel names against the pattern', () => {
+      expect(chatRoom.match('chat:room:42')).toEqual({ roomId: '42' });
+      expect(chatRoom.match('chat:room:42:typing')).toBeNull();
+      expect(chatRoom.match('notifications')).toBeNull();
+      expect(chatRoom.match('chat:room:%E0')).toBeNull();
+    });
+  });
+
+  describe('subscribing to channel patterns', () => {
+    it('should resolve the channels of a pattern without registering them', async () => {
+      SSEProcessor.registerChannel({ id: chatRoom.name, schema: chatRoom.schema });
+      const socket: IgniterWebSocket = { send: vi.fn(), close: vi.fn() };
+
+      await WebSocketProcessor.handleOpen(socket, { channels: ['chat:room:1'] });
+      expect(SSEProcessor.getConnectionCount('chat:room:1')).toBe(1);
+      WebSocketProcessor.handleClose(socket);
+
+      expect(SSEProcessor.getRegisteredChannels().map((channel) => channel.id)).not.toContain('chat:room:1');
+      expect(SSEProcessor.getTotalConnectionCount()).toBe(0);
+    });
+
+    it('should reject the channels whose parameters do not match the params schema', async () => {
+      SSEProcessor.registerChannel({
+        id: chatRoom.name,
+        schema: chatRoom.schema,
+        paramsSchema: z.object({ roomId: z.string().regex(/^\d+$/) }),
+      });
+
+      expect(await SSEProcessor.resolveChannel('chat:room:1')).toEqual(expect.objectContaining({ id: 'chat:room:1' }));
+      expect(await SSEProcessor.resolveChannel('chat:room:lobby')).toBeUndefined();
+      await expect(
+        SSEProcessor.handleConnection(new Request('http://localhost/api/v1/sse/events?channels=chat:room:lobby')),
+      ).rejects.toMatchObject({ code: 'INVALID_SSE_CHANNEL' });
+    });
+  });
+
+  describe('publishing to typed channels', () => {
+    it('should validate and publish events to resolved channels', async () => {
+      const events: SSEEvent[] = [];
+      const realtime = new IgniterRealtimeService({} as any);
+      await realtime.publish(chatRoom.to({ roomId: '42' }), { text: 'Hi', author: 'ana' });
+
+      const unsubscribe = SSEProcessor.subscribe(['chat:room:42'], (event) => events.push(event));
+      await realtime.to(chatRoom.to({ roomId: '42' })).withData({ text: 'Hello', author: 'ana' }).publish();
+      unsubscribe();
+
+      expect(SSEProcessor.getChannel('chat:room:42')).toEqual(expect.objectContaining({
+        description: 'Messages of a chat room',
+        schema: chatRoom.schema,
+      }));
+      expect(SSEProcessor.getChannel('chat:room:42')?.clientPublish).toBeFalsy();
+      expect(events).toEqual([
+        expect.objectContaining({ data: expect.objectContaining({ text: 'Hello', author: 'ana' }) }),
+      ]);
+    });
+
+    it('should reject events that do not match the channel schema', async () => {
+      const realtime = new IgniterRealtimeService({} as any);
+
+      await expect(
+        // @ts-expect-error - Testing an invalid payload
+        realtime.publish(chatRoom.to({ roomId: '42' }), { text: '' }),
+      ).rejects.toMatchObject({ code: 'REALTIME_VALIDATION_ERROR' });
+    });
+
+    it('should validate events published by name on registered channel patterns', async () => {
+      SSEProcessor.registerChannel({ id: chatRoom.name, schema: chatRoom.schema });
+      const realtime = new IgniterRealtimeService({} as any);
+
+      expect(SSEProcessor.channelExists('chat:room:7')).toBe(true);
+      expect(SSEProcessor.channelExists('chat:lobby')).toBe(false);
+      await expect(
+        realtime.publish('chat:room:7', { text: 42 }),
+      ).rejects.toMatchObject({ code: 'REALTIME_VALIDATION_ERROR' });
+    });
+
+    it('should not accept client events unless the channel allows it', async () => {
+      SSEProcessor.registerChannel({ id: chatRoom.name, schema: chatRoom.schema });
+      const messages: any[] = [];
+      const socket: IgniterWebSocket = {
+        send: vi.fn((data: string) => { messages.push(JSON.parse(data)); }),
+        close: vi.fn(),
+      };
+      await WebSocketProcessor.handleOpen(socket, { channels: ['chat:room:1'] });
+
+      await WebSocketProcessor.handleMessage(socket, JSON.stringify({
+        type: 'publish',
+        channel: 'chat:room:1',
+        data: { text: 'Hi', author: 'ana' },
+      }));
+      WebSocketProcessor.handleClose(socket);
+
+      expect(messages).toContainEqual(expect.objectContaining({ type: 'error', code: 'PUBLISH_NOT_ALLOWED' }));
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { initializeIgniterJobsDashboard, isJobsDashboardRequest } from '../jobs-dashboard.service';
+import { createMemoryJobsAdapter } from '../../adapters/jobs.memory';
+import type { IgniterJobQueueAdapter, IgniterJobsDashboardOptions } from '../../types/jobs.interface';
+import type { IgniterLogger } from '../../types/logger.interface';
+
+const silentLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as IgniterLogger;
+
+describe('Jobs Dashboard Service', () => {
+  let adapter: IgniterJobQueueAdapter<any>;
+  let options: IgniterJobsDashboardOptions;
+
+  const request = (method: string, path: string, headers: Record<string, string> = {}) =>
+    initializeIgniterJobsDashboard(options, '/api/v1').process(
+      new Request(`http://localhost/api/v1/jobs-dashboard${path}`, { method, headers }),
+    );
+
+  beforeEach(async () => {
+    adapter = createMemoryJobsAdapter({ logger: silentLogger, pollInterval: 20 });
+    options = {
+      jobs: adapter,
+      security: (req) => req.headers.get('authorization') === 'admin',
+    };
+
+    await adapter.bulkRegister({
+      'task.broken': adapter.register({
+        name: 'broken',
+        input: z.object({}),
+        attempts: 1,
+        handler: () => { throw new Error('boom'); },
+      }),
+      'reports.daily': adapter.register({
+        name: 'daily',
+        input: z.object({}),
+        handler: vi.fn(),
+      }),
+    });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await adapter.shutdown();
+  });
+
+  it('should match the requests under the dashboard route', () => {
+    expect(isJobsDashboardRequest('/api/v1/jobs-dashboard', '/api/v1', options)).toBe(true);
+    expect(isJobsDashboardRequest('/api/v1/jobs-dashboard/api/queues', '/api/v1', options)).toBe(true);
+    expect(isJobsDashboardRequest('/api/v1/jobs', '/api/v1', options)).toBe(false);
+    expect(isJobsDashboardRequest('/api/v1/jobs-dashboard', '/api/v1', { ...options, enabled: false })).toBe(false);
+  });
+
+  it('should require the security callback in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect((await request('GET', '')).status).toBe(403);
+    expect((await request('GET', '', { authorization: 'admin' })).status).toBe(200);
+
+    options = { jobs: adapter };
+    expect((await request('GET', '/api/queues', { authorization: 'admin' })).status).toBe(404);
+  });
+
+  it('should serve the dashboard UI with the API path', async () => {
+    const response = await request('GET', '');
+
+    expect(response.headers.get('Content-Type')).toBe('text/html');
+    expect(await response.text()).toContain('"/api/v1/jobs-dashboard/api"');
+  });
+
+  it('should list the queues with their counts and cron schedules', async () => {
+    await adapter.upsertSchedule({ job: 'reports.daily', schedule: { cron: '0 9 * * *' } });
+
+    const response = await request('GET', '/api/queues');
+    const [queue] = await response.json();
+
+    expect(queue).toMatchObject({
+      name: 'default',
+      counts: expect.objectContaining({ failed: 0 }),
+      schedules: [expect.objectContaining({ job: 'reports.daily', cron: '0 9 * * *' })],
+    });
+  });
+
+  it('should show failed jobs with their stack traces and retry them', async () => {
+    const id = await adapter.invoke({ id: 'task.broken', input: {} });
+    await adapter.worker({ queues: ['default'] });
+    await expect(adapter.waitUntilFinished({ id, timeout: 1000 })).rejects.toThrow('boom');
+
+    const failed = await (await request('GET', '/api/queues/default/jobs?status=failed')).json();
+    expect(failed).toEqual([expect.objectContaining({ id, status: 'failed', error: 'boom' })]);
+
+    const details = await (await request('GET', `/api/queues/default/jobs/${id}`)).json();
+    expect(details.stacktrace[0]).toContain('Error: boom');
+
+    const retried = await request('POST', `/api/queues/default/jobs/${id}/retry`);
+    expect(retried.status).toBe(200);
+    await vi.waitFor(() => expect(adapter.getJob({ id })).resolves.toMatchObject({ attemptsMade: 1, status: 'failed' }));
+    expect((await request('GET', '/api/queues/default/jobs/missing')).status).toBe(404);
+  });
+});
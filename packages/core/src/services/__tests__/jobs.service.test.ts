@@ -1,5 +1,5 @@
 import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
-import { createIgniterJobsService, createJobDefinition, createJobsRouter } from '../jobs.service'
+import { createIgniterJobsService, createJobDefinition, createJobsProxy, createJobsRegistry, createJobsRouter, reconcileJobSchedules } from '../jobs.service'
 import type { IgniterJobQueueAdapter, JobDefinition, JobsRouter } from '../../types/jobs.interface'
 import { z } from 'zod'
 
@@ -34,6 +34,22 @@ const createMockAdapter = (): IgniterJobQueueAdapter<any> => ({
   })),
   invoke: vi.fn().mockResolvedValue('job-123'),
   search: vi.fn().mockResolvedValue([]),
+  getJob: vi.fn().mockResolvedValue(null),
+  waitUntilFinished: vi.fn().mockResolvedValue(undefined),
+  retry: vi.fn().mockResolvedValue(undefined),
+  cancel: vi.fn().mockResolvedValue(undefined),
+  promote: vi.fn().mockResolvedValue(undefined),
+  pauseQueue: vi.fn().mockResolvedValue(undefined),
+  resumeQueue: vi.fn().mockResolvedValue(undefined),
+  drain: vi.fn().mockResolvedValue(undefined),
+  getQueueCounts: vi.fn().mockResolvedValue({ waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0, paused: 0 }),
+  listDeadLetters: vi.fn().mockResolvedValue([]),
+  getDeadLetter: vi.fn().mockResolvedValue(null),
+  replayDeadLetter: vi.fn().mockResolvedValue('job-123'),
+  purgeDeadLetters: vi.fn().mockResolvedValue(0),
+  listSchedules: vi.fn().mockResolvedValue([]),
+  upsertSchedule: vi.fn().mockResolvedValue(undefined),
+  removeSchedule: vi.fn().mockResolvedValue(undefined),
   worker: vi.fn().mockResolvedValue(undefined),
   shutdown: vi.fn().mockResolvedValue(undefined),
   cron: vi.fn().mockImplementation((schedule, handler, options) => ({
@@ -279,6 +295,25 @@ describe('Jobs Service', () => {
 
       expect(mockAdapter.shutdown).toHaveBeenCalled()
     })
+
+    test('should delegate job and queue actions to the adapter', async () => {
+      const service = createIgniterJobsService({
+        adapter: mockAdapter,
+        contextFactory
+      })
+      const queue = { name: 'emails' }
+
+      await service.retry({ id: 'job-1', queue })
+      await service.cancel({ id: 'job-2' })
+      await service.pauseQueue(queue)
+      await service.drain(queue, { delayed: true })
+
+      expect(mockAdapter.retry).toHaveBeenCalledWith({ id: 'job-1', queue })
+      expect(mockAdapter.cancel).toHaveBeenCalledWith({ id: 'job-2' })
+      expect(mockAdapter.pauseQueue).toHaveBeenCalledWith(queue)
+      expect(mockAdapter.drain).toHaveBeenCalledWith(queue, { delayed: true })
+      await expect(service.getJob({ id: 'job-3' })).resolves.toBeNull()
+    })
   })
 
   describe('Job Information', () => {
@@ -460,4 +495,99 @@ describe('Jobs Router', () => {
       })
     }).toThrow('Job ID conflicts detected')
   })
-})
\ No newline at end of file
+})
+
+describe('Job Flows', () => {
+  const jobs = {
+    user: {
+      create: { name: 'create', input: z.object({ email: z.string() }), handler: async () => ({ id: 'u1' }) },
+      welcome: { name: 'welcome', input: z.object({ id: z.string() }), handler: async () => 'sent' },
+      track: { name: 'track', input: z.object({ id: z.string() }), handler: async () => 1 },
+    },
+  }
+
+  test('should build the flow definition and start it', async () => {
+    const flowFunction = vi.fn().mockResolvedValue('flow-1')
+    const proxy = createJobsProxy(jobs, createJobsRegistry(jobs), vi.fn(), flowFunction)
+
+    const flow = proxy.flow('onboarding')
+      .start('user.create', { email: 'user@example.com' }, { priority: 5 })
+      .parallel(['user.welcome', 'user.track'])
+
+    expect(await flow.run()).toBe('flow-1')
+    expect(flowFunction).toHaveBeenCalledWith({
+      name: 'onboarding',
+      input: { email: 'user@example.com' },
+      stages: [
+        [{ job: 'user.create', options: { priority: 5 } }],
+        [{ job: 'user.welcome' }, { job: 'user.track' }],
+      ],
+    })
+  })
+
+  test('should keep builders immutable', () => {
+    const proxy = createJobsProxy(jobs, createJobsRegistry(jobs), vi.fn(), vi.fn())
+    const start = proxy.flow('onboarding').start('user.create', { email: 'user@example.com' })
+
+    start.next('user.welcome')
+
+    expect(start.definition.stages).toHaveLength(1)
+  })
+
+  test('should reject unknown jobs', () => {
+    const proxy = createJobsProxy(jobs, createJobsRegistry(jobs), vi.fn(), vi.fn())
+
+    expect(() => {
+      // @ts-expect-error - Testing runtime validation
+      proxy.flow('onboarding').start('user.missing', {})
+    }).toThrow('Job "user.missing" not found')
+  })
+
+  test('should throw when the adapter does not support flows', () => {
+    const proxy = createJobsProxy(jobs, createJobsRegistry(jobs), vi.fn())
+
+    expect(() => proxy.flow('onboarding')).toThrow('Job flows are not supported')
+  })
+})
+
+describe('Job Schedules', () => {
+  const handler = vi.fn()
+  const jobs: Record<string, JobDefinition<any, any, any>> = {
+    'reports.daily': { name: 'daily', input: z.object({}), handler, schedule: { cron: '0 9 * * *' } },
+    'reports.weekly': { name: 'weekly', input: z.object({ team: z.string() }), handler, schedule: { cron: '0 9 * * 1', input: { team: 'ops' } } },
+    'reports.monthly': { name: 'monthly', input: z.object({}), handler, schedule: { cron: '0 9 1 * *' } },
+    'emails.send': { name: 'send', input: z.object({}), handler },
+  }
+
+  test('should add new schedules, update changed ones and remove stale ones', async () => {
+    const adapter = createMockAdapter()
+    ;(adapter.listSchedules as any).mockResolvedValue([
+      { job: 'reports.daily', cron: '0 9 * * *', queueName: 'default' },
+      { job: 'reports.weekly', cron: '0 9 * * 1', input: { team: 'sales' }, queueName: 'default' },
+      { job: 'reports.legacy', cron: '* * * * *', queueName: 'default' },
+    ])
+
+    const result = await reconcileJobSchedules(adapter, jobs)
+
+    expect(result).toEqual({ added: ['reports.monthly'], updated: ['reports.weekly'], removed: ['reports.legacy'] })
+    expect(adapter.upsertSchedule).toHaveBeenCalledTimes(2)
+    expect(adapter.upsertSchedule).toHaveBeenCalledWith({
+      job: 'reports.weekly',
+      schedule: { cron: '0 9 * * 1', input: { team: 'ops' } },
+      queue: { name: 'default', prefix: undefined },
+    })
+    expect(adapter.removeSchedule).toHaveBeenCalledWith({ job: 'reports.legacy', queue: { name: 'default', prefix: undefined } })
+  })
+
+  test('should reconcile the schedules of the worker queues when the worker starts', async () => {
+    const adapter = createMockAdapter()
+    const service = createIgniterJobsService({ adapter, contextFactory: () => ({}) })
+      .bulkRegister(jobs)
+
+    await service.worker({ queues: ['emails'] })
+
+    expect(adapter.listSchedules).toHaveBeenCalledWith({ name: 'emails' })
+    expect(adapter.upsertSchedule).not.toHaveBeenCalled()
+    expect(adapter.worker).toHaveBeenCalledWith({ queues: ['emails'] })
+  })
+})
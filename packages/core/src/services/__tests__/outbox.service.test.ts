@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IgniterOutboxService, createOutboxRelay } from '../outbox.service';
+import type { IgniterStoreAdapter } from '../../types/store.interface';
+import type { IgniterLogger } from '../../types/logger.interface';
+import { RequestProcessor } from '../../processors/request.processor';
+import { createIgniterMutation } from '../action.service';
+import { createIgniterController } from '../controller.service';
+
+const silentLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as IgniterLogger;
+
+const createMemoryStore = () => {
+  const data = new Map<string, any>();
+  const sets = new Map<string, Set<string>>();
+  const getSet = (key: string) => sets.get(key) ?? sets.set(key, new Set()).get(key)!;
+  return {
+    data,
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: any) => { data.set(key, structuredClone(value)); }),
+    delete: vi.fn(async (key: string) => { data.delete(key); }),
+    has: vi.fn(async (key: string) => data.has(key)),
+    setIfAbsent: vi.fn(async (key: string, value: any) => {
+      if (data.has(key)) return false;
+      data.set(key, value);
+      return true;
+    }),
+    addToSet: vi.fn(async (key: string, member: string) => { getSet(key).add(member); }),
+    removeFromSet: vi.fn(async (key: string, member: string) => getSet(key).delete(member)),
+    getSetMembers: vi.fn(async (key: string) => [...getSet(key)]),
+    publish: vi.fn(),
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+  } as unknown as IgniterStoreAdapter & { data: Map<string, any> };
+};
+
+describe('Outbox Service', () => {
+  let realtime: { publish: ReturnType<typeof vi.fn>; revalidate: ReturnType<typeof vi.fn> };
+  let jobs: { emails: { enqueue: ReturnType<typeof vi.fn> } };
+
+  beforeEach(() => {
+    realtime = { publish: vi.fn(), revalidate: vi.fn() };
+    jobs = { emails: { enqueue: vi.fn().mockResolvedValue('job-1') } };
+  });
+
+  const createOutbox = (store?: IgniterStoreAdapter, durable = false) =>
+    new IgniterOutboxService(realtime as any, store, { durable });
+
+  it('should dispatch buffered jobs and events only once flushed', async () => {
+    const outbox = createOutbox();
+
+    const entryId = await outbox.jobs(jobs).emails.enqueue({ task: 'welcome', input: { userId: '1' } });
+    outbox.publish('users', { id: '1' }, { type: 'created' });
+    outbox.revalidate({ path: 'users.list' });
+
+    expect(typeof entryId).toBe('string');
+    expect(jobs.emails.enqueue).not.toHaveBeenCalled();
+    expect(realtime.publish).not.toHaveBeenCalled();
+
+    await outbox.flush();
+
+    expect(jobs.emails.enqueue).toHaveBeenCalledWith({ task: 'welcome', input: { userId: '1' } });
+    expect(realtime.publish).toHaveBeenCalledWith('users', { id: '1' }, { type: 'created' });
+    expect(realtime.revalidate).toHaveBeenCalledWith([{ path: 'users.list' }]);
+  });
+
+  it('should discard the entries of failed handlers', async () => {
+    const outbox = createOutbox();
+
+    outbox.publish('users', { id: '1' });
+    outbox.discard();
+    await outbox.flush();
+
+    expect(realtime.publish).not.toHaveBeenCalled();
+  });
+
+  it('should flush transactions on commit and discard them on rollback', async () => {
+    const outbox = createOutbox();
+
+    await expect(outbox.transaction(async () => {
+      outbox.publish('orders', { id: 'rolled-back' });
+      throw new Error('rollback');
+    })).rejects.toThrow('rollback');
+
+    const result = await outbox.transaction(async () => {
+      outbox.publish('orders', { id: 'committed' });
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(realtime.publish).toHaveBeenCalledTimes(1);
+    expect(realtime.publish).toHaveBeenCalledWith('orders', { id: 'committed' }, undefined);
+  });
+
+  it('should keep failed durable entries in the store for the relay', async () => {
+    const store = createMemoryStore();
+    const outbox = createOutbox(store, true);
+    jobs.emails.enqueue.mockRejectedValueOnce(new Error('queue down'));
+
+    await outbox.jobs(jobs).emails.enqueue({ task: 'welcome', input: { userId: '1' } });
+    outbox.publish('users', { id: '1' });
+    await outbox.flush();
+
+    expect(await store.getSetMembers('igniter:outbox:pending')).toHaveLength(1);
+
+    const relay = createOutboxRelay({ store, jobs, interval: 0, logger: silentLogger });
+
+    await expect(relay.run()).resolves.toBe(1);
+    expect(jobs.emails.enqueue).toHaveBeenCalledTimes(2);
+    expect(await store.getSetMembers('igniter:outbox:pending')).toEqual([]);
+    expect([...store.data.keys()]).toEqual([]);
+  });
+
+  it('should leave the entries still dispatched by their request to it', async () => {
+    const store = createMemoryStore();
+    const outbox = createOutbox(store, true);
+    let finishEnqueue = () => {};
+    jobs.emails.enqueue.mockReturnValueOnce(new Promise<void>((resolve) => { finishEnqueue = resolve; }));
+
+    await outbox.jobs(jobs).emails.enqueue({ task: 'welcome', input: {} });
+    const flushing = outbox.flush();
+    await vi.waitFor(() => expect(jobs.emails.enqueue).toHaveBeenCalled());
+
+    const relay = createOutboxRelay({ store, jobs, interval: 0, logger: silentLogger });
+    await expect(relay.run()).resolves.toBe(0);
+
+    finishEnqueue();
+    await flushing;
+    expect(jobs.emails.enqueue).toHaveBeenCalledTimes(1);
+    expect(await store.getSetMembers('igniter:outbox:pending')).toEqual([]);
+  });
+
+  it('should leave the durable entries locked elsewhere to the relay', async () => {
+    const store = createMemoryStore();
+    const outbox = createOutbox(store, true);
+    vi.mocked(store.setIfAbsent).mockResolvedValueOnce(false);
+
+    await outbox.jobs(jobs).emails.enqueue({ task: 'welcome', input: {} });
+    await outbox.flush();
+
+    expect(store.setIfAbsent).toHaveBeenCalledWith(expect.stringContaining('igniter:outbox:lock:'), 1, { ttl: 60 });
+    expect(jobs.emails.enqueue).not.toHaveBeenCalled();
+    expect(await store.getSetMembers('igniter:outbox:pending')).toHaveLength(1);
+
+    const relay = createOutboxRelay({ store, jobs, interval: 0, logger: silentLogger });
+    await expect(relay.run()).resolves.toBe(1);
+    expect(jobs.emails.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('should dispatch each entry once across concurrent relays', async () => {
+    const store = createMemoryStore();
+    const outbox = createOutbox(store, true);
+    jobs.emails.enqueue.mockRejectedValueOnce(new Error('queue down'));
+
+    await outbox.jobs(jobs).emails.enqueue({ task: 'welcome', input: {} });
+    await outbox.flush();
+
+    const relays = [1, 2].map(() => createOutboxRelay({ store, jobs, interval: 0, logger: silentLogger }));
+    const dispatched = await Promise.all(relays.map((relay) => relay.run()));
+
+    expect(dispatched.sort()).toEqual([0, 1]);
+    expect(jobs.emails.enqueue).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop relayed entries after their final attempt', async () => {
+    const store = createMemoryStore();
+    const outbox = createOutbox(store, true);
+    jobs.emails.enqueue.mockRejectedValue(new Error('queue down'));
+
+    await outbox.jobs(jobs).emails.enqueue({ task: 'welcome', input: {} });
+    await outbox.flush();
+
+    const relay = createOutboxRelay({ store, jobs, interval: 0, maxAttempts: 2, logger: silentLogger });
+
+    await expect(relay.run()).resolves.toBe(0);
+    const [id] = await store.getSetMembers('igniter:outbox:pending');
+    expect(store.data.get(`igniter:outbox:entry:${id}`)).toMatchObject({ attempts: 1, lastError: 'queue down' });
+
+    await relay.run();
+    expect(await store.getSetMembers('igniter:outbox:pending')).toEqual([]);
+    expect(silentLogger.error).toHaveBeenCalledWith('Outbox entry dropped after its final attempt', expect.anything());
+  });
+
+  describe('with the request processor', () => {
+    const createProcessor = async (status: 'created' | 'badRequest') => {
+      const create = createIgniterMutation({
+        name: 'create',
+        path: '/',
+        method: 'POST',
+        handler: async ({ outbox, response }: any) => {
+          await outbox.jobs(jobs).emails.enqueue({ task: 'welcome', input: {} });
+          return status === 'created' ? response.created({ id: '1' }) : response.badRequest('Invalid user');
+        },
+      } as any);
+
+      const processor = new RequestProcessor({
+        baseURL: 'http://localhost',
+        basePATH: '/api/v1',
+        controllers: { users: createIgniterController({ name: 'users', path: '/users', actions: { create } }) },
+        context: {},
+      } as any);
+
+      // Routes are registered asynchronously
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return processor;
+    };
+
+    const request = () => new Request('http://localhost/api/v1/users', { method: 'POST' });
+
+    it('should flush the outbox of successful responses', async () => {
+      const processor = await createProcessor('created');
+
+      const response = await processor.process(request());
+
+      expect(response.status).toBe(201);
+      expect(jobs.emails.enqueue).toHaveBeenCalledWith({ task: 'welcome', input: {} });
+    });
+
+    it('should discard the outbox of error responses', async () => {
+      const processor = await createProcessor('badRequest');
+
+      const response = await processor.process(request());
+
+      expect(response.status).toBe(400);
+      expect(jobs.emails.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -3,15 +3,27 @@ import { IgniterRealtimeService } from '../realtime.service';
 import type { IgniterStoreAdapter } from '../../types/store.interface';
 import { SSEProcessor } from '../../processors/sse.processor';
 
+const mocks = vi.hoisted(() => ({
+  connectionListener: undefined as undefined | ((change: any) => void),
+}));
+
 // Mock do SSEProcessor que é o que realmente é usado pela implementação
-vi.mock('../../processors/sse.processor', () => ({
-  SSEProcessor: {
+vi.mock('../../processors/sse.processor', () => {
+  const SSEProcessor = {
     channelExists: vi.fn(),
+    getChannel: vi.fn(),
     registerChannel: vi.fn(),
     publishEvent: vi.fn(),
     getRegisteredChannels: vi.fn(),
-  }
-}));
+    enableDistribution: vi.fn(),
+    publishDistributed: vi.fn(async (event: any) => SSEProcessor.publishEvent(event)),
+    onConnectionChange: vi.fn((listener: (change: any) => void) => {
+      mocks.connectionListener = listener;
+      return () => {};
+    }),
+  };
+  return { SSEProcessor };
+});
 
 // Mock context type
 interface TestContext {
@@ -60,9 +72,45 @@ describe('Realtime Service', () => {
     });
 
     it('should store the adapter reference', () => {
-      // O adapter é armazenado mas não usado para publish (SSE usa conexões em memória)
       expect(realtimeService).toBeDefined();
     });
+
+    it('should enable event distribution through the store', () => {
+      expect(SSEProcessor.enableDistribution).toHaveBeenCalledWith(mockStore);
+    });
+
+    it('should publish events through the store', async () => {
+      await realtimeService.publish('user-notifications', { message: 'Hello' });
+      await realtimeService.revalidate({ path: 'users.list' });
+
+      expect(SSEProcessor.publishDistributed).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'user-notifications' }),
+        mockStore,
+      );
+      expect(SSEProcessor.publishDistributed).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'revalidation', type: 'revalidate' }),
+        mockStore,
+      );
+    });
+  });
+
+  describe('Revalidate Method', () => {
+    it('should send the data of each target by query key', async () => {
+      await realtimeService.revalidate([
+        { path: 'users.getById', params: { id: 1 }, data: { id: 1, name: 'Ana' } },
+        { path: 'users.list' },
+      ]);
+
+      expect(SSEProcessor.publishDistributed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            queryKeys: ['users.getById:{"params":{"id":1}}', 'users.list'],
+            queryData: { 'users.getById:{"params":{"id":1}}': { id: 1, name: 'Ana' } },
+          }),
+        }),
+        mockStore,
+      );
+    });
   });
 
   describe('Direct Publish Method', () => {
@@ -572,4 +620,148 @@ describe('Realtime Service', () => {
       });
     });
   });
-}); 
\ No newline at end of file
+
+  describe('Presence', () => {
+    let data: Map<string, any>;
+    let sets: Map<string, Set<string>>;
+
+    beforeEach(() => {
+      data = new Map();
+      sets = new Map();
+      vi.mocked(mockStore.get).mockImplementation(async (key: string) => data.get(key) ?? null);
+      vi.mocked(mockStore.set).mockImplementation(async (key: string, value: any) => { data.set(key, value); });
+      vi.mocked(mockStore.delete).mockImplementation(async (key: string) => { data.delete(key); });
+      mockStore.addToSet = vi.fn(async (key: string, member: string) => {
+        sets.set(key, (sets.get(key) ?? new Set()).add(member));
+      });
+      mockStore.removeFromSet = vi.fn(async (key: string, member: string) => sets.get(key)?.delete(member) ?? false);
+      mockStore.getSetMembers = vi.fn(async (key: string) => Array.from(sets.get(key) ?? []));
+    });
+
+    it('should keep each member under its own key and publish a join event', async () => {
+      const presence = realtimeService.presence('chat:room-1');
+
+      const member = await presence.join('user-1', { name: 'Ada' });
+
+      expect(member).toEqual(expect.objectContaining({ id: 'user-1', metadata: { name: 'Ada' } }));
+      expect(await presence.list()).toEqual([member]);
+      expect(mockStore.set).toHaveBeenCalledWith(
+        'igniter:realtime:presence:chat:room-1:member:user-1',
+        member,
+        { ttl: 120 },
+      );
+      expect(mockStore.addToSet).toHaveBeenCalledWith('igniter:realtime:presence:chat:room-1:members', 'user-1');
+      expect(SSEProcessor.publishDistributed).toHaveBeenCalledWith({
+        channel: 'chat:room-1',
+        type: 'presence',
+        data: { type: 'join', member, members: [member] },
+      }, mockStore);
+    });
+
+    it('should publish a leave event once when a member leaves', async () => {
+      const presence = realtimeService.presence('chat:room-1');
+      const member = await presence.join('user-1');
+
+      await presence.leave('user-1');
+      await presence.leave('user-1');
+
+      expect(await presence.list()).toEqual([]);
+      expect(data.has('igniter:realtime:presence:chat:room-1:member:user-1')).toBe(false);
+      expect(SSEProcessor.publishDistributed).toHaveBeenCalledTimes(2);
+      expect(SSEProcessor.publishDistributed).toHaveBeenLastCalledWith({
+        channel: 'chat:room-1',
+        type: 'presence',
+        data: { type: 'leave', member, members: [] },
+      }, mockStore);
+    });
+
+    it('should keep members sending heartbeats', async () => {
+      const presence = realtimeService.presence('chat:room-1', { timeout: 30 });
+      await presence.join('user-1');
+
+      expect(await presence.heartbeat('user-1')).toBe(true);
+      expect(await presence.heartbeat('user-2')).toBe(false);
+    });
+
+    it('should publish a timeout event without waiting for the next read', async () => {
+      vi.useFakeTimers();
+      try {
+        const presence = realtimeService.presence('chat:room-timeout', { timeout: 30 });
+        await presence.join('user-1');
+        await vi.advanceTimersByTimeAsync(20_000);
+        await presence.join('user-2');
+
+        await vi.advanceTimersByTimeAsync(25_000);
+
+        expect(SSEProcessor.publishDistributed).toHaveBeenLastCalledWith({
+          channel: 'chat:room-timeout',
+          type: 'presence',
+          data: expect.objectContaining({
+            type: 'timeout',
+            member: expect.objectContaining({ id: 'user-1' }),
+            members: [expect.objectContaining({ id: 'user-2' })],
+          }),
+        }, mockStore);
+        expect(sets.get('igniter:realtime:presence:chat:room-timeout:members')).toEqual(new Set(['user-2']));
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should share members between instances through the store', async () => {
+      await realtimeService.presence('chat:room-1').join('user-1');
+
+      const otherInstance = new IgniterRealtimeService(mockStore);
+
+      expect((await otherInstance.presence('chat:room-1').list()).map((member) => member.id)).toEqual(['user-1']);
+    });
+
+    it('should join and leave with the connections of the member', async () => {
+      vi.mocked(SSEProcessor.getChannel).mockReturnValue({ id: 'chat:room-2', presence: {} });
+      const member = { id: 'user-1', metadata: { name: 'Ada' } };
+      const presence = realtimeService.presence('chat:room-2');
+
+      mocks.connectionListener!({ type: 'open', channel: 'chat:room-2', member });
+      mocks.connectionListener!({ type: 'open', channel: 'chat:room-2', member });
+      await vi.waitFor(async () => expect(await presence.list()).toHaveLength(1));
+
+      mocks.connectionListener!({ type: 'close', channel: 'chat:room-2', member });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(await presence.list()).toHaveLength(1);
+
+      mocks.connectionListener!({ type: 'close', channel: 'chat:room-2', member });
+      await vi.waitFor(async () => expect(await presence.list()).toEqual([]));
+
+      expect(SSEProcessor.publishDistributed).toHaveBeenCalledTimes(2);
+      expect(SSEProcessor.publishDistributed).toHaveBeenLastCalledWith({
+        channel: 'chat:room-2',
+        type: 'presence',
+        data: expect.objectContaining({ type: 'leave', member: expect.objectContaining({ id: 'user-1' }) }),
+      }, mockStore);
+    });
+
+    it('should keep tracking connections in the store when a service is created without one', async () => {
+      vi.mocked(SSEProcessor.getChannel).mockReturnValue({ id: 'chat:room-4', presence: {} });
+      new IgniterRealtimeService();
+
+      mocks.connectionListener!({ type: 'open', channel: 'chat:room-4', member: { id: 'user-1' } });
+
+      await vi.waitFor(() => {
+        expect(mockStore.addToSet).toHaveBeenCalledWith('igniter:realtime:presence:chat:room-4:members', 'user-1');
+      });
+      mocks.connectionListener!({ type: 'close', channel: 'chat:room-4', member: { id: 'user-1' } });
+      await vi.waitFor(async () => expect(await realtimeService.presence('chat:room-4').list()).toEqual([]));
+    });
+
+    it('should not track connections without member or on channels without presence', async () => {
+      vi.mocked(SSEProcessor.getChannel).mockReturnValue({ id: 'chat:room-3' });
+
+      mocks.connectionListener!({ type: 'open', channel: 'chat:room-3', member: { id: 'user-1' } });
+      mocks.connectionListener!({ type: 'open', channel: 'chat:room-3' });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(await realtimeService.presence('chat:room-3').list()).toEqual([]);
+      expect(SSEProcessor.publishDistributed).not.toHaveBeenCalled();
+    });
+  });
+});
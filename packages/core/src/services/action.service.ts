@@ -1,5 +1,5 @@
 import type { IgniterPlugin } from "../types/plugin.interface";
-import type { StandardSchemaV1, IgniterProcedure, IgniterActionHandler, IgniterActionContext, QueryMethod, InferEndpoint, IgniterQueryOptions, IgniterAction, MutationMethod } from "../types";
+import type { StandardSchemaV1, IgniterProcedure, IgniterActionHandler, IgniterActionContext, QueryMethod, InferEndpoint, IgniterQueryOptions, IgniterAction, MutationMethod, IgniterActionErrorSchemas, IgniterMutationIdempotencyOptions } from "../types";
 
 /**
  * Creates a type-safe query action for the Igniter Framework.
@@ -12,6 +12,8 @@ import type { StandardSchemaV1, IgniterProcedure, IgniterActionHandler, IgniterA
  * @template TActionMiddlewares - Array of middleware procedures
  * @template TActionHandler - The action handler function type
  * @template TActionInfer - The inferred types for the action
+ * @template TActionOutput - The success payload schema
+ * @template TActionParams - The path parameters schema
  * 
  * @param input - Configuration options for the query action
  * @returns A configured query action
@@ -21,6 +23,7 @@ import type { StandardSchemaV1, IgniterProcedure, IgniterActionHandler, IgniterA
  * const getUsers = createIgniterQuery({
  *   path: 'users',
  *   query: z.object({ page: z.number() }),
+ *   output: z.object({ users: z.array(UserSchema) }),
  *   use: [authMiddleware],
  *   handler: async (ctx) => {
  *     // Handler implementation
@@ -36,7 +39,7 @@ export const createIgniterQuery = <
   TQueryMiddlewares extends readonly IgniterProcedure<TQueryContext, unknown, unknown>[],
   TQueryPlugins extends Record<string, IgniterPlugin<any, any, any, any, any, any, any, any>>,
   TQueryHandler extends IgniterActionHandler<
-    IgniterActionContext<TQueryContext, TQueryPath, QueryMethod, undefined, TQueryQuery, TQueryMiddlewares, TQueryPlugins>,
+    IgniterActionContext<TQueryContext, TQueryPath, QueryMethod, undefined, TQueryQuery, TQueryMiddlewares, TQueryPlugins, TQueryParams>,
     unknown
   >,
   TQueryResponse extends ReturnType<TQueryHandler>,
@@ -49,15 +52,21 @@ export const createIgniterQuery = <
     TQueryMiddlewares,
     TQueryPlugins,
     TQueryHandler,
-    TQueryResponse
-  >
+    TQueryResponse,
+    TQueryOutput,
+    TQueryParams
+  >,
+  TQueryOutput extends StandardSchemaV1 | undefined = undefined,
+  TQueryParams extends StandardSchemaV1 | undefined = undefined,
 >(options: IgniterQueryOptions<
   TQueryContext,
   TQueryPath,
   TQueryQuery,
   TQueryMiddlewares,
   TQueryPlugins,
-  TQueryHandler
+  TQueryHandler,
+  TQueryOutput,
+  TQueryParams
 >) => {
   type TQuery = IgniterAction<
     TQueryContext,
@@ -69,7 +78,9 @@ export const createIgniterQuery = <
     TQueryPlugins,
     TQueryHandler,
     TQueryResponse,
-    TQueryInfer
+    TQueryInfer,
+    TQueryOutput,
+    TQueryParams
   >
 
   return {
@@ -91,6 +102,8 @@ export const createIgniterQuery = <
  * @template TActionMiddlewares - Array of middleware procedures
  * @template TActionHandler - The action handler function type
  * @template TActionInfer - The inferred types for the action
+ * @template TActionOutput - The success payload schema
+ * @template TActionParams - The path parameters schema
  * 
  * @param options - Configuration options for the mutation action
  * @returns A configured mutation action
@@ -121,7 +134,7 @@ export const createIgniterMutation = <
   TMutationMiddlewares extends readonly IgniterProcedure<TMutationContext, any, any>[],
   TMutationPlugins extends Record<string, IgniterPlugin<any, any, any, any, any, any, any, any>>,
   TMutationHandler extends IgniterActionHandler<
-    IgniterActionContext<TMutationContext, TMutationPath, TMutationMethod, TMutationBody, TMutationQuery, TMutationMiddlewares, TMutationPlugins>,
+    IgniterActionContext<TMutationContext, TMutationPath, TMutationMethod, TMutationBody, TMutationQuery, TMutationMiddlewares, TMutationPlugins, TMutationParams>,
     any
   >,
   TMutationResponse extends ReturnType<TMutationHandler>,
@@ -134,8 +147,12 @@ export const createIgniterMutation = <
     TMutationMiddlewares,
     TMutationPlugins,
     TMutationHandler,
-    TMutationResponse
+    TMutationResponse,
+    TMutationOutput,
+    TMutationParams
   >,
+  TMutationOutput extends StandardSchemaV1 | undefined = undefined,
+  TMutationParams extends StandardSchemaV1 | undefined = undefined,
 >(action: {
   name?: string,
   path: TMutationPath,
@@ -143,6 +160,11 @@ export const createIgniterMutation = <
   description?: string,
   body?: TMutationBody,
   query?: TMutationQuery,
+  params?: TMutationParams,
+  output?: TMutationOutput,
+  errors?: IgniterActionErrorSchemas,
+  invalidates?: string[],
+  idempotency?: boolean | IgniterMutationIdempotencyOptions,
   use?: TMutationMiddlewares,
   handler: TMutationHandler,
 }) => {
@@ -156,7 +178,9 @@ export const createIgniterMutation = <
     TMutationPlugins,
     TMutationHandler,
     TMutationResponse,
-    TMutationInfer
+    TMutationInfer,
+    TMutationOutput,
+    TMutationParams
   >
 
   return {
@@ -167,6 +191,11 @@ export const createIgniterMutation = <
     description: action.description,
     body: action.body,
     query: action.query,
+    params: action.params,
+    output: action.output,
+    errors: action.errors,
+    invalidates: action.invalidates,
+    idempotency: action.idempotency,
     use: action.use,
     handler: action.handler,
     $Infer: {} as TMutationInfer
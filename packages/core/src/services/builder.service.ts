@@ -2,6 +2,7 @@ import { createIgniterProcedure } from "./procedure.service";
 import { createIgniterMutation, createIgniterQuery } from "./action.service";
 import { createIgniterRouter } from "./router.service";
 import { createIgniterController } from "./controller.service";
+import { createIgniterChannel } from "./channel.service";
 import type {
   StandardSchemaV1,
   IgniterProcedure,
@@ -21,11 +22,17 @@ import type {
   InferIgniterContext,
   IgniterControllerBaseAction,
   IgniterRealtimeService as IgniterRealtimeServiceType,
+  IgniterRealtimeChannel,
+  IgniterRealtimeChannelConfig,
+  IgniterRealtimeEndpointOptions,
+  IgniterOutboxOptions,
   DocsConfig,
 } from "../types";
 import type { IgniterStoreAdapter } from "../types/store.interface";
 import type { IgniterLogger } from "../types/logger.interface";
 import type {
+  IgniterJobsAdminOptions,
+  IgniterJobsDashboardOptions,
   JobsNamespaceProxy,
   MergedJobsExecutor,
 } from "../types/jobs.interface";
@@ -305,7 +312,7 @@ export class IgniterBuilder<
     TJobs extends MergedJobsExecutor<any>,
     TJobsProxy extends JobsNamespaceProxy<any> = ReturnType<Awaited<TJobs>["createProxy"]>
   >(jobsAdapter: TJobs) {
-    const jobsProxy = jobsAdapter.createProxy() as TJobsProxy;
+    const jobsProxy = jobsAdapter.createProxy() as unknown as TJobsProxy;
 
     return new IgniterBuilder<
       TContext,
@@ -502,7 +509,8 @@ export class IgniterBuilder<
             undefined,
             TQueryQuery,
             TQueryMiddlewares,
-            TPlugins
+            TPlugins,
+            TQueryParams
           >,
           unknown // 🔄 MUDANÇA: 'any' → 'unknown' para melhor inferência
         >,
@@ -516,8 +524,12 @@ export class IgniterBuilder<
           TQueryMiddlewares,
           TPlugins,
           TQueryHandler,
-          TQueryResponse
+          TQueryResponse,
+          TQueryOutput,
+          TQueryParams
         >,
+        TQueryOutput extends StandardSchemaV1 | undefined = undefined,
+        TQueryParams extends StandardSchemaV1 | undefined = undefined,
       >(
         // 🔄 MUDANÇA: Remoção do constraint genérico no handler para permitir inferência livre
         options: IgniterQueryOptions<
@@ -526,7 +538,9 @@ export class IgniterBuilder<
           TQueryQuery,
           TQueryMiddlewares,
           TPlugins,
-          TQueryHandler
+          TQueryHandler,
+          TQueryOutput,
+          TQueryParams
         >,
       ) =>
         createIgniterQuery<
@@ -537,7 +551,9 @@ export class IgniterBuilder<
           TPlugins,
           TQueryHandler,
           TQueryResponse,
-          TQueryInfer
+          TQueryInfer,
+          TQueryOutput,
+          TQueryParams
         >(options),
 
       /**
@@ -557,7 +573,8 @@ export class IgniterBuilder<
             TMutationBody,
             TMutationQuery,
             TMutationMiddlewares,
-            TPlugins
+            TPlugins,
+            TMutationParams
           >,
           unknown // 🔄 MUDANÇA: 'any' → 'unknown' para melhor inferência
         >,
@@ -571,8 +588,12 @@ export class IgniterBuilder<
           TMutationMiddlewares,
           TPlugins,
           TMutationHandler,
-          TMutationResponse
+          TMutationResponse,
+          TMutationOutput,
+          TMutationParams
         >,
+        TMutationOutput extends StandardSchemaV1 | undefined = undefined,
+        TMutationParams extends StandardSchemaV1 | undefined = undefined,
       >(
         // 🔄 MUDANÇA: Remoção do constraint genérico no handler para permitir inferência livre
         options: IgniterMutationOptions<
@@ -583,7 +604,9 @@ export class IgniterBuilder<
           TMutationQuery,
           TMutationMiddlewares,
           TPlugins,
-          TMutationHandler
+          TMutationHandler,
+          TMutationOutput,
+          TMutationParams
         >,
       ) =>
         createIgniterMutation<
@@ -596,7 +619,9 @@ export class IgniterBuilder<
           TPlugins,
           TMutationHandler,
           TMutationResponse,
-          TMutationInfer
+          TMutationInfer,
+          TMutationOutput,
+          TMutationParams
         >(options),
 
       /**
@@ -619,6 +644,11 @@ export class IgniterBuilder<
       >(config: {
         context?: TContext;
         controllers: TControllers;
+        channels?: Record<string, IgniterRealtimeChannel<any, any>>;
+        realtime?: IgniterRealtimeEndpointOptions;
+        jobsAdmin?: IgniterJobsAdminOptions;
+        jobsDashboard?: IgniterJobsDashboardOptions;
+        outbox?: IgniterOutboxOptions;
       }) => {
         type TRouterContext = TContext extends object | ContextCallback
           ? InferIgniterContext<TContext>
@@ -636,9 +666,22 @@ export class IgniterBuilder<
           config: { ...(this._config.config || ({} as TConfig)), docs: this._docs },
           plugins: this._plugins,
           docs: this._docs,
+          channels: config.channels,
+          realtime: config.realtime,
+          jobsAdmin: config.jobsAdmin,
+          jobsDashboard: config.jobsDashboard,
+          outbox: config.outbox,
         });
       },
 
+      /**
+       * Creates a typed realtime channel, validated on publish.
+       * Register it on the router (`channels`) to list it in the docs.
+       */
+      channel: <TName extends string, TSchema extends StandardSchemaV1>(
+        config: IgniterRealtimeChannelConfig<TName, TSchema>,
+      ) => createIgniterChannel(config),
+
       /**
        * Creates a reusable middleware procedure.
        */
@@ -1,5 +1,6 @@
 import type { RequestProcessor } from "../processors";
-import type { ContextCallback, DocsConfig, IgniterBaseConfig, IgniterControllerBaseAction, IgniterControllerConfig, IgniterRouter, IgniterRouterCaller, MutationActionCallerResult, QueryActionCallerResult, RealtimeActionCallerResult } from "../types";
+import { prefetchQuery } from "../utils/hydration";
+import type { ContextCallback, DocsConfig, IgniterBaseConfig, IgniterControllerBaseAction, IgniterControllerConfig, IgniterRouter, IgniterRouterCaller, InfiniteQueryActionCallerResult, MutationActionCallerResult, QueryActionCallerResult, RealtimeActionCallerResult } from "../types";
 
 /**
  * Creates a proxy-based caller for invoking actions via controller namespace (server-only).
@@ -30,18 +31,30 @@ export function createServerCaller<
 
           if(action.method === 'GET') {
             return {
+              key: `${controllerName}.${actionName}`,
               useRealtime: (...args: any[]) => ({} as RealtimeActionCallerResult<typeof action>),
               useQuery: (...args: any[]) => ({} as QueryActionCallerResult<typeof action>),
+              useInfiniteQuery: (...args: any[]) => ({} as InfiniteQueryActionCallerResult<typeof action>),
               query: async (input: typeof action['$Infer']['$Input']) => {
                 if (!processor) {
                   throw new Error('Processor is required to call actions on server');
                 }
                 return processor.call(controllerName, actionName, input);
+              },
+              // Runs the query keyed like the client cache, to seed it through `dehydrate`
+              prefetch: async (input?: typeof action['$Infer']['$Input']) => {
+                if (!processor) {
+                  throw new Error('Processor is required to call actions on server');
+                }
+                return prefetchQuery(`${controllerName}.${actionName}`, input, () =>
+                  processor.call(controllerName, actionName, input),
+                );
               }
             }
           }
 
           return {
+            key: `${controllerName}.${actionName}`,
             useMutation: (...args: any[]) => ({} as MutationActionCallerResult<typeof action>),
             mutate: async (input: typeof action['$Infer']['$Input']) => {
               if (!processor) {
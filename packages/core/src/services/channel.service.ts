@@ -0,0 +1,62 @@
+import type {
+  IgniterRealtimeChannel,
+  IgniterRealtimeChannelConfig,
+  IgniterRealtimeChannelRef,
+  InferRealtimeChannelParams,
+} from "../types/realtime.interface";
+import type { StandardSchemaV1 } from "../types/schema.interface";
+import { formatChannelName, getChannelParams, matchChannelName } from "../utils/channel";
+
+/**
+ * Creates a typed realtime channel for the Igniter Framework.
+ * Register the channel on the router (`channels`) so its schema validates every publish,
+ * and use `channel.to(params)` to publish and subscribe with inferred payload types.
+ *
+ * @template TName - The channel name, with `{param}` placeholders for parameterized channels
+ * @template TSchema - The schema of the event payloads
+ *
+ * @param config - The channel configuration
+ * @returns The channel definition
+ *
+ * @example
+ * ```typescript
+ * export const chatRoom = createIgniterChannel({
+ *   name: 'chat:room:{roomId}',
+ *   description: 'Messages of a chat room',
+ *   schema: z.object({ text: z.string(), author: z.string() }),
+ * });
+ *
+ * // Server: the payload is type-checked and validated
+ * await context.realtime.publish(chatRoom.to({ roomId }), { text, author });
+ *
+ * // Client: the payload type is inferred
+ * const { data } = useRealtime(chatRoom.to({ roomId }));
+ * ```
+ */
+export const createIgniterChannel = <
+  TName extends string,
+  TSchema extends StandardSchemaV1,
+>(
+  config: IgniterRealtimeChannelConfig<TName, TSchema>,
+): IgniterRealtimeChannel<TName, TSchema> => {
+  type TRef = IgniterRealtimeChannelRef<
+    StandardSchemaV1.InferInput<TSchema>,
+    StandardSchemaV1.InferOutput<TSchema>
+  >;
+
+  const channel: IgniterRealtimeChannel<TName, TSchema> = {
+    ...config,
+    params: getChannelParams(config.name),
+    to: (params?: Record<string, string | number>) =>
+      ({
+        id: formatChannelName(config.name, params),
+        channel,
+        $Infer: {} as TRef["$Infer"],
+      }) as TRef,
+    match: (name: string) =>
+      matchChannelName(config.name, name) as InferRealtimeChannelParams<TName> | null,
+    $Infer: {} as IgniterRealtimeChannel<TName, TSchema>["$Infer"],
+  };
+
+  return channel;
+};
@@ -5,4 +5,6 @@ export * from './cookie.service';
 export * from './jobs.service';
 export * from './procedure.service';
 export * from './router.service';
-export * from './logger.service';
\ No newline at end of file
+export * from './logger.service';
+export * from './channel.service';
+export * from './outbox.service';
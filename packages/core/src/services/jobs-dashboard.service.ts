@@ -0,0 +1,455 @@
+import { parseURL } from "../utils/url";
+import type { IgniterJobsDashboardOptions, JobQueueConfig, JobStatus } from "../types/jobs.interface";
+import { IgniterConsoleLogger } from "./logger.service";
+import { PlaygroundSecurityService } from "./playground.service";
+import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+
+const DEFAULT_ROUTE = "/jobs-dashboard";
+const DEFAULT_LIMIT = 20;
+
+interface IJobsDashboardHtmlGenerator {
+  /**
+   * Generates the HTML content for the dashboard UI.
+   * @param apiPath The path of the dashboard API, fetched by the UI.
+   * @returns The HTML string.
+   */
+  generate(apiPath: string): string;
+}
+
+function jsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function toQueueConfig(queue: string | JobQueueConfig): JobQueueConfig {
+  return typeof queue === 'string' ? { name: queue } : queue;
+}
+
+// Concrete implementation for HTML generation, rendering the dashboard API with plain DOM scripting
+class JobsDashboardHtmlGenerator implements IJobsDashboardHtmlGenerator {
+  generate(apiPath: string): string {
+    return `<!doctype html>
+<html>
+  <head>
+    <title>Jobs Dashboard - Igniter Studio</title>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <link href="https://fonts.googleapis.com/css2?family=Geist:wght@400;500;600&family=Geist+Mono:wght@400;500&display=swap" rel="stylesheet" />
+
+    <style>
+      * {
+        box-sizing: border-box;
+        font-family: 'Geist', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      }
+
+      body {
+        margin: 0;
+        background: #0a0a0a;
+        color: #eee;
+      }
+
+      .header {
+        position: sticky;
+        top: 0;
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        padding: 0.75rem 1rem;
+        border-bottom: 1px solid #222;
+        background: rgba(0, 0, 0, 0.2);
+        backdrop-filter: blur(10px);
+      }
+
+      .header img {
+        height: 22px;
+      }
+
+      main {
+        display: grid;
+        grid-template-columns: 280px 1fr;
+        gap: 1rem;
+        padding: 1rem;
+      }
+
+      .mono, pre, .badge {
+        font-family: 'Geist Mono', monospace;
+      }
+
+      .queue {
+        width: 100%;
+        margin-bottom: 0.5rem;
+        padding: 0.75rem;
+        border: 1px solid #222;
+        border-radius: 8px;
+        background: none;
+        color: inherit;
+        text-align: left;
+        cursor: pointer;
+      }
+
+      .queue.selected {
+        border-color: #666;
+      }
+
+      .counts {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 0.25rem;
+        margin-top: 0.5rem;
+      }
+
+      .badge {
+        padding: 0.1rem 0.4rem;
+        border: 1px solid #333;
+        border-radius: 4px;
+        font-size: 10px;
+        text-transform: uppercase;
+      }
+
+      .badge.failed {
+        border-color: #7f1d1d;
+        color: #f87171;
+      }
+
+      .tabs {
+        display: flex;
+        gap: 0.5rem;
+        margin-bottom: 1rem;
+      }
+
+      .tabs button, .retry {
+        padding: 0.3rem 0.8rem;
+        border: 1px solid #333;
+        border-radius: 8rem;
+        background: none;
+        color: inherit;
+        cursor: pointer;
+      }
+
+      .tabs button.selected {
+        background: #eee;
+        color: #000;
+      }
+
+      table {
+        width: 100%;
+        border-collapse: collapse;
+        font-size: 13px;
+      }
+
+      th, td {
+        padding: 0.5rem;
+        border-bottom: 1px solid #222;
+        text-align: left;
+        vertical-align: top;
+      }
+
+      tr.job {
+        cursor: pointer;
+      }
+
+      pre {
+        max-height: 320px;
+        overflow: auto;
+        margin: 0;
+        padding: 0.75rem;
+        border-radius: 6px;
+        background: #111;
+        color: #f87171;
+        font-size: 12px;
+        white-space: pre-wrap;
+      }
+
+      .empty {
+        color: #777;
+      }
+    </style>
+  </head>
+
+  <body>
+    <header class="header">
+      <img src="https://igniterjs.com/logo-light.svg" alt="Igniter Logo" />
+      <span class="mono">Jobs Dashboard</span>
+    </header>
+
+    <main>
+      <aside id="queues"></aside>
+      <section>
+        <div class="tabs" id="tabs"></div>
+        <table>
+          <thead><tr><th>Job</th><th>Status</th><th>Attempts</th><th>Created</th><th>Error</th><th></th></tr></thead>
+          <tbody id="jobs"></tbody>
+        </table>
+        <h3>Cron schedules</h3>
+        <table>
+          <thead><tr><th>Job</th><th>Cron</th><th>Timezone</th><th>Next run</th></tr></thead>
+          <tbody id="schedules"></tbody>
+        </table>
+      </section>
+    </main>
+
+    <script>
+      const API = ${JSON.stringify(apiPath)};
+      const STATUSES = ['failed', 'active', 'waiting', 'delayed', 'completed'];
+      const state = { queues: [], queue: null, status: 'failed' };
+
+      // Builds elements with textContent only, so job data is never parsed as HTML
+      const el = (tag, props = {}, children = []) => {
+        const node = Object.assign(document.createElement(tag), props);
+        node.append(...children);
+        return node;
+      };
+
+      const queuePath = (queue) =>
+        API + '/queues/' + encodeURIComponent(queue.name) + (queue.prefix ? '?prefix=' + encodeURIComponent(queue.prefix) : '');
+
+      const request = async (url, init) => {
+        const response = await fetch(url, init);
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error);
+        return body;
+      };
+
+      const withQuery = (url, params) => url + (url.includes('?') ? '&' : '?') + new URLSearchParams(params);
+
+      async function loadQueues() {
+        state.queues = await request(API + '/queues');
+        state.queue = state.queues.find((queue) => state.queue && queue.name === state.queue.name && queue.prefix === state.queue.prefix) || state.queues[0];
+        renderQueues();
+        renderSchedules();
+        await loadJobs();
+      }
+
+      function renderQueues() {
+        document.getElementById('queues').replaceChildren(...state.queues.map((queue) => el('button', {
+          className: 'queue' + (queue === state.queue ? ' selected' : ''),
+          onclick: () => { state.queue = queue; renderQueues(); renderSchedules(); loadJobs(); },
+        }, [
+          el('strong', { textContent: (queue.prefix ? queue.prefix + '/' : '') + queue.name }),
+          el('div', { className: 'counts' }, Object.entries(queue.counts).map(([status, count]) =>
+            el('span', { className: 'badge ' + (status === 'failed' && count > 0 ? 'failed' : ''), textContent: status + ' ' + count })
+          )),
+        ])));
+
+        document.getElementById('tabs').replaceChildren(...STATUSES.map((status) => el('button', {
+          className: status === state.status ? 'selected' : '',
+          textContent: status,
+          onclick: () => { state.status = status; renderQueues(); loadJobs(); },
+        })));
+      }
+
+      function renderSchedules() {
+        const schedules = state.queue ? state.queue.schedules : [];
+        document.getElementById('schedules').replaceChildren(...(schedules.length ? schedules.map((schedule) => el('tr', {}, [
+          el('td', { className: 'mono', textContent: schedule.job }),
+          el('td', { className: 'mono', textContent: schedule.cron }),
+          el('td', { textContent: schedule.tz || '-' }),
+          el('td', { textContent: schedule.nextRunAt ? new Date(schedule.nextRunAt).toLocaleString() : '-' }),
+        ])) : [el('tr', {}, [el('td', { className: 'empty', colSpan: 4, textContent: 'No cron schedules' })])]));
+      }
+
+      async function loadJobs() {
+        const body = document.getElementById('jobs');
+        if (!state.queue) return;
+
+        const jobs = await request(withQuery(queuePath(state.queue).replace(/(\\?|$)/, '/jobs$1'), { status: state.status, limit: '${DEFAULT_LIMIT}' }));
+        body.replaceChildren(...(jobs.length ? jobs.flatMap(renderJob) : [el('tr', {}, [el('td', { className: 'empty', colSpan: 6, textContent: 'No ' + state.status + ' jobs' })])]));
+      }
+
+      function renderJob(job) {
+        const jobPath = queuePath(state.queue).replace(/(\\?|$)/, '/jobs/' + encodeURIComponent(job.id) + '$1');
+        const details = el('tr', { hidden: true }, [el('td', { colSpan: 6 })]);
+        const retry = job.status === 'failed' ? el('button', {
+          className: 'retry',
+          textContent: 'Retry',
+          onclick: async (event) => {
+            event.stopPropagation();
+            await request(jobPath.replace(/(\\?|$)/, '/retry$1'), { method: 'POST' });
+            await loadQueues();
+          },
+        }) : '';
+
+        const row = el('tr', {
+          className: 'job',
+          onclick: async () => {
+            details.hidden = !details.hidden;
+            if (details.hidden) return;
+            const { stacktrace, logs } = await request(jobPath);
+            details.firstChild.replaceChildren(
+              el('pre', { textContent: stacktrace.length ? stacktrace.join('\\n\\n') : 'No stack traces' }),
+              ...(logs.length ? [el('pre', { textContent: logs.join('\\n'), style: 'color: #aaa; margin-top: 0.5rem' })] : []),
+            );
+          },
+        }, [
+          el('td', {}, [el('div', { textContent: job.name }), el('small', { className: 'mono empty', textContent: job.id })]),
+          el('td', {}, [el('span', { className: 'badge ' + job.status, textContent: job.status })]),
+          el('td', { textContent: String(job.attemptsMade) }),
+          el('td', { textContent: new Date(job.createdAt).toLocaleString() }),
+          el('td', { textContent: job.error || '' }),
+          el('td', {}, [retry]),
+        ]);
+        return [row, details];
+      }
+
+      loadQueues().catch((error) => {
+        document.getElementById('queues').replaceChildren(el('p', { className: 'empty', textContent: error.message }));
+      });
+      setInterval(() => loadQueues().catch(() => {}), 5000);
+    </script>
+  </body>
+</html>`
+  }
+}
+
+// Main handler class that orchestrates security, the dashboard API and HTML generation
+class JobsDashboardRequestHandler {
+  constructor(
+    private readonly securityService: PlaygroundSecurityService,
+    private readonly htmlGenerator: IJobsDashboardHtmlGenerator,
+  ) {}
+
+  async handle(request: Request, options: IgniterJobsDashboardOptions, basePath: string): Promise<Response> {
+    try {
+      const securityResponse = await this.securityService.checkAccess(request, options);
+      if (securityResponse) {
+        return securityResponse;
+      }
+
+      const url = new URL(request.url);
+      const dashboardPath = parseURL(basePath, options.route || DEFAULT_ROUTE);
+      const apiPath = parseURL(dashboardPath, '/api');
+
+      if (url.pathname === apiPath || url.pathname.startsWith(`${apiPath}/`)) {
+        const segments = url.pathname
+          .slice(apiPath.length)
+          .split('/')
+          .filter(Boolean)
+          .map(decodeURIComponent);
+        return await this.handleApi(request, url, segments, options);
+      }
+
+      if (url.pathname !== dashboardPath || request.method !== 'GET') {
+        return jsonResponse({ error: 'Route not found' }, 404);
+      }
+
+      return new Response(this.htmlGenerator.generate(apiPath), {
+        status: 200,
+        headers: { 'Content-Type': 'text/html' },
+      });
+    } catch (error) {
+      const logger = IgniterConsoleLogger.create({
+        level: resolveLogLevel(),
+        context: createLoggerContext('JobsDashboard')
+      });
+      logger.error('Error serving the jobs dashboard:', { error });
+      return jsonResponse({ error: 'Internal Server Error' }, 500);
+    }
+  }
+
+  private async handleApi(
+    request: Request,
+    url: URL,
+    segments: string[],
+    options: IgniterJobsDashboardOptions,
+  ): Promise<Response> {
+    const { jobs } = options;
+    const [resource, queueName, section, jobId, action] = segments;
+
+    if (resource !== 'queues') {
+      return jsonResponse({ error: 'Route not found' }, 404);
+    }
+
+    // /api/queues
+    if (!queueName && request.method === 'GET') {
+      const queues = (options.queues || ['default']).map(toQueueConfig);
+
+      return jsonResponse(await Promise.all(queues.map(async (queue) => {
+        const [counts, schedules] = await Promise.all([
+          jobs.getQueueCounts(queue),
+          jobs.listSchedules(queue),
+        ]);
+        return {
+          name: queue.name,
+          prefix: queue.prefix,
+          counts,
+          schedules,
+        };
+      })));
+    }
+
+    if (section !== 'jobs') {
+      return jsonResponse({ error: 'Route not found' }, 404);
+    }
+
+    const queue: JobQueueConfig = { name: queueName, prefix: url.searchParams.get('prefix') || undefined };
+
+    // /api/queues/:queue/jobs
+    if (!jobId && request.method === 'GET') {
+      const status = url.searchParams.get('status');
+      const limit = url.searchParams.get('limit');
+      const offset = url.searchParams.get('offset');
+
+      return jsonResponse(await jobs.search({
+        queue,
+        filter: {
+          status: status ? (status.split(',') as JobStatus[]) : undefined,
+          limit: limit ? Number(limit) : DEFAULT_LIMIT,
+          offset: offset ? Number(offset) : undefined,
+          orderBy: 'timestamp:desc',
+        },
+      }));
+    }
+
+    const job = jobId ? await jobs.getJob({ id: jobId, queue }) : null;
+    if (!job) {
+      return jsonResponse({ error: `Job "${jobId}" not found` }, 404);
+    }
+
+    // /api/queues/:queue/jobs/:id
+    if (!action && request.method === 'GET') {
+      return jsonResponse(job);
+    }
+
+    // /api/queues/:queue/jobs/:id/retry
+    if (action === 'retry' && request.method === 'POST') {
+      try {
+        await jobs.retry({ id: jobId, queue });
+      } catch (error) {
+        // Adapters reject retries of jobs that did not fail
+        return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 409);
+      }
+      return jsonResponse({ id: jobId, action });
+    }
+
+    return jsonResponse({ error: 'Route not found' }, 404);
+  }
+}
+
+/**
+ * Checks whether a request targets the jobs dashboard.
+ *
+ * @param path - The request path
+ * @param basePath - The base path of the API
+ * @param options - The jobs dashboard options
+ */
+export function isJobsDashboardRequest(path: string, basePath: string, options: IgniterJobsDashboardOptions): boolean {
+  if (options.enabled === false) return false;
+
+  const dashboardPath = parseURL(basePath, options.route || DEFAULT_ROUTE);
+  return path === dashboardPath || path.startsWith(`${dashboardPath}/`);
+}
+
+export function initializeIgniterJobsDashboard(options: IgniterJobsDashboardOptions, basePath?: string): {
+  process: (request: Request) => Promise<Response>;
+} {
+  const jobsDashboardRequestHandler = new JobsDashboardRequestHandler(
+    new PlaygroundSecurityService(),
+    new JobsDashboardHtmlGenerator(),
+  );
+
+  return {
+    process: (request: Request) => jobsDashboardRequestHandler.handle(request, options, basePath || '')
+  };
+}
@@ -13,10 +13,34 @@ import type {
   JobsNamespaceProxy,
   JobInvokeOptions,
   JobsCacheEntry,
-  JobPathResolutionResult
+  JobPathResolutionResult,
+  JobFlowBuilder,
+  JobFlowDefinition,
+  JobFlowStarter,
+  JobFlowStep,
+  JobsFlowMethods,
+  JobsProxyFlowFunction,
+  JobDeadLetterEntry,
+  JobDeadLetterPurgeParams,
+  JobDeadLetterSearchParams,
+  JobDetails,
+  JobDrainOptions,
+  JobQueueConfig,
+  JobQueueCounts,
+  JobSchedule,
+  JobScheduleInfo,
+  JobSchedulesReconciliation,
+  JobTargetParams,
+  JobRealtimeState,
+  JobHandle,
+  JobWaitParams,
+  JobsProxyInvokeFunction
 } from "../types/jobs.interface";
+import type { IgniterStoreAdapter } from "../types/store.interface";
 import { IgniterConsoleLogger } from "./logger.service";
+import { IgniterRealtimeService } from "./realtime.service";
 import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+import { getJobChannel } from "../utils/channel";
 
 /**
  * Configuration for creating a jobs service instance.
@@ -272,6 +296,159 @@ export class IgniterJobsService<
     return await this.adapter.search(params);
   }
 
+  /**
+   * Gets a single job with its progress and logs.
+   * 
+   * @param params - The job ID and its queue
+   * @returns Promise that resolves to the job, or `null` when it does not exist
+   * 
+   * @example
+   * ```typescript
+   * const job = await jobsService.getJob({ id: jobId });
+   * console.log(job?.status, job?.progress, job?.logs);
+   * ```
+   */
+  async getJob(params: JobTargetParams): Promise<JobDetails | null> {
+    return await this.adapter.getJob(params);
+  }
+
+  /**
+   * Waits until a job completes or fails its final attempt.
+   * 
+   * @param params - The job ID, its queue and the maximum time to wait in milliseconds
+   * @returns The result of the job
+   * 
+   * @example
+   * ```typescript
+   * const result = await jobsService.waitUntilFinished({ id: jobId, timeout: 5000 });
+   * ```
+   */
+  async waitUntilFinished<TResult = any>(params: JobWaitParams): Promise<TResult> {
+    return await this.adapter.waitUntilFinished<TResult>(params);
+  }
+
+  /**
+   * Runs a failed job again, resetting its attempts.
+   * 
+   * @param params - The job ID and its queue
+   */
+  async retry(params: JobTargetParams): Promise<void> {
+    return await this.adapter.retry(params);
+  }
+
+  /**
+   * Removes a waiting or delayed job before it runs.
+   * 
+   * @param params - The job ID and its queue
+   */
+  async cancel(params: JobTargetParams): Promise<void> {
+    return await this.adapter.cancel(params);
+  }
+
+  /**
+   * Runs a delayed job right away.
+   * 
+   * @param params - The job ID and its queue
+   */
+  async promote(params: JobTargetParams): Promise<void> {
+    return await this.adapter.promote(params);
+  }
+
+  /**
+   * Pauses a queue: workers stop picking its jobs until it is resumed.
+   * 
+   * @param queue - The queue to pause (defaults to the default queue)
+   * 
+   * @example
+   * ```typescript
+   * await jobsService.pauseQueue({ name: "emails" });
+   * // ... maintenance ...
+   * await jobsService.resumeQueue({ name: "emails" });
+   * ```
+   */
+  async pauseQueue(queue?: JobQueueConfig): Promise<void> {
+    return await this.adapter.pauseQueue(queue);
+  }
+
+  /**
+   * Resumes a paused queue.
+   * 
+   * @param queue - The queue to resume (defaults to the default queue)
+   */
+  async resumeQueue(queue?: JobQueueConfig): Promise<void> {
+    return await this.adapter.resumeQueue(queue);
+  }
+
+  /**
+   * Removes the waiting jobs of a queue, and its delayed jobs when `delayed` is set.
+   * 
+   * @param queue - The queue to drain (defaults to the default queue)
+   * @param options - Drain options
+   */
+  async drain(queue?: JobQueueConfig, options?: JobDrainOptions): Promise<void> {
+    return await this.adapter.drain(queue, options);
+  }
+
+  /**
+   * Counts the jobs of a queue, per status.
+   * 
+   * @param queue - The queue to count (defaults to the default queue)
+   * @returns Promise that resolves to the number of jobs per status
+   */
+  async getQueueCounts(queue?: JobQueueConfig): Promise<JobQueueCounts> {
+    return await this.adapter.getQueueCounts(queue);
+  }
+
+  /**
+   * Lists the jobs moved to the dead-letter queue of a queue, most recent failures first.
+   * 
+   * @param params - The queue and pagination
+   * @returns Promise that resolves to the dead-letter entries
+   */
+  async listDeadLetters(params?: JobDeadLetterSearchParams): Promise<JobDeadLetterEntry[]> {
+    return await this.adapter.listDeadLetters(params);
+  }
+
+  /**
+   * Gets a dead-letter entry with the errors of every attempt.
+   * 
+   * @param params - The entry ID and the queue the job failed in
+   * @returns Promise that resolves to the entry, or `null` when it does not exist
+   */
+  async getDeadLetter(params: JobTargetParams): Promise<JobDeadLetterEntry | null> {
+    return await this.adapter.getDeadLetter(params);
+  }
+
+  /**
+   * Runs a dead-lettered job again with fresh attempts.
+   * 
+   * @param params - The entry ID and the queue the job failed in
+   * @returns Promise that resolves to the ID of the replayed job
+   */
+  async replayDeadLetter(params: JobTargetParams): Promise<string> {
+    return await this.adapter.replayDeadLetter(params);
+  }
+
+  /**
+   * Removes the dead-letter entries of a queue.
+   * 
+   * @param params - The queue and the entries to remove (every entry when omitted)
+   * @returns Promise that resolves to the number of removed entries
+   */
+  async purgeDeadLetters(params?: JobDeadLetterPurgeParams): Promise<number> {
+    return await this.adapter.purgeDeadLetters(params);
+  }
+
+  /**
+   * Lists the declarative cron schedules of a queue.
+   *
+   * @param queue - The queue to list (defaults to the default queue)
+   * @returns Promise that resolves to the schedules with their next run
+   */
+  async listSchedules(queue?: JobQueueConfig): Promise<JobScheduleInfo[]> {
+    return await this.adapter.listSchedules(queue);
+  }
+
   /**
    * Starts a worker to process jobs from specified queues.
    * 
@@ -299,6 +476,7 @@ export class IgniterJobsService<
    * ```
    */
   async worker(config: JobWorkerConfig): Promise<void> {
+    await reconcileJobSchedules(this.adapter, this.registeredJobs, config.queues);
     return await this.adapter.worker(config);
   }
 
@@ -400,6 +578,14 @@ export function createIgniterJobsService<TContext extends object>(
  *     return { sent: true };
  *   }
  * });
+ *
+ * // Runs every weekday at 9am, reconciled when workers start
+ * const digestJob = createJobDefinition({
+ *   name: "Daily Digest",
+ *   input: z.object({ channel: z.string() }),
+ *   schedule: { cron: "0 9 * * 1-5", tz: "Europe/Lisbon", input: { channel: "email" } },
+ *   handler: async ({ input, context }) => context.digest.send(input.channel)
+ * });
  * ```
  */
 export function createJobDefinition<
@@ -412,6 +598,104 @@ export function createJobDefinition<
   return definition;
 }
 
+/**
+ * Checks whether a registered schedule matches the schedule of a definition.
+ *
+ * @internal
+ */
+function isSameSchedule(current: JobSchedule, desired: JobSchedule): boolean {
+  return (
+    current.cron === desired.cron &&
+    (current.tz || undefined) === (desired.tz || undefined) &&
+    JSON.stringify(current.input ?? null) === JSON.stringify(desired.input ?? null)
+  );
+}
+
+/**
+ * Publishes the state of a job to its realtime channel, watched by the `useJob` hook.
+ * Failures are logged, so streaming never fails the job.
+ *
+ * @param state - The current state of the job
+ * @param store - The store distributing the event to the other instances
+ *
+ * @example
+ * ```typescript
+ * await publishJobState({ id: job.id, name: job.name, status: "active", progress: 0, attemptsMade: 0, updatedAt: Date.now() });
+ * ```
+ */
+export async function publishJobState(state: JobRealtimeState, store?: IgniterStoreAdapter): Promise<void> {
+  try {
+    await new IgniterRealtimeService(store).publish(getJobChannel(state.id), state, { type: "job" });
+  } catch (error) {
+    const logger = IgniterConsoleLogger.create({
+      level: resolveLogLevel(),
+      context: createLoggerContext('Jobs')
+    });
+    logger.error('Job state could not be published', { jobId: state.id, error });
+  }
+}
+
+/**
+ * Reconciles the declarative schedules of the queues with the `schedule` of the job definitions:
+ * adds new schedules, updates changed ones and removes the schedules of jobs without one,
+ * so deploys never duplicate recurring jobs.
+ *
+ * @param adapter - The job queue adapter
+ * @param jobs - The registered job definitions, by job ID
+ * @param queues - Only reconcile these queues (defaults to the queues of the definitions)
+ * @returns The IDs of the added, updated and removed schedules
+ *
+ * @example
+ * ```typescript
+ * const { added, removed } = await reconcileJobSchedules(adapter, jobs, ["default"]);
+ * ```
+ */
+export async function reconcileJobSchedules<TContext extends object>(
+  adapter: IgniterJobQueueAdapter<TContext>,
+  jobs: Record<string, JobDefinition<TContext, any, any>>,
+  queues?: string[],
+): Promise<JobSchedulesReconciliation> {
+  const result: JobSchedulesReconciliation = { added: [], updated: [], removed: [] };
+  const queueConfigs = new Map<string, JobQueueConfig>();
+
+  for (const name of queues || []) {
+    queueConfigs.set(`/${name}`, { name });
+  }
+  for (const definition of Object.values(jobs)) {
+    const queue = { name: definition.queue?.name || "default", prefix: definition.queue?.prefix };
+    if (queues && !queues.includes(queue.name)) continue;
+    queueConfigs.set(`${queue.prefix || ""}/${queue.name}`, queue);
+  }
+
+  for (const queue of queueConfigs.values()) {
+    const current = new Map((await adapter.listSchedules(queue)).map((schedule) => [schedule.job, schedule]));
+    const desired = Object.entries(jobs).filter(([, definition]) =>
+      definition.schedule &&
+      (definition.queue?.name || "default") === queue.name &&
+      definition.queue?.prefix === queue.prefix,
+    );
+
+    for (const [jobId, definition] of desired) {
+      const schedule = definition.schedule!;
+      const existing = current.get(jobId);
+      current.delete(jobId);
+
+      if (existing && isSameSchedule(existing, schedule)) continue;
+
+      await adapter.upsertSchedule({ job: jobId, schedule, queue });
+      (existing ? result.updated : result.added).push(jobId);
+    }
+
+    // Schedules left belong to definitions that were removed or lost their schedule
+    for (const jobId of current.keys()) {
+      await adapter.removeSchedule({ job: jobId, queue });
+      result.removed.push(jobId);
+    }
+  }
+
+  return result;
+}
+
 // ==========================================
 // JOBS ROUTER SYSTEM (NEW ARCHITECTURE)
 // ==========================================
@@ -841,6 +1125,109 @@ export function createJobsRegistry<TMergedJobs extends Record<string, any>>(
   return new JobsRegistry(jobs, options);
 }
 
+// ==========================================
+// JOB FLOWS
+// ==========================================
+
+/**
+ * Creates the builder of a job flow.
+ * Job IDs are resolved through the registry when added, so unknown jobs fail before the flow runs.
+ * 
+ * @param name - Flow name
+ * @param registry - The jobs registry for job resolution
+ * @param flowFunction - Function starting the flow, usually `adapter.flow`
+ * @returns The flow starter
+ * 
+ * @example
+ * ```typescript
+ * const flowId = await createJobFlow("onboarding", registry, (definition) => adapter.flow!(definition))
+ *   .start("user.createAccount", { email: "user@example.com" })
+ *   .next("user.sendWelcome")
+ *   .run();
+ * ```
+ */
+export function createJobFlow<T extends Record<string, Record<string, JobDefinition<any, any, any>>>>(
+  name: string,
+  registry: JobsRegistry<T>,
+  flowFunction: JobsProxyFlowFunction
+): JobFlowStarter<T> {
+  const resolveStep = (job: string, options?: JobInvokeOptions): JobFlowStep => {
+    const jobResult = registry.getJobByPath(job);
+
+    if (!jobResult) {
+      throw new Error(`Job "${job}" not found. Available namespaces: ${registry.listNamespaces().join(', ')}`);
+    }
+
+    return options ? { job: jobResult.namespacedJobId, options } : { job: jobResult.namespacedJobId };
+  };
+
+  const createBuilder = (definition: JobFlowDefinition): JobFlowBuilder<T, any> => ({
+    definition,
+
+    next(job: string, options?: JobInvokeOptions) {
+      return createBuilder({ ...definition, stages: [...definition.stages, [resolveStep(job, options)]] });
+    },
+
+    parallel(jobs: string[]) {
+      if (jobs.length === 0) {
+        throw new Error(`Flow "${name}" cannot have an empty parallel stage`);
+      }
+
+      return createBuilder({ ...definition, stages: [...definition.stages, jobs.map((job) => resolveStep(job))] });
+    },
+
+    run() {
+      return flowFunction(definition);
+    },
+  } as JobFlowBuilder<T, any>);
+
+  return {
+    start(job: string, input: any, options?: JobInvokeOptions) {
+      return createBuilder({ name, input, stages: [[resolveStep(job, options)]] });
+    },
+  } as JobFlowStarter<T>;
+}
+
+/**
+ * Creates the handle of an enqueued job, returned by the jobs proxy and executor.
+ * Used by the adapters to wrap the job IDs returned by `invoke`.
+ * 
+ * @param adapter - The adapter holding the job
+ * @param target - The job ID and its queue
+ * @returns The job handle
+ * 
+ * @example
+ * ```typescript
+ * const id = await adapter.invoke({ id: 'emails.send', input });
+ * return createJobHandle(adapter, { id, queue: input.queue });
+ * ```
+ */
+export function createJobHandle<TResult = any>(
+  adapter: Pick<IgniterJobQueueAdapter<any>, "getJob" | "waitUntilFinished">,
+  target: JobTargetParams
+): JobHandle<TResult> {
+  return {
+    id: target.id,
+    async status() {
+      const job = await adapter.getJob(target);
+      return job?.status ?? null;
+    },
+    async result() {
+      const job = await adapter.getJob(target);
+      return job?.status === "completed" ? (job.result as TResult) : null;
+    },
+    waitUntilFinished(timeout?: number) {
+      return adapter.waitUntilFinished<TResult>({ ...target, timeout });
+    },
+    toString() {
+      return target.id;
+    },
+    toJSON() {
+      return target.id;
+    },
+  };
+}
+
 // ==========================================
 // NAMESPACE ACCESS PROXY SYSTEM
 // ==========================================
@@ -853,6 +1240,7 @@ export function createJobsRegistry<TMergedJobs extends Record<string, any>>(
  * @param mergedJobs - The merged jobs structure from routers
  * @param registry - The jobs registry for job resolution
  * @param invokeFunction - Function to actually execute jobs
+ * @param flowFunction - Function to start job flows, when supported by the adapter
  * @returns A proxy object providing namespace access
  * 
  * @example
@@ -870,9 +1258,10 @@ export function createJobsRegistry<TMergedJobs extends Record<string, any>>(
 export function createJobsProxy<T extends Record<string, Record<string, JobDefinition<any, any, any>>>>(
   mergedJobs: T,
   registry: JobsRegistry<T>,
-  invokeFunction: (params: { namespacedJobId: string; input: any; options?: JobInvokeOptions }) => Promise<string>
-): JobsNamespaceProxy<T> {
-  return new Proxy({} as JobsNamespaceProxy<T>, {
+  invokeFunction: JobsProxyInvokeFunction,
+  flowFunction?: JobsProxyFlowFunction
+): JobsNamespaceProxy<T> & JobsFlowMethods<T> {
+  return new Proxy({} as JobsNamespaceProxy<T> & JobsFlowMethods<T>, {
     get(target, namespaceProp: string) {
       // First level: namespace access (e.g., "user")
       if (typeof namespaceProp !== 'string') {
@@ -895,6 +1284,16 @@ export function createJobsProxy<T extends Record<string, Record<string, JobDefin
         return undefined;
       }
 
+      // ✅ PRIORIDADE 4: Job flows (e.g., "jobs.flow('onboarding')")
+      if (namespaceProp === 'flow' && !(namespaceProp in mergedJobs)) {
+        return (name: string) => {
+          if (!flowFunction) {
+            throw new Error('Job flows are not supported by the configured jobs adapter');
+          }
+          return createJobFlow(name, registry, flowFunction);
+        };
+      }
+
       // Check if namespace exists
       if (!(namespaceProp in mergedJobs)) {
         throw new Error(
@@ -0,0 +1,371 @@
+import type {
+  IgniterLogger,
+  IgniterOutbox,
+  IgniterOutboxEntry,
+  IgniterOutboxJobEntry,
+  IgniterOutboxJobs,
+  IgniterOutboxOptions,
+  IgniterOutboxPublishOptions,
+  IgniterOutboxRealtimeEntry,
+  IgniterOutboxRevalidateEntry,
+  IgniterOutboxRelay,
+  IgniterOutboxRelayOptions,
+  IgniterRealtimeService as IgniterRealtimeServiceType,
+  InferRealtimeChannelInput,
+  RealtimeChannelTarget,
+  RevalidationTarget,
+} from "../types";
+import type { IgniterStoreAdapter } from "../types/store.interface";
+import { IgniterRealtimeService } from "./realtime.service";
+import { IgniterConsoleLogger } from "./logger.service";
+import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+
+/** Store key of the set of the IDs of the pending durable entries */
+const PENDING_KEY = "igniter:outbox:pending";
+
+/** Store key prefix of the durable entries */
+const ENTRY_KEY_PREFIX = "igniter:outbox:entry:";
+
+/** Store key prefix of the locks of the durable entries being dispatched */
+const LOCK_KEY_PREFIX = "igniter:outbox:lock:";
+
+/** Expiration of the dispatch locks, so the entries of stopped processes are relayed again, in seconds */
+const LOCK_TTL = 60;
+
+const DEFAULT_RELAY_INTERVAL = 5000;
+const DEFAULT_RELAY_MAX_ATTEMPTS = 10;
+
+/**
+ * Targets the entries of an outbox are dispatched to.
+ */
+interface OutboxDispatchTargets {
+  jobs?: object;
+  realtime: IgniterRealtimeServiceType;
+  /** Typed channels of the buffered events, kept in memory so their schema is validated on publish */
+  channels?: Map<string, RealtimeChannelTarget>;
+}
+
+/**
+ * Store adapter with the set operations tracking the pending durable entries
+ */
+type OutboxDurableStore = IgniterStoreAdapter &
+  Required<Pick<IgniterStoreAdapter, "addToSet" | "removeFromSet" | "getSetMembers">>;
+
+function supportsDurability(store?: IgniterStoreAdapter): store is OutboxDurableStore {
+  return (
+    typeof store?.addToSet === "function" &&
+    typeof store?.removeFromSet === "function" &&
+    typeof store?.getSetMembers === "function"
+  );
+}
+
+function createLogger(): IgniterLogger {
+  return IgniterConsoleLogger.create({
+    level: resolveLogLevel(),
+    context: createLoggerContext("Outbox"),
+    showTimestamp: true,
+  });
+}
+
+/**
+ * Dispatches a buffered entry: replays the job invocation on the jobs proxy, or publishes the realtime event.
+ *
+ * @throws Error when the jobs proxy is missing or the dispatch fails.
+ */
+async function dispatchOutboxEntry(entry: IgniterOutboxEntry, targets: OutboxDispatchTargets): Promise<void> {
+  switch (entry.type) {
+    case "job": {
+      if (!targets.jobs) {
+        throw new Error("No jobs proxy to dispatch the job invocation to");
+      }
+
+      const method = entry.path[entry.path.length - 1];
+      const target = entry.path.slice(0, -1).reduce<any>((current, key) => current[key], targets.jobs);
+      await target[method](...entry.args);
+      return;
+    }
+    case "realtime":
+      await targets.realtime.publish(
+        targets.channels?.get(entry.id) ?? entry.channel,
+        entry.data as never,
+        entry.options,
+      );
+      return;
+    case "revalidate":
+      await targets.realtime.revalidate(entry.targets);
+      return;
+  }
+}
+
+/**
+ * Creates a jobs proxy recording the calls made on it, at any depth.
+ *
+ * @param record - Records a call, returning the ID of its outbox entry.
+ * @param path - Property path of the proxy.
+ */
+function createRecordingProxy(record: (path: string[], args: unknown[]) => string, path: string[] = []): unknown {
+  return new Proxy(function () {}, {
+    get(_, prop) {
+      // Keeps the proxy from being mistaken for a promise when awaited
+      if (typeof prop !== "string" || prop === "then") return undefined;
+      return createRecordingProxy(record, [...path, prop]);
+    },
+    apply(_, __, args) {
+      return Promise.resolve(record(path, args));
+    },
+  });
+}
+
+/**
+ * Locks a durable entry for its dispatch, so a request and the relays never dispatch it together.
+ *
+ * @returns `true` if the entry was locked, `false` when it is already being dispatched.
+ */
+async function lockDurableEntry(store: IgniterStoreAdapter, id: string): Promise<boolean> {
+  return store.setIfAbsent(`${LOCK_KEY_PREFIX}${id}`, 1, { ttl: LOCK_TTL });
+}
+
+async function unlockDurableEntry(store: IgniterStoreAdapter, id: string): Promise<void> {
+  await store.delete(`${LOCK_KEY_PREFIX}${id}`);
+}
+
+async function removeDurableEntry(store: OutboxDurableStore, id: string): Promise<void> {
+  await store.removeFromSet(PENDING_KEY, id);
+  await store.delete(`${ENTRY_KEY_PREFIX}${id}`);
+  await unlockDurableEntry(store, id);
+}
+
+/**
+ * Outbox of an action, buffering job invocations and realtime events until the handler
+ * or a transaction succeeds. Created for each request by the request processor.
+ *
+ * Durable outboxes keep the flushed entries in the store until they are dispatched,
+ * so `createOutboxRelay` retries the entries whose dispatch failed or was interrupted.
+ * Entries are only buffered in memory before they flush.
+ */
+export class IgniterOutboxService implements IgniterOutbox {
+  private entries: IgniterOutboxEntry[] = [];
+  private readonly jobProxies = new Map<string, object>();
+  private readonly channels = new Map<string, RealtimeChannelTarget>();
+  private _logger?: IgniterLogger;
+
+  /**
+   * @param realtime - The realtime service of the request, publishing the buffered events.
+   * @param store - The store keeping the entries of durable outboxes.
+   * @param options - The outbox options of the router.
+   */
+  constructor(
+    private readonly realtime: IgniterRealtimeServiceType,
+    private readonly store?: IgniterStoreAdapter,
+    private readonly options: IgniterOutboxOptions = {},
+  ) {}
+
+  private get logger(): IgniterLogger {
+    if (!this._logger) {
+      this._logger = createLogger();
+    }
+    return this._logger;
+  }
+
+  jobs<TJobs extends object>(jobs: TJobs): IgniterOutboxJobs<TJobs> {
+    return createRecordingProxy((path, args) => {
+      const id = this.buffer({ type: "job", path, args });
+      this.jobProxies.set(id, jobs);
+      return id;
+    }) as IgniterOutboxJobs<TJobs>;
+  }
+
+  publish<TChannel extends RealtimeChannelTarget>(
+    channel: TChannel,
+    data: InferRealtimeChannelInput<TChannel>,
+    options?: IgniterOutboxPublishOptions,
+  ): string {
+    const id = this.buffer({
+      type: "realtime",
+      channel: typeof channel === "string" ? channel : channel.id,
+      data,
+      options,
+    });
+    if (typeof channel !== "string") this.channels.set(id, channel);
+    return id;
+  }
+
+  revalidate(targets: RevalidationTarget | RevalidationTarget[]): string {
+    return this.buffer({ type: "revalidate", targets: Array.isArray(targets) ? targets : [targets] });
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    const outer = this.entries;
+    const committed: IgniterOutboxEntry[] = [];
+    this.entries = committed;
+
+    let result: T;
+    try {
+      result = await fn();
+    } catch (error) {
+      this.logger.debug("Outbox transaction failed, buffered entries discarded", { count: committed.length });
+      throw error;
+    } finally {
+      this.entries = outer;
+    }
+
+    await this.dispatch(committed);
+    return result;
+  }
+
+  /**
+   * Dispatches the entries buffered outside of transactions. Called once the response of the handler succeeded.
+   */
+  async flush(): Promise<void> {
+    const entries = this.entries;
+    this.entries = [];
+    await this.dispatch(entries);
+  }
+
+  /**
+   * Discards the entries buffered outside of transactions. Called when the handler failed or returned an error response.
+   */
+  discard(): void {
+    if (this.entries.length > 0) {
+      this.logger.debug("Outbox entries discarded", { count: this.entries.length });
+    }
+    this.entries = [];
+  }
+
+  private buffer(entry: IgniterOutboxJobEntry | IgniterOutboxRealtimeEntry | IgniterOutboxRevalidateEntry): string {
+    const id = crypto.randomUUID();
+    this.entries.push({ ...entry, id, createdAt: Date.now(), attempts: 0 });
+    return id;
+  }
+
+  private async dispatch(entries: IgniterOutboxEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const durable = this.options.durable && supportsDurability(this.store) ? this.store : undefined;
+    if (this.options.durable && !durable) {
+      this.logger.warn("Durable outbox requires a store adapter with set operations, entries are dispatched without it");
+    }
+
+    // Entries locked elsewhere are left to the holder of the lock
+    let locked = entries;
+    if (durable) {
+      locked = [];
+      // Entries are locked before they are pending, so the relays leave them to this dispatch
+      for (const entry of entries) {
+        await durable.set(`${ENTRY_KEY_PREFIX}${entry.id}`, entry);
+        if (await lockDurableEntry(durable, entry.id)) locked.push(entry);
+        await durable.addToSet(PENDING_KEY, entry.id);
+      }
+    }
+
+    for (const entry of locked) {
+      try {
+        await dispatchOutboxEntry(entry, {
+          jobs: this.jobProxies.get(entry.id),
+          realtime: this.realtime,
+          channels: this.channels,
+        });
+        if (durable) await removeDurableEntry(durable, entry.id);
+      } catch (error) {
+        // The handler already succeeded, so failed entries are only logged (and retried by the relay when durable)
+        this.logger.error("Outbox entry dispatch failed", { id: entry.id, type: entry.type, error });
+        if (durable) {
+          // A lock that could not be released expires, leaving the entry to the relay later
+          await unlockDurableEntry(durable, entry.id).catch(() => {});
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Creates the relay dispatching the entries of durable outboxes left in the store,
+ * either because their dispatch failed or because the process stopped before it.
+ * Entries are locked while dispatched, so the relays of several processes never dispatch an entry twice.
+ *
+ * @param options - The relay options.
+ * @returns The outbox relay.
+ *
+ * @example
+ * ```typescript
+ * const relay = createOutboxRelay({ store: redisStore, jobs: igniter.jobs });
+ * relay.start();
+ * ```
+ */
+export function createOutboxRelay(options: IgniterOutboxRelayOptions): IgniterOutboxRelay {
+  const { store, jobs } = options;
+  if (!supportsDurability(store)) {
+    throw new Error("The outbox relay requires a store adapter with set operations");
+  }
+
+  const interval = options.interval ?? DEFAULT_RELAY_INTERVAL;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_RELAY_MAX_ATTEMPTS;
+  const logger = options.logger ?? createLogger();
+  const realtime = new IgniterRealtimeService(store);
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let running = false;
+
+  const run = async (): Promise<number> => {
+    let dispatched = 0;
+
+    for (const id of await store.getSetMembers(PENDING_KEY)) {
+      // Entries still dispatched by their request or by another relay are skipped
+      if (!(await lockDurableEntry(store, id))) continue;
+
+      const entry = await store.get<IgniterOutboxEntry>(`${ENTRY_KEY_PREFIX}${id}`);
+      if (!entry) {
+        await removeDurableEntry(store, id);
+        continue;
+      }
+
+      try {
+        await dispatchOutboxEntry(entry, { jobs, realtime });
+        await removeDurableEntry(store, id);
+        dispatched++;
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+
+        if (attempts >= maxAttempts) {
+          logger.error("Outbox entry dropped after its final attempt", { id, type: entry.type, attempts, error });
+          await removeDurableEntry(store, id);
+          continue;
+        }
+
+        logger.warn("Outbox entry dispatch failed, retrying on the next run", { id, attempts });
+        await store.set(`${ENTRY_KEY_PREFIX}${id}`, {
+          ...entry,
+          attempts,
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+        await unlockDurableEntry(store, id);
+      }
+    }
+
+    if (dispatched > 0) logger.info("Outbox entries relayed", { count: dispatched });
+    return dispatched;
+  };
+
+  return {
+    start() {
+      if (timer) return;
+
+      timer = setInterval(async () => {
+        // Skips the run when the previous one is still dispatching
+        if (running) return;
+        running = true;
+        try {
+          await run();
+        } catch (error) {
+          logger.error("Outbox relay run failed", { error });
+        } finally {
+          running = false;
+        }
+      }, interval);
+    },
+    stop() {
+      clearInterval(timer);
+      timer = undefined;
+    },
+    run,
+  };
+}
@@ -27,7 +27,7 @@ interface IPlaygroundHtmlGenerator {
 }
 
 // Concrete implementation for security checks
-class PlaygroundSecurityService implements IPlaygroundSecurity {
+export class PlaygroundSecurityService implements IPlaygroundSecurity {
   async checkAccess(request: Request, playgroundConfig?: DocsConfig['playground']): Promise<Response | null> {
     const isProduction = process.env.NODE_ENV === 'production';
 
@@ -2,14 +2,72 @@ import { SSEProcessor, type SSEChannel } from "../processors/sse.processor";
 import { generateQueryKey } from "../utils/queryKey";
 import type {
   IgniterRealtimeService as IgniterRealtimeServiceType,
+  InferRealtimeChannelInput,
   RealtimeBuilder,
+  RealtimeChannelTarget,
   RealtimeEventPayload,
+  RealtimePresence,
+  RealtimePresenceEvent,
+  RealtimePresenceMember,
+  RealtimePresenceOptions,
   RevalidationTarget,
+  IgniterLogger,
 } from "../types";
 import type { IgniterStoreAdapter } from "../types/store.interface";
 import { IgniterError } from "../error";
 import { IgniterConsoleLogger } from "./logger.service";
 import { resolveLogLevel, createLoggerContext } from "../utils/logger";
+import { validateStandardSchema } from "../utils/schema";
+
+/**
+ * Registers the channel of a realtime event if it does not exist.
+ * Typed channels are registered with their schema and retention settings.
+ *
+ * @param target - The channel name or the resolved typed channel.
+ * @param description - Description used when registering an untyped channel.
+ * @returns The channel name.
+ */
+function registerRealtimeChannel(target: RealtimeChannelTarget, description?: string): string {
+  const id = typeof target === "string" ? target : target.id;
+
+  if (!SSEProcessor.channelExists(id)) {
+    const definition = typeof target === "string" ? undefined : target.channel;
+    SSEProcessor.registerChannel({
+      id,
+      description: description || definition?.description || `Realtime events for ${id}`,
+      schema: definition?.schema,
+      retention: definition?.retention,
+      clientPublish: definition?.clientPublish,
+      presence: definition?.presence,
+    });
+  }
+
+  return id;
+}
+
+/**
+ * Validates the data of a realtime event against the schema of its channel.
+ *
+ * @param channel - The channel name.
+ * @param data - The data payload of the event.
+ * @returns The validated data, or the data itself for channels without schema.
+ * @throws IgniterError with code `REALTIME_VALIDATION_ERROR` when the data is invalid.
+ */
+async function validateRealtimeEvent(channel: string, data: unknown): Promise<unknown> {
+  const schema = SSEProcessor.getChannel(channel)?.schema;
+  if (!schema) return data;
+
+  const result = await validateStandardSchema(schema, data);
+  if (result.issues) {
+    throw new IgniterError({
+      code: "REALTIME_VALIDATION_ERROR",
+      message: `Invalid event data for channel '${channel}'`,
+      details: result.issues,
+    });
+  }
+
+  return result.value;
+}
 
 /**
  * Type-safe, fluent RealtimeBuilder implementation for Igniter.js.
@@ -39,15 +97,17 @@ import { resolveLogLevel, createLoggerContext } from "../utils/logger";
  *   .withData({ secret: "42" })
  *   .publish();
  */
-class RealtimeBuilderImpl<TContext = unknown> implements RealtimeBuilder<TContext> {
+class RealtimeBuilderImpl<TContext = unknown, TData = unknown>
+  implements RealtimeBuilder<TContext, TData>
+{
   private payload: RealtimeEventPayload;
-  private readonly store: IgniterStoreAdapter;
+  private readonly store?: IgniterStoreAdapter;
 
   /**
-   * @param store - The store adapter for event publishing (reserved for future use).
+   * @param store - The store adapter distributing the event to other instances.
    * @param initial - The initial payload for the realtime event.
    */
-  constructor(store: IgniterStoreAdapter, initial: RealtimeEventPayload) {
+  constructor(store: IgniterStoreAdapter | undefined, initial: RealtimeEventPayload) {
     this.store = store;
     this.payload = { ...initial };
   }
@@ -61,7 +121,7 @@ class RealtimeBuilderImpl<TContext = unknown> implements RealtimeBuilder<TContex
    * @example
    * realtime.to("updates").withData({ foo: 1 })
    */
-  withData(data: unknown): RealtimeBuilder<TContext> {
+  withData(data: TData): RealtimeBuilder<TContext, TData> {
     return new RealtimeBuilderImpl(this.store, { ...this.payload, data });
   }
 
@@ -74,7 +134,7 @@ class RealtimeBuilderImpl<TContext = unknown> implements RealtimeBuilder<TContex
    * @example
    * realtime.to("chat").withType("message")
    */
-  withType(type: string): RealtimeBuilder<TContext> {
+  withType(type: string): RealtimeBuilder<TContext, TData> {
     return new RealtimeBuilderImpl(this.store, { ...this.payload, type });
   }
 
@@ -87,7 +147,7 @@ class RealtimeBuilderImpl<TContext = unknown> implements RealtimeBuilder<TContex
    * @example
    * realtime.to("log").withId("evt-123")
    */
-  withId(id: string): RealtimeBuilder<TContext> {
+  withId(id: string): RealtimeBuilder<TContext, TData> {
     return new RealtimeBuilderImpl(this.store, { ...this.payload, id });
   }
 
@@ -100,7 +160,7 @@ class RealtimeBuilderImpl<TContext = unknown> implements RealtimeBuilder<TContex
    * @example
    * realtime.to("foo").withChannel("bar")
    */
-  withChannel(channel: string): RealtimeBuilder<TContext> {
+  withChannel(channel: string): RealtimeBuilder<TContext, TData> {
     return new RealtimeBuilderImpl(this.store, { ...this.payload, channel });
   }
 
@@ -113,7 +173,7 @@ class RealtimeBuilderImpl<TContext = unknown> implements RealtimeBuilder<TContex
    * @example
    * realtime.to("alerts").withDescription("Critical system alert")
    */
-  withDescription(description: string): RealtimeBuilder<TContext> {
+  withDescription(description: string): RealtimeBuilder<TContext, TData> {
     return new RealtimeBuilderImpl(this.store, { ...this.payload, description });
   }
 
@@ -130,7 +190,7 @@ class RealtimeBuilderImpl<TContext = unknown> implements RealtimeBuilder<TContex
    */
   withScopes(
     scopes: (context: TContext) => Promise<string[]> | string[]
-  ): RealtimeBuilder<TContext> {
+  ): RealtimeBuilder<TContext, TData> {
     return new RealtimeBuilderImpl(this.store, { ...this.payload, scopes });
   }
 
@@ -138,11 +198,13 @@ class RealtimeBuilderImpl<TContext = unknown> implements RealtimeBuilder<TContex
    * Publish the constructed event to the specified channel.
    *
    * - Registers the channel if it does not exist.
+   * - Validates the data against the channel schema, if any.
    * - Throws if the channel is not set.
    *
    * @returns Promise that resolves when the event is published.
    *
    * @throws Error if the channel is not set.
+   * @throws IgniterError if the data does not match the channel schema.
    *
    * @example
    * await realtime.to("news").withData({ headline: "..." }).publish();
@@ -151,19 +213,361 @@ class RealtimeBuilderImpl<TContext = unknown> implements RealtimeBuilder<TContex
     if (!this.payload.channel) {
       throw new Error("[RealtimeBuilder] Channel is required to publish an event.");
     }
-    if (!SSEProcessor.channelExists(this.payload.channel)) {
-      SSEProcessor.registerChannel({
-        id: this.payload.channel,
-        description: this.payload.description || `Realtime events for ${this.payload.channel}`,
-      });
-    }
-    SSEProcessor.publishEvent({
-      channel: this.payload.channel,
-      data: this.payload.data,
+    const channel = registerRealtimeChannel(this.payload.channel, this.payload.description);
+    const data = await validateRealtimeEvent(channel, this.payload.data);
+    await SSEProcessor.publishDistributed({
+      channel,
+      data,
       type: this.payload.type,
       id: this.payload.id,
+    }, this.store);
+  }
+}
+
+const PRESENCE_PREFIX = "igniter:realtime:presence";
+const DEFAULT_PRESENCE_TIMEOUT = 60;
+
+/**
+ * Store operations used by the presence of a channel
+ */
+type RealtimePresenceStore = Pick<IgniterStoreAdapter, "get" | "set" | "delete" | "expire"> &
+  Required<Pick<IgniterStoreAdapter, "addToSet" | "removeFromSet" | "getSetMembers">>;
+
+/**
+ * Creates the store keeping the members in memory, when no store adapter can share them.
+ */
+function createMemoryPresenceStore(): RealtimePresenceStore {
+  const values = new Map<string, any>();
+  const sets = new Map<string, Set<string>>();
+
+  return {
+    get: async <T = any>(key: string) => (values.get(key) ?? null) as T | null,
+    set: async (key: string, value: any) => {
+      values.set(key, value);
+    },
+    delete: async (key: string) => {
+      values.delete(key);
+    },
+    expire: async () => {},
+    addToSet: async (key: string, member: string) => {
+      if (!sets.has(key)) sets.set(key, new Set());
+      sets.get(key)!.add(member);
+    },
+    removeFromSet: async (key: string, member: string) => sets.get(key)?.delete(member) ?? false,
+    getSetMembers: async (key: string) => Array.from(sets.get(key) ?? []),
+  };
+}
+
+/**
+ * Members of the open connections of this instance, by channel then member id
+ */
+interface RealtimePresenceConnections {
+  [memberId: string]: { count: number; metadata?: Record<string, unknown> };
+}
+
+/**
+ * Presence of a realtime channel.
+ *
+ * Each member is kept under its own key of the store adapter, expiring with the member,
+ * and listed in a set of the channel. Without a store able to keep sets, members are kept in memory.
+ * While an instance tracks a channel, it checks the members every half timeout:
+ * it keeps the members of its open connections alive, and removes the members whose
+ * heartbeat is older than the timeout with a `timeout` event.
+ *
+ * On channels declaring `presence`, the connections authorized with a member
+ * join when they subscribe and leave when their last connection to the instance closes.
+ *
+ * @example
+ * // In a mutation handler
+ * await realtime.presence("chat:room-1").join(user.id, { name: user.name });
+ *
+ * @example
+ * // Keep the member online, joining again once it timed out
+ * const presence = realtime.presence("chat:room-1");
+ * if (!(await presence.heartbeat(user.id))) {
+ *   await presence.join(user.id, { name: user.name });
+ * }
+ */
+class RealtimePresenceImpl<TMetadata = Record<string, unknown>>
+  implements RealtimePresence<TMetadata>
+{
+  /**
+   * Members of the channels when no store is available
+   */
+  private static memory: RealtimePresenceStore = createMemoryPresenceStore();
+
+  /**
+   * Store of the connection presence of the channels that do not declare one
+   */
+  private static connectionStore?: IgniterStoreAdapter;
+
+  /**
+   * Members of the open connections of this instance, by channel
+   */
+  private static connections = new Map<string, RealtimePresenceConnections>();
+
+  /**
+   * Timers checking the members of the channels tracked by this instance, by channel
+   */
+  private static sweepers = new Map<string, ReturnType<typeof setInterval>>();
+
+  private static unsubscribeConnections?: () => void;
+
+  private static _logger: IgniterLogger;
+
+  private static get logger(): IgniterLogger {
+    if (!this._logger) {
+      this._logger = IgniterConsoleLogger.create({
+        level: resolveLogLevel(),
+        context: createLoggerContext('Presence'),
+      });
+    }
+    return this._logger;
+  }
+
+  private readonly store: RealtimePresenceStore;
+  private readonly distributionStore?: IgniterStoreAdapter;
+  private readonly channel: string;
+  private readonly indexKey: string;
+  private readonly timeout: number;
+
+  /**
+   * @param store - The store adapter sharing the members between instances.
+   * @param channel - The tracked channel.
+   * @param options - Presence options.
+   */
+  constructor(
+    store: IgniterStoreAdapter | undefined,
+    channel: string,
+    options: RealtimePresenceOptions = {},
+  ) {
+    const shared = options.store || store;
+    this.store = RealtimePresenceImpl.canKeepMembers(shared) ? shared : RealtimePresenceImpl.memory;
+    this.distributionStore = shared;
+    this.channel = channel;
+    this.indexKey = `${PRESENCE_PREFIX}:${channel}:members`;
+    this.timeout = options.timeout ?? DEFAULT_PRESENCE_TIMEOUT;
+  }
+
+  /**
+   * Tracks the presence of the connections subscribing to the channels declaring `presence`.
+   *
+   * @param store - Store of the channels whose presence does not declare one. Kept when omitted.
+   */
+  static trackConnections(store?: IgniterStoreAdapter): void {
+    // Services created without a store, e.g. to publish job states, keep the store of the app
+    if (store) this.connectionStore = store;
+    if (this.unsubscribeConnections) return;
+
+    this.unsubscribeConnections = SSEProcessor.onConnectionChange(({ type, channel, member }) => {
+      const options = SSEProcessor.getChannel(channel)?.presence;
+      if (!options || !member) return;
+
+      const presence = new RealtimePresenceImpl(this.connectionStore, channel, options);
+      const members = this.connections.get(channel) || {};
+      this.connections.set(channel, members);
+
+      if (type === "open") {
+        const current = members[member.id];
+        members[member.id] = { count: (current?.count ?? 0) + 1, metadata: member.metadata };
+        if (!current) {
+          void presence.join(member.id, member.metadata).catch((error) => {
+            this.logger.error("Presence join failed", { channel, member: member.id, error });
+          });
+        }
+        return;
+      }
+
+      const current = members[member.id];
+      if (!current) return;
+      current.count--;
+      if (current.count > 0) return;
+
+      delete members[member.id];
+      if (Object.keys(members).length === 0) this.connections.delete(channel);
+      void presence.leave(member.id).catch((error) => {
+        this.logger.error("Presence leave failed", { channel, member: member.id, error });
+      });
     });
   }
+
+  /**
+   * Add a member to the channel and publish a `join` event.
+   *
+   * @param id - Unique identifier of the member.
+   * @param metadata - Metadata shared with the other members.
+   * @returns The joined member.
+   */
+  async join(id: string, metadata?: TMetadata): Promise<RealtimePresenceMember<TMetadata>> {
+    const current = await this.readMember(id);
+    const now = new Date().toISOString();
+    const member: RealtimePresenceMember<TMetadata> = {
+      id,
+      metadata: metadata ?? ({} as TMetadata),
+      joinedAt: current?.joinedAt ?? now,
+      lastSeenAt: now,
+    };
+
+    await this.writeMember(member);
+    await this.store.addToSet(this.indexKey, id);
+    await this.store.expire(this.indexKey, this.timeout * 2);
+    this.startSweeper();
+    await this.emit("join", member);
+
+    return member;
+  }
+
+  /**
+   * Refresh the last heartbeat of a member.
+   *
+   * @param id - Unique identifier of the member.
+   * @returns False when the member left or timed out, and must join again.
+   */
+  async heartbeat(id: string): Promise<boolean> {
+    const member = await this.readMember(id);
+    if (!member) return false;
+
+    await this.writeMember({ ...member, lastSeenAt: new Date().toISOString() });
+    await this.store.expire(this.indexKey, this.timeout * 2);
+
+    return true;
+  }
+
+  /**
+   * Remove a member from the channel and publish a `leave` event.
+   *
+   * @param id - Unique identifier of the member.
+   */
+  async leave(id: string): Promise<void> {
+    const member = await this.store.get<RealtimePresenceMember<TMetadata>>(this.memberKey(id));
+
+    // Only the caller removing the member from the set publishes the event
+    if (!(await this.store.removeFromSet(this.indexKey, id))) return;
+    await this.store.delete(this.memberKey(id));
+
+    if (member) await this.emit("leave", member);
+  }
+
+  /**
+   * List the members of the channel.
+   *
+   * @returns The members that did not time out, in join order.
+   */
+  async list(): Promise<RealtimePresenceMember<TMetadata>[]> {
+    const ids = await this.store.getSetMembers(this.indexKey);
+    const members = await Promise.all(ids.map((id) => this.readMember(id)));
+
+    return members
+      .filter((member): member is RealtimePresenceMember<TMetadata> => !!member)
+      .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+  }
+
+  /**
+   * Keeps the members of the open connections alive, then removes the members
+   * that timed out and publishes a `timeout` event for each of them.
+   */
+  private async sweep(): Promise<void> {
+    const connected = RealtimePresenceImpl.connections.get(this.channel) || {};
+    for (const [id, { metadata }] of Object.entries(connected)) {
+      // Another instance removed the member while its connection is still open
+      if (!(await this.heartbeat(id))) {
+        await this.join(id, metadata as TMetadata);
+      }
+    }
+
+    const ids = await this.store.getSetMembers(this.indexKey);
+    for (const id of ids) {
+      const member = await this.store.get<RealtimePresenceMember<TMetadata>>(this.memberKey(id));
+      if (member && !this.isExpired(member)) continue;
+
+      // Only the instance removing the member from the set publishes the event
+      if (!(await this.store.removeFromSet(this.indexKey, id))) continue;
+      await this.store.delete(this.memberKey(id));
+      if (member) await this.emit("timeout", member);
+    }
+
+    if (Object.keys(connected).length === 0 && ids.length === 0) {
+      this.stopSweeper();
+    }
+  }
+
+  private startSweeper(): void {
+    if (RealtimePresenceImpl.sweepers.has(this.channel)) return;
+
+    const timer = setInterval(() => {
+      this.sweep().catch((error) => {
+        RealtimePresenceImpl.logger.error("Presence check failed", { channel: this.channel, error });
+      });
+    }, Math.max(1, this.timeout / 2) * 1000);
+    // Do not keep the process alive for presence checks
+    timer.unref?.();
+
+    RealtimePresenceImpl.sweepers.set(this.channel, timer);
+  }
+
+  private stopSweeper(): void {
+    clearInterval(RealtimePresenceImpl.sweepers.get(this.channel));
+    RealtimePresenceImpl.sweepers.delete(this.channel);
+  }
+
+  /**
+   * Reads a member, or null when it left or timed out.
+   */
+  private async readMember(id: string): Promise<RealtimePresenceMember<TMetadata> | null> {
+    const member = await this.store.get<RealtimePresenceMember<TMetadata>>(this.memberKey(id));
+    return member && !this.isExpired(member) ? member : null;
+  }
+
+  private async writeMember(member: RealtimePresenceMember<TMetadata>): Promise<void> {
+    // The key outlives the timeout so the `timeout` event carries the member;
+    // it expires the members of channels no instance checks anymore
+    await this.store.set(this.memberKey(member.id), member, { ttl: this.timeout * 2 });
+  }
+
+  private memberKey(id: string): string {
+    return `${PRESENCE_PREFIX}:${this.channel}:member:${id}`;
+  }
+
+  private isExpired(member: RealtimePresenceMember<TMetadata>): boolean {
+    return new Date(member.lastSeenAt).getTime() < Date.now() - this.timeout * 1000;
+  }
+
+  private async emit(
+    type: RealtimePresenceEvent["type"],
+    member: RealtimePresenceMember<TMetadata>,
+  ): Promise<void> {
+    if (!SSEProcessor.channelExists(this.channel)) {
+      SSEProcessor.registerChannel({
+        id: this.channel,
+        description: `Realtime events for ${this.channel}`,
+      });
+    }
+
+    const data: RealtimePresenceEvent<TMetadata> = {
+      type,
+      member,
+      members: await this.list(),
+    };
+
+    await SSEProcessor.publishDistributed({
+      channel: this.channel,
+      type: "presence",
+      data,
+    }, this.distributionStore);
+  }
+
+  /**
+   * Whether the store can keep the members, i.e. supports key-value and set operations.
+   */
+  private static canKeepMembers(store?: IgniterStoreAdapter): store is IgniterStoreAdapter & RealtimePresenceStore {
+    return (
+      typeof store?.get === "function" &&
+      typeof store?.set === "function" &&
+      typeof store?.addToSet === "function" &&
+      typeof store?.removeFromSet === "function" &&
+      typeof store?.getSetMembers === "function"
+    );
+  }
 }
 
 /**
@@ -191,27 +595,33 @@ class RealtimeBuilderImpl<TContext = unknown> implements RealtimeBuilder<TContex
 export class IgniterRealtimeService<TContext = any>
   implements IgniterRealtimeServiceType<TContext>
 {
-  private readonly store: IgniterStoreAdapter;
+  private readonly store?: IgniterStoreAdapter;
 
   /**
    * Construct a new IgniterRealtimeService.
    *
-   * @param store - The store adapter for event publishing (reserved for future use).
+   * When the store supports publish/subscribe, events are distributed to every
+   * instance sharing it, so SSE clients connected to any instance receive them.
+   *
+   * @param store - The store adapter distributing events between instances. Events stay in this instance when omitted.
    *
    * @example
    * const realtime = new IgniterRealtimeService(store);
    */
-  constructor(store: IgniterStoreAdapter) {
+  constructor(store?: IgniterStoreAdapter) {
     this.store = store;
+    void SSEProcessor.enableDistribution(store);
+    RealtimePresenceImpl.trackConnections(store);
   }
 
   /**
    * Publish an event to a specific channel.
    *
    * - Registers the channel if it does not exist.
+   * - Validates the data against the channel schema, if any.
    * - You can provide additional event metadata (type, id, description, scopes).
    *
-   * @param channel - The channel to publish the event to.
+   * @param target - The channel name, or a typed channel resolved with `channel.to(params)`.
    * @param data - The data payload of the event.
    * @param options - Optional event metadata (excluding channel and data).
    * @returns Promise that resolves when the event is published.
@@ -221,24 +631,22 @@ export class IgniterRealtimeService<TContext = any>
    *
    * @example
    * await realtime.publish("alerts", { msg: "!" }, { type: "warning", id: "evt-42" });
+   *
+   * @example
+   * await realtime.publish(chatRoom.to({ roomId: "1" }), { text: "Hello" });
    */
-  async publish(
-    channel: string,
-    data: unknown,
+  async publish<TChannel extends RealtimeChannelTarget>(
+    target: TChannel,
+    data: InferRealtimeChannelInput<TChannel>,
     options?: Omit<RealtimeEventPayload<TContext>, "channel" | "data">
   ): Promise<void> {
-    if (!SSEProcessor.channelExists(channel)) {
-      SSEProcessor.registerChannel({
-        id: channel,
-        description: options?.description || `Realtime events for ${channel}`,
-      });
-    }
-    SSEProcessor.publishEvent({
+    const channel = registerRealtimeChannel(target, options?.description);
+    await SSEProcessor.publishDistributed({
       channel,
-      data: data,
+      data: await validateRealtimeEvent(channel, data),
       type: options?.type,
       id: options?.id,
-    });
+    }, this.store);
   }
 
   /**
@@ -247,7 +655,7 @@ export class IgniterRealtimeService<TContext = any>
    * - Allows chaining methods to set event properties before publishing.
    * - Encouraged for advanced use cases and best DX.
    *
-   * @param channel - The channel to target for the realtime event.
+   * @param target - The channel name, or a typed channel resolved with `channel.to(params)`.
    * @returns A RealtimeBuilder instance for chaining event properties and publishing.
    *
    * @example
@@ -257,7 +665,11 @@ export class IgniterRealtimeService<TContext = any>
    *   .withData({ text: "Hello" })
    *   .publish();
    */
-  to(channel: string): RealtimeBuilder<TContext> {
+  to<TChannel extends RealtimeChannelTarget>(
+    target: TChannel,
+  ): RealtimeBuilder<TContext, InferRealtimeChannelInput<TChannel>> {
+    // Typed channels are registered upfront so their schema applies to the event
+    const channel = typeof target === "string" ? target : registerRealtimeChannel(target);
     return new RealtimeBuilderImpl(this.store, { channel });
   }
 
@@ -265,6 +677,7 @@ export class IgniterRealtimeService<TContext = any>
    * Broadcast data to all registered channels.
    *
    * - Useful for system-wide notifications or global events.
+   * - Channels declaring a schema are skipped, as their events must match it.
    *
    * @param data - The data payload to broadcast.
    * @returns Promise that resolves when the broadcast is complete.
@@ -275,7 +688,9 @@ export class IgniterRealtimeService<TContext = any>
   async broadcast(data: unknown): Promise<void> {
     const channels = SSEProcessor.getRegisteredChannels() || [];
     await Promise.all(
-      channels.map((channel: SSEChannel) => this.publish(channel.id, data))
+      channels
+        .filter((channel: SSEChannel) => !channel.schema)
+        .map((channel: SSEChannel) => this.publish(channel.id, data))
     );
   }
 
@@ -292,7 +707,7 @@ export class IgniterRealtimeService<TContext = any>
   ): Promise<void> {
     const targetsArray = Array.isArray(targets) ? targets : [targets];
 
-    const eventsToPublish = new Map<string, { queryKeys: string[], data?: unknown }>();
+    const eventsToPublish = new Map<string, { queryKeys: string[], data?: unknown, queryData?: Record<string, unknown> }>();
 
     for (const target of targetsArray) {
       const { path, params, query, scopes, data } = target;
@@ -329,6 +744,11 @@ export class IgniterRealtimeService<TContext = any>
       if (data !== undefined && eventData.data === undefined) {
         eventData.data = data;
       }
+
+      // The data of each target is also sent by query key, for the clients to write it to their cache
+      if (data !== undefined) {
+        eventData.queryData = { ...eventData.queryData, [queryKey]: data };
+      }
     }
 
     // Register revalidation channel if it doesn't exist
@@ -336,6 +756,7 @@ export class IgniterRealtimeService<TContext = any>
       SSEProcessor.registerChannel({
         id: 'revalidation',
         description: 'Channel for query revalidation events',
+        retention: { maxEvents: 100, ttl: 300 },
       });
     }
 
@@ -343,16 +764,44 @@ export class IgniterRealtimeService<TContext = any>
     for (const [scopeKey, eventPayload] of eventsToPublish.entries()) {
       const scopes = scopeKey ? scopeKey.split(',') : undefined;
 
-      SSEProcessor.publishEvent({
+      await SSEProcessor.publishDistributed({
         channel: 'revalidation',
         type: 'revalidate',
         scopes: scopes,
         data: {
           queryKeys: eventPayload.queryKeys,
           data: eventPayload.data,
+          queryData: eventPayload.queryData,
           timestamp: new Date().toISOString(),
         },
-      });
+      }, this.store);
     }
   }
+
+  /**
+   * Tracks the members of a channel ("who is online").
+   *
+   * - Join, leave and timeout are published as `presence` events on the channel.
+   * - Members are shared by every instance through the store adapter.
+   * - On channels declaring `presence`, connections authorized with a member join and leave on their own.
+   *
+   * @param channel - The channel to track.
+   * @param options - Presence options, such as the heartbeat timeout. Defaults to the `presence` of the channel.
+   * @returns The presence of the channel.
+   *
+   * @example
+   * const presence = realtime.presence("chat:room-1");
+   * await presence.join(context.user.id, { name: context.user.name });
+   * const members = await presence.list();
+   */
+  presence<TMetadata = Record<string, unknown>>(
+    channel: string,
+    options?: RealtimePresenceOptions,
+  ): RealtimePresence<TMetadata> {
+    return new RealtimePresenceImpl<TMetadata>(
+      this.store,
+      channel,
+      options ?? SSEProcessor.getChannel(channel)?.presence,
+    );
+  }
 }
@@ -1,9 +1,10 @@
-import type { ContextCallback, DocsConfig, IgniterBaseConfig, IgniterControllerConfig, IgniterRouter } from "../types";
+import type { ContextCallback, DocsConfig, IgniterBaseConfig, IgniterControllerConfig, IgniterJobsAdminOptions, IgniterJobsDashboardOptions, IgniterOutboxOptions, IgniterRealtimeChannel, IgniterRealtimeEndpointOptions, IgniterRouter } from "../types";
 import type { IgniterPlugin } from "../types/plugin.interface";
 import { RequestProcessor } from "../processors";
 import { createServerCaller } from "./caller.server.service";
 import { parseURL } from "@/utils";
 import { initializeIgniterPlayground } from "./playground.service";
+import { initializeIgniterJobsDashboard, isJobsDashboardRequest } from "./jobs-dashboard.service";
 import { IgniterConsoleLogger } from "./logger.service";
 import { resolveLogLevel, createLoggerContext } from "../utils/logger";
 
@@ -96,6 +97,11 @@ import { resolveLogLevel, createLoggerContext } from "../utils/logger";
  *   - `context`: The context factory or object (async or sync) available to all actions.
  *   - `plugins`: Plugins to inject into the context (auth, telemetry, etc).
  *   - `controllers`: A record of controller modules (grouped actions).
+ *   - `channels` (optional): A record of typed realtime channels created with `igniter.channel()`.
+ *   - `realtime` (optional): Options of the realtime endpoint, e.g. `authorize` to grant the scopes and member of the SSE connections.
+ *   - `jobsAdmin` (optional): Mounts the job management routes (queue counts, pause/resume, retry/cancel) behind an `authorize` check.
+ *   - `jobsDashboard` (optional): Serves the jobs dashboard (queues, failed jobs, cron schedules), protected by `security` like the playground.
+ *   - `outbox` (optional): Outbox options, e.g. `durable` to keep buffered side effects in the store until dispatched.
  *   - `baseURL` (optional): The base URL prefix for all routes (e.g., "/api").
  *   - `basePATH` (optional): The base path for all routes (e.g., "/v1").
  *
@@ -133,6 +139,11 @@ export const createIgniterRouter = <
   config: TConfig;
   plugins?: TPlugins;
   docs?: TDocs;
+  channels?: Record<string, IgniterRealtimeChannel<any, any>>;
+  realtime?: IgniterRealtimeEndpointOptions;
+  jobsAdmin?: IgniterJobsAdminOptions;
+  jobsDashboard?: IgniterJobsDashboardOptions;
+  outbox?: IgniterOutboxOptions;
 }): IgniterRouter<TContext, TControllers, TConfig, TPlugins, TDocs> => {
   type TRouter = IgniterRouter<TContext, TControllers, TConfig, TPlugins, TDocs>;
 
@@ -143,6 +154,10 @@ export const createIgniterRouter = <
     plugins: params.plugins,
     context: params.context,
     docs: params.docs,
+    channels: params.channels,
+    realtime: params.realtime,
+    jobsAdmin: params.jobsAdmin,
+    outbox: params.outbox,
   });
 
   return {
@@ -173,6 +188,12 @@ export const createIgniterRouter = <
      */
     controllers: params.controllers,
 
+    /**
+     * The typed realtime channels of this router.
+     * Their schemas validate the published events, and they are listed in the docs.
+     */
+    channels: params.channels,
+
     /**
      * The router configuration (baseURL, basePATH).
      */
@@ -219,6 +240,12 @@ export const createIgniterRouter = <
         fullPath: parseURL(basePath, playgroundPath)
       });
 
+      // Check if is jobs dashboard
+      if (params.jobsDashboard && isJobsDashboardRequest(path, basePath, params.jobsDashboard)) {
+        logger.debug('Routing to jobs dashboard');
+        return await initializeIgniterJobsDashboard(params.jobsDashboard, basePath).process(request);
+      }
+
       // Check if is playground
       if(path.startsWith(parseURL(basePath, playgroundPath))) {
         logger.debug('Routing to playground');
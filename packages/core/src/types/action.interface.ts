@@ -5,6 +5,7 @@ import type { IgniterProcedure, InferActionProcedureContext } from "./procedure.
 import type { StandardSchemaV1 } from "./schema.interface";
 import type { InferParamPath, NonUnknownObject, Prettify } from "./utils.interface";
 import type { IgniterRealtimeService } from "./realtime.interface";
+import type { IgniterOutbox } from "./outbox.interface";
 import type { IgniterPlugin, InferIgniterPlugins } from "./plugin.interface";
 
 export type QueryMethod = "GET";
@@ -67,6 +68,133 @@ type IgniterErrorResponse<
   data?: TData;
 };
 
+/**
+ * Map of HTTP status codes to the schema describing the error payload sent with that status.
+ * Used for development-time response validation and OpenAPI generation.
+ *
+ * @example
+ * ```typescript
+ * errors: {
+ *   404: z.object({ code: z.literal('ERR_NOT_FOUND'), message: z.string() }),
+ * }
+ * ```
+ */
+export type IgniterActionErrorSchemas = Record<number, StandardSchemaV1>;
+
+/**
+ * Server-side response caching for a query, backed by the configured `IgniterStoreAdapter`.
+ * The `controller.action` key is always registered as a tag, so `response.revalidate(['users.list'])`
+ * purges the server cache and notifies connected clients at once.
+ *
+ * @example
+ * ```typescript
+ * cache: {
+ *   ttl: 60,
+ *   staleWhileRevalidate: 30,
+ *   headers: ['accept-language'],
+ *   tags: ['users'],
+ * }
+ * ```
+ */
+export type IgniterQueryCacheOptions = {
+  /**
+   * Time, in seconds, during which a cached response is served as fresh.
+   */
+  ttl: number;
+  /**
+   * Extra time, in seconds, during which a stale response is still served
+   * while it is refreshed in the background.
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * Request headers that vary the cached response (e.g. `accept-language`).
+   */
+  headers?: string[];
+  /**
+   * Shares the cached responses between callers. By default the cache is private:
+   * the default key varies by the `Authorization` and `Cookie` headers. Only share
+   * responses that do not depend on the caller, or identify it in a custom `key`.
+   * @default false
+   */
+  shared?: boolean;
+  /**
+   * Additional tags used to invalidate the cached responses.
+   */
+  tags?: string[];
+  /**
+   * Custom cache key. Defaults to a key derived from the path params, the query, the selected headers
+   * and, unless `shared`, the credentials. A custom key must identify the caller when the response depends on it.
+   */
+  key?: (request: {
+    params: Record<string, any>;
+    query: Record<string, any>;
+    headers: Headers;
+  }) => string;
+};
+
+/**
+ * Idempotency of a mutation. Requests of the same caller sharing an `Idempotency-Key` header run once:
+ * duplicates replay the stored response, and duplicates sent while the first one
+ * is still running are rejected with a 409. The key is checked after the middlewares,
+ * so replays are only served to authenticated callers. Requires a store adapter.
+ *
+ * @example
+ * ```typescript
+ * idempotency: { ttl: 60 * 60, required: true }
+ * ```
+ */
+export type IgniterMutationIdempotencyOptions = {
+  /**
+   * Header carrying the idempotency key.
+   * @default "Idempotency-Key"
+   */
+  header?: string;
+  /**
+   * Time, in seconds, during which the response is replayed.
+   * @default 86400
+   */
+  ttl?: number;
+  /**
+   * Time, in seconds, after which an in-flight lock is released if the request never completes.
+   * @default 60
+   */
+  lockTimeout?: number;
+  /**
+   * Rejects requests without the header with a 400.
+   * @default false
+   */
+  required?: boolean;
+  /**
+   * Identifies the caller the idempotency keys belong to, so a key only replays the responses of its caller.
+   * Receives the request and the app context: it runs before the middlewares, so the values they add are not available.
+   * Defaults to a hash of the `Authorization` and `Cookie` headers.
+   *
+   * @example
+   * ```typescript
+   * idempotency: { scope: ({ request }) => request.headers.get('X-Api-Key') ?? 'anonymous' }
+   * ```
+   */
+  scope?: (ctx: { request: { headers: Headers; body: any }; context: any }) => string | Promise<string>;
+};
+
+/**
+ * Infers the path parameters received by an action handler.
+ * Uses the params schema output (after coercion) when declared, otherwise the params of the path template.
+ */
+export type InferActionParams<TParamsSchema, TActionPath extends string> =
+  [TParamsSchema] extends [StandardSchemaV1]
+    ? StandardSchemaV1.InferOutput<TParamsSchema>
+    : InferParamPath<TActionPath>;
+
+/**
+ * Infers the success payload type of an action from its output schema.
+ * Falls back to the type inferred from the handler response when no schema is declared.
+ */
+export type InferActionOutput<TOutputSchema, TFallback> =
+  [TOutputSchema] extends [StandardSchemaV1]
+    ? StandardSchemaV1.InferOutput<TOutputSchema>
+    : TFallback;
+
 
 /**
  * Complete action context provided to action handlers.
@@ -78,13 +206,14 @@ type IgniterErrorResponse<
  * @template TActionBody - Request body schema type
  * @template TActionQuery - Query parameters schema type
  * @template TActionMiddlewares - Applied middleware procedures
+ * @template TActionParams - Path parameters schema
  *
  * @example
  * ```typescript
  * // In action handler
  * handler: async (ctx: IgniterActionContext<AppContext, "/users/:id", "POST", UserSchema, never, []>) => {
  *   // ✅ Request data (fully typed)
- *   const userId = ctx.request.params.id;  // string (inferred from path)
+ *   const userId = ctx.request.params.id;  // string (inferred from path, or from the `params` schema)
  *   const userData = ctx.request.body;     // UserSchema input type
  *
  *   // ✅ Application context (enhanced with plugins)
@@ -108,15 +237,16 @@ export type IgniterActionContext<
   TActionQuery extends StandardSchemaV1 | undefined,
   TActionMiddlewares extends readonly IgniterProcedure<any, any, any>[],
   TActionPlugins extends Record<string, any>,
+  TActionParams extends StandardSchemaV1 | undefined = undefined,
 > = {
   /**
    * Request data with full type inference for params, body, and query.
-   * Path parameters are inferred from the route path template.
+   * Path parameters are inferred from the `params` schema when declared, otherwise from the route path template.
    */
   request: {
     method: TActionMethod;
     path: TActionPath;
-    params: InferParamPath<TActionPath>;
+    params: InferActionParams<TActionParams, TActionPath>;
     headers: IgniterHeaders;
     cookies: IgniterCookies;
     body: TActionBody extends StandardSchemaV1
@@ -145,6 +275,12 @@ export type IgniterActionContext<
    */
   realtime: IgniterRealtimeService<TActionContext & InferActionProcedureContext<TActionMiddlewares>>;
 
+  /**
+   * Outbox buffering job invocations and realtime events until the handler succeeds.
+   * Use `outbox.transaction()` to flush them once a database transaction commits.
+   */
+  outbox: IgniterOutbox;
+
   /**
    * Type-safe plugin access registry.
    * Provides IntelliSense and type checking for all registered plugin actions and events.
@@ -186,10 +322,13 @@ export type IgniterQueryOptions<
       undefined,
       TQueryQuery,
       TQueryMiddlewares,
-      TQueryPlugins
+      TQueryPlugins,
+      TQueryParams
     >,
     any
-  >
+  >,
+  TQueryOutput extends StandardSchemaV1 | undefined = undefined,
+  TQueryParams extends StandardSchemaV1 | undefined = undefined,
 > = {
   name?: string;
   description?: string;
@@ -197,6 +336,22 @@ export type IgniterQueryOptions<
   stream?: boolean;
   method?: QueryMethod;
   query?: TQueryQuery;
+  /**
+   * Schema of the path parameters. Coerces and validates the raw `:param` strings.
+   */
+  params?: TQueryParams;
+  /**
+   * Schema of the success payload. Validated in development and used for `$Output` and OpenAPI.
+   */
+  output?: TQueryOutput;
+  /**
+   * Schemas of the error payloads, keyed by HTTP status code.
+   */
+  errors?: IgniterActionErrorSchemas;
+  /**
+   * Caches the response on the server. Requires a store adapter.
+   */
+  cache?: IgniterQueryCacheOptions;
   use?: TQueryMiddlewares;
   handler: TQueryHandler;
 };
@@ -217,10 +372,13 @@ export type IgniterMutationOptions<
       TMutationBody,
       TMutationQuery,
       TMutationMiddlewares,
-      TMutationPlugins
+      TMutationPlugins,
+      TMutationParams
     >,
     any
-  >
+  >,
+  TMutationOutput extends StandardSchemaV1 | undefined = undefined,
+  TMutationParams extends StandardSchemaV1 | undefined = undefined,
 > = {
   name?: string;
   description?: string;
@@ -232,6 +390,30 @@ export type IgniterMutationOptions<
   body?: TMutationBody;
   query?: TMutationQuery;
 
+  /**
+   * Schema of the path parameters. Coerces and validates the raw `:param` strings.
+   */
+  params?: TMutationParams;
+
+  /**
+   * Schema of the success payload. Validated in development and used for `$Output` and OpenAPI.
+   */
+  output?: TMutationOutput;
+  /**
+   * Schemas of the error payloads, keyed by HTTP status code.
+   */
+  errors?: IgniterActionErrorSchemas;
+
+  /**
+   * Cache tags invalidated on the server after a successful mutation.
+   */
+  invalidates?: string[];
+
+  /**
+   * Replays the response of retried requests sharing an `Idempotency-Key` header.
+   */
+  idempotency?: boolean | IgniterMutationIdempotencyOptions;
+
   handler: TMutationHandler;
 };
 
@@ -251,7 +433,8 @@ export type IgniterAction<
       TActionBody,
       TActionQuery,
       TActionMiddlewares,
-      TActionPlugins
+      TActionPlugins,
+      TActionParams
     >,
     any
   >,
@@ -265,16 +448,28 @@ export type IgniterAction<
     TActionMiddlewares,
     TActionPlugins,
     TActionHandler,
-    TActionResponse
+    TActionResponse,
+    TActionOutput,
+    TActionParams
   >,
+  TActionOutput extends StandardSchemaV1 | undefined = undefined,
+  TActionParams extends StandardSchemaV1 | undefined = undefined,
 > = {
   name?: string;
   type: TActionMethod extends QueryMethod ? "query" : "mutation";
   path: TActionPath;
   method: TActionMethod;
   description?: string;
+  /** Whether the query streams its updates to a realtime channel */
+  stream?: boolean;
   body?: TActionBody;
   query?: TActionQuery;
+  params?: TActionParams;
+  output?: TActionOutput;
+  errors?: IgniterActionErrorSchemas;
+  cache?: IgniterQueryCacheOptions;
+  invalidates?: string[];
+  idempotency?: boolean | IgniterMutationIdempotencyOptions;
   use?: TActionMiddlewares;
   handler: TActionHandler;
   $Infer: TActionInfer;
@@ -296,18 +491,23 @@ export type InferEndpoint<
       TActionBody,
       TActionQuery,
       TActionMiddlewares,
-      TActionPlugins
+      TActionPlugins,
+      TActionParams
     >,
     any
   >,
   TResponse extends ReturnType<TActionHandler>,
+  TActionOutput extends StandardSchemaV1 | undefined = undefined,
+  TActionParams extends StandardSchemaV1 | undefined = undefined,
   TActionInferBody = TActionBody extends StandardSchemaV1
     ? StandardSchemaV1.InferInput<TActionBody>
     : undefined,
   TActionInferQuery = TActionQuery extends StandardSchemaV1
     ? StandardSchemaV1.InferInput<TActionQuery>
     : {},
-  TActionInferParams = InferParamPath<TActionPath>,
+  TActionInferParams = [TActionParams] extends [StandardSchemaV1]
+    ? StandardSchemaV1.InferInput<TActionParams>
+    : InferParamPath<TActionPath>,
   TActionInferInput = Prettify<
     (TActionBody extends StandardSchemaV1 ? { body: TActionInferBody } : {}) &
       (TActionQuery extends StandardSchemaV1
@@ -315,7 +515,8 @@ export type InferEndpoint<
         : {}) & { params: TActionInferParams } &
       { headers?: Record<string, string> } &
       { cookies?: Record<string, string> } &
-      { credentials?: RequestCredentials }
+      { credentials?: RequestCredentials } &
+      { signal?: AbortSignal; timeout?: number }
   >,
   TActionInferResponse = InferActionResponse<TResponse>,
   TActionInferCaller = InferActionCaller<TActionInferInput, TActionInferResponse>,
@@ -329,7 +530,10 @@ export type InferEndpoint<
   params: TActionInferParams;
   handler: TActionHandler;
   $Input: TActionInferInput;
-  $Output: TActionInferResponse extends { data: infer TData } ? TData : never;
+  $Output: InferActionOutput<
+    TActionOutput,
+    TActionInferResponse extends { data: infer TData } ? TData : never
+  >;
   $Errors: TActionInferResponse extends { error: infer TError } ? TError : IgniterErrorResponse<IgniterCommonErrorCode>;
   $Caller: TActionInferCaller;
   $Response: TActionInferResponse;
@@ -21,11 +21,107 @@ import type {
  * - Custom provider-based state management
  */
 
+/**
+ * Request about to be sent by the browser client, passed to the interceptors.
+ */
+export interface ClientRequestContext {
+  /** Full URL of the request */
+  url: string;
+  /** Fetch options of the request. Interceptors may change them, e.g. to set an `Authorization` header */
+  init: RequestInit & { headers: Record<string, string> };
+  /** Attempt of the request, starting at 1 */
+  attempt: number;
+}
+
+/**
+ * Response received by the browser client, passed to the `onResponse` interceptor.
+ */
+export interface ClientResponseContext extends ClientRequestContext {
+  /** The response of the server */
+  response: Response;
+  /**
+   * Sends the request again, running `onRequest` but not `onResponse`.
+   * Return its response to replace the current one, e.g. after refreshing an expired token.
+   */
+  retry: () => Promise<Response>;
+}
+
+/**
+ * Failed request, passed to the `onError` interceptor once no retry is left.
+ */
+export interface ClientErrorContext extends ClientRequestContext {
+  /** The parsed error body of a non-ok response, or the network, abort or timeout error */
+  error: unknown;
+  /** The response of the server, when one was received */
+  response?: Response;
+}
+
+/**
+ * Retry policy of the browser client.
+ * Network errors and the retried statuses are retried with exponential backoff, errors thrown by the interceptors are not.
+ * Aborting the signal of the call also cancels the wait before the next retry.
+ */
+export interface ClientRetryPolicy {
+  /**
+   * Retries after the first attempt.
+   * @default 0
+   */
+  limit?: number;
+  /**
+   * Retried HTTP methods. Mutations are not retried by default, as they may not be idempotent.
+   * @default ["GET"]
+   */
+  methods?: string[];
+  /**
+   * Retried response statuses.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  statuses?: number[];
+  /**
+   * Delay before a retry in milliseconds, or a function of the failed attempt.
+   * @default (attempt) => 300 * 2 ** (attempt - 1)
+   */
+  delay?: number | ((attempt: number) => number);
+}
+
+/**
+ * Fetch options of the browser client, applied to `query`/`mutate` and to the hooks.
+ *
+ * @example
+ * ```typescript
+ * export const api = createIgniterClient<AppRouter>({
+ *   baseURL: 'http://localhost:3000',
+ *   basePATH: '/api/v1',
+ *   router: () => AppRouter,
+ *   timeout: 10_000,
+ *   retry: { limit: 2 },
+ *   onRequest: ({ init }) => {
+ *     init.headers.Authorization = `Bearer ${getToken()}`;
+ *   },
+ *   onResponse: async ({ response, retry }) => {
+ *     if (response.status === 401 && (await refreshToken())) return retry();
+ *   },
+ * });
+ * ```
+ */
+export interface ClientFetchConfig {
+  /** Runs before each attempt of a request */
+  onRequest?: (context: ClientRequestContext) => void | Promise<void>;
+  /** Runs on each response, returning a `Response` to replace it */
+  onResponse?: (context: ClientResponseContext) => void | Response | Promise<void | Response>;
+  /** Runs when a request fails, once no retry is left */
+  onError?: (context: ClientErrorContext) => void | Promise<void>;
+  /** Retry policy, or the number of retries of GET requests */
+  retry?: number | ClientRetryPolicy;
+  /** Aborts requests taking longer than this, in milliseconds. Overridden by the `timeout` of a call */
+  timeout?: number;
+}
+
 export type ClientConfig<TRouter extends IgniterRouter<any, any, any, any, any>> = {
   router: TRouter | (() => TRouter);
   baseURL: string;
   basePATH: string;
-}
+} & ClientFetchConfig;
 
 export type QueryActionCallerOptions<
   TAction extends IgniterAction<
@@ -48,6 +144,10 @@ export type QueryActionCallerOptions<
   headers?: Record<string, string>;
   cookies?: Record<string, string>;
   credentials?: RequestCredentials;
+  /** Aborts the requests of the query */
+  signal?: AbortSignal;
+  /** Aborts requests taking longer than this, in milliseconds */
+  timeout?: number;
   staleTime?: number;
   refetchInterval?: number;
   refetchIntervalInBackground?: boolean;
@@ -155,6 +255,101 @@ export type QueryActionCaller<
   options?: QueryActionCallerOptions<TAction>,
 ) => QueryActionCallerResult<TAction>;
 
+/**
+ * Pages loaded by an infinite query, in order, with the page param of each page.
+ */
+export type InfiniteQueryData<
+  TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+  TPageParam = unknown,
+> = {
+  pages: Awaited<TAction["$Infer"]["$Output"]>[];
+  pageParams: TPageParam[];
+};
+
+export type InfiniteQueryActionCallerOptions<
+  TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+  TPageParam = unknown,
+> = Pick<
+  QueryActionCallerOptions<TAction>,
+  | 'enabled'
+  | 'query'
+  | 'params'
+  | 'signal'
+  | 'timeout'
+  | 'staleTime'
+  | 'refetchInterval'
+  | 'refetchIntervalInBackground'
+  | 'refetchOnWindowFocus'
+  | 'refetchOnMount'
+  | 'refetchOnReconnect'
+> & {
+  /**
+   * Query parameter receiving the page param of each request
+   * @default "cursor"
+   */
+  pageParamKey?: keyof TAction["$Infer"]["query"] & string;
+  /** Page param of the first page. Not sent when `undefined` or `null` */
+  initialPageParam: TPageParam;
+  /** Returns the page param of the page after the last one, or `undefined`/`null` when there is none */
+  getNextPageParam: (
+    lastPage: Awaited<TAction["$Infer"]["$Output"]>,
+    allPages: Awaited<TAction["$Infer"]["$Output"]>[],
+    lastPageParam: TPageParam,
+    allPageParams: TPageParam[],
+  ) => TPageParam | undefined | null;
+  /** Returns the page param of the page before the first one, or `undefined`/`null` when there is none */
+  getPreviousPageParam?: (
+    firstPage: Awaited<TAction["$Infer"]["$Output"]>,
+    allPages: Awaited<TAction["$Infer"]["$Output"]>[],
+    firstPageParam: TPageParam,
+    allPageParams: TPageParam[],
+  ) => TPageParam | undefined | null;
+  onSuccess?: (data: InfiniteQueryData<TAction, TPageParam>) => void;
+  onError?: (error: Awaited<TAction["$Infer"]["$Errors"]>) => void;
+};
+
+/**
+ * State of an infinite query observer, rendered by the hooks, composables and stores.
+ */
+export type InfiniteQueryObserverState<
+  TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+  TPageParam = unknown,
+> = {
+  data: InfiniteQueryData<TAction, TPageParam> | null;
+  error: TAction["$Infer"]["$Response"]["error"] | null;
+  status: 'loading' | 'error' | 'success';
+  isLoading: boolean;
+  isFetching: boolean;
+  isSuccess: boolean;
+  isError: boolean;
+  isFetchingNextPage: boolean;
+  isFetchingPreviousPage: boolean;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+};
+
+export type InfiniteQueryActionCallerResult<
+  TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+  TPageParam = unknown,
+> = Prettify<
+  InfiniteQueryObserverState<TAction, TPageParam> & {
+    /** Fetches the page after the last one, when there is one */
+    fetchNextPage: () => Promise<void>;
+    /** Fetches the page before the first one, when there is one */
+    fetchPreviousPage: () => Promise<void>;
+    /** Fetches the loaded pages again, from the first one */
+    refetch: () => void;
+    /** Invalidates the pages, refetching every observer of the query */
+    invalidate: () => void;
+  }
+>;
+
+export type InfiniteQueryActionCaller<
+  TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+> = <TPageParam>(
+  options: InfiniteQueryActionCallerOptions<TAction, TPageParam>,
+) => InfiniteQueryActionCallerResult<TAction, TPageParam>;
+
 export type RefetchFn = (invalidate?: boolean) => void;
 
 export type RealtimeSubscriberFn = (data: any) => void;
@@ -244,10 +439,24 @@ export type MutationActionCallerOptions<
   headers?: Record<string, string>;
   cookies?: Record<string, string>;
   credentials?: RequestCredentials;
+  /** Aborts the requests of the mutation */
+  signal?: AbortSignal;
+  /** Aborts requests taking longer than this, in milliseconds */
+  timeout?: number;
+  /**
+   * Runs before the request, e.g. to write the expected result of the mutation with `setQueryData`.
+   * The cache writes made until it resolves are rolled back when the mutation fails.
+   * Its return value is passed to `onError` as context.
+   */
+  onMutate?: (variables: TAction["$Infer"]["$Input"]) => unknown;
   onLoading?: (isLoading: boolean) => void;
   onRequest?: (data: Awaited<TAction["$Infer"]["$Response"]>) => void;
   onSuccess?: (data: Awaited<TAction["$Infer"]["$Output"]>) => void;
-  onError?: (error: Awaited<TAction["$Infer"]["$Errors"]>) => void;
+  onError?: (
+    error: Awaited<TAction["$Infer"]["$Errors"]>,
+    variables?: TAction["$Infer"]["$Input"],
+    context?: unknown,
+  ) => void;
   onSettled?: (
     data: Awaited<TAction["$Infer"]["$Output"]>,
     error: Awaited<TAction["$Infer"]["$Errors"]>,
@@ -271,6 +480,35 @@ export type MutationActionCaller<
   options?: MutationActionCallerOptions<TAction>,
 ) => MutationActionCallerResult<TAction>;
 
+/**
+ * Result of a query run ahead of rendering, keyed like the client cache so it can seed it.
+ * Serializable, to be passed from the server to the `IgniterProvider`.
+ */
+export type IgniterDehydratedQuery<TData = unknown> = {
+  /** Key of the query in the client cache, as generated by `generateQueryKey` */
+  queryKey: string;
+  data: TData | null;
+  error: unknown;
+  /** When the query was fetched, in milliseconds since the epoch */
+  updatedAt: number;
+};
+
+/**
+ * Prefetched queries, created by `dehydrate` and passed to the `IgniterProvider` as `dehydratedState`
+ */
+export type IgniterDehydratedState = {
+  queries: IgniterDehydratedQuery[];
+};
+
+/**
+ * Runs a query to hand its result to the client cache. Resolves with the error instead of rejecting.
+ */
+export type PrefetchActionCaller<
+  TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+> = (
+  input?: TAction["$Infer"]["$Input"],
+) => Promise<IgniterDehydratedQuery<Awaited<TAction["$Infer"]["$Output"]>>>;
+
 export type ClientActionCaller<
   TAction extends IgniterAction<
     any,
@@ -286,15 +524,43 @@ export type ClientActionCaller<
   >,
 > = TAction extends { method: "GET" }
   ? {
+      /** Key of the action, `controller.action`, prefixing the query keys of its calls */
+      key: string;
       useQuery: QueryActionCaller<TAction>;
+      useInfiniteQuery: InfiniteQueryActionCaller<TAction>;
       useRealtime: RealtimeActionCaller<TAction>;
       query: TAction["$Infer"]["$Caller"];
+      prefetch: PrefetchActionCaller<TAction>;
     }
   : {
+      /** Key of the action, `controller.action` */
+      key: string;
       useMutation: MutationActionCaller<TAction>;
       mutate: TAction["$Infer"]["$Caller"];
     };
 
+/**
+ * Query action of a client, as passed to the query observers and the framework bindings,
+ * e.g. `api.users.list`.
+ */
+export type IgniterQueryCaller<
+  TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+> = {
+  key: string;
+  query: (input: TAction["$Infer"]["$Input"]) => Promise<any>;
+};
+
+/**
+ * Mutation action of a client, as passed to the mutation observers and the framework bindings,
+ * e.g. `api.users.create`.
+ */
+export type IgniterMutationCaller<
+  TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+> = {
+  key: string;
+  mutate: (input: TAction["$Infer"]["$Input"]) => Promise<any>;
+};
+
 // 1. Gera uma união de todas as rotas de action como strings. Ex: "users.getById" | "users.getAll"
 export type InferAllActionPaths<TRouter extends IgniterRouter<any, any, any, any, any>> = {
   [C in keyof TRouter['controllers']]: C extends string
@@ -318,7 +584,50 @@ export type InferInputFromPath<
     : never
   : never;
 
-// 3. Define a função `invalidate` sobrecarregada
+// 3. Dado uma rota, infere o tipo dos dados retornados pela action.
+export type InferOutputFromPath<
+  TRouter extends IgniterRouter<any, any, any, any, any>,
+  TPath extends string,
+> = TPath extends `${infer TController}.${infer TAction}`
+  ? TController extends keyof TRouter['controllers']
+    ? TAction extends keyof TRouter['controllers'][TController]['actions']
+      ? Awaited<TRouter['controllers'][TController]['actions'][TAction]['$Infer']['$Output']>
+      : never
+    : never
+  : never;
+
+/**
+ * New data of a cached query, or a function of its current data.
+ */
+export type QueryDataUpdater<TData> = TData | ((previous: TData | undefined) => TData);
+
+/**
+ * Writes the data of a cached query, updating the queries rendering it.
+ *
+ * @example
+ * ```typescript
+ * setQueryData('users.list', undefined, (users = []) => [...users, newUser]);
+ * ```
+ */
+export type SetQueryDataFunction<TRouter extends IgniterRouter<any, any, any, any, any>> = <
+  TPath extends InferAllActionPaths<TRouter>,
+>(
+  path: TPath,
+  input: Partial<InferInputFromPath<TRouter, TPath>> | undefined,
+  updater: QueryDataUpdater<InferOutputFromPath<TRouter, TPath>>,
+) => void;
+
+/**
+ * Reads the data of a cached query, stale or not.
+ */
+export type GetQueryDataFunction<TRouter extends IgniterRouter<any, any, any, any, any>> = <
+  TPath extends InferAllActionPaths<TRouter>,
+>(
+  path: TPath,
+  input?: Partial<InferInputFromPath<TRouter, TPath>>,
+) => InferOutputFromPath<TRouter, TPath> | undefined;
+
+// 4. Define a função `invalidate` sobrecarregada
 export type InvalidateFunction<TRouter extends IgniterRouter<any, any, any, any, any>> = {
   // Sobrecarga 1: `invalidate('path', input)`
   <TPath extends InferAllActionPaths<TRouter>>(
@@ -349,6 +658,8 @@ export type IgniterContextType<
   register: (key: string, refetch: RefetchFn) => void;
   unregister: (key: string, refetch: RefetchFn) => void;
   invalidate: InvalidateFunction<TRouter>;
+  setQueryData: SetQueryDataFunction<TRouter>;
+  getQueryData: GetQueryDataFunction<TRouter>;
   subscribeToRealtime: (
     channelId: string,
     callback: RealtimeSubscriberFn,
@@ -357,6 +668,82 @@ export type IgniterContextType<
   realtimeSubscribers?: Map<string, Set<RealtimeSubscriberFn>>;
 };
 
+/**
+ * Options of the query client, shared by the React provider and the framework bindings.
+ */
+export interface IgniterQueryClientOptions<TContext extends () => Promise<any> | any = () => any> {
+  /**
+   * Enable Realtime(SSE) connection for streams and revalidation
+   */
+  enableRealtime?: boolean;
+
+  /**
+   * Automatically reconnect on connection loss
+   * @default true
+   */
+  autoReconnect?: boolean;
+
+  /**
+   * Maximum number of reconnection attempts
+   * @default 5
+   */
+  maxReconnectAttempts?: number;
+
+  /**
+   * Delay between reconnection attempts (in ms)
+   * Base delay that increases exponentially with each attempt
+   * @default 1000
+   */
+  reconnectDelay?: number;
+
+  /**
+   * Enable debug mode
+   * @default false
+   */
+  debug?: boolean;
+
+  /**
+   * Get the context used to resolve the realtime scopes
+   */
+  getContext?: TContext;
+
+  /**
+   * Get the realtime scopes of the current user
+   */
+  getScopes?: (ctx: Awaited<ReturnType<TContext>>) => Promise<string[]> | string[];
+}
+
+/**
+ * State of a query observer, rendered by the hooks, composables and stores.
+ */
+export type QueryObserverState<
+  TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+> = {
+  data: TAction["$Infer"]["$Response"]["data"] | null;
+  error: TAction["$Infer"]["$Response"]["error"] | null;
+  variables?: TAction["$Infer"]["$Input"];
+  status: 'loading' | 'error' | 'success';
+  isLoading: boolean;
+  isFetching: boolean;
+  isSuccess: boolean;
+  isError: boolean;
+};
+
+/**
+ * State of a mutation observer, rendered by the hooks, composables and stores.
+ */
+export type MutationObserverState<
+  TAction extends IgniterAction<any, any, any, any, any, any, any, any, any, any>,
+> = {
+  data: TAction["$Infer"]["$Response"]["data"] | null;
+  error: TAction["$Infer"]["$Response"]["error"] | null;
+  variables?: TAction["$Infer"]["$Input"];
+  status: 'idle' | 'loading' | 'error' | 'success';
+  isLoading: boolean;
+  isSuccess: boolean;
+  isError: boolean;
+};
+
 /**
  * Options for realtime hooks
  */
@@ -14,4 +14,5 @@ export * from './store.interface';
 export * from './utils.interface';
 export * from './telemetry.interface';
 export * from './context.interface';
-export * from './realtime.interface';
\ No newline at end of file
+export * from './realtime.interface';
+export * from './outbox.interface';
\ No newline at end of file
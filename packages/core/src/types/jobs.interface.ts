@@ -9,6 +9,81 @@ export interface JobQueueConfig {
   name: string;
   /** Optional prefix for multi-tenancy (e.g., "tenant-123") */
   prefix?: string;
+  /** Dead-letter policy of the jobs registered on this queue, unless their definition sets one */
+  deadLetter?: boolean | JobDeadLetterPolicy;
+}
+
+/**
+ * Dead-letter policy of a job or queue.
+ * Jobs failing their final attempt are moved to the dead-letter queue of their queue,
+ * instead of staying in `failed`, and can be inspected, replayed or purged from there.
+ */
+export interface JobDeadLetterPolicy {
+  /** Maximum number of entries kept in the dead-letter queue, oldest removed first (unlimited by default) */
+  maxEntries?: number;
+}
+
+/**
+ * Rate limit of a job definition: at most `max` jobs start per `duration`, the others wait.
+ */
+export interface JobRateLimit {
+  /** Maximum number of jobs started per window */
+  max: number;
+  /** Window duration, in milliseconds */
+  duration: number;
+}
+
+/**
+ * Concurrency group of a job definition: limits the active jobs sharing a key derived from their input.
+ */
+export interface JobConcurrencyGroup<TInput = any> {
+  /** Key of the group of a job (e.g. `(input) => input.tenantId`) */
+  key: (input: TInput) => string;
+  /**
+   * Maximum number of active jobs per group.
+   * @default 1
+   */
+  limit?: number;
+}
+
+/**
+ * Collapses bursts of identical enqueues into a single job.
+ */
+export interface JobDebounceOptions<TInput = any> {
+  /**
+   * `debounce` runs the last enqueue once no identical one arrived for `delay` ms,
+   * `throttle` runs the first enqueue right away and drops identical ones for `delay` ms.
+   * @default "debounce"
+   */
+  mode?: "debounce" | "throttle";
+  /** Window, in milliseconds */
+  delay: number;
+  /** Key identifying identical jobs (defaults to the serialized input) */
+  key?: (input: TInput) => string;
+}
+
+/**
+ * State of a job streamed to its realtime channel (`getJobChannel(jobId)`), watched by the `useJob` hook.
+ */
+export interface JobRealtimeState<TResult = any> {
+  /** Unique job ID */
+  id: string;
+  /** Job name/type */
+  name: string;
+  /** Current status */
+  status: JobStatus;
+  /** Progress percentage (0-100) */
+  progress: number;
+  /** Message of the last progress report */
+  message?: string;
+  /** Result of the completed job */
+  result?: TResult;
+  /** Error of the last failed attempt */
+  error?: string;
+  /** Number of attempts made so far */
+  attemptsMade: number;
+  /** Time of the update, in milliseconds */
+  updatedAt: number;
 }
 
 /**
@@ -74,6 +149,8 @@ export interface JobSearchFilter {
     | "priority:desc";
   /** Filter by specific job ID */
   jobId?: string;
+  /** Filter by the ID of the flow the jobs belong to */
+  flowId?: string;
   /** Filter by date range */
   dateRange?: {
     from?: Date;
@@ -109,6 +186,8 @@ export interface JobSearchResult<TPayload = any> {
   priority: number;
   /** Additional metadata */
   metadata?: Record<string, any>;
+  /** Flow the job belongs to (if applicable) */
+  flow?: JobFlowInfo;
 }
 
 /**
@@ -154,6 +233,16 @@ export interface JobExecutionContext<TContext extends object, TInput = any> {
     attemptsMade: number;
     createdAt: Date;
     metadata?: Record<string, any>;
+    /**
+     * Reports the progress of the job (0-100), calling the `onProgress` hooks.
+     * Only available with adapters tracking progress.
+     */
+    updateProgress?: (progress: number, message?: string) => Promise<void>;
+    /**
+     * Adds a line to the logs of the job, returned by `getJob`.
+     * Only available with adapters keeping job logs.
+     */
+    log?: (message: string) => Promise<void>;
   };
 }
 
@@ -331,6 +420,25 @@ export interface JobDefinition<
   handler: (
     context: JobExecutionContext<TContext, TInput>,
   ) => Promise<TResult> | TResult;
+  /** Moves the job to the dead-letter queue when its final attempt fails (overrides the queue policy) */
+  deadLetter?: boolean | JobDeadLetterPolicy;
+  /**
+   * Runs the job on a cron schedule, reconciled when workers start: new schedules are added,
+   * changed ones updated and schedules of removed definitions deleted.
+   */
+  schedule?: JobSchedule<TInput extends StandardSchemaV1 ? StandardSchemaV1.InferInput<TInput> : TInput>;
+  /** Limits how many jobs of this definition start per interval */
+  rateLimit?: JobRateLimit;
+  /** Limits the active jobs of this definition sharing a key, e.g. one sync per tenant */
+  concurrencyGroup?: JobConcurrencyGroup<TInput extends StandardSchemaV1 ? StandardSchemaV1.InferInput<TInput> : TInput>;
+  /** Collapses bursts of identical enqueues of this definition into a single job */
+  debounce?: JobDebounceOptions<TInput extends StandardSchemaV1 ? StandardSchemaV1.InferInput<TInput> : TInput>;
+  /**
+   * Streams the status, progress, result and error of the jobs to their realtime channel (`getJobChannel(jobId)`).
+   * The channel is named after the job ID, so the adapters give these jobs random IDs: custom `jobId`s must not be guessable either.
+   * Workers in another process than the clients deliver the states through the `store` option of their adapter.
+   */
+  realtime?: boolean;
   
   // ==========================================
   // JOB LIFECYCLE HOOKS (ROOT LEVEL)
@@ -370,6 +478,284 @@ export interface JobSearchParams {
   filter?: JobSearchFilter;
 }
 
+/**
+ * Parameters identifying a single job.
+ */
+export interface JobTargetParams {
+  /** Job ID, as returned by `invoke` */
+  id: string;
+  /** Queue of the job (defaults to the default queue) */
+  queue?: JobQueueConfig;
+}
+
+/**
+ * Parameters for waiting until a job finishes.
+ */
+export interface JobWaitParams extends JobTargetParams {
+  /** Maximum time to wait, in milliseconds (waits indefinitely when omitted) */
+  timeout?: number;
+}
+
+/**
+ * Handle of an enqueued job, returned by the jobs proxy.
+ * The result type is inferred from the handler of the job definition.
+ *
+ * @template TResult - The result type of the job
+ *
+ * @example
+ * ```typescript
+ * const job = await igniter.jobs.reports.generate.enqueue({ input: { month: '2024-01' } });
+ *
+ * // Await short jobs in request handlers
+ * const report = await job.waitUntilFinished(5000);
+ * ```
+ */
+export interface JobHandle<TResult = any> {
+  /** Unique job ID */
+  readonly id: string;
+  /**
+   * Gets the current status of the job.
+   * @returns The status, or `null` when the job no longer exists
+   */
+  status(): Promise<JobStatus | null>;
+  /**
+   * Gets the result of the job, without waiting for it.
+   * @returns The result, or `null` when the job has not completed
+   */
+  result(): Promise<TResult | null>;
+  /**
+   * Waits until the job completes or fails its final attempt.
+   * @param timeout - Maximum time to wait, in milliseconds
+   * @returns The result of the job
+   * @throws When the job fails or does not finish before the timeout
+   */
+  waitUntilFinished(timeout?: number): Promise<TResult>;
+  /** Returns the job ID, so handles serialize as plain job IDs */
+  toString(): string;
+  /** Returns the job ID, so handles serialize as plain job IDs */
+  toJSON(): string;
+}
+
+/**
+ * Detailed information about a single job.
+ */
+export interface JobDetails<TPayload = any> extends JobSearchResult<TPayload> {
+  /** Full name of the queue holding the job */
+  queueName: string;
+  /** Progress reported by the handler (0-100) */
+  progress?: number;
+  /** Lines logged by the handler */
+  logs: string[];
+  /** Maximum number of attempts */
+  maxAttempts: number;
+  /** Date from which a delayed job can run */
+  runAt?: Date;
+  /** Stack traces of the failed attempts, oldest first */
+  stacktrace: string[];
+}
+
+/**
+ * Options for draining a queue.
+ */
+export interface JobDrainOptions {
+  /** Also remove the delayed jobs */
+  delayed?: boolean;
+}
+
+/**
+ * Number of jobs of a queue, per status.
+ */
+export interface JobQueueCounts {
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+  paused: number;
+}
+
+/**
+ * Job moved to a dead-letter queue after failing its final attempt.
+ */
+export interface JobDeadLetterEntry<TPayload = any> {
+  /** ID of the failed job */
+  id: string;
+  /** Registered job name */
+  name: string;
+  /** Full name of the queue the job failed in */
+  queueName: string;
+  /** Job payload */
+  payload: TPayload;
+  /** Error of the final attempt */
+  error: string;
+  /** Errors of every attempt, oldest first */
+  errors: string[];
+  /** Number of attempts made */
+  attemptsMade: number;
+  /** Date of the job creation */
+  createdAt: Date;
+  /** Date of the final failure */
+  failedAt: Date;
+  /** Job priority */
+  priority: number;
+  /** Additional metadata */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Parameters to list the dead-letter entries of a queue.
+ */
+export interface JobDeadLetterSearchParams {
+  /** Queue the jobs failed in (defaults to the default queue) */
+  queue?: JobQueueConfig;
+  /** Maximum number of entries to return */
+  limit?: number;
+  /** Number of entries to skip */
+  offset?: number;
+}
+
+/**
+ * Parameters to purge the dead-letter entries of a queue.
+ */
+export interface JobDeadLetterPurgeParams {
+  /** Queue the jobs failed in (defaults to the default queue) */
+  queue?: JobQueueConfig;
+  /** Entries to remove (every entry when omitted) */
+  ids?: string[];
+}
+
+/**
+ * Declarative cron schedule of a job definition.
+ */
+export interface JobSchedule<TInput = any> {
+  /** Cron expression, with 5 fields or 6 with seconds (e.g. `0 9 * * 1-5`) */
+  cron: string;
+  /** Timezone of the cron expression (e.g. `America/Sao_Paulo`), used by adapters supporting timezones */
+  tz?: string;
+  /** Input of every scheduled run */
+  input?: TInput;
+}
+
+/**
+ * Declarative schedule as registered in a queue.
+ */
+export interface JobScheduleInfo extends JobSchedule {
+  /** Registered job ID */
+  job: string;
+  /** Full name of the queue running the job */
+  queueName: string;
+  /** Date of the next run */
+  nextRunAt?: Date;
+}
+
+/**
+ * Parameters to add or update the declarative schedule of a job.
+ */
+export interface JobScheduleParams {
+  /** Registered job ID */
+  job: string;
+  /** The schedule */
+  schedule: JobSchedule;
+  /** Queue of the job (defaults to the queue of its definition) */
+  queue?: JobQueueConfig;
+}
+
+/**
+ * Result of the reconciliation of the declarative schedules, with the affected job IDs.
+ */
+export interface JobSchedulesReconciliation {
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
+
+/**
+ * Options of the jobs admin routes, mounted by the router under `{basePATH}/_igniter/jobs`.
+ *
+ * Routes (`:queue` is the queue name, with an optional `?prefix=` query parameter):
+ * - `GET /_igniter/jobs/queues/:queue` - Job counts of the queue
+ * - `POST /_igniter/jobs/queues/:queue/pause`, `/resume`, `/drain` - Queue actions (`/drain?delayed=true` also drains delayed jobs)
+ * - `GET /_igniter/jobs/queues/:queue/jobs` - Search jobs (`?status=failed,delayed&limit=20&offset=0&flowId=`)
+ * - `GET /_igniter/jobs/queues/:queue/jobs/:id` - Job details with progress and logs
+ * - `POST /_igniter/jobs/queues/:queue/jobs/:id/retry`, `/cancel`, `/promote` - Job actions
+ * - `GET /_igniter/jobs/queues/:queue/dead-letters` - Dead-letter entries (`?limit=20&offset=0`)
+ * - `GET /_igniter/jobs/queues/:queue/dead-letters/:id` - Dead-letter entry with its error chain
+ * - `POST /_igniter/jobs/queues/:queue/dead-letters/:id/replay` - Runs the job again
+ * - `DELETE /_igniter/jobs/queues/:queue/dead-letters`, `/dead-letters/:id` - Purges every entry, or one
+ *
+ * Actions that do not fit the state of the job answer with a 409, other adapter failures with a 500.
+ */
+export interface IgniterJobsAdminOptions {
+  /** Job queue adapter managing the jobs */
+  adapter: IgniterJobQueueAdapter<any>;
+  /**
+   * Path of the routes, relative to the base path.
+   * @default "/_igniter/jobs"
+   */
+  path?: string;
+  /**
+   * Authorizes admin requests. Unauthorized requests get a 403 response.
+   * Required so job management is never exposed by accident.
+   */
+  authorize: (request: Request) => boolean | Promise<boolean>;
+}
+
+/**
+ * Management APIs read by the jobs dashboard, implemented by both `IgniterJobsService` and the job queue adapters.
+ */
+export type IgniterJobsDashboardSource = Pick<
+  IgniterJobQueueAdapter<any>,
+  "getQueueCounts" | "search" | "getJob" | "retry" | "listSchedules"
+>;
+
+/**
+ * Options of the jobs dashboard, served by the router under `{basePATH}/jobs-dashboard`.
+ * Like the playground, it is open in development and requires `security` in production.
+ *
+ * Routes, relative to the dashboard route:
+ * - `GET /` - Dashboard UI
+ * - `GET /api/queues` - Queues with their job counts and cron schedules
+ * - `GET /api/queues/:queue/jobs` - Jobs of a queue (`?status=failed&limit=20&offset=0`)
+ * - `GET /api/queues/:queue/jobs/:id` - Job details with its stack traces
+ * - `POST /api/queues/:queue/jobs/:id/retry` - Runs a failed job again
+ *
+ * @example
+ * ```typescript
+ * igniter.router({
+ *   controllers,
+ *   jobsDashboard: {
+ *     jobs: jobsService,
+ *     queues: ['default', 'emails'],
+ *     security: (request) => request.headers.get('x-admin-token') === process.env.ADMIN_TOKEN,
+ *   },
+ * });
+ * ```
+ */
+export interface IgniterJobsDashboardOptions {
+  /** Jobs service (or job queue adapter) managing the jobs */
+  jobs: IgniterJobsDashboardSource;
+  /**
+   * Queues shown by the dashboard, by name or config.
+   * @default ["default"]
+   */
+  queues?: Array<string | JobQueueConfig>;
+  /**
+   * Whether to serve the dashboard.
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * The route at which to serve the dashboard.
+   * @default "/jobs-dashboard"
+   */
+  route?: string;
+  /**
+   * A function to protect the dashboard in production.
+   * It receives the `Request` object and must return `true` to grant access.
+   */
+  security?: (request: Request) => boolean | Promise<boolean>;
+}
+
 /**
  * Configuration for creating a new jobs router.
  * Defines the jobs, namespace, default options, and global hooks for the router.
@@ -479,7 +865,7 @@ export interface JobsNamespaceExecutor<
    * @param jobId - The job ID to execute
    * @param input - Type-safe input for the job
    * @param options - Optional execution options
-   * @returns Promise resolving to the job execution ID
+   * @returns Promise resolving to the handle of the enqueued job
    */
   enqueue<TJobId extends keyof TJobs>(
     params: Prettify<
@@ -490,7 +876,7 @@ export interface JobsNamespaceExecutor<
           : never;
       } & JobInvokeOptions
     >,
-  ): Promise<string>;
+  ): Promise<JobHandle<Awaited<InferJobOutput<TJobs[TJobId]>>>>;
 
   /**
    * Schedules a job for advanced future execution with enhanced timing control.
@@ -498,7 +884,7 @@ export interface JobsNamespaceExecutor<
    *
    * @template TJobId - The specific job ID to schedule
    * @param params - Advanced scheduling parameters with type-safe input
-   * @returns Promise resolving to the job execution ID
+   * @returns Promise resolving to the handle of the scheduled job
    * 
    * @example
    * ```typescript
@@ -521,13 +907,13 @@ export interface JobsNamespaceExecutor<
           : never;
       } & AdvancedScheduleOptions
     >,
-  ): Promise<string>;
+  ): Promise<JobHandle<Awaited<InferJobOutput<TJobs[TJobId]>>>>;
 
   /**
    * Enqueues multiple jobs in batch.
    *
    * @param jobs - Array of job invocation parameters
-   * @returns Promise resolving to array of job execution IDs
+   * @returns Promise resolving to the handles of the enqueued jobs, in order
    */
   bulk(
     jobs: Array<
@@ -538,7 +924,7 @@ export interface JobsNamespaceExecutor<
         } & JobInvokeOptions
       >
     >,
-  ): Promise<string[]>;
+  ): Promise<JobHandle[]>;
 }
 
 /**
@@ -572,7 +958,7 @@ export type MergedJobsExecutor<T extends Record<string, any>> =
      * await proxy.user.sendEmail.enqueue({ to: "user@example.com" });
      * ```
      */
-    createProxy(): JobsNamespaceProxy<T>;
+    createProxy(): JobsNamespaceProxy<T> & JobsFlowMethods<T>;
   };
 
 /**
@@ -663,12 +1049,126 @@ export interface IgniterJobQueueAdapter<TContext extends object> {
    */
   invoke<TPayload = any>(params: JobInvokeParams<TPayload>): Promise<string>;
 
+  /**
+   * Starts a job flow, adding the jobs of its first stage to their queues.
+   * Optional: the jobs proxy throws when flows are not supported by the adapter.
+   * @param definition Flow definition
+   * @returns The flow execution ID
+   */
+  flow?(definition: JobFlowDefinition): Promise<string>;
+
   /**
    * Searches for jobs in the queue with specific filters.
    * @param params Search parameters
    */
   search(params?: JobSearchParams): Promise<JobSearchResult[]>;
 
+  /**
+   * Gets a single job with its progress and logs.
+   * @param params Job to get
+   * @returns The job, or `null` when it does not exist
+   */
+  getJob(params: JobTargetParams): Promise<JobDetails | null>;
+
+  /**
+   * Waits until a job completes or fails its final attempt.
+   * @param params Job to wait for, and the maximum time to wait in milliseconds
+   * @returns The result of the job
+   * @throws When the job fails, does not exist, or does not finish before the timeout
+   */
+  waitUntilFinished<TResult = any>(params: JobWaitParams): Promise<TResult>;
+
+  /**
+   * Runs a failed job again, resetting its attempts.
+   * Rejects with an `IgniterError` of code `JOB_STATE_CONFLICT` when the job did not fail.
+   * @param params Job to retry
+   */
+  retry(params: JobTargetParams): Promise<void>;
+
+  /**
+   * Removes a waiting or delayed job before it runs.
+   * Rejects with an `IgniterError` of code `JOB_STATE_CONFLICT` when the job is neither waiting nor delayed.
+   * @param params Job to cancel
+   */
+  cancel(params: JobTargetParams): Promise<void>;
+
+  /**
+   * Runs a delayed job right away.
+   * Rejects with an `IgniterError` of code `JOB_STATE_CONFLICT` when the job is not delayed.
+   * @param params Job to promote
+   */
+  promote(params: JobTargetParams): Promise<void>;
+
+  /**
+   * Pauses a queue: workers stop picking its jobs until it is resumed.
+   * @param queue Queue to pause (defaults to the default queue)
+   */
+  pauseQueue(queue?: JobQueueConfig): Promise<void>;
+
+  /**
+   * Resumes a paused queue.
+   * @param queue Queue to resume (defaults to the default queue)
+   */
+  resumeQueue(queue?: JobQueueConfig): Promise<void>;
+
+  /**
+   * Removes the waiting jobs of a queue.
+   * @param queue Queue to drain (defaults to the default queue)
+   * @param options Drain options
+   */
+  drain(queue?: JobQueueConfig, options?: JobDrainOptions): Promise<void>;
+
+  /**
+   * Counts the jobs of a queue, per status.
+   * @param queue Queue to count (defaults to the default queue)
+   */
+  getQueueCounts(queue?: JobQueueConfig): Promise<JobQueueCounts>;
+
+  /**
+   * Lists the dead-letter entries of a queue, most recent failures first.
+   * @param params Queue and pagination
+   */
+  listDeadLetters(params?: JobDeadLetterSearchParams): Promise<JobDeadLetterEntry[]>;
+
+  /**
+   * Gets a dead-letter entry with its error chain.
+   * @param params Entry to get, with the queue the job failed in
+   * @returns The entry, or `null` when it does not exist
+   */
+  getDeadLetter(params: JobTargetParams): Promise<JobDeadLetterEntry | null>;
+
+  /**
+   * Runs a dead-lettered job again with fresh attempts, removing its entry.
+   * @param params Entry to replay, with the queue the job failed in
+   * @returns The ID of the replayed job, which may differ from the ID of the entry
+   */
+  replayDeadLetter(params: JobTargetParams): Promise<string>;
+
+  /**
+   * Removes dead-letter entries.
+   * @param params Queue and entries to remove
+   * @returns The number of removed entries
+   */
+  purgeDeadLetters(params?: JobDeadLetterPurgeParams): Promise<number>;
+
+  /**
+   * Lists the declarative schedules of a queue.
+   * @param queue Queue to list (defaults to the default queue)
+   */
+  listSchedules(queue?: JobQueueConfig): Promise<JobScheduleInfo[]>;
+
+  /**
+   * Adds the declarative schedule of a job, replacing its previous one.
+   * @param params Job and schedule
+   */
+  upsertSchedule(params: JobScheduleParams): Promise<void>;
+
+  /**
+   * Removes the declarative schedule of a job.
+   * @param params Job and queue
+   */
+  removeSchedule(params: Omit<JobScheduleParams, "schedule">): Promise<void>;
+
   /**
    * Starts a worker to process jobs.
    * @param config Worker configuration
@@ -983,12 +1483,12 @@ export interface JobExecutor<TJobDef extends JobDefinition<any, any, any>> {
    * Enqueue the job for immediate execution
    * @param input - The job input data (typed from job definition)
    * @param options - Optional job execution options
-   * @returns Promise resolving to the job ID
+   * @returns Promise resolving to the handle of the job
    */
   enqueue(
     input: InferJobInput<TJobDef>,
     options?: Prettify<JobInvokeOptions>,
-  ): Promise<string>;
+  ): Promise<JobHandle<Awaited<InferJobOutput<TJobDef>>>>;
 
   /**
    * Schedule the job for advanced delayed execution with enhanced options.
@@ -996,7 +1496,7 @@ export interface JobExecutor<TJobDef extends JobDefinition<any, any, any>> {
    * 
    * @param input - The job input data (typed from job definition)
    * @param options - Advanced scheduling options with enhanced timing control
-   * @returns Promise resolving to the job ID
+   * @returns Promise resolving to the handle of the job
    * 
    * @example
    * ```typescript
@@ -1014,7 +1514,7 @@ export interface JobExecutor<TJobDef extends JobDefinition<any, any, any>> {
   schedule(
     input: InferJobInput<TJobDef>,
     options?: Prettify<AdvancedScheduleOptions | SchedulePattern>,
-  ): Promise<string>;
+  ): Promise<JobHandle<Awaited<InferJobOutput<TJobDef>>>>;
 
   /**
    * Get the job definition for this executor
@@ -1062,14 +1562,14 @@ export interface NamespaceFallbackMethods<
       task: TJobId;
       input: InferJobInput<TJobs[TJobId]>;
     } & JobInvokeOptions,
-  ): Promise<string>;
+  ): Promise<JobHandle<Awaited<InferJobOutput<TJobs[TJobId]>>>>;
 
   schedule<TJobId extends keyof TJobs>(
     params: {
       task: TJobId;
       input: InferJobInput<TJobs[TJobId]>;
     } & AdvancedScheduleOptions,
-  ): Promise<string>;
+  ): Promise<JobHandle<Awaited<InferJobOutput<TJobs[TJobId]>>>>;
 
   bulk<
     TArray extends Array<{
@@ -1078,7 +1578,7 @@ export interface NamespaceFallbackMethods<
     } & JobInvokeOptions>
   >(
     jobs: TArray
-  ): Promise<string[]>;
+  ): Promise<JobHandle[]>;
 }
 
 /**
@@ -1089,7 +1589,166 @@ export type JobsProxyInvokeFunction = (params: {
   namespacedJobId: string;
   input: any;
   options?: JobInvokeOptions;
-}) => Promise<string>;
+}) => Promise<JobHandle>;
+
+// ==========================================
+// JOB FLOWS
+// ==========================================
+
+/**
+ * A job of a flow stage.
+ */
+export interface JobFlowStep {
+  /** Namespaced job ID (e.g. `user.sendEmail`) */
+  job: string;
+  /** Execution options of the job */
+  options?: JobInvokeOptions;
+}
+
+/**
+ * Serializable definition of a job flow.
+ * Stages run one after the other and the jobs of a stage run in parallel.
+ * Each job receives the result of the previous stage as input: the result of its single job,
+ * or the tuple of the results of its jobs.
+ */
+export interface JobFlowDefinition {
+  /** Flow name */
+  name: string;
+  /** Input of the first stage */
+  input: any;
+  /** Stages of the flow */
+  stages: JobFlowStep[][];
+}
+
+/**
+ * Position of a job in a flow, as reported by `search`.
+ */
+export interface JobFlowInfo {
+  /** Flow execution ID */
+  id: string;
+  /** Flow name */
+  name: string;
+  /** Index of the stage of the job */
+  stage: number;
+  /** Index of the job in its stage */
+  index: number;
+  /** Number of stages of the flow */
+  stages: number;
+}
+
+/**
+ * Namespaced IDs of the merged jobs (e.g. `"user.sendEmail"`).
+ */
+export type JobPaths<T> = {
+  [N in keyof T & string]: {
+    [J in keyof T[N] & string]: `${N}.${J}`;
+  }[keyof T[N] & string];
+}[keyof T & string];
+
+/**
+ * Job definition of a namespaced job ID.
+ */
+export type JobAtPath<T, P> = P extends `${infer N}.${infer J}`
+  ? N extends keyof T
+    ? J extends keyof T[N]
+      ? T[N][J]
+      : never
+    : never
+  : never;
+
+/**
+ * Namespaced IDs of the jobs whose input accepts the given value.
+ */
+export type JobPathsAccepting<T, TInput> = {
+  [P in JobPaths<T>]: [TInput] extends [InferJobInput<JobAtPath<T, P>>] ? P : never;
+}[JobPaths<T>];
+
+/**
+ * Immutable builder of a job flow, typed with the result of its last stage.
+ * Not a thenable on purpose: the chain ends with `run()`.
+ *
+ * @template T - The merged jobs structure type
+ * @template TResult - Result of the last stage, input of the next one
+ */
+export interface JobFlowBuilder<T, TResult> {
+  /** Serializable definition of the flow */
+  readonly definition: JobFlowDefinition;
+
+  /**
+   * Runs a job with the result of the previous stage.
+   *
+   * @param job - Namespaced ID of a job accepting the previous result
+   * @param options - Execution options of the job
+   */
+  next<P extends JobPathsAccepting<T, TResult>>(
+    job: P,
+    options?: JobInvokeOptions,
+  ): JobFlowBuilder<T, Awaited<InferJobOutput<JobAtPath<T, P>>>>;
+
+  /**
+   * Runs jobs in parallel with the result of the previous stage.
+   * The next stage receives the tuple of their results.
+   *
+   * @param jobs - Namespaced IDs of jobs accepting the previous result
+   */
+  parallel<P extends [JobPathsAccepting<T, TResult>, ...JobPathsAccepting<T, TResult>[]]>(
+    jobs: P,
+  ): JobFlowBuilder<T, { [K in keyof P]: Awaited<InferJobOutput<JobAtPath<T, P[K]>>> }>;
+
+  /**
+   * Starts the flow.
+   * @returns Promise resolving to the flow execution ID
+   */
+  run(): Promise<string>;
+}
+
+/**
+ * Entry point of a job flow.
+ */
+export interface JobFlowStarter<T> {
+  /**
+   * Runs the first job of the flow.
+   *
+   * @param job - Namespaced ID of the job
+   * @param input - Type-safe input of the job
+   * @param options - Execution options of the job
+   */
+  start<P extends JobPaths<T>>(
+    job: P,
+    input: InferJobInput<JobAtPath<T, P>>,
+    options?: JobInvokeOptions,
+  ): JobFlowBuilder<T, Awaited<InferJobOutput<JobAtPath<T, P>>>>;
+}
+
+/**
+ * Flow methods available on the jobs proxy.
+ */
+export interface JobsFlowMethods<T> {
+  /**
+   * Creates a flow chaining jobs, each job receiving the result of the previous stage.
+   *
+   * @param name - Flow name, reported by `search`
+   *
+   * @example
+   * ```typescript
+   * const flowId = await igniter.jobs
+   *   .flow('onboarding')
+   *   .start('user.createAccount', { email: 'user@example.com' })
+   *   .next('user.sendWelcome')
+   *   .parallel(['crm.sync', 'analytics.track'])
+   *   .next('reports.summarize')
+   *   .run();
+   *
+   * const jobs = await adapter.search({ filter: { flowId } });
+   * ```
+   */
+  flow(name: string): JobFlowStarter<T>;
+}
+
+/**
+ * Function used by the proxy system to start flows.
+ */
+export type JobsProxyFlowFunction = (definition: JobFlowDefinition) => Promise<string>;
 
 // ==========================================
 // ENHANCED CRON SYSTEM
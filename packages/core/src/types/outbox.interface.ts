@@ -0,0 +1,193 @@
+import type { IgniterLogger } from "./logger.interface";
+import type { IgniterStoreAdapter } from "./store.interface";
+import type {
+  InferRealtimeChannelInput,
+  RealtimeChannelTarget,
+  RealtimeEventPayload,
+  RevalidationTarget,
+} from "./realtime.interface";
+
+/**
+ * Buffered job invocation, replayed on the jobs proxy once the outbox flushes.
+ * @example { path: ['emails', 'welcome', 'enqueue'], args: [{ input: { userId: '1' } }] }
+ */
+export interface IgniterOutboxJobEntry {
+  type: "job";
+  /** Property path of the call on the jobs proxy, ending with the called method */
+  path: string[];
+  /** Arguments of the call */
+  args: unknown[];
+}
+
+/**
+ * Buffered realtime event, published once the outbox flushes.
+ */
+export interface IgniterOutboxRealtimeEntry {
+  type: "realtime";
+  /** Name of the channel */
+  channel: string;
+  /** Data payload of the event */
+  data: unknown;
+  /** Event metadata */
+  options?: IgniterOutboxPublishOptions;
+}
+
+/**
+ * Buffered revalidation, published once the outbox flushes.
+ */
+export interface IgniterOutboxRevalidateEntry {
+  type: "revalidate";
+  /** Queries to revalidate on the clients */
+  targets: RevalidationTarget[];
+}
+
+/**
+ * Side effect buffered by the outbox.
+ * Entries are plain data, so durable outboxes can keep them in the store.
+ */
+export type IgniterOutboxEntry = (
+  | IgniterOutboxJobEntry
+  | IgniterOutboxRealtimeEntry
+  | IgniterOutboxRevalidateEntry
+) & {
+  /** Unique ID of the entry */
+  id: string;
+  /** Time the entry was buffered, in milliseconds */
+  createdAt: number;
+  /** Failed dispatch attempts of the entry */
+  attempts: number;
+  /** Error of the last failed dispatch attempt */
+  lastError?: string;
+};
+
+/**
+ * Metadata of the realtime events buffered by the outbox.
+ * Scopes are resolved from the request, so they are not supported.
+ */
+export type IgniterOutboxPublishOptions = Pick<RealtimeEventPayload, "type" | "id" | "description">;
+
+/**
+ * Jobs proxy wrapped by the outbox: its methods resolve to the ID of the outbox entry
+ * buffering the call, instead of their own result.
+ */
+export type IgniterOutboxJobs<TJobs> = {
+  [K in keyof TJobs]: TJobs[K] extends (...args: infer TArgs) => any
+    ? (...args: TArgs) => Promise<string>
+    : TJobs[K] extends object
+      ? IgniterOutboxJobs<TJobs[K]>
+      : never;
+};
+
+/**
+ * Outbox of an action, buffering job invocations and realtime events until the handler succeeds.
+ * Side effects of handlers that throw or return an error response, or of transactions that roll back, are discarded.
+ *
+ * @example
+ * ```typescript
+ * handler: async ({ context, outbox, response }) => {
+ *   const user = await outbox.transaction(() =>
+ *     context.db.$transaction(async (tx) => {
+ *       const user = await tx.user.create({ data: { email } });
+ *       await outbox.jobs(igniter.jobs).emails.enqueue({ task: 'welcome', input: { userId: user.id } });
+ *       outbox.publish('users', { id: user.id });
+ *       return user;
+ *     })
+ *   );
+ *   return response.created(user);
+ * }
+ * ```
+ */
+export interface IgniterOutbox {
+  /**
+   * Wraps a jobs proxy, buffering its invocations until the outbox flushes.
+   * Buffered invocations resolve to the ID of the outbox entry instead of a job handle, as the job only exists once flushed.
+   *
+   * @param jobs - The jobs proxy, usually `igniter.jobs`
+   */
+  jobs<TJobs extends object>(jobs: TJobs): IgniterOutboxJobs<TJobs>;
+
+  /**
+   * Buffers a realtime event until the outbox flushes.
+   *
+   * @param channel - The channel name, or a typed channel resolved with `channel.to(params)`
+   * @param data - The data payload of the event
+   * @param options - Event metadata
+   * @returns The ID of the outbox entry
+   */
+  publish<TChannel extends RealtimeChannelTarget>(
+    channel: TChannel,
+    data: InferRealtimeChannelInput<TChannel>,
+    options?: IgniterOutboxPublishOptions,
+  ): string;
+
+  /**
+   * Buffers a revalidation of client queries until the outbox flushes.
+   *
+   * @param targets - The queries to revalidate
+   * @returns The ID of the outbox entry
+   */
+  revalidate(targets: RevalidationTarget | RevalidationTarget[]): string;
+
+  /**
+   * Runs a transaction, flushing the entries buffered inside it once it resolves
+   * and discarding them when it throws. Entries buffered outside of transactions
+   * flush once the handler succeeds.
+   *
+   * @param fn - Runs the transaction, e.g. `() => db.$transaction(...)`
+   * @returns The result of the transaction
+   */
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Outbox options of the router.
+ */
+export interface IgniterOutboxOptions {
+  /**
+   * Keeps flushed entries in the store until they are dispatched, so the outbox relay
+   * retries the entries whose dispatch failed or was interrupted.
+   * Entries are only kept once the handler succeeds or their transaction commits, so the entries
+   * of a process stopped before are lost with it: durability only covers their dispatch.
+   * Requires a store adapter with set operations.
+   * @default false
+   */
+  durable?: boolean;
+}
+
+/**
+ * Options of the outbox relay.
+ */
+export interface IgniterOutboxRelayOptions {
+  /** Store keeping the entries of durable outboxes, with set operations */
+  store: IgniterStoreAdapter;
+  /** Jobs proxy dispatching the buffered job invocations, usually `igniter.jobs` */
+  jobs?: object;
+  /**
+   * Interval between relay runs, in milliseconds.
+   * Entries still dispatched by the request that buffered them are left to it.
+   * @default 5000
+   */
+  interval?: number;
+  /**
+   * Dispatch attempts before an entry is dropped.
+   * @default 10
+   */
+  maxAttempts?: number;
+  /** Logger of the relay */
+  logger?: IgniterLogger;
+}
+
+/**
+ * Relay dispatching the entries of durable outboxes left in the store.
+ */
+export interface IgniterOutboxRelay {
+  /** Starts running the relay on its interval */
+  start(): void;
+  /** Stops the relay */
+  stop(): void;
+  /**
+   * Dispatches the pending entries once.
+   * @returns The number of dispatched entries
+   */
+  run(): Promise<number>;
+}
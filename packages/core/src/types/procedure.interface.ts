@@ -2,6 +2,7 @@ import type { HTTPMethod, IgniterCookies, IgniterHeaders } from "./action.interf
 import type { UnionToIntersection } from "./utils.interface";
 import type { StandardSchemaV1 } from "./schema.interface";
 import type { NextFunction } from "./next.interface";
+import type { IgniterResponse } from "./response.interface";
 import { IgniterResponseProcessor } from "@/processors";
 
 /**
@@ -41,6 +42,15 @@ export type IgniterProcedureContext<TActionContext> = {
   next: NextFunction;
 }
 
+/**
+ * Response a procedure returns to end the request early, e.g. `ctx.response.unauthorized()`.
+ * It is not merged into the action context.
+ */
+export type IgniterProcedureEarlyReturn =
+  | Response
+  | IgniterResponseProcessor<any>
+  | IgniterResponse<any, any>;
+
 /**
  * Represents a procedure in the Igniter framework.
  * @template TActionContext - The type of the action context.
@@ -50,7 +60,7 @@ export type IgniterProcedureContext<TActionContext> = {
  * @property name - The name of the procedure.
  * @property handler - The function that handles the procedure execution.
  * Takes options and a procedure context as parameters and returns a promise
- * or direct value of type TOutput.
+ * or direct value of type TOutput, or an early return ending the request.
  */
 export type IgniterProcedure<
   TActionContext,
@@ -58,7 +68,10 @@ export type IgniterProcedure<
   TOutput
 > = {
   name: string;
-  handler: (options: TOptions, ctx: IgniterProcedureContext<TActionContext>) => Promise<TOutput> | TOutput;
+  handler: (
+    options: TOptions,
+    ctx: IgniterProcedureContext<TActionContext>
+  ) => Promise<TOutput | IgniterProcedureEarlyReturn> | TOutput | IgniterProcedureEarlyReturn;
 }
 
 // ============================================================================
@@ -1,49 +1,53 @@
+import type { SSEAuthorizer, SSEChannelRetention } from "../processors/sse.processor";
+import type { IgniterStoreAdapter } from "./store.interface";
+import type { StandardSchemaV1 } from "./schema.interface";
+
 /**
  * Type-safe builder for realtime events.
  * Provides a fluent API to construct and publish realtime events to a channel.
  */
-export interface RealtimeBuilder<TContext = any> {
+export interface RealtimeBuilder<TContext = any, TData = unknown> {
   /**
    * Sets the data payload for the realtime event.
    * @param data - The data to send with the event.
    * @returns A new RealtimeBuilder instance with the updated data.
    */
-  withData(data: unknown): RealtimeBuilder<TContext>;
+  withData(data: TData): RealtimeBuilder<TContext, TData>;
 
   /**
    * Sets the event type for the realtime event.
    * @param type - The type of the event.
    * @returns A new RealtimeBuilder instance with the updated type.
    */
-  withType(type: string): RealtimeBuilder<TContext>;
+  withType(type: string): RealtimeBuilder<TContext, TData>;
 
   /**
    * Sets the unique identifier for the realtime event.
    * @param id - The event ID.
    * @returns A new RealtimeBuilder instance with the updated ID.
    */
-  withId(id: string): RealtimeBuilder<TContext>;
+  withId(id: string): RealtimeBuilder<TContext, TData>;
 
   /**
    * Sets the channel for the realtime event.
    * @param channel - The channel to publish the event to.
    * @returns A new RealtimeBuilder instance with the updated channel.
    */
-  withChannel(channel: string): RealtimeBuilder<TContext>;
+  withChannel(channel: string): RealtimeBuilder<TContext, TData>;
 
   /**
    * Sets the description for the realtime event.
    * @param description - The description of the event.
    * @returns A new RealtimeBuilder instance with the updated description.
    */
-  withDescription(description: string): RealtimeBuilder<TContext>;
+  withDescription(description: string): RealtimeBuilder<TContext, TData>;
 
   /**
    * Sets the scopes for the realtime event.
    * @param scopes - The scopes of the event.
    * @returns A new RealtimeBuilder instance with the updated scopes.
    */
-  withScopes(scopes: (context: TContext) => Promise<string[]> | string[]): RealtimeBuilder;
+  withScopes(scopes: (context: TContext) => Promise<string[]> | string[]): RealtimeBuilder<TContext, TData>;
 
   /**
    * Publishes the constructed event to the specified channel.
@@ -94,7 +98,7 @@ export type RevalidationTarget = {
   query?: Record<string, any>;
   /**
    * Optional data payload to send along with the revalidation event.
-   * This can be used by clients to optimistically update their cache.
+   * The clients write it to the cache of the targeted query instead of refetching it.
    */
   data?: unknown;
   /**
@@ -103,6 +107,225 @@ export type RevalidationTarget = {
   scopes?: string[];
 };
 
+/**
+ * Parameters of a channel name pattern, e.g. `{ roomId: string | number }` for `chat:room:{roomId}`.
+ */
+export type InferRealtimeChannelParams<TName extends string> =
+  TName extends `${string}{${infer TParam}}${infer TRest}`
+    ? { [K in TParam | keyof InferRealtimeChannelParams<TRest>]: string | number }
+    : {};
+
+/**
+ * Channel names matching a channel name pattern, e.g. `chat:room:${string}` for `chat:room:{roomId}`.
+ */
+export type InferRealtimeChannelName<TName extends string> =
+  TName extends `${infer THead}{${string}}${infer TRest}`
+    ? `${THead}${string}${InferRealtimeChannelName<TRest>}`
+    : TName;
+
+/**
+ * Configuration of a typed realtime channel.
+ */
+export interface IgniterRealtimeChannelConfig<
+  TName extends string = string,
+  TSchema extends StandardSchemaV1 = StandardSchemaV1,
+> {
+  /**
+   * Name of the channel. Use `{param}` placeholders for parameterized channels.
+   * @example 'chat:room:{roomId}'
+   */
+  name: TName;
+  /** Schema of the event payloads, validated on publish. */
+  schema: TSchema;
+  /**
+   * Schema of the `{param}` values, validating the channels clients subscribe to.
+   * @example z.object({ roomId: z.string().uuid() })
+   */
+  paramsSchema?: StandardSchemaV1;
+  /** Human-readable description, used in introspection and AsyncAPI output. */
+  description?: string;
+  /** Replay settings for clients reconnecting with `Last-Event-ID`. */
+  retention?: SSEChannelRetention;
+  /**
+   * Whether WebSocket clients can publish events on the channel.
+   * @default false
+   */
+  clientPublish?: boolean;
+  /**
+   * Tracks the members of the channel: connections authorized with a `member`
+   * join when they subscribe and leave when they close. Disabled when omitted.
+   */
+  presence?: RealtimePresenceOptions;
+}
+
+/**
+ * Options of the realtime endpoint (`/sse/events`) of the router.
+ */
+export interface IgniterRealtimeEndpointOptions {
+  /**
+   * Authorizes the SSE connections and grants their scopes and member, e.g. from the session of the caller.
+   * Rejected connections get a 401 response. Without it, the scopes are read from the request.
+   *
+   * @example
+   * authorize: async (request) => {
+   *   const session = await getSession(request);
+   *   if (!session) return false;
+   *   return { scopes: [`user:${session.userId}`], member: { id: session.userId, metadata: { name: session.name } } };
+   * }
+   */
+  authorize?: SSEAuthorizer;
+}
+
+/**
+ * A concrete channel, resolved from a channel definition and its parameters.
+ * Carries the payload types so publish calls and `useRealtime` are type-checked.
+ */
+export interface IgniterRealtimeChannelRef<TInput = unknown, TOutput = TInput> {
+  /** Name of the resolved channel, e.g. `chat:room:42`. */
+  id: string;
+  /** The channel definition. */
+  channel: IgniterRealtimeChannel<string, StandardSchemaV1<TInput, TOutput>>;
+  /** Inferred types, for type-level use only. */
+  $Infer: {
+    input: TInput;
+    output: TOutput;
+  };
+}
+
+/**
+ * A typed realtime channel definition, created with `igniter.channel()`.
+ *
+ * @example
+ * ```typescript
+ * export const chatRoom = igniter.channel({
+ *   name: 'chat:room:{roomId}',
+ *   schema: z.object({ text: z.string() }),
+ * });
+ *
+ * await context.realtime.publish(chatRoom.to({ roomId: '42' }), { text: 'Hello' });
+ * ```
+ */
+export interface IgniterRealtimeChannel<
+  TName extends string = string,
+  TSchema extends StandardSchemaV1 = StandardSchemaV1,
+> extends IgniterRealtimeChannelConfig<TName, TSchema> {
+  /** Names of the parameters of the channel name. */
+  params: string[];
+  /**
+   * Resolves the channel for the given parameters.
+   * @param params - Values of the `{param}` placeholders of the channel name.
+   */
+  to(
+    ...args: keyof InferRealtimeChannelParams<TName> extends never
+      ? [params?: InferRealtimeChannelParams<TName>]
+      : [params: InferRealtimeChannelParams<TName>]
+  ): IgniterRealtimeChannelRef<
+    StandardSchemaV1.InferInput<TSchema>,
+    StandardSchemaV1.InferOutput<TSchema>
+  >;
+  /**
+   * Matches a channel name against the channel name pattern.
+   * @returns The parameters, or `null` when the name does not belong to this channel.
+   */
+  match(name: string): InferRealtimeChannelParams<TName> | null;
+  /** Inferred types, for type-level use only. */
+  $Infer: {
+    name: InferRealtimeChannelName<TName>;
+    params: InferRealtimeChannelParams<TName>;
+    input: StandardSchemaV1.InferInput<TSchema>;
+    output: StandardSchemaV1.InferOutput<TSchema>;
+  };
+}
+
+/**
+ * Channel accepted by the realtime service: a channel name or a resolved typed channel.
+ */
+export type RealtimeChannelTarget = string | IgniterRealtimeChannelRef<any, any>;
+
+/**
+ * Payload type of a channel target, `unknown` for untyped channel names.
+ */
+export type InferRealtimeChannelInput<TChannel extends RealtimeChannelTarget> =
+  TChannel extends IgniterRealtimeChannelRef<infer TInput, any> ? TInput : unknown;
+
+/**
+ * A member tracked by the presence of a channel.
+ */
+export interface RealtimePresenceMember<TMetadata = Record<string, unknown>> {
+  /** Unique identifier of the member, e.g. the user id. */
+  id: string;
+  /** Metadata attached when the member joined, e.g. the user name. */
+  metadata: TMetadata;
+  /** ISO date of the join. */
+  joinedAt: string;
+  /** ISO date of the last join or heartbeat. */
+  lastSeenAt: string;
+}
+
+/**
+ * Options of the presence of a channel.
+ */
+export interface RealtimePresenceOptions {
+  /**
+   * Time, in seconds, after which a member without heartbeat is removed.
+   * Members of open connections are kept alive by the server.
+   * @default 60
+   */
+  timeout?: number;
+  /**
+   * Store adapter sharing the members between instances. Defaults to the store of the
+   * realtime service; members are kept in memory when no store is available.
+   */
+  store?: IgniterStoreAdapter;
+}
+
+/**
+ * Payload of the `presence` events published on a channel.
+ */
+export interface RealtimePresenceEvent<TMetadata = Record<string, unknown>> {
+  /** What happened: a member joined, left, or stopped sending heartbeats. */
+  type: "join" | "leave" | "timeout";
+  /** The member that joined or left. */
+  member: RealtimePresenceMember<TMetadata>;
+  /** Members of the channel after the change. */
+  members: RealtimePresenceMember<TMetadata>[];
+}
+
+/**
+ * Tracks the members of a realtime channel.
+ * Changes are published as `presence` events on the channel, and each member is
+ * kept under its own key of the store adapter so every instance shares them.
+ * On channels declaring `presence`, the connections authorized with a member join and leave on their own.
+ */
+export interface RealtimePresence<TMetadata = Record<string, unknown>> {
+  /**
+   * Adds a member to the channel, or refreshes its metadata if it already joined.
+   * @param id - Unique identifier of the member.
+   * @param metadata - Metadata shared with the other members.
+   * @returns The joined member.
+   */
+  join(id: string, metadata?: TMetadata): Promise<RealtimePresenceMember<TMetadata>>;
+
+  /**
+   * Keeps a member in the channel.
+   * @param id - Unique identifier of the member.
+   * @returns False when the member is not in the channel anymore and must join again.
+   */
+  heartbeat(id: string): Promise<boolean>;
+
+  /**
+   * Removes a member from the channel.
+   * @param id - Unique identifier of the member.
+   */
+  leave(id: string): Promise<void>;
+
+  /**
+   * Lists the members of the channel.
+   * @returns The members, in join order.
+   */
+  list(): Promise<RealtimePresenceMember<TMetadata>[]>;
+}
+
 /**
  * Interface for the Igniter Realtime Service.
  * Provides methods for publishing events to channels, building realtime events,
@@ -111,15 +334,16 @@ export type RevalidationTarget = {
 export interface IgniterRealtimeService<TContext = any> {
   /**
    * Publishes an event to a specific channel.
+   * Events published to channels declaring a schema are validated.
    *
-   * @param channel - The channel to publish the event to.
+   * @param channel - The channel name, or a typed channel resolved with `channel.to(params)`.
    * @param data - The data payload of the event.
    * @param options - Optional event metadata (excluding channel and data).
    * @returns A promise that resolves when the event is published.
    */
-  publish(
-    channel: string,
-    data: unknown,
+  publish<TChannel extends RealtimeChannelTarget>(
+    channel: TChannel,
+    data: InferRealtimeChannelInput<TChannel>,
     options?: Omit<RealtimeEventPayload<TContext>, "channel" | "data">
   ): Promise<void>;
 
@@ -129,7 +353,9 @@ export interface IgniterRealtimeService<TContext = any> {
    * @param channel - The channel to target for the realtime event.
    * @returns A RealtimeBuilder instance for chaining event properties and publishing.
    */
-  to(channel: string): RealtimeBuilder<TContext>;
+  to<TChannel extends RealtimeChannelTarget>(
+    channel: TChannel,
+  ): RealtimeBuilder<TContext, InferRealtimeChannelInput<TChannel>>;
 
   /**
    * Broadcasts data to all registered channels.
@@ -151,4 +377,16 @@ export interface IgniterRealtimeService<TContext = any> {
   revalidate(
     targets: RevalidationTarget | RevalidationTarget[],
   ): Promise<void>;
+
+  /**
+   * Tracks the members of a channel ("who is online").
+   *
+   * @param channel - The channel to track.
+   * @param options - Presence options.
+   * @returns The presence of the channel.
+   */
+  presence<TMetadata = Record<string, unknown>>(
+    channel: string,
+    options?: RealtimePresenceOptions,
+  ): RealtimePresence<TMetadata>;
 }
@@ -2,6 +2,9 @@
 import type { RouterContext } from 'rou3'
 import type { IgniterAction } from './action.interface'
 import type { IgniterRouter } from './router.interface'
+import type { IgniterRealtimeChannel, IgniterRealtimeEndpointOptions } from './realtime.interface'
+import type { IgniterJobsAdminOptions } from './jobs.interface'
+import type { IgniterOutboxOptions } from './outbox.interface'
 import { DocsConfig } from './builder.interface'
 
 export interface RequestProcessorConfig<TConfig extends IgniterRouter<any, any, any, any, any>> {
@@ -11,6 +14,10 @@ export interface RequestProcessorConfig<TConfig extends IgniterRouter<any, any,
   context: TConfig['$context'];
   plugins?: Record<string, any>;
   docs?: DocsConfig;
+  channels?: Record<string, IgniterRealtimeChannel<any, any>>;
+  realtime?: IgniterRealtimeEndpointOptions;
+  jobsAdmin?: IgniterJobsAdminOptions;
+  outbox?: IgniterOutboxOptions;
 }
 
 export interface RequestProcessorInterface<TRouter extends IgniterRouter<any, any, any, any, any>, TConfig extends RequestProcessorConfig<TRouter>> {
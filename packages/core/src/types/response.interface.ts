@@ -4,6 +4,9 @@ export type IgniterCommonErrorCode =
   | "ERR_UNAUTHORIZED"
   | "ERR_FORBIDDEN"
   | "ERR_NOT_FOUND"
+  | "ERR_CONFLICT"
+  | "ERR_UNPROCESSABLE_ENTITY"
+  | "ERR_TOO_MANY_REQUESTS"
   | "ERR_REDIRECT";
 
 export type IgniterResponseSuccess<TData = unknown> = {
@@ -30,6 +33,9 @@ export type IgniterResponseUnauthorized<TUnauthorizedData = unknown> =
 export type IgniterResponseForbidden<TForbiddenData = unknown> =
   IgniterResponseError<"ERR_FORBIDDEN", TForbiddenData>;
 
+export type IgniterResponseTooManyRequests<TTooManyRequestsData = unknown> =
+  IgniterResponseError<"ERR_TOO_MANY_REQUESTS", TTooManyRequestsData>;
+
 
   export type IgniterResponse<TData = unknown, TError = unknown> =
     | {
@@ -1,7 +1,10 @@
 import type { IgniterControllerConfig } from "./controller.interface";
 import type { DocsConfig, IgniterBaseConfig } from "./builder.interface";
 import type { ContextCallback } from "./context.interface";
-import type { MutationActionCallerResult, QueryActionCallerResult } from "./client.interface";
+import type { IgniterDehydratedQuery, InfiniteQueryActionCallerResult, MutationActionCallerResult, QueryActionCallerResult } from "./client.interface";
+import type { IgniterRealtimeChannel, IgniterRealtimeEndpointOptions } from "./realtime.interface";
+import type { IgniterJobsAdminOptions } from "./jobs.interface";
+import type { IgniterOutboxOptions } from "./outbox.interface";
 
 export type IgniterRouterCaller<
   TControllers extends Record<string, IgniterControllerConfig<any>>, // ✅ Simplificado
@@ -10,10 +13,14 @@ export type IgniterRouterCaller<
     [A in keyof TControllers[C]['actions']]:
     TControllers[C]['actions'][A]['type'] extends 'query' ? {
       type: 'query';
+      key: string;
       useQuery: (...args: any[]) => QueryActionCallerResult<TControllers[C]['actions'][A]>
+      useInfiniteQuery: (...args: any[]) => InfiniteQueryActionCallerResult<TControllers[C]['actions'][A]>
       query: (input: any) => Promise<TControllers[C]['actions'][A]['$Infer']['$Response']>
+      prefetch: (input?: any) => Promise<IgniterDehydratedQuery<TControllers[C]['actions'][A]['$Infer']['$Output']>>
     } : {
       type: 'mutation';
+      key: string;
       useMutation: (...args: any[]) => MutationActionCallerResult<TControllers[C]['actions'][A]>
       mutation: (input: any) => Promise<TControllers[C]['actions'][A]['$Infer']['$Response']>
     }
@@ -32,6 +39,10 @@ export type IgniterRouterConfig<
   context: TContext;  
   plugins: TPlugins;
   docs: TDocs;
+  channels?: Record<string, IgniterRealtimeChannel<any, any>>;
+  realtime?: IgniterRealtimeEndpointOptions;
+  jobsAdmin?: IgniterJobsAdminOptions;
+  outbox?: IgniterOutboxOptions;
 }
 
 export type IgniterRouter<
@@ -47,4 +58,5 @@ export type IgniterRouter<
   $context: TContext;
   $plugins: TPlugins;
   $caller: IgniterRouterCaller<TControllers>;
+  channels?: Record<string, IgniterRealtimeChannel<any, any>>;
 }
\ No newline at end of file
@@ -8,6 +8,16 @@ export interface KeyValueOptions {
   ttl?: number;
 }
 
+/**
+ * Options for appending a value to a list in the store.
+ */
+export interface ListPushOptions extends KeyValueOptions {
+  /**
+   * Maximum number of values kept in the list, the oldest values are dropped first.
+   */
+  maxLength?: number;
+}
+
 /**
  * Callback function for handling messages from a subscribed channel.
  * @param message The message received from the channel, automatically parsed.
@@ -73,6 +83,58 @@ export interface IgniterStoreAdapter<TClient extends unknown = unknown> {
    */
   expire(key: string, ttl: number): Promise<void>;
 
+  /**
+   * Atomically stores a value only if the key does not exist, setting its TTL in the same operation.
+   * @param key The key to store the value under.
+   * @param value The value to store (will be auto-serialized).
+   * @param options Configuration options, such as TTL.
+   * @returns `true` if the value was stored, `false` if the key already existed.
+   */
+  setIfAbsent(key: string, value: any, options?: KeyValueOptions): Promise<boolean>;
+
+  // --- List Operations ---
+  // Optional: without them, the event histories of the realtime channels are kept in memory.
+
+  /**
+   * Atomically appends a value to the list stored at a key, creating the list if it does not exist.
+   * The list is trimmed to `maxLength` and its TTL refreshed in the same operation.
+   * @param key The key of the list.
+   * @param value The value to append (will be auto-serialized).
+   * @param options Configuration options, such as the maximum length and TTL.
+   */
+  pushToList?(key: string, value: any, options?: ListPushOptions): Promise<void>;
+
+  /**
+   * Retrieves every value of the list stored at a key, oldest first.
+   * @param key The key of the list.
+   * @returns The values (auto-deserialized), or an empty array if the list does not exist.
+   */
+  getList?<T = any>(key: string): Promise<T[]>;
+
+  // --- Set Operations ---
+  // Optional: without them, presence members are kept in memory and outboxes cannot be durable.
+
+  /**
+   * Atomically adds a member to the set stored at a key, creating the set if it does not exist.
+   * @param key The key of the set.
+   * @param member The member to add.
+   */
+  addToSet?(key: string, member: string): Promise<void>;
+
+  /**
+   * Atomically removes a member from the set stored at a key.
+   * @param key The key of the set.
+   * @param member The member to remove.
+   * @returns `true` if the member was in the set, otherwise `false`.
+   */
+  removeFromSet?(key: string, member: string): Promise<boolean>;
+
+  /**
+   * Retrieves the members of the set stored at a key.
+   * @param key The key of the set.
+   * @returns The members, or an empty array if the set does not exist.
+   */
+  getSetMembers?(key: string): Promise<string[]>;
 
   // --- Pub/Sub Operations ---
 
@@ -0,0 +1,111 @@
+/**
+ * Matches the `{param}` placeholders of a channel name pattern
+ */
+const CHANNEL_PARAM_REGEX = /\{([^{}]+)\}/g;
+
+/**
+ * Name pattern of the realtime channels of jobs, streaming their state
+ */
+export const JOB_CHANNEL_PATTERN = "jobs:{jobId}";
+
+/**
+ * Checks whether a channel name is a pattern with `{param}` placeholders.
+ *
+ * @param name - The channel name
+ * @returns `true` for names such as `chat:room:{roomId}`
+ */
+export function isChannelPattern(name: string): boolean {
+  return /\{[^{}]+\}/.test(name);
+}
+
+/**
+ * Lists the parameters of a channel name pattern.
+ *
+ * @param pattern - The channel name pattern
+ * @returns The parameter names, in order
+ *
+ * @example
+ * ```typescript
+ * getChannelParams('chat:room:{roomId}'); // ['roomId']
+ * ```
+ */
+export function getChannelParams(pattern: string): string[] {
+  return Array.from(pattern.matchAll(CHANNEL_PARAM_REGEX), (match) => match[1]);
+}
+
+/**
+ * Builds a channel name from a pattern and its parameters.
+ *
+ * @param pattern - The channel name pattern
+ * @param params - The parameter values
+ * @returns The channel name
+ * @throws {Error} When a parameter is missing
+ *
+ * @example
+ * ```typescript
+ * formatChannelName('chat:room:{roomId}', { roomId: 42 }); // 'chat:room:42'
+ * ```
+ */
+export function formatChannelName(
+  pattern: string,
+  params: Record<string, string | number> = {},
+): string {
+  return pattern.replace(CHANNEL_PARAM_REGEX, (_, param: string) => {
+    const value = params[param];
+    if (value === undefined || value === null || value === "") {
+      throw new Error(`Missing parameter '${param}' for channel '${pattern}'`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+/**
+ * Matches a channel name against a pattern.
+ * Parameters match any value that does not contain a `:` separator and is validly percent-encoded.
+ *
+ * @param pattern - The channel name pattern
+ * @param name - The channel name
+ * @returns The parameter values, or `null` when the name does not match
+ *
+ * @example
+ * ```typescript
+ * matchChannelName('chat:room:{roomId}', 'chat:room:42'); // { roomId: '42' }
+ * ```
+ */
+export function matchChannelName(
+  pattern: string,
+  name: string,
+): Record<string, string> | null {
+  const params = getChannelParams(pattern);
+  const source = pattern
+    .split(CHANNEL_PARAM_REGEX)
+    .map((part, index) => (index % 2 === 1 ? "([^:]+)" : part.replace(/[.*+?^$()|[\]\\]/g, "\\$&")))
+    .join("");
+
+  const match = new RegExp(`^${source}$`).exec(name);
+  if (!match) return null;
+
+  try {
+    return Object.fromEntries(
+      params.map((param, index) => [param, decodeURIComponent(match[index + 1])]),
+    );
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+}
+
+/**
+ * Builds the name of the realtime channel of a job.
+ *
+ * @param jobId - The job ID
+ * @returns The channel name
+ *
+ * @example
+ * ```typescript
+ * getJobChannel('9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d'); // 'jobs:9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d'
+ * ```
+ */
+export function getJobChannel(jobId: string): string {
+  return formatChannelName(JOB_CHANNEL_PATTERN, { jobId });
+}
@@ -0,0 +1,19 @@
+/**
+ * Request headers identifying the caller
+ */
+const CREDENTIAL_HEADERS = ["authorization", "cookie"];
+
+/**
+ * Resolves a store key segment identifying the caller of a request, from a SHA-256 hash
+ * of its credentials, so the credentials never appear in the store keys.
+ *
+ * @param headers - The request headers
+ * @returns The hash of the `Authorization` and `Cookie` headers, or `anonymous` without credentials
+ */
+export async function getCredentialScope(headers: Headers): Promise<string> {
+  const credentials = CREDENTIAL_HEADERS.map((name) => headers.get(name) || "").join("\n");
+  if (!credentials.trim()) return "anonymous";
+
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(credentials));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,137 @@
+/**
+ * Allowed values of a parsed cron expression, per field
+ */
+export interface CronFields {
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether the day of month field restricts the days (not `*`) */
+  restrictsDays: boolean;
+  /** Whether the day of week field restricts the days (not `*`) */
+  restrictsWeekdays: boolean;
+}
+
+/**
+ * Number of years searched for the next occurrence before giving up
+ */
+const CRON_SEARCH_YEARS = 5;
+
+/**
+ * Parses a single cron field into the set of values it allows.
+ */
+function parseCronField(field: string, min: number, max: number, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepValue] = part.split("/");
+    const step = stepValue === undefined ? 1 : Number(stepValue);
+    let start: number;
+    let end: number;
+
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      [start, end] = range.split("-").map(Number);
+    } else {
+      start = Number(range);
+      end = stepValue === undefined ? start : max;
+    }
+
+    if (
+      !Number.isInteger(start) || !Number.isInteger(end) || !Number.isInteger(step) ||
+      step < 1 || start < min || end > max || start > end
+    ) {
+      throw new Error(`Invalid cron expression "${expression}": field "${field}" must be within ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a cron expression with 5 fields (minute hour day month weekday), or 6 fields
+ * with a leading seconds field. Fields support `*`, lists (`1,2`), ranges (`1-5`) and steps (`*\/15`).
+ *
+ * @param expression - The cron expression
+ * @returns The allowed values of every field
+ * @throws {Error} When the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 or 6 fields, got ${fields.length}`);
+  }
+
+  const [second, minute, hour, day, month, weekday] = fields.length === 6 ? fields : ["0", ...fields];
+  const weekdays = parseCronField(weekday, 0, 7, expression);
+  // Both 0 and 7 mean Sunday
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    seconds: parseCronField(second, 0, 59, expression),
+    minutes: parseCronField(minute, 0, 59, expression),
+    hours: parseCronField(hour, 0, 23, expression),
+    days: parseCronField(day, 1, 31, expression),
+    months: parseCronField(month, 1, 12, expression),
+    weekdays,
+    restrictsDays: day !== "*",
+    restrictsWeekdays: weekday !== "*",
+  };
+}
+
+/**
+ * Computes the next date matching a cron expression, in local time.
+ * As in standard cron, a date matches when either the day of month or the day of week
+ * matches if both fields are restricted.
+ *
+ * @param expression - The cron expression
+ * @param from - The date to search from (exclusive)
+ * @returns The next matching date
+ * @throws {Error} When the expression is invalid or never matches
+ *
+ * @example
+ * ```typescript
+ * getNextCronDate('0 9 * * 1-5', new Date('2024-01-05T10:00:00')); // Mon Jan 08 2024 09:00
+ * ```
+ */
+export function getNextCronDate(expression: string, from: Date = new Date()): Date {
+  const cron = parseCronExpression(expression);
+  const date = new Date(from.getTime());
+  date.setMilliseconds(0);
+  date.setSeconds(date.getSeconds() + 1);
+
+  const matchesDay = () => {
+    const day = cron.days.has(date.getDate());
+    const weekday = cron.weekdays.has(date.getDay());
+    if (cron.restrictsDays && cron.restrictsWeekdays) return day || weekday;
+    return day && weekday;
+  };
+
+  while (date.getFullYear() <= from.getFullYear() + CRON_SEARCH_YEARS) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0);
+    } else if (!matchesDay()) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0);
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0);
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0);
+    } else if (!cron.seconds.has(date.getSeconds())) {
+      date.setSeconds(date.getSeconds() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" has no occurrence in the next ${CRON_SEARCH_YEARS} years`);
+}
@@ -0,0 +1,54 @@
+import type { IgniterDehydratedQuery, IgniterDehydratedState } from '../types/client.interface';
+import { generateActionQueryKey } from './queryKey';
+import { normalizeResponseData } from './response';
+
+/**
+ * Runs a query and keys its result like the client cache does, for the `prefetch` of the callers.
+ * A failed query resolves with its error, so a failing prefetch does not fail the render.
+ *
+ * @param path The action, e.g. `users.list`
+ * @param input The input of the query
+ * @param fetcher Runs the query with the input
+ */
+export async function prefetchQuery<TData = unknown>(
+  path: string,
+  input: { query?: unknown; params?: unknown } | undefined,
+  fetcher: () => Promise<unknown>,
+): Promise<IgniterDehydratedQuery<TData>> {
+  const queryKey = generateActionQueryKey(path, input);
+
+  try {
+    const response = normalizeResponseData<TData>(await fetcher());
+    return { queryKey, data: response.data, error: response.error, updatedAt: Date.now() };
+  } catch (error) {
+    return { queryKey, data: null, error, updatedAt: Date.now() };
+  }
+}
+
+/**
+ * Collects prefetched queries into the state passed to the `IgniterProvider` as `dehydratedState`.
+ * Failed queries are left out, so the client fetches them again.
+ *
+ * @param queries The results of `prefetch`, or their promises
+ *
+ * @example
+ * ```tsx
+ * const dehydratedState = await dehydrate([
+ *   api.users.list.prefetch(),
+ *   api.users.getById.prefetch({ params: { id } }),
+ * ]);
+ *
+ * <IgniterProvider dehydratedState={dehydratedState}>{children}</IgniterProvider>
+ * ```
+ */
+export async function dehydrate(
+  queries: (IgniterDehydratedQuery<any> | Promise<IgniterDehydratedQuery<any>>)[],
+): Promise<IgniterDehydratedState> {
+  const results = await Promise.all(queries);
+
+  return {
+    queries: results
+      .filter((query) => !query.error)
+      .map(({ queryKey, data, updatedAt }) => ({ queryKey, data, error: null, updatedAt })),
+  };
+}
@@ -1,6 +1,10 @@
 export * from './cache';
+export * from './channel';
 export * from './client';
+export * from './cron';
+export * from './ip';
 export { parseResponse, preserveUnion, conditionalResponse } from './response';
+export * from './schema';
 export * from './try-catch';
 export * from './url';
 export * from './logger';
@@ -0,0 +1,65 @@
+/**
+ * Options of `getClientIP`
+ */
+export interface ClientIPOptions {
+  /**
+   * Number of trusted proxies in front of the app, each appending the address it received
+   * the request from to `x-forwarded-for`. The client address is read that many entries from
+   * the end, so addresses a client prepends to the header are ignored. Use `0` when the app
+   * is exposed directly, so the forwarding headers, set by the client, are not trusted at all.
+   * The client address is then unknown and every request resolves to `127.0.0.1`: an app behind
+   * a proxy must set the number of proxies, or all of its clients share the same address.
+   * @default 0
+   */
+  trustedProxies?: number;
+}
+
+/**
+ * Extracts the client IP address from the request headers.
+ * Reads `x-forwarded-for` from the end, skipping the entries appended by the trusted proxies,
+ * then falls back to `x-real-ip` and `x-client-ip`, set by the proxy.
+ *
+ * @param headers - The request headers
+ * @param options - The number of trusted proxies
+ * @returns The client IP address, or `127.0.0.1` when it cannot be trusted or none of the headers is present
+ *
+ * @example
+ * ```typescript
+ * // Behind a load balancer
+ * const ip = getClientIP(request.headers, { trustedProxies: 1 });
+ *
+ * // Behind a CDN and a load balancer
+ * const ip = getClientIP(request.headers, { trustedProxies: 2 });
+ * ```
+ */
+export function getClientIP(headers: Headers, options: ClientIPOptions = {}): string {
+  const trustedProxies = options.trustedProxies ?? 0;
+
+  // Without a proxy, the forwarding headers come from the client
+  if (trustedProxies <= 0) {
+    return "127.0.0.1";
+  }
+
+  const forwarded = headers.get("x-forwarded-for");
+  if (forwarded) {
+    const addresses = forwarded.split(",").map((address) => address.trim()).filter(Boolean);
+    const address = addresses[Math.max(0, addresses.length - trustedProxies)];
+    if (address) return address;
+  }
+
+  const ip = headers.get("x-real-ip") ||
+    headers.get("x-client-ip");
+
+  // In local development, it might be undefined
+  return ip || "127.0.0.1";
+}
+
+/**
+ * Checks whether the request carries the client address headers set by a proxy.
+ *
+ * @param headers - The request headers
+ * @returns `true` if any of `x-forwarded-for`, `x-real-ip` or `x-client-ip` is present
+ */
+export function hasForwardedIP(headers: Headers): boolean {
+  return ["x-forwarded-for", "x-real-ip", "x-client-ip"].some((name) => headers.has(name));
+}
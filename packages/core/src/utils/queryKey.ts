@@ -52,3 +52,44 @@ export const generateQueryKey = (
   const sortedInput = sortObjectKeys(input);
   return `${actionPath}:${JSON.stringify(sortedInput)}`;
 };
+
+/**
+ * Normalizes input parameters to ensure consistent query key generation
+ * Converts undefined query/params to empty objects to avoid inconsistencies
+ */
+export function normalizeInputParams<T extends { query?: any, params?: any, body?: any }>(
+  input: T | undefined
+): T {
+  if (!input) {
+    return { query: {}, params: {}, body: {} } as T;
+  }
+
+  return {
+    ...input,
+    query: input.query || {},
+    params: input.params || {},
+    body: input.body || {}
+  } as T;
+}
+
+/**
+ * Generates the key the client caches a query under, from the `query` and `params` of its input.
+ * Shared by the client cache and the server prefetching, so both produce the same keys.
+ *
+ * @param path The action, e.g. `users.list`
+ * @param input The input of the query. Its other fields are not part of the key.
+ *
+ * @example
+ * generateActionQueryKey('users.getById', { params: { id: 1 } })
+ * // => 'users.getById:{"body":{},"params":{"id":1},"query":{}}'
+ */
+export const generateActionQueryKey = (
+  path: string,
+  input?: { query?: unknown; params?: unknown },
+): string => {
+  const [controller, action] = path.split('.');
+  return generateQueryKey(controller, action, normalizeInputParams({
+    query: input?.query,
+    params: input?.params,
+  }));
+};
@@ -0,0 +1,42 @@
+import type { StandardSchemaV1 } from "../types/schema.interface";
+
+/**
+ * Validates a value against any StandardSchemaV1 compliant schema (Zod, Valibot, ArkType, ...).
+ * Always resolves, even when the underlying schema validates synchronously.
+ *
+ * @template TSchema - The schema used for validation
+ * @param schema - The StandardSchemaV1 schema
+ * @param value - The value to validate
+ * @returns The validation result with either the parsed value or the list of issues
+ *
+ * @example
+ * ```typescript
+ * const result = await validateStandardSchema(z.object({ id: z.number() }), payload);
+ * if (result.issues) {
+ *   console.error(result.issues);
+ * }
+ * ```
+ */
+export async function validateStandardSchema<TSchema extends StandardSchemaV1>(
+  schema: TSchema,
+  value: unknown,
+): Promise<StandardSchemaV1.Result<StandardSchemaV1.InferOutput<TSchema>>> {
+  return schema["~standard"].validate(value) as Promise<
+    StandardSchemaV1.Result<StandardSchemaV1.InferOutput<TSchema>>
+  >;
+}
+
+/**
+ * Checks whether a value implements the StandardSchemaV1 interface.
+ *
+ * @param value - The value to check
+ * @returns `true` if the value exposes a `~standard` validate function
+ */
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return (
+    !!value &&
+    (typeof value === "object" || typeof value === "function") &&
+    "~standard" in (value as object) &&
+    typeof (value as StandardSchemaV1)["~standard"]?.validate === "function"
+  );
+}
@@ -91,6 +91,8 @@ export default defineConfig([
       'index': 'src/client/index.ts',
       'index.server': 'src/client/index.server.ts',
       'index.browser': 'src/client/index.browser.ts',
+      'vue': 'src/client/igniter.vue.ts',
+      'svelte': 'src/client/igniter.svelte.ts',
     },
     format: ['cjs', 'esm'],
     dts: {
@@ -102,6 +104,8 @@ export default defineConfig([
     external: [
       'react', 
       'react-dom',
+      'vue',
+      'svelte',
     ],
   }
 ])
\ No newline at end of file